@@ -1,7 +1,14 @@
+import type { Metadata } from 'next'
 import { getSupabaseClient } from '@/lib/supabase'
-import { Profile, Section } from '@/lib/types'
 import ProfileCard from '@/components/ProfileCard'
-import { notFound } from 'next/navigation'
+import { notFound, permanentRedirect, redirect } from 'next/navigation'
+import { headers } from 'next/headers'
+import { recordEvent, referrerHost } from '@/lib/analytics'
+import { getProfileGate, getPublicProfile, getRenamedUsername } from '@/lib/publicProfile'
+import { isListed, unlockPath } from '@/lib/access'
+import { isAppHostname } from '@/lib/domains'
+import { fallbackRenditionUrl } from '@/lib/storage'
+import { personJsonLd, profileDescription, profileTitle, requestOrigin, serializeJsonLd } from '@/lib/seo'
 
 // Always serve fresh profile data; disable Next.js caching for this page
 export const revalidate = 0
@@ -12,38 +19,96 @@ interface PageProps {
   }
 }
 
-async function getProfile(username: string) {
-  const supabase = getSupabaseClient()
-  
-  const { data: profile } = await supabase
-    .from('profiles')
-    .select('*')
-    .eq('username', username.toLowerCase())
-    .single<Profile>()
-
-  if (!profile) {
-    return null
+// Absolute URLs for the host the visitor actually used. On a custom domain
+// the profile lives at the root, since middleware rewrites "/" to it.
+function publicUrls(username: string) {
+  const { origin, hostname } = requestOrigin()
+
+  return {
+    profile: isAppHostname(hostname) ? `${origin}/${username}` : `${origin}/`,
+    card: `${origin}/api/og/${username}`,
   }
+}
+
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const data = await getPublicProfile(params.username)
 
-  // TypeScript now knows profile is Profile (not null)
-  const profileId: string = profile.id
+  if (!data) {
+    return { title: 'Profile not found · Selfbook' }
+  }
 
-  const { data: sections } = await supabase
-    .from('sections')
-    .select('*')
-    .eq('profile_id', profileId)
-    .eq('visible', true)
-    .order('position')
+  const { profile } = data
+  const title = profileTitle(profile)
+  const description = profileDescription(profile)
+  const urls = publicUrls(profile.username)
 
-  return { profile, sections: sections || [] }
+  return {
+    title: `${title} · Selfbook`,
+    description,
+    alternates: { canonical: urls.profile },
+    // Unlisted and gated profiles stay out of search results
+    ...(isListed(profile.access) ? {} : { robots: { index: false, follow: false } }),
+    openGraph: {
+      type: 'profile',
+      url: urls.profile,
+      title,
+      description,
+      siteName: 'Selfbook',
+      username: profile.username,
+      images: [
+        { url: urls.card, width: 1200, height: 630, alt: title },
+        ...(profile.avatar_url
+          ? [{ url: fallbackRenditionUrl(profile.avatar_url) || profile.avatar_url, alt: title }]
+          : []),
+      ],
+    },
+    twitter: {
+      card: 'summary_large_image',
+      title,
+      description,
+      images: [urls.card],
+    },
+  }
 }
 
 export default async function PublicProfilePage({ params }: PageProps) {
-  const data = await getProfile(params.username)
+  const data = await getPublicProfile(params.username)
 
   if (!data) {
+    // Old handles permanently redirect to the profile's current one
+    const renamed = await getRenamedUsername(params.username)
+    if (renamed) {
+      permanentRedirect(`/${renamed}`)
+    }
+
+    // Gated profiles ask for a password or a sign-in rather than 404ing
+    const gate = await getProfileGate(params.username)
+    if (gate === 'password' || gate === 'signed_in') {
+      redirect(unlockPath(params.username.toLowerCase(), gate))
+    }
+
     notFound()
   }
 
-  return <ProfileCard profile={data.profile} sections={data.sections} />
+  await recordEvent(getSupabaseClient(), {
+    profile_id: data.profile.id,
+    type: 'page_view',
+    referrer: referrerHost(headers().get('referer')),
+  })
+
+  // Structured data only describes what search engines may list
+  const listedSections = data.sections.filter((section) => isListed(section.access))
+  const jsonLd = personJsonLd(data.profile, listedSections, publicUrls(data.profile.username).profile)
+
+  return (
+    <>
+      <script type="application/ld+json" dangerouslySetInnerHTML={{ __html: serializeJsonLd(jsonLd) }} />
+      <ProfileCard
+        profile={data.profile}
+        sections={data.sections}
+        lockedSections={data.locked}
+        follows={data.follows}
+      />
+    </>
+  )
 }
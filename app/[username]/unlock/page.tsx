@@ -0,0 +1,96 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { Lock } from 'lucide-react'
+
+interface PageProps {
+  params: {
+    username: string
+  }
+  searchParams: {
+    section?: string
+  }
+}
+
+// Password prompt for a protected profile, or for one section of it when
+// ?section= is set. A correct password sets the unlock cookie and returns
+// the visitor to the profile.
+export default function UnlockPage({ params, searchParams }: PageProps) {
+  const [password, setPassword] = useState('')
+  const [error, setError] = useState('')
+  const [loading, setLoading] = useState(false)
+  const router = useRouter()
+  const username = params.username.toLowerCase()
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+    setLoading(true)
+
+    const response = await fetch('/api/access/unlock', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify({ username, section_id: searchParams.section, password }),
+    })
+
+    if (response.ok) {
+      router.push(`/${username}`)
+      router.refresh()
+    } else {
+      const result = await response.json()
+      setError(result.error || 'Could not unlock')
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-black p-4">
+      <div className="max-w-md w-full border border-gray-800 p-10">
+        <Lock size={28} className="mx-auto mb-6 text-gray-500" />
+        <h1 className="text-3xl font-serif text-center mb-3">@{username}</h1>
+        <p className="text-gray-400 text-center mb-10 text-sm">
+          {searchParams.section
+            ? 'This section is password protected'
+            : 'This profile is password protected'}
+        </p>
+
+        <form onSubmit={handleUnlock} className="space-y-6">
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            className="w-full px-4 py-3 bg-black border border-gray-800 text-white focus:border-white focus:outline-none transition"
+            placeholder="Password"
+            autoFocus
+            required
+          />
+
+          {error && (
+            <div className="bg-gray-900 border border-gray-700 text-red-400 px-4 py-3 text-sm">
+              {error}
+            </div>
+          )}
+
+          <button
+            type="submit"
+            disabled={loading}
+            className="w-full bg-white text-black py-3 font-medium hover:bg-gray-200 transition disabled:opacity-50 disabled:cursor-not-allowed rounded-lg"
+          >
+            {loading ? 'Unlocking...' : 'Unlock'}
+          </button>
+        </form>
+
+        {searchParams.section && (
+          <p className="text-center text-gray-500 mt-8 text-sm">
+            <Link href={`/${username}`} className="text-white hover:underline">
+              Back to the profile
+            </Link>
+          </p>
+        )}
+      </div>
+    </div>
+  )
+}
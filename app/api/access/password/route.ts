@@ -0,0 +1,86 @@
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { NextResponse } from 'next/server'
+import { canEditProfile, canManageProfile, canViewProfile, getProfileRole } from '@/lib/permissions'
+import { MIN_ACCESS_PASSWORD_LENGTH } from '@/lib/access'
+
+// Passwords for password-protected profiles and sections. target_id is the
+// profile's own ID or one of its section IDs. The password itself is never
+// returned, only whether one is set.
+export async function GET(request: Request) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { searchParams } = new URL(request.url)
+  const profileId = searchParams.get('profile_id')
+  const targetId = searchParams.get('target_id') || profileId
+
+  if (!profileId || !targetId) {
+    return NextResponse.json({ error: 'Profile ID required' }, { status: 400 })
+  }
+
+  const role = await getProfileRole(supabase, profileId)
+
+  if (!canViewProfile(role)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 403 })
+  }
+
+  const { data, error } = await supabase.rpc('has_access_password', { p_target_id: targetId })
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  return NextResponse.json({ has_password: data === true })
+}
+
+// Setting a new password signs out everyone who unlocked with the old one
+export async function PUT(request: Request) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const body = await request.json()
+  const { profile_id, password } = body
+  const targetId = body.target_id || profile_id
+
+  if (!profile_id) {
+    return NextResponse.json({ error: 'Profile ID required' }, { status: 400 })
+  }
+
+  if (typeof password !== 'string' || password.length < MIN_ACCESS_PASSWORD_LENGTH) {
+    return NextResponse.json(
+      { error: `Password must be at least ${MIN_ACCESS_PASSWORD_LENGTH} characters` },
+      { status: 400 }
+    )
+  }
+
+  // Profile passwords are for the owner; section passwords for any editor
+  const role = await getProfileRole(supabase, profile_id)
+  const allowed = targetId === profile_id ? canManageProfile(role) : canEditProfile(role)
+
+  if (!allowed) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 403 })
+  }
+
+  const { error } = await supabase.rpc('set_access_password', {
+    p_profile_id: profile_id,
+    p_target_id: targetId,
+    p_password: password,
+  })
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  return NextResponse.json({ has_password: true })
+}
@@ -0,0 +1,78 @@
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { NextRequest, NextResponse } from 'next/server'
+import { clientHash } from '@/lib/clientAddress'
+import { createServiceClient } from '@/lib/serviceClient'
+import { UNLOCK_COOKIE, UNLOCK_MAX_AGE, addUnlockToken } from '@/lib/unlock'
+
+// Trade a password for an unlock token and remember it in the unlock cookie.
+// Without section_id the password is for the profile itself. Attempts are
+// counted in the database, which is why unlock_access() needs the service role.
+export async function POST(request: NextRequest) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  const body = await request.json()
+  const { username, section_id, password } = body
+
+  if (typeof username !== 'string' || typeof password !== 'string' || !password) {
+    return NextResponse.json({ error: 'Username and password required' }, { status: 400 })
+  }
+
+  if (section_id !== undefined && typeof section_id !== 'string') {
+    return NextResponse.json({ error: 'Invalid section ID' }, { status: 400 })
+  }
+
+  const { data: gates, error: gateError } = await supabase.rpc('profile_gate', { p_username: username })
+
+  if (gateError) {
+    return NextResponse.json({ error: gateError.message }, { status: 500 })
+  }
+
+  const gate = (gates as { profile_id: string }[] | null)?.[0]
+
+  if (!gate) {
+    return NextResponse.json({ error: 'Profile not found' }, { status: 404 })
+  }
+
+  const admin = createServiceClient()
+  const client = clientHash(request)
+
+  if (!admin || !client) {
+    return NextResponse.json({ error: 'Password unlocks are not configured' }, { status: 501 })
+  }
+
+  const { data: results, error } = await admin.rpc('unlock_access', {
+    p_profile_id: gate.profile_id,
+    p_target_id: section_id || gate.profile_id,
+    p_password: password,
+    p_client_hash: client,
+  })
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  const { token, locked } = (results as { token: string | null; locked: boolean }[] | null)?.[0] || {}
+
+  if (locked) {
+    return NextResponse.json(
+      { error: 'Too many attempts. Try again later.' },
+      { status: 429, headers: { 'Retry-After': '900' } }
+    )
+  }
+
+  if (typeof token !== 'string') {
+    return NextResponse.json({ error: 'Incorrect password' }, { status: 401 })
+  }
+
+  const response = NextResponse.json({ success: true })
+  response.cookies.set(UNLOCK_COOKIE, addUnlockToken(cookies().get(UNLOCK_COOKIE)?.value, token), {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: UNLOCK_MAX_AGE,
+  })
+
+  return response
+}
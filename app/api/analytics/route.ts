@@ -0,0 +1,42 @@
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { NextResponse } from 'next/server'
+import { canViewProfile, getProfileRole } from '@/lib/permissions'
+
+const MAX_DAYS = 365
+
+export async function GET(request: Request) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { searchParams } = new URL(request.url)
+  const profileId = searchParams.get('profile_id')
+  const days = Math.min(Math.max(Number(searchParams.get('days')) || 30, 1), MAX_DAYS)
+
+  if (!profileId) {
+    return NextResponse.json({ error: 'Profile ID required' }, { status: 400 })
+  }
+
+  // Verify user can view the profile
+  const role = await getProfileRole(supabase, profileId)
+
+  if (!canViewProfile(role)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 403 })
+  }
+
+  const { data: analytics, error } = await supabase.rpc('profile_analytics', {
+    p_profile_id: profileId,
+    p_days: days,
+  })
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  return NextResponse.json(analytics)
+}
@@ -0,0 +1,84 @@
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { NextRequest, NextResponse } from 'next/server'
+import { clientHash } from '@/lib/clientAddress'
+import { createServiceClient } from '@/lib/serviceClient'
+import { unlockHeaders } from '@/lib/unlock'
+import { HONEYPOT_FIELD, validateMessageValues } from '@/lib/messages'
+import { normalizeSectionContent } from '@/lib/sectionContent'
+import { ContactFormContent } from '@/lib/types'
+
+// Public endpoint behind contact_form sections
+export async function POST(request: NextRequest) {
+  // Reads as the visitor, so forms in locked sections stay closed
+  const supabase = createRouteHandlerClient({ cookies }, { options: { global: { headers: unlockHeaders() } } })
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 })
+  }
+
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 })
+  }
+
+  const fields = body as Record<string, unknown>
+  const { section_id, values } = fields
+
+  if (typeof section_id !== 'string') {
+    return NextResponse.json({ error: 'Section ID required' }, { status: 400 })
+  }
+
+  // Bots that fill every input get a success response and nothing is stored
+  if (fields[HONEYPOT_FIELD]) {
+    return NextResponse.json({ success: true })
+  }
+
+  const { data: section } = await supabase
+    .from('sections')
+    .select('type, content')
+    .eq('id', section_id)
+    .single()
+
+  if (!section || section.type !== 'contact_form') {
+    return NextResponse.json({ error: 'Form not found' }, { status: 404 })
+  }
+
+  const form = normalizeSectionContent('contact_form', section.content) as ContactFormContent
+  const result = validateMessageValues(form, values)
+
+  if (!result.ok) {
+    return NextResponse.json({ error: 'Invalid message', errors: result.errors }, { status: 422 })
+  }
+
+  // submit_message() counts submissions per sender, so visitors can't call it
+  // with a sender hash of their own choosing
+  const admin = createServiceClient()
+  const sender = clientHash(request)
+
+  if (!admin || !sender) {
+    return NextResponse.json({ error: 'Contact forms are not configured' }, { status: 501 })
+  }
+
+  const { data: messageId, error } = await admin.rpc('submit_message', {
+    p_section_id: section_id,
+    p_fields: result.value.fields,
+    p_reply_to: result.value.replyTo,
+    p_sender_hash: sender,
+  })
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  if (!messageId) {
+    return NextResponse.json(
+      { error: 'Too many messages. Try again later.' },
+      { status: 429, headers: { 'Retry-After': '3600' } }
+    )
+  }
+
+  return NextResponse.json({ success: true })
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server'
+import { createServiceClient } from '@/lib/serviceClient'
+import { deliverDueWebhooks } from '@/lib/webhookDelivery'
+
+// Deliveries per run; anything left over is picked up by the next run
+const BATCH_SIZE = 50
+
+// Drains the webhook retry queue for every profile. Meant to be called by a
+// scheduler every minute or so with `Authorization: Bearer $CRON_SECRET`
+// (Vercel Cron sends this header itself). Needs SUPABASE_SERVICE_ROLE_KEY,
+// since no signed-in user is involved.
+export async function GET(request: Request) {
+  const cronSecret = process.env.CRON_SECRET
+  const supabase = createServiceClient()
+
+  if (!cronSecret || !supabase) {
+    return NextResponse.json({ error: 'Webhook worker is not configured' }, { status: 501 })
+  }
+
+  if (request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const attempted = await deliverDueWebhooks(supabase, null, BATCH_SIZE)
+
+  return NextResponse.json({ attempted })
+}
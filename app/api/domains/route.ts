@@ -0,0 +1,134 @@
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { NextResponse } from 'next/server'
+import { canManageProfile, getProfileRole } from '@/lib/permissions'
+import { randomBytes } from 'crypto'
+import { isAppHostname, isValidHostname, normalizeHostname } from '@/lib/domains'
+
+export async function GET(request: Request) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { searchParams } = new URL(request.url)
+  const profileId = searchParams.get('profile_id')
+
+  if (!profileId) {
+    return NextResponse.json({ error: 'Profile ID required' }, { status: 400 })
+  }
+
+  // RLS limits this to domains on profiles the user owns
+  const { data: domains, error } = await supabase
+    .from('domains')
+    .select('*')
+    .eq('profile_id', profileId)
+    .order('created_at')
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  return NextResponse.json(domains)
+}
+
+export async function POST(request: Request) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const body = await request.json()
+  const { profile_id } = body
+  const hostname = normalizeHostname(String(body.hostname || ''))
+
+  if (!isValidHostname(hostname) || isAppHostname(hostname)) {
+    return NextResponse.json({ error: 'Invalid hostname' }, { status: 400 })
+  }
+
+  // Verify user can manage the profile
+  const role = await getProfileRole(supabase, profile_id)
+
+  if (!canManageProfile(role)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 403 })
+  }
+
+  // Pending claims don't block each other, but a verified domain is taken
+  const { data: claimedBy } = await supabase.rpc('resolve_domain', { p_hostname: hostname })
+
+  if (claimedBy) {
+    return NextResponse.json({ error: 'Domain is already in use' }, { status: 409 })
+  }
+
+  const { data: domain, error } = await supabase
+    .from('domains')
+    .insert({
+      profile_id,
+      hostname,
+      verification_token: randomBytes(16).toString('hex'),
+    })
+    .select()
+    .single()
+
+  if (error) {
+    // 23505 = unique_violation on (profile_id, hostname)
+    if (error.code === '23505') {
+      return NextResponse.json({ error: 'Domain is already added to this profile' }, { status: 409 })
+    }
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  return NextResponse.json(domain, { status: 201 })
+}
+
+export async function DELETE(request: Request) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { searchParams } = new URL(request.url)
+  const id = searchParams.get('id')
+
+  if (!id) {
+    return NextResponse.json({ error: 'Domain ID required' }, { status: 400 })
+  }
+
+  // Look up the domain to find its profile
+  const { data: domain } = await supabase
+    .from('domains')
+    .select('profile_id')
+    .eq('id', id)
+    .single()
+
+  if (!domain) {
+    return NextResponse.json({ error: 'Domain not found' }, { status: 404 })
+  }
+
+  // Verify user can manage the profile
+  const role = await getProfileRole(supabase, domain.profile_id)
+
+  if (!canManageProfile(role)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 403 })
+  }
+
+  const { error } = await supabase
+    .from('domains')
+    .delete()
+    .eq('id', id)
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  return NextResponse.json({ success: true })
+}
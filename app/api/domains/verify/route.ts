@@ -0,0 +1,75 @@
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { NextResponse } from 'next/server'
+import { canManageProfile, getProfileRole } from '@/lib/permissions'
+import { verifyDomain } from '@/lib/domains'
+import { systemDnsResolver } from '@/lib/dns'
+import { createServiceClient } from '@/lib/serviceClient'
+
+export async function POST(request: Request) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const body = await request.json()
+  const { id } = body
+
+  // Look up the domain to find its profile
+  const { data: domain } = await supabase
+    .from('domains')
+    .select('id, profile_id, hostname, verification_token, verified_at')
+    .eq('id', id)
+    .single()
+
+  if (!domain) {
+    return NextResponse.json({ error: 'Domain not found' }, { status: 404 })
+  }
+
+  // Verify user can manage the profile
+  const role = await getProfileRole(supabase, domain.profile_id)
+
+  if (!canManageProfile(role)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 403 })
+  }
+
+  const verified = await verifyDomain(systemDnsResolver, domain.hostname, domain.verification_token)
+
+  if (!verified) {
+    return NextResponse.json(
+      { error: 'Verification record not found yet. DNS changes can take a while to propagate.' },
+      { status: 422 }
+    )
+  }
+
+  if (domain.verified_at) {
+    return NextResponse.json(domain)
+  }
+
+  // Owners can't write verified_at themselves; only this check may set it
+  const admin = createServiceClient()
+
+  if (!admin) {
+    return NextResponse.json({ error: 'Domain verification is not configured' }, { status: 501 })
+  }
+
+  const { data: updatedDomain, error } = await admin
+    .from('domains')
+    .update({ verified_at: new Date().toISOString() })
+    .eq('id', id)
+    .select()
+    .single()
+
+  if (error) {
+    // 23505 = another profile verified this hostname first
+    if (error.code === '23505') {
+      return NextResponse.json({ error: 'Domain is already in use' }, { status: 409 })
+    }
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  return NextResponse.json(updatedDomain)
+}
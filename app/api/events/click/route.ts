@@ -0,0 +1,45 @@
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { NextResponse } from 'next/server'
+import { unlockHeaders } from '@/lib/unlock'
+import { recordEvent, referrerHost } from '@/lib/analytics'
+import { normalizeSectionContent } from '@/lib/sectionContent'
+
+// Counts an outbound click, then redirects to the link. Only URLs that are
+// actually listed in the section are followed, so this is not an open redirect.
+export async function GET(request: Request) {
+  // Unlocks count, so events in password-protected sections get recorded
+  const supabase = createRouteHandlerClient({ cookies }, { options: { global: { headers: unlockHeaders() } } })
+  const { searchParams } = new URL(request.url)
+  const sectionId = searchParams.get('section_id')
+  const url = searchParams.get('url')
+
+  if (!sectionId || !url) {
+    return NextResponse.json({ error: 'Section ID and URL required' }, { status: 400 })
+  }
+
+  const { data: section } = await supabase
+    .from('sections')
+    .select('profile_id, type, content')
+    .eq('id', sectionId)
+    .single()
+
+  if (!section || section.type !== 'links') {
+    return NextResponse.json({ error: 'Section not found' }, { status: 404 })
+  }
+
+  const content = normalizeSectionContent('links', section.content)
+  if (!('links' in content) || !content.links.some((link) => link.url === url)) {
+    return NextResponse.json({ error: 'Link not found' }, { status: 404 })
+  }
+
+  await recordEvent(supabase, {
+    profile_id: section.profile_id,
+    type: 'link_click',
+    section_id: sectionId,
+    target_url: url,
+    referrer: referrerHost(request.headers.get('referer')),
+  })
+
+  return NextResponse.redirect(url, { status: 302 })
+}
@@ -0,0 +1,37 @@
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { NextResponse } from 'next/server'
+import { unlockHeaders } from '@/lib/unlock'
+import { recordEvent, referrerHost } from '@/lib/analytics'
+
+// Beacon endpoint for client-side events. Page views are recorded by the
+// profile page itself and link clicks by /api/events/click, so only section
+// tab switches arrive here.
+export async function POST(request: Request) {
+  // Unlocks count, so events in password-protected sections get recorded
+  const supabase = createRouteHandlerClient({ cookies }, { options: { global: { headers: unlockHeaders() } } })
+
+  let body: unknown
+  try {
+    // sendBeacon may not set a JSON content type, so parse the raw text
+    body = JSON.parse(await request.text())
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 })
+  }
+
+  const { profile_id, type, section_id } =
+    typeof body === 'object' && body !== null ? (body as Record<string, unknown>) : {}
+
+  if (type !== 'section_view' || typeof profile_id !== 'string' || typeof section_id !== 'string') {
+    return NextResponse.json({ error: 'Invalid event' }, { status: 400 })
+  }
+
+  await recordEvent(supabase, {
+    profile_id,
+    type,
+    section_id,
+    referrer: referrerHost(request.headers.get('referer')),
+  })
+
+  return new NextResponse(null, { status: 204 })
+}
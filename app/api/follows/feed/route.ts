@@ -0,0 +1,57 @@
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { NextResponse } from 'next/server'
+import { unlockHeaders } from '@/lib/unlock'
+import { canViewProfile, getProfileRole } from '@/lib/permissions'
+
+const PAGE_SIZE = 30
+
+// Recently updated sections from the profiles profile_id follows. Pass the
+// last item's updated_at as `before` and its section_id as `before_id` for
+// the next page.
+export async function GET(request: Request) {
+  // Sections the user has unlocked show up too
+  const supabase = createRouteHandlerClient({ cookies }, { options: { global: { headers: unlockHeaders() } } })
+
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { searchParams } = new URL(request.url)
+  const profileId = searchParams.get('profile_id')
+  const before = searchParams.get('before')
+  const beforeId = searchParams.get('before_id')
+
+  if (!profileId) {
+    return NextResponse.json({ error: 'Profile ID required' }, { status: 400 })
+  }
+
+  if (before && Number.isNaN(Date.parse(before))) {
+    return NextResponse.json({ error: 'before must be a date and time' }, { status: 400 })
+  }
+
+  if (!before !== !beforeId) {
+    return NextResponse.json({ error: 'before and before_id go together' }, { status: 400 })
+  }
+
+  const role = await getProfileRole(supabase, profileId)
+
+  if (!canViewProfile(role)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 403 })
+  }
+
+  const { data: items, error } = await supabase.rpc('following_feed', {
+    p_profile_id: profileId,
+    p_limit: PAGE_SIZE,
+    p_before_updated_at: before || null,
+    p_before_id: beforeId || null,
+  })
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  return NextResponse.json({ items, has_more: (items || []).length === PAGE_SIZE })
+}
@@ -0,0 +1,137 @@
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { cookies } from 'next/headers'
+import { NextResponse } from 'next/server'
+import { unlockHeaders } from '@/lib/unlock'
+import { canEditProfile, getProfileRole } from '@/lib/permissions'
+import { FollowCounts } from '@/lib/types'
+
+async function followCounts(supabase: SupabaseClient, profileId: string): Promise<FollowCounts> {
+  const { data } = await supabase.rpc('follow_counts', { p_profile_id: profileId })
+  return (data as FollowCounts[] | null)?.[0] ?? { followers: 0, following: 0 }
+}
+
+// Whether the user, through follower_id or else their first profile, follows profile_id
+export async function GET(request: Request) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { searchParams } = new URL(request.url)
+  const profileId = searchParams.get('profile_id')
+  let followerId = searchParams.get('follower_id')
+
+  if (!profileId) {
+    return NextResponse.json({ error: 'Profile ID required' }, { status: 400 })
+  }
+
+  if (!followerId || !canEditProfile(await getProfileRole(supabase, followerId))) {
+    const { data: owned } = await supabase
+      .from('profiles')
+      .select('id')
+      .eq('user_id', user.id)
+      .order('created_at')
+      .limit(1)
+      .maybeSingle<{ id: string }>()
+
+    followerId = owned?.id ?? null
+  }
+
+  if (!followerId) {
+    return NextResponse.json({ follower_id: null, following: false })
+  }
+
+  const { data: edge, error } = await supabase
+    .from('follows')
+    .select('follower_id')
+    .eq('follower_id', followerId)
+    .eq('following_id', profileId)
+    .maybeSingle()
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  return NextResponse.json({ follower_id: followerId, following: !!edge })
+}
+
+export async function POST(request: Request) {
+  // The target may be a password-protected profile the visitor has unlocked
+  const supabase = createRouteHandlerClient({ cookies }, { options: { global: { headers: unlockHeaders() } } })
+
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const body = await request.json()
+  const { follower_id, profile_id } = body
+
+  if (typeof follower_id !== 'string' || typeof profile_id !== 'string') {
+    return NextResponse.json({ error: 'Follower and profile IDs required' }, { status: 400 })
+  }
+
+  if (follower_id === profile_id) {
+    return NextResponse.json({ error: 'A profile cannot follow itself' }, { status: 400 })
+  }
+
+  const role = await getProfileRole(supabase, follower_id)
+
+  if (!canEditProfile(role)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 403 })
+  }
+
+  const { error } = await supabase.from('follows').insert({ follower_id, following_id: profile_id })
+
+  // Following twice is a no-op
+  if (error && error.code !== '23505') {
+    // The policy refuses profiles the user can't see
+    if (error.code === '42501') {
+      return NextResponse.json({ error: 'Profile not found' }, { status: 404 })
+    }
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  return NextResponse.json({ following: true, counts: await followCounts(supabase, profile_id) })
+}
+
+export async function DELETE(request: Request) {
+  const supabase = createRouteHandlerClient({ cookies }, { options: { global: { headers: unlockHeaders() } } })
+
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { searchParams } = new URL(request.url)
+  const followerId = searchParams.get('follower_id')
+  const profileId = searchParams.get('profile_id')
+
+  if (!followerId || !profileId) {
+    return NextResponse.json({ error: 'Follower and profile IDs required' }, { status: 400 })
+  }
+
+  const role = await getProfileRole(supabase, followerId)
+
+  if (!canEditProfile(role)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 403 })
+  }
+
+  const { error } = await supabase
+    .from('follows')
+    .delete()
+    .eq('follower_id', followerId)
+    .eq('following_id', profileId)
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  return NextResponse.json({ following: false, counts: await followCounts(supabase, profileId) })
+}
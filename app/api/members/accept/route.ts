@@ -0,0 +1,35 @@
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { NextResponse } from 'next/server'
+
+export async function POST(request: Request) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const body = await request.json()
+  const { token } = body
+
+  if (!token) {
+    return NextResponse.json({ error: 'Invitation token required' }, { status: 400 })
+  }
+
+  const { data: profileId, error } = await supabase.rpc('accept_profile_invite', { p_token: token })
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  if (!profileId) {
+    return NextResponse.json(
+      { error: 'This invitation is invalid, already used, or was sent to a different email address' },
+      { status: 404 }
+    )
+  }
+
+  return NextResponse.json({ profile_id: profileId })
+}
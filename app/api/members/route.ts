@@ -0,0 +1,227 @@
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { NextResponse } from 'next/server'
+import { randomBytes } from 'crypto'
+import { canManageProfile, canViewProfile, getProfileRole, isProfileRole } from '@/lib/permissions'
+import { sendEmail } from '@/lib/mailer'
+
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+// Every column members may read; invite tokens come from profile_invite_tokens()
+const MEMBER_COLUMNS = 'id, profile_id, user_id, email, role, invited_by, accepted_at, created_at'
+
+export async function GET(request: Request) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { searchParams } = new URL(request.url)
+  const profileId = searchParams.get('profile_id')
+
+  if (!profileId) {
+    return NextResponse.json({ error: 'Profile ID required' }, { status: 400 })
+  }
+
+  const role = await getProfileRole(supabase, profileId)
+
+  if (!canViewProfile(role)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 403 })
+  }
+
+  const { data: members, error } = await supabase
+    .from('profile_members')
+    .select(MEMBER_COLUMNS)
+    .eq('profile_id', profileId)
+    .order('created_at')
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  if (!canManageProfile(role)) {
+    return NextResponse.json(members)
+  }
+
+  // Owners can copy the link of a pending invitation
+  const { data: tokens, error: tokensError } = await supabase.rpc('profile_invite_tokens', {
+    p_profile_id: profileId,
+  })
+
+  if (tokensError) {
+    return NextResponse.json({ error: tokensError.message }, { status: 500 })
+  }
+
+  const tokenByMember = new Map(
+    ((tokens || []) as { id: string; invite_token: string }[]).map((t) => [t.id, t.invite_token])
+  )
+
+  return NextResponse.json(
+    (members || []).map((member) => ({ ...member, invite_token: tokenByMember.get(member.id) }))
+  )
+}
+
+export async function POST(request: Request) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const body = await request.json()
+  const { profile_id, role } = body
+  const email = String(body.email || '').trim().toLowerCase()
+
+  if (!EMAIL.test(email)) {
+    return NextResponse.json({ error: 'Valid email required' }, { status: 400 })
+  }
+
+  if (!isProfileRole(role)) {
+    return NextResponse.json({ error: 'Unknown role' }, { status: 400 })
+  }
+
+  const currentRole = await getProfileRole(supabase, profile_id)
+
+  if (!canManageProfile(currentRole)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 403 })
+  }
+
+  const inviteToken = randomBytes(24).toString('hex')
+
+  const { data: member, error } = await supabase
+    .from('profile_members')
+    .insert({
+      profile_id,
+      email,
+      role,
+      invite_token: inviteToken,
+      invited_by: user.id,
+    })
+    .select(MEMBER_COLUMNS)
+    .single()
+
+  if (error) {
+    // 23505 = unique_violation on (profile_id, email)
+    if (error.code === '23505') {
+      return NextResponse.json({ error: 'That email has already been invited' }, { status: 409 })
+    }
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('username')
+    .eq('id', profile_id)
+    .single()
+
+  const acceptUrl = `${new URL(request.url).origin}/invite/${inviteToken}`
+  const emailSent = await sendEmail({
+    to: email,
+    subject: `You've been invited to edit @${profile?.username} on Selfbook`,
+    text: `You've been invited as ${role} on the Selfbook page @${profile?.username}.\n\nAccept the invitation: ${acceptUrl}\n\nSign in or create an account with this email address first.`,
+  })
+
+  return NextResponse.json(
+    { ...member, invite_token: inviteToken, accept_url: acceptUrl, email_sent: emailSent },
+    { status: 201 }
+  )
+}
+
+export async function PATCH(request: Request) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const body = await request.json()
+  const { id, role } = body
+
+  if (!isProfileRole(role)) {
+    return NextResponse.json({ error: 'Unknown role' }, { status: 400 })
+  }
+
+  // Look up the member to find its profile
+  const { data: member } = await supabase
+    .from('profile_members')
+    .select('profile_id')
+    .eq('id', id)
+    .single()
+
+  if (!member) {
+    return NextResponse.json({ error: 'Member not found' }, { status: 404 })
+  }
+
+  // Verify user can manage the profile
+  const currentRole = await getProfileRole(supabase, member.profile_id)
+
+  if (!canManageProfile(currentRole)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 403 })
+  }
+
+  const { data: updatedMember, error } = await supabase
+    .from('profile_members')
+    .update({ role })
+    .eq('id', id)
+    .select(MEMBER_COLUMNS)
+    .single()
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  return NextResponse.json(updatedMember)
+}
+
+export async function DELETE(request: Request) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { searchParams } = new URL(request.url)
+  const id = searchParams.get('id')
+
+  if (!id) {
+    return NextResponse.json({ error: 'Member ID required' }, { status: 400 })
+  }
+
+  // Look up the member to find its profile
+  const { data: member } = await supabase
+    .from('profile_members')
+    .select('profile_id, user_id')
+    .eq('id', id)
+    .single()
+
+  if (!member) {
+    return NextResponse.json({ error: 'Member not found' }, { status: 404 })
+  }
+
+  // Owners remove anyone; members may remove themselves
+  const currentRole = await getProfileRole(supabase, member.profile_id)
+
+  if (!canManageProfile(currentRole) && member.user_id !== user.id) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 403 })
+  }
+
+  const { error } = await supabase
+    .from('profile_members')
+    .delete()
+    .eq('id', id)
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  return NextResponse.json({ success: true })
+}
@@ -0,0 +1,93 @@
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { NextResponse } from 'next/server'
+import { canEditProfile, getProfileRole } from '@/lib/permissions'
+
+const PAGE_SIZE = 50
+
+export async function GET(request: Request) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { searchParams } = new URL(request.url)
+  const profileId = searchParams.get('profile_id')
+  const archived = searchParams.get('archived') === 'true'
+
+  if (!profileId) {
+    return NextResponse.json({ error: 'Profile ID required' }, { status: 400 })
+  }
+
+  // RLS limits this to profiles the user can edit
+  let query = supabase
+    .from('messages')
+    .select('id, profile_id, section_id, fields, reply_to, read_at, archived_at, created_at')
+    .eq('profile_id', profileId)
+    .order('created_at', { ascending: false })
+    .limit(PAGE_SIZE)
+
+  query = archived ? query.not('archived_at', 'is', null) : query.is('archived_at', null)
+
+  const { data: messages, error } = await query
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  return NextResponse.json(messages)
+}
+
+// Mark a message read or unread, or move it in and out of the archive
+export async function PATCH(request: Request) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const body = await request.json()
+  const { id, read, archived } = body
+
+  if ((read !== undefined && typeof read !== 'boolean') || (archived !== undefined && typeof archived !== 'boolean')) {
+    return NextResponse.json({ error: 'read and archived must be true or false' }, { status: 400 })
+  }
+
+  const { data: message } = await supabase
+    .from('messages')
+    .select('id, profile_id')
+    .eq('id', id)
+    .single()
+
+  if (!message) {
+    return NextResponse.json({ error: 'Message not found' }, { status: 404 })
+  }
+
+  const role = await getProfileRole(supabase, message.profile_id)
+
+  if (!canEditProfile(role)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 403 })
+  }
+
+  const now = new Date().toISOString()
+  const { data: updated, error } = await supabase
+    .from('messages')
+    .update({
+      ...(read !== undefined ? { read_at: read ? now : null } : {}),
+      ...(archived !== undefined ? { archived_at: archived ? now : null } : {}),
+    })
+    .eq('id', id)
+    .select('id, profile_id, section_id, fields, reply_to, read_at, archived_at, created_at')
+    .single()
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  return NextResponse.json(updated)
+}
@@ -0,0 +1,27 @@
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { NextResponse } from 'next/server'
+
+// Unread message counts for every profile the user can edit, keyed by profile ID
+export async function GET() {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { data, error } = await supabase.rpc('unread_message_counts')
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  const counts: Record<string, number> = {}
+  for (const row of (data || []) as { profile_id: string; unread: number }[]) {
+    counts[row.profile_id] = row.unread
+  }
+
+  return NextResponse.json(counts)
+}
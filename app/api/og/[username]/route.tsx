@@ -0,0 +1,144 @@
+import { ImageResponse } from 'next/og'
+import { getAnonymousProfile } from '@/lib/publicProfile'
+import { profileDescription } from '@/lib/seo'
+import { IMAGE_CONTENT_TYPES, detectImageType } from '@/lib/images'
+import { fallbackRenditionUrl, storagePathFromUrl } from '@/lib/storage'
+
+const WIDTH = 1200
+const HEIGHT = 630
+const IMAGE_TIMEOUT_MS = 3000
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024
+
+// Fetch a profile image as a data URL for the renderer. Only files in our own
+// storage are fetched, within a time and size budget; anything else (another
+// host, a slow or huge response, a format the renderer can't draw) leaves
+// the card without that image.
+async function loadImage(url: string | null): Promise<string | null> {
+  const storageOrigin = process.env.NEXT_PUBLIC_SUPABASE_URL
+  if (!url || !storageOrigin || !storagePathFromUrl(url)) return null
+
+  try {
+    if (new URL(url).origin !== new URL(storageOrigin).origin) return null
+
+    const response = await fetch(url, { signal: AbortSignal.timeout(IMAGE_TIMEOUT_MS), redirect: 'error' })
+    if (!response.ok || !response.body) return null
+
+    const declared = Number(response.headers.get('content-length'))
+    if (declared > MAX_IMAGE_BYTES) return null
+
+    const reader = response.body.getReader()
+    const chunks: Uint8Array[] = []
+    let size = 0
+
+    for (;;) {
+      const { done, value } = await reader.read()
+      if (done) break
+      size += value.length
+      if (size > MAX_IMAGE_BYTES) {
+        await reader.cancel()
+        return null
+      }
+      chunks.push(value)
+    }
+
+    const bytes = Buffer.concat(chunks)
+    const type = detectImageType(bytes)
+    if (!type || type === 'webp') return null
+
+    return `data:${IMAGE_CONTENT_TYPES[type]};base64,${bytes.toString('base64')}`
+  } catch {
+    return null
+  }
+}
+
+// Social share card for a profile: the banner behind the avatar, name, handle
+// and bio. The image renderer can't decode WebP, so processed uploads use
+// their JPEG rendition. The card is drawn from the anonymous view only, so it
+// never reflects the requester's session or unlocks, and only cards of
+// public, listed profiles may be cached by shared caches.
+export async function GET(_request: Request, { params }: { params: { username: string } }) {
+  const profile = await getAnonymousProfile(params.username)
+
+  if (!profile) {
+    return new Response('Profile not found', { status: 404, headers: { 'Cache-Control': 'private, no-store' } })
+  }
+
+  const [banner, avatar] = await Promise.all([
+    loadImage(fallbackRenditionUrl(profile.banner_url) || profile.banner_url),
+    loadImage(fallbackRenditionUrl(profile.avatar_url) || profile.avatar_url),
+  ])
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: '100%',
+          height: '100%',
+          display: 'flex',
+          position: 'relative',
+          backgroundColor: '#000',
+          color: '#fff',
+        }}
+      >
+        {banner && (
+          <img
+            src={banner}
+            width={WIDTH}
+            height={HEIGHT}
+            style={{ position: 'absolute', top: 0, left: 0, width: WIDTH, height: HEIGHT, objectFit: 'cover' }}
+          />
+        )}
+        <div
+          style={{
+            position: 'absolute',
+            top: 0,
+            left: 0,
+            width: WIDTH,
+            height: HEIGHT,
+            display: 'flex',
+            backgroundImage: 'linear-gradient(to top, rgba(0,0,0,0.9) 35%, rgba(0,0,0,0.2))',
+          }}
+        />
+        <div
+          style={{
+            position: 'absolute',
+            left: 72,
+            right: 72,
+            bottom: 64,
+            display: 'flex',
+            alignItems: 'center',
+            gap: 40,
+          }}
+        >
+          {avatar && (
+            <img
+              src={avatar}
+              width={180}
+              height={180}
+              style={{ borderRadius: 9999, border: '6px solid #fff', objectFit: 'cover' }}
+            />
+          )}
+          <div style={{ display: 'flex', flexDirection: 'column', flex: 1 }}>
+            <div style={{ fontSize: 64, fontWeight: 700, lineHeight: 1.1 }}>
+              {profile.display_name || profile.username}
+            </div>
+            <div style={{ fontSize: 32, color: '#bbb', marginTop: 8 }}>@{profile.username}</div>
+            {profile.bio && (
+              <div style={{ fontSize: 28, color: '#ddd', marginTop: 20, lineHeight: 1.3 }}>
+                {profileDescription(profile)}
+              </div>
+            )}
+          </div>
+        </div>
+        <div style={{ position: 'absolute', top: 48, right: 72, fontSize: 28, color: '#ddd' }}>Selfbook</div>
+      </div>
+    ),
+    {
+      width: WIDTH,
+      height: HEIGHT,
+      headers: {
+        'Cache-Control': profile.access === 'public' ? 'public, max-age=300, s-maxage=3600' : 'private, no-store',
+      },
+    }
+  )
+}
@@ -0,0 +1,101 @@
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { NextResponse } from 'next/server'
+import { zipSync } from 'fflate'
+import { canViewProfile, getProfileRole } from '@/lib/permissions'
+import { applyDraft } from '@/lib/drafts'
+import { BUNDLE_FILENAME, BundleAsset, buildBundle, bundleImageUrls } from '@/lib/bundle'
+import { STORAGE_BUCKET, fallbackRenditionUrl, storagePathFromUrl } from '@/lib/storage'
+import { Profile, ProfileDraft, Section } from '@/lib/types'
+
+// GET ?id=<profile> downloads the draft profile and sections as JSON. With
+// &assets=1 it downloads a zip instead, holding the bundle plus copies of
+// every image the profile has in storage.
+export async function GET(request: Request) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { searchParams } = new URL(request.url)
+  const id = searchParams.get('id')
+  const withAssets = searchParams.get('assets') === '1'
+
+  if (!id) {
+    return NextResponse.json({ error: 'Profile ID required' }, { status: 400 })
+  }
+
+  const role = await getProfileRole(supabase, id)
+
+  if (!canViewProfile(role)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 403 })
+  }
+
+  // Export what the editor shows, including unpublished changes
+  const [{ data: profile }, { data: draft }, { data: sections, error }] = await Promise.all([
+    supabase.from('profiles').select('*').eq('id', id).single<Profile>(),
+    supabase.from('profile_drafts').select('*').eq('profile_id', id).maybeSingle<ProfileDraft>(),
+    supabase.from('draft_sections').select('*').eq('profile_id', id).order('position'),
+  ])
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  if (!profile) {
+    return NextResponse.json({ error: 'Profile not found' }, { status: 404 })
+  }
+
+  const bundle = buildBundle(applyDraft(profile, draft), (sections || []) as Section[])
+  const basename = `${bundle.profile.username}-${new Date().toISOString().slice(0, 10)}`
+
+  if (!withAssets) {
+    return new NextResponse(JSON.stringify(bundle, null, 2), {
+      headers: {
+        'Content-Type': 'application/json',
+        'Content-Disposition': `attachment; filename="${basename}.json"`,
+      },
+    })
+  }
+
+  // Only files in this profile's own folder are packed; anything else is an
+  // external link and stays one
+  const folder = `profiles/${id}/`
+  const candidates = Array.from(
+    new Set(bundleImageUrls(bundle).flatMap((url) => [url, fallbackRenditionUrl(url)]))
+  )
+
+  const files: Record<string, Uint8Array> = {}
+  const assets: BundleAsset[] = []
+
+  for (const url of candidates) {
+    const path = storagePathFromUrl(url)
+    if (!url || !path || !path.startsWith(folder)) continue
+
+    const { data: blob, error: downloadError } = await supabase.storage.from(STORAGE_BUCKET).download(path)
+
+    if (downloadError || !blob) {
+      console.error(`Skipping ${path} in export:`, downloadError)
+      continue
+    }
+
+    const file = `assets/${path.slice(folder.length)}`
+    files[file] = new Uint8Array(await blob.arrayBuffer())
+    assets.push({ url, file })
+  }
+
+  files[BUNDLE_FILENAME] = new TextEncoder().encode(JSON.stringify({ ...bundle, assets }, null, 2))
+
+  // Images are already compressed; storing them avoids burning CPU for nothing
+  const zip = zipSync(files, { level: 0 })
+
+  return new NextResponse(zip, {
+    headers: {
+      'Content-Type': 'application/zip',
+      'Content-Disposition': `attachment; filename="${basename}.zip"`,
+    },
+  })
+}
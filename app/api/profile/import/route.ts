@@ -0,0 +1,200 @@
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { NextResponse } from 'next/server'
+import { randomUUID } from 'crypto'
+import { Unzip, UnzipInflate } from 'fflate'
+import { canEditProfile, getProfileRole } from '@/lib/permissions'
+import { IMAGE_CONTENT_TYPES, MAX_GALLERY_IMAGE_BYTES, detectImageType, stripImageMetadata } from '@/lib/images'
+import { BUNDLE_FILENAME, ProfileBundle, parseBundle, rewriteBundleUrls } from '@/lib/bundle'
+import { FieldError } from '@/lib/sectionContent'
+import { STORAGE_BUCKET, cleanupGalleryUploads, cleanupProfileImages } from '@/lib/storage'
+
+const MAX_IMPORT_BYTES = 50 * 1024 * 1024
+// Deflate expands at most about 1000:1, so one piece inflates to ~16 MB
+const ZIP_CHUNK_BYTES = 16 * 1024
+
+// Asset paths a zip may contain, relative to the profile's storage folder
+const ASSET_PATTERN = /^assets\/(gallery|images)\/([A-Za-z0-9._-]+)$/
+
+function invalidBundle(errors: FieldError[]) {
+  return NextResponse.json({ error: 'Invalid bundle', errors }, { status: 422 })
+}
+
+// Unpack a zip export, refusing archives that expand past the import limit.
+// The sizes a zip declares can't be trusted, so inflated bytes are counted as
+// they come out, and the archive is fed in small pieces so no single step can
+// inflate much past the limit.
+function readZip(bytes: Uint8Array): { bundle: unknown; files: Record<string, Uint8Array> } | null {
+  const files: Record<string, Uint8Array> = {}
+  let expanded = 0
+  let failed = false
+
+  const unzip = new Unzip((file) => {
+    if (file.name !== BUNDLE_FILENAME && !ASSET_PATTERN.test(file.name)) return
+
+    const chunks: Uint8Array[] = []
+    file.ondata = (err, chunk, final) => {
+      if (failed) return
+      expanded += chunk ? chunk.length : 0
+      if (err || expanded > MAX_IMPORT_BYTES) {
+        failed = true
+        file.terminate()
+        return
+      }
+      chunks.push(chunk)
+      if (final) files[file.name] = Buffer.concat(chunks)
+    }
+    file.start()
+  })
+  unzip.register(UnzipInflate)
+
+  for (let offset = 0; offset < bytes.length && !failed; offset += ZIP_CHUNK_BYTES) {
+    unzip.push(bytes.subarray(offset, offset + ZIP_CHUNK_BYTES), offset + ZIP_CHUNK_BYTES >= bytes.length)
+  }
+
+  if (failed || !files[BUNDLE_FILENAME]) return null
+
+  try {
+    return { bundle: JSON.parse(new TextDecoder().decode(files[BUNDLE_FILENAME])), files }
+  } catch {
+    return null
+  }
+}
+
+// Accepts either JSON `{ profile_id, replace, bundle }` or multipart/form-data
+// with `profile_id`, `replace` and a `file` holding a .json or .zip export.
+// Everything lands in the draft: imported sections are appended, or with
+// `replace` they and the profile details replace the current draft. The
+// username is never imported.
+export async function POST(request: Request) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  let profileId: unknown
+  let replace = false
+  let raw: unknown
+  let files: Record<string, Uint8Array> = {}
+
+  if (request.headers.get('content-type')?.startsWith('multipart/form-data')) {
+    const form = await request.formData()
+    const file = form.get('file')
+    profileId = form.get('profile_id')
+    replace = form.get('replace') === 'true'
+
+    if (!file || typeof file === 'string') {
+      return NextResponse.json({ error: 'No file uploaded' }, { status: 400 })
+    }
+
+    if (file.size > MAX_IMPORT_BYTES) {
+      return NextResponse.json(
+        { error: `Imports must be at most ${MAX_IMPORT_BYTES / 1024 / 1024} MB` },
+        { status: 422 }
+      )
+    }
+
+    const bytes = new Uint8Array(await file.arrayBuffer())
+
+    // Zip archives start with "PK"
+    if (bytes[0] === 0x50 && bytes[1] === 0x4b) {
+      let archive
+      try {
+        archive = readZip(bytes)
+      } catch {
+        archive = null
+      }
+
+      if (!archive) {
+        return invalidBundle([{ path: 'file', message: `Zip must contain a valid ${BUNDLE_FILENAME}` }])
+      }
+
+      raw = archive.bundle
+      files = archive.files
+    } else {
+      try {
+        raw = JSON.parse(new TextDecoder().decode(bytes))
+      } catch {
+        return invalidBundle([{ path: 'file', message: 'Not a JSON or zip file' }])
+      }
+    }
+  } else {
+    const body = await request.json()
+    profileId = body.profile_id
+    replace = body.replace === true
+    raw = body.bundle
+  }
+
+  if (typeof profileId !== 'string' || !profileId) {
+    return NextResponse.json({ error: 'Profile ID required' }, { status: 400 })
+  }
+
+  const result = parseBundle(raw)
+
+  if (!result.ok) {
+    return invalidBundle(result.errors)
+  }
+
+  // Verify user can edit the profile
+  const role = await getProfileRole(supabase, profileId)
+
+  if (!canEditProfile(role)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 403 })
+  }
+
+  // Copy packed images into this profile's folder and point the bundle at the
+  // copies. Every import gets fresh file names, so it can never overwrite an
+  // image the profile already uses; names within one import keep their stem
+  // so WebP and JPEG renditions stay paired. Assets missing from the zip keep
+  // their original URL.
+  const storage = supabase.storage.from(STORAGE_BUCKET)
+  const uploaded = new Map<string, string>()
+  const importId = randomUUID()
+
+  for (const asset of result.value.assets || []) {
+    const match = ASSET_PATTERN.exec(asset.file)
+    const data = files[asset.file]
+    if (!match || !data) continue
+
+    const type = detectImageType(data)
+    if (!type || data.length > MAX_GALLERY_IMAGE_BYTES) continue
+
+    let image: Buffer
+    try {
+      image = await stripImageMetadata(Buffer.from(data), type)
+    } catch {
+      continue
+    }
+
+    const path = `profiles/${profileId}/${match[1]}/${importId}-${match[2]}`
+    const { error } = await storage.upload(path, image, { contentType: IMAGE_CONTENT_TYPES[type] })
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+
+    uploaded.set(asset.url, storage.getPublicUrl(path).data.publicUrl)
+  }
+
+  const bundle: ProfileBundle = rewriteBundleUrls(result.value, (url) => uploaded.get(url) || url)
+
+  const { error } = await supabase.rpc('import_profile_draft', {
+    p_profile_id: profileId,
+    p_replace: replace,
+    p_profile: bundle.profile,
+    p_sections: bundle.sections,
+  })
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  if (replace) {
+    await Promise.all([cleanupGalleryUploads(supabase, profileId), cleanupProfileImages(supabase, profileId)])
+  }
+
+  return NextResponse.json({ sections: bundle.sections.length, assets: uploaded.size })
+}
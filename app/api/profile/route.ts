@@ -1,8 +1,16 @@
 import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
 import { cookies } from 'next/headers'
 import { NextResponse } from 'next/server'
+import { isThemeId } from '@/lib/themes'
+import { isAccessMode } from '@/lib/access'
+import { validateProfileDetails } from '@/lib/profileFields'
+import { isUsernameAvailable, nextUsernameChange, validateUsername } from '@/lib/username'
+import { canEditProfile, canManageProfile, canViewProfile, getProfileRole } from '@/lib/permissions'
+import { applyDraft } from '@/lib/drafts'
+import { removeProfileUploads } from '@/lib/storage'
+import { Profile, ProfileDraft } from '@/lib/types'
 
-export async function GET() {
+export async function GET(request: Request) {
   const supabase = createRouteHandlerClient({ cookies })
   
   const { data: { user } } = await supabase.auth.getUser()
@@ -11,93 +19,94 @@ export async function GET() {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
   }
 
+  const { searchParams } = new URL(request.url)
+  const id = searchParams.get('id')
+
+  if (!id) {
+    return NextResponse.json({ error: 'Profile ID required' }, { status: 400 })
+  }
+
+  const role = await getProfileRole(supabase, id)
+
+  if (!canViewProfile(role)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 403 })
+  }
+
   const { data: profile, error } = await supabase
     .from('profiles')
     .select('*')
-    .eq('user_id', user.id)
+    .eq('id', id)
     .single()
 
   if (error) {
     return NextResponse.json({ error: error.message }, { status: 500 })
   }
 
-  return NextResponse.json(profile)
+  return NextResponse.json({ ...profile, role })
 }
 
 export async function POST(request: Request) {
   const supabase = createRouteHandlerClient({ cookies })
-  
+
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
   const body = await request.json()
-  const { username, display_name, user_id } = body
+  const { username, display_name } = body
 
   if (!username) {
     return NextResponse.json({ error: 'Username is required' }, { status: 400 })
   }
 
-  // Try to get the current user first
-  const { data: { user } } = await supabase.auth.getUser()
-  const currentUserId = user?.id || user_id
-
-  if (!currentUserId) {
-    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  const usernameError = validateUsername(username)
+  if (usernameError) {
+    return NextResponse.json({ error: usernameError }, { status: 400 })
   }
 
-  // Check if username is already taken
-  const { data: existingProfile } = await supabase
-    .from('profiles')
-    .select('username')
-    .eq('username', username.toLowerCase())
-    .single()
+  // Check if username is already taken, or held for a profile that just gave it up
+  const { available, error: availableError } = await isUsernameAvailable(supabase, username)
+
+  if (availableError) {
+    return NextResponse.json({ error: availableError.message }, { status: 500 })
+  }
 
-  if (existingProfile) {
+  if (!available) {
     return NextResponse.json({ error: 'Username is already taken' }, { status: 400 })
   }
 
-  // Check if user already has a profile
-  const { data: existingUserProfile } = await supabase
-    .from('profiles')
-    .select('id')
-    .eq('user_id', currentUserId)
-    .single()
+  // The function owns the profile to the signed-in account and enforces the
+  // per-account limit
+  const { data: profileId, error } = await supabase.rpc('create_profile_for_user', {
+    p_username: username.toLowerCase(),
+    p_display_name: display_name || username,
+  })
 
-  if (existingUserProfile) {
-    return NextResponse.json({ error: 'Profile already exists' }, { status: 400 })
+  // Over the limit
+  if (error?.code === '23514') {
+    return NextResponse.json({ error: error.message }, { status: 400 })
   }
 
-  // Try to create profile using RPC function first (bypasses RLS)
-  try {
-    const { data: profileData, error: rpcError } = await supabase.rpc('create_profile_for_user', {
-      p_user_id: currentUserId,
-      p_username: username.toLowerCase(),
-      p_display_name: display_name || username,
-    })
-
-    if (!rpcError && profileData) {
-      return NextResponse.json({ id: profileData, username, display_name }, { status: 201 })
-    }
+  // Someone may have claimed the username since the check above
+  if (error?.code === '23505') {
+    return NextResponse.json({ error: 'Username is already taken' }, { status: 400 })
+  }
 
-    // If RPC fails, fall through to direct insert
-    if (rpcError) {
-      console.error('RPC error, attempting direct insert:', rpcError)
-    }
-  } catch (err) {
-    console.error('RPC exception:', err)
+  if (error) {
+    console.error('Profile create error:', error)
+    return NextResponse.json({ error: error.message }, { status: 500 })
   }
 
-  // Fallback: Try direct insert (will work if user has session)
-  const { data: profile, error } = await supabase
+  const { data: profile, error: profileError } = await supabase
     .from('profiles')
-    .insert({
-      user_id: currentUserId,
-      username: username.toLowerCase(),
-      display_name: display_name || username,
-    })
-    .select()
+    .select('*')
+    .eq('id', profileId)
     .single()
 
-  if (error) {
-    console.error('Profile insert error:', error)
-    return NextResponse.json({ error: error.message }, { status: 500 })
+  if (profileError) {
+    return NextResponse.json({ error: profileError.message }, { status: 500 })
   }
 
   return NextResponse.json(profile, { status: 201 })
@@ -113,25 +122,218 @@ export async function PATCH(request: Request) {
   }
 
   const body = await request.json()
-  const { display_name, bio, avatar_url, banner_url, theme } = body
+  const { id, username, access, in_directory, display_name, bio, avatar_url, banner_url, theme } = body
 
-  const { data: profile, error } = await supabase
+  if (!id) {
+    return NextResponse.json({ error: 'Profile ID required' }, { status: 400 })
+  }
+
+  if (username !== undefined) {
+    const usernameError = typeof username === 'string' ? validateUsername(username) : 'Username must be a string'
+    if (usernameError) {
+      return NextResponse.json({ error: usernameError }, { status: 400 })
+    }
+  }
+
+  if (theme !== undefined && !isThemeId(theme)) {
+    return NextResponse.json({ error: 'Unknown theme' }, { status: 400 })
+  }
+
+  if (access !== undefined && !isAccessMode(access)) {
+    return NextResponse.json({ error: 'Unknown access mode' }, { status: 400 })
+  }
+
+  if (in_directory !== undefined && typeof in_directory !== 'boolean') {
+    return NextResponse.json({ error: 'in_directory must be true or false' }, { status: 400 })
+  }
+
+  const detailErrors = validateProfileDetails({ display_name, bio, avatar_url, banner_url })
+  if (detailErrors.length > 0) {
+    return NextResponse.json({ error: 'Invalid profile details', errors: detailErrors }, { status: 400 })
+  }
+
+  const role = await getProfileRole(supabase, id)
+
+  if (!canEditProfile(role)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 403 })
+  }
+
+  // Edits land in the draft; visitors see them after the next publish
+  const [{ data: profile }, { data: existingDraft }] = await Promise.all([
+    supabase.from('profiles').select('*').eq('id', id).single<Profile>(),
+    supabase.from('profile_drafts').select('*').eq('profile_id', id).maybeSingle<ProfileDraft>(),
+  ])
+
+  if (!profile) {
+    return NextResponse.json({ error: 'Profile not found' }, { status: 404 })
+  }
+
+  // Usernames aren't drafted: a rename takes effect, and the old handle starts
+  // redirecting, straight away
+  let current = profile
+
+  if (username !== undefined && username.toLowerCase() !== profile.username) {
+    if (!canManageProfile(role)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 403 })
+    }
+
+    const { data: lastChange } = await supabase
+      .from('username_history')
+      .select('released_at')
+      .eq('profile_id', id)
+      .order('released_at', { ascending: false })
+      .limit(1)
+      .maybeSingle<{ released_at: string }>()
+
+    const nextChange = nextUsernameChange(lastChange?.released_at ?? null)
+    if (nextChange) {
+      return NextResponse.json(
+        {
+          error: `The username can be changed again on ${nextChange.toLocaleDateString('en-US', { dateStyle: 'long' })}`,
+          next_change_at: nextChange.toISOString(),
+        },
+        { status: 400 }
+      )
+    }
+
+    const { available, error: availableError } = await isUsernameAvailable(supabase, username, id)
+
+    if (availableError) {
+      return NextResponse.json({ error: availableError.message }, { status: 500 })
+    }
+
+    if (!available) {
+      return NextResponse.json({ error: 'Username is already taken' }, { status: 400 })
+    }
+
+    const { data: renamed, error: renameError } = await supabase
+      .from('profiles')
+      .update({ username: username.toLowerCase(), updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single<Profile>()
+
+    // Someone may have claimed it since the check above
+    if (renameError?.code === '23505') {
+      return NextResponse.json({ error: 'Username is already taken' }, { status: 400 })
+    }
+
+    if (renameError) {
+      return NextResponse.json({ error: renameError.message }, { status: 500 })
+    }
+
+    current = renamed
+  }
+
+  // Access and the directory listing apply straight away too; nobody should
+  // have to publish to go private
+  const listing = {
+    ...(access !== undefined && access !== current.access ? { access } : {}),
+    ...(in_directory !== undefined && in_directory !== current.in_directory ? { in_directory } : {}),
+  }
+
+  if (Object.keys(listing).length > 0) {
+    if (!canManageProfile(role)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 403 })
+    }
+
+    if (listing.access === 'password') {
+      const { data: hasPassword } = await supabase.rpc('has_access_password', { p_target_id: id })
+
+      if (hasPassword !== true) {
+        return NextResponse.json({ error: 'Set a password before protecting the profile with one' }, { status: 400 })
+      }
+    }
+
+    const { data: restricted, error: accessError } = await supabase
+      .from('profiles')
+      .update({ ...listing, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single<Profile>()
+
+    if (accessError) {
+      return NextResponse.json({ error: accessError.message }, { status: 500 })
+    }
+
+    current = restricted
+  }
+
+  let draft = existingDraft
+
+  if ([display_name, bio, avatar_url, banner_url, theme].some((value) => value !== undefined)) {
+    // Fields left out of the request keep their current draft value
+    const base = existingDraft || profile
+    const { data: savedDraft, error } = await supabase
+      .from('profile_drafts')
+      .upsert({
+        profile_id: id,
+        display_name: display_name !== undefined ? display_name : base.display_name,
+        bio: bio !== undefined ? bio : base.bio,
+        avatar_url: avatar_url !== undefined ? avatar_url : base.avatar_url,
+        banner_url: banner_url !== undefined ? banner_url : base.banner_url,
+        theme: theme !== undefined ? theme : base.theme,
+        updated_at: new Date().toISOString(),
+      })
+      .select()
+      .single<ProfileDraft>()
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+
+    draft = savedDraft
+  }
+
+  return NextResponse.json(applyDraft(current, draft))
+}
+
+export async function DELETE(request: Request) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { searchParams } = new URL(request.url)
+  const id = searchParams.get('id')
+
+  if (!id) {
+    return NextResponse.json({ error: 'Profile ID required' }, { status: 400 })
+  }
+
+  const { data: owned } = await supabase
     .from('profiles')
-    .update({
-      display_name,
-      bio,
-      avatar_url,
-      banner_url,
-      theme,
-      updated_at: new Date().toISOString(),
-    })
+    .select('id')
+    .eq('id', id)
     .eq('user_id', user.id)
-    .select()
-    .single()
+    .maybeSingle()
+
+  if (!owned) {
+    return NextResponse.json({ error: 'Profile not found' }, { status: 404 })
+  }
+
+  // Storage has no cascade; clear uploads while the caller still has access
+  await removeProfileUploads(supabase, id)
+
+  // Only the account that created a profile can delete it; sections,
+  // domains, members and events go with it via ON DELETE CASCADE
+  const { data: deleted, error } = await supabase
+    .from('profiles')
+    .delete()
+    .eq('id', id)
+    .eq('user_id', user.id)
+    .select('id')
 
   if (error) {
     return NextResponse.json({ error: error.message }, { status: 500 })
   }
 
-  return NextResponse.json(profile)
+  if (!deleted || deleted.length === 0) {
+    return NextResponse.json({ error: 'Profile not found' }, { status: 404 })
+  }
+
+  return NextResponse.json({ success: true })
 }
@@ -0,0 +1,33 @@
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { NextResponse } from 'next/server'
+import { isUsernameAvailable, validateUsername } from '@/lib/username'
+
+// Availability check for the rename form. Pass profile_id to treat the
+// profile's own current and held handles as free.
+export async function GET(request: Request) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { searchParams } = new URL(request.url)
+  const username = (searchParams.get('username') || '').toLowerCase()
+  const profileId = searchParams.get('profile_id') || undefined
+
+  const usernameError = validateUsername(username)
+  if (usernameError) {
+    return NextResponse.json({ username, available: false, reason: usernameError })
+  }
+
+  const { available, error } = await isUsernameAvailable(supabase, username, profileId)
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  return NextResponse.json({ username, available, reason: available ? null : 'Username is already taken' })
+}
@@ -0,0 +1,45 @@
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { NextResponse } from 'next/server'
+import { MemberProfile, Profile, ProfileRole } from '@/lib/types'
+
+// Lists every profile the signed-in user owns or collaborates on, with their
+// role on each. Owned profiles come first, oldest first.
+export async function GET() {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { data: owned, error } = await supabase
+    .from('profiles')
+    .select('*')
+    .eq('user_id', user.id)
+    .order('created_at')
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  const { data: memberships, error: membershipsError } = await supabase
+    .from('profile_members')
+    .select('role, profile:profiles(*)')
+    .eq('user_id', user.id)
+    .not('accepted_at', 'is', null)
+
+  if (membershipsError) {
+    return NextResponse.json({ error: membershipsError.message }, { status: 500 })
+  }
+
+  const profiles: MemberProfile[] = (owned || []).map((p: Profile) => ({ ...p, role: 'owner' }))
+  for (const membership of (memberships || []) as unknown as { role: ProfileRole; profile: Profile | null }[]) {
+    if (membership.profile && !profiles.some((p) => p.id === membership.profile!.id)) {
+      profiles.push({ ...membership.profile, role: membership.role })
+    }
+  }
+
+  return NextResponse.json(profiles)
+}
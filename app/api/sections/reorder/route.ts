@@ -0,0 +1,74 @@
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { NextResponse } from 'next/server'
+import { canEditProfile, getProfileRole } from '@/lib/permissions'
+
+export async function PUT(request: Request) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const body = await request.json()
+  const { profile_id, section_ids } = body
+
+  if (!profile_id || !Array.isArray(section_ids)) {
+    return NextResponse.json({ error: 'Profile ID and section IDs required' }, { status: 400 })
+  }
+
+  // Verify user can edit the profile
+  const role = await getProfileRole(supabase, profile_id)
+
+  if (!canEditProfile(role)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 403 })
+  }
+
+  // The new order must list every section of the profile exactly once
+  const { data: existing, error: existingError } = await supabase
+    .from('draft_sections')
+    .select('id')
+    .eq('profile_id', profile_id)
+
+  if (existingError) {
+    return NextResponse.json({ error: existingError.message }, { status: 500 })
+  }
+
+  const existingIds = new Set((existing || []).map((s: { id: string }) => s.id))
+  const requestedIds = new Set<string>(section_ids)
+
+  if (
+    requestedIds.size !== section_ids.length ||
+    requestedIds.size !== existingIds.size ||
+    section_ids.some((id: string) => !existingIds.has(id))
+  ) {
+    return NextResponse.json(
+      { error: 'Section IDs must match the profile sections exactly' },
+      { status: 400 }
+    )
+  }
+
+  // Rewrite all positions in a single statement so readers never see a partial order
+  const { error } = await supabase.rpc('reorder_sections', {
+    p_profile_id: profile_id,
+    p_section_ids: section_ids,
+  })
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  const { data: sections, error: sectionsError } = await supabase
+    .from('draft_sections')
+    .select('*')
+    .eq('profile_id', profile_id)
+    .order('position')
+
+  if (sectionsError) {
+    return NextResponse.json({ error: sectionsError.message }, { status: 500 })
+  }
+
+  return NextResponse.json(sections)
+}
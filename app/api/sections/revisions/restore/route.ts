@@ -0,0 +1,127 @@
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { NextResponse } from 'next/server'
+import { canEditProfile, getProfileRole } from '@/lib/permissions'
+import { recordRevision } from '@/lib/revisions'
+import { cleanupGalleryUploads } from '@/lib/storage'
+import { FieldError, isSectionType, validateSectionContent, validateSectionTitle } from '@/lib/sectionContent'
+
+function invalidSection(errors: FieldError[]) {
+  return NextResponse.json({ error: 'Invalid section', errors }, { status: 422 })
+}
+
+// Put a section back to the state stored in a revision. If the section has
+// since been deleted it is recreated under its original ID.
+export async function POST(request: Request) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const body = await request.json()
+  const { revision_id } = body
+
+  const { data: revision } = await supabase
+    .from('section_revisions')
+    .select('*')
+    .eq('id', revision_id)
+    .single()
+
+  if (!revision) {
+    return NextResponse.json({ error: 'Revision not found' }, { status: 404 })
+  }
+
+  // Verify user can edit the profile
+  const role = await getProfileRole(supabase, revision.profile_id)
+
+  if (!canEditProfile(role)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 403 })
+  }
+
+  // Old revisions may predate a validator change, so check them again
+  if (!isSectionType(revision.type)) {
+    return invalidSection([{ path: 'type', message: 'Unknown section type' }])
+  }
+
+  const contentResult = validateSectionContent(revision.type, revision.content)
+  const errors = [
+    ...validateSectionTitle(revision.title),
+    ...(contentResult.ok ? [] : contentResult.errors),
+  ]
+
+  if (errors.length > 0 || !contentResult.ok) {
+    return invalidSection(errors)
+  }
+
+  const { data: current } = await supabase
+    .from('draft_sections')
+    .select('*')
+    .eq('id', revision.section_id)
+    .maybeSingle()
+
+  if (current) {
+    // Restoring is itself undoable
+    const { error: revisionError } = await recordRevision(supabase, current, 'restore', user.id)
+
+    if (revisionError) {
+      return NextResponse.json({ error: revisionError.message }, { status: 500 })
+    }
+
+    const { data: section, error } = await supabase
+      .from('draft_sections')
+      .update({
+        title: revision.title,
+        content: contentResult.value,
+        visible: revision.visible,
+        access: revision.access,
+        publish_at: revision.publish_at,
+        unpublish_at: revision.unpublish_at,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', current.id)
+      .select()
+      .single()
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+
+    if (revision.type === 'gallery') {
+      await cleanupGalleryUploads(supabase, revision.profile_id)
+    }
+
+    return NextResponse.json(section)
+  }
+
+  // Undelete: append to the end, since the old position may be taken
+  const { count } = await supabase
+    .from('draft_sections')
+    .select('id', { count: 'exact', head: true })
+    .eq('profile_id', revision.profile_id)
+
+  const { data: section, error } = await supabase
+    .from('draft_sections')
+    .insert({
+      id: revision.section_id,
+      profile_id: revision.profile_id,
+      title: revision.title,
+      type: revision.type,
+      content: contentResult.value,
+      position: count ?? 0,
+      visible: revision.visible,
+      access: revision.access,
+      publish_at: revision.publish_at,
+      unpublish_at: revision.unpublish_at,
+    })
+    .select()
+    .single()
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  return NextResponse.json(section)
+}
@@ -0,0 +1,76 @@
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { NextResponse } from 'next/server'
+import { canViewProfile, getProfileRole } from '@/lib/permissions'
+import { SectionRevision } from '@/lib/types'
+
+// ?section_id= lists one section's history, newest first.
+// ?profile_id= lists the profile's deleted sections by their final revision.
+export async function GET(request: Request) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { searchParams } = new URL(request.url)
+  const sectionId = searchParams.get('section_id')
+  const profileId = searchParams.get('profile_id')
+
+  if (sectionId) {
+    // section_revisions_select limits this to profiles the user can view
+    const { data: revisions, error } = await supabase
+      .from('section_revisions')
+      .select('*')
+      .eq('section_id', sectionId)
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+
+    return NextResponse.json(revisions)
+  }
+
+  if (!profileId) {
+    return NextResponse.json({ error: 'Section ID or profile ID required' }, { status: 400 })
+  }
+
+  const role = await getProfileRole(supabase, profileId)
+
+  if (!canViewProfile(role)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 403 })
+  }
+
+  const [{ data: deletions, error }, { data: sections }] = await Promise.all([
+    supabase
+      .from('section_revisions')
+      .select('*')
+      .eq('profile_id', profileId)
+      .eq('action', 'delete')
+      .order('created_at', { ascending: false })
+      .returns<SectionRevision[]>(),
+    supabase
+      .from('draft_sections')
+      .select('id')
+      .eq('profile_id', profileId),
+  ])
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  // A section that was undeleted is back in the draft, so it no longer counts
+  const draftIds = new Set((sections || []).map((s: { id: string }) => s.id))
+  const seen = new Set<string>()
+  const deleted = (deletions || []).filter((revision) => {
+    if (draftIds.has(revision.section_id) || seen.has(revision.section_id)) return false
+    seen.add(revision.section_id)
+    return true
+  })
+
+  return NextResponse.json(deleted)
+}
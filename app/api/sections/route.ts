@@ -1,9 +1,25 @@
 import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
 import { cookies } from 'next/headers'
 import { NextResponse } from 'next/server'
+import { unlockHeaders } from '@/lib/unlock'
+import { canEditProfile, getProfileRole } from '@/lib/permissions'
+import { deleteDraftSection, updateDraftSection } from '@/lib/sectionEdits'
+import {
+  FieldError,
+  isSectionType,
+  validateSectionAccess,
+  validateSectionContent,
+  validateSectionSchedule,
+  validateSectionTitle,
+} from '@/lib/sectionContent'
+
+function invalidSection(errors: FieldError[]) {
+  return NextResponse.json({ error: 'Invalid section', errors }, { status: 422 })
+}
 
 export async function GET(request: Request) {
-  const supabase = createRouteHandlerClient({ cookies })
+  // Reads as the visitor, so access modes apply through RLS
+  const supabase = createRouteHandlerClient({ cookies }, { options: { global: { headers: unlockHeaders() } } })
   const { searchParams } = new URL(request.url)
   const profileId = searchParams.get('profile_id')
 
@@ -11,11 +27,15 @@ export async function GET(request: Request) {
     return NextResponse.json({ error: 'Profile ID required' }, { status: 400 })
   }
 
+  // Filter explicitly too: members bypass the sections_select schedule check
+  const now = new Date().toISOString()
   const { data: sections, error } = await supabase
     .from('sections')
     .select('*')
     .eq('profile_id', profileId)
     .eq('visible', true)
+    .or(`publish_at.is.null,publish_at.lte.${now}`)
+    .or(`unpublish_at.is.null,unpublish_at.gt.${now}`)
     .order('position')
 
   if (error) {
@@ -35,27 +55,42 @@ export async function POST(request: Request) {
   }
 
   const body = await request.json()
-  const { profile_id, title, type, content, position } = body
+  const { profile_id, title, type, content, position, access, publish_at, unpublish_at } = body
 
-  // Verify user owns the profile
-  const { data: profile } = await supabase
-    .from('profiles')
-    .select('user_id')
-    .eq('id', profile_id)
-    .single()
+  if (!isSectionType(type)) {
+    return invalidSection([{ path: 'type', message: 'Unknown section type' }])
+  }
+
+  const contentResult = validateSectionContent(type, content)
+  const errors = [
+    ...validateSectionTitle(title),
+    ...(contentResult.ok ? [] : contentResult.errors),
+    ...validateSectionSchedule(publish_at, unpublish_at),
+    ...validateSectionAccess(access),
+  ]
 
-  if (!profile || profile.user_id !== user.id) {
+  if (errors.length > 0 || !contentResult.ok) {
+    return invalidSection(errors)
+  }
+
+  // Verify user can edit the profile
+  const role = await getProfileRole(supabase, profile_id)
+
+  if (!canEditProfile(role)) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 403 })
   }
 
   const { data: section, error } = await supabase
-    .from('sections')
+    .from('draft_sections')
     .insert({
       profile_id,
       title,
       type,
-      content,
+      content: contentResult.value,
       position,
+      access,
+      publish_at: publish_at || null,
+      unpublish_at: unpublish_at || null,
     })
     .select()
     .single()
@@ -77,46 +112,9 @@ export async function PATCH(request: Request) {
   }
 
   const body = await request.json()
-  const { id, title, content, visible } = body
-
-  // Verify user owns the section
-  const { data: section } = await supabase
-    .from('sections')
-    .select('profile_id')
-    .eq('id', id)
-    .single()
-
-  if (!section) {
-    return NextResponse.json({ error: 'Section not found' }, { status: 404 })
-  }
-
-  const { data: profile } = await supabase
-    .from('profiles')
-    .select('user_id')
-    .eq('id', section.profile_id)
-    .single()
-
-  if (!profile || profile.user_id !== user.id) {
-    return NextResponse.json({ error: 'Unauthorized' }, { status: 403 })
-  }
-
-  const { data: updatedSection, error } = await supabase
-    .from('sections')
-    .update({
-      title,
-      content,
-      visible,
-      updated_at: new Date().toISOString(),
-    })
-    .eq('id', id)
-    .select()
-    .single()
+  const { status, body: result } = await updateDraftSection(supabase, user.id, body.id, body)
 
-  if (error) {
-    return NextResponse.json({ error: error.message }, { status: 500 })
-  }
-
-  return NextResponse.json(updatedSection)
+  return NextResponse.json(result, { status })
 }
 
 export async function DELETE(request: Request) {
@@ -135,35 +133,7 @@ export async function DELETE(request: Request) {
     return NextResponse.json({ error: 'Section ID required' }, { status: 400 })
   }
 
-  // Verify user owns the section
-  const { data: section } = await supabase
-    .from('sections')
-    .select('profile_id')
-    .eq('id', id)
-    .single()
-
-  if (!section) {
-    return NextResponse.json({ error: 'Section not found' }, { status: 404 })
-  }
-
-  const { data: profile } = await supabase
-    .from('profiles')
-    .select('user_id')
-    .eq('id', section.profile_id)
-    .single()
-
-  if (!profile || profile.user_id !== user.id) {
-    return NextResponse.json({ error: 'Unauthorized' }, { status: 403 })
-  }
-
-  const { error } = await supabase
-    .from('sections')
-    .delete()
-    .eq('id', id)
-
-  if (error) {
-    return NextResponse.json({ error: error.message }, { status: 500 })
-  }
+  const { status, body: result } = await deleteDraftSection(supabase, user.id, id)
 
-  return NextResponse.json({ success: true })
+  return NextResponse.json(result, { status })
 }
@@ -0,0 +1,151 @@
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { NextResponse } from 'next/server'
+import { canEditProfile, canViewProfile, getProfileRole } from '@/lib/permissions'
+import { FieldError, isSectionType, validateSectionContent } from '@/lib/sectionContent'
+
+const MAX_TEMPLATES_PER_USER = 50
+const MAX_TEMPLATE_NAME_LENGTH = 80
+
+function invalidSection(errors: FieldError[]) {
+  return NextResponse.json({ error: 'Invalid section', errors }, { status: 422 })
+}
+
+// The signed-in user's saved section templates, newest first
+export async function GET() {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { data: templates, error } = await supabase
+    .from('section_templates')
+    .select('*')
+    .eq('user_id', user.id)
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  return NextResponse.json(templates)
+}
+
+// Save a copy of a section's current draft as a template. Later edits to the
+// section don't change the template.
+export async function POST(request: Request) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const body = await request.json()
+  const { section_id } = body
+  const name = typeof body.name === 'string' ? body.name.trim() : ''
+
+  if (!name || name.length > MAX_TEMPLATE_NAME_LENGTH) {
+    return NextResponse.json(
+      { error: `Name is required and at most ${MAX_TEMPLATE_NAME_LENGTH} characters` },
+      { status: 400 }
+    )
+  }
+
+  const { data: section } = await supabase
+    .from('draft_sections')
+    .select('*')
+    .eq('id', section_id)
+    .single()
+
+  if (!section) {
+    return NextResponse.json({ error: 'Section not found' }, { status: 404 })
+  }
+
+  const role = await getProfileRole(supabase, section.profile_id)
+
+  // A gallery template keeps the profile's uploads alive, so only editors may
+  // copy one out
+  if (!canViewProfile(role) || (section.type === 'gallery' && !canEditProfile(role))) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 403 })
+  }
+
+  if (!isSectionType(section.type)) {
+    return invalidSection([{ path: 'type', message: 'Unknown section type' }])
+  }
+
+  // Stored content may predate some validation rules; only save what is valid now
+  const contentResult = validateSectionContent(section.type, section.content)
+
+  if (!contentResult.ok) {
+    return invalidSection(contentResult.errors)
+  }
+
+  const { count } = await supabase
+    .from('section_templates')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', user.id)
+
+  if ((count || 0) >= MAX_TEMPLATES_PER_USER) {
+    return NextResponse.json(
+      { error: `You can have at most ${MAX_TEMPLATES_PER_USER} templates` },
+      { status: 400 }
+    )
+  }
+
+  const { data: template, error } = await supabase
+    .from('section_templates')
+    .insert({
+      user_id: user.id,
+      name,
+      title: section.title,
+      type: section.type,
+      content: contentResult.value,
+    })
+    .select()
+    .single()
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  return NextResponse.json(template, { status: 201 })
+}
+
+export async function DELETE(request: Request) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { searchParams } = new URL(request.url)
+  const id = searchParams.get('id')
+
+  if (!id) {
+    return NextResponse.json({ error: 'Template ID required' }, { status: 400 })
+  }
+
+  const { data: deleted, error } = await supabase
+    .from('section_templates')
+    .delete()
+    .eq('id', id)
+    .eq('user_id', user.id)
+    .select('id')
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  if (!deleted || deleted.length === 0) {
+    return NextResponse.json({ error: 'Template not found' }, { status: 404 })
+  }
+
+  return NextResponse.json({ success: true })
+}
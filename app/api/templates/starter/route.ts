@@ -0,0 +1,66 @@
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { NextResponse } from 'next/server'
+import { canEditProfile, getProfileRole } from '@/lib/permissions'
+import { getPreset, getStarterLayout } from '@/lib/templates'
+
+// Fill an empty profile with the sections of a starter layout. Signup records
+// the chosen layout in the account's metadata; the dashboard sends it here on
+// first load, and it is cleared whatever the outcome so it only applies once.
+export async function POST(request: Request) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const body = await request.json()
+  const { profile_id } = body
+  const layout = getStarterLayout(body.layout)
+
+  if (!layout) {
+    return NextResponse.json({ error: 'Unknown starter layout' }, { status: 400 })
+  }
+
+  const role = await getProfileRole(supabase, profile_id)
+
+  if (!canEditProfile(role)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 403 })
+  }
+
+  if (user.user_metadata?.starter_layout) {
+    await supabase.auth.updateUser({ data: { starter_layout: null } })
+  }
+
+  // Never mix a layout into sections the user already has
+  const { count } = await supabase
+    .from('draft_sections')
+    .select('id', { count: 'exact', head: true })
+    .eq('profile_id', profile_id)
+
+  if ((count || 0) > 0) {
+    return NextResponse.json({ error: 'Profile already has sections' }, { status: 409 })
+  }
+
+  const rows = layout.presets.flatMap((presetId, position) => {
+    const preset = getPreset(presetId)
+    return preset ? [{ profile_id, title: preset.title, type: preset.type, content: preset.content, position }] : []
+  })
+
+  if (rows.length === 0) {
+    return NextResponse.json([])
+  }
+
+  const { data: sections, error } = await supabase
+    .from('draft_sections')
+    .insert(rows)
+    .select()
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  return NextResponse.json(sections, { status: 201 })
+}
@@ -0,0 +1,141 @@
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { NextResponse } from 'next/server'
+import { canViewProfile, getProfileRole, isApiScope } from '@/lib/permissions'
+import { generateApiToken } from '@/lib/apiTokens'
+
+const MAX_TOKENS_PER_USER = 20
+const MAX_TOKEN_NAME_LENGTH = 80
+
+// Every column except the hash and the rate limit counters
+const TOKEN_COLUMNS = 'id, profile_id, name, token_prefix, scopes, expires_at, last_used_at, revoked_at, created_at'
+
+// The signed-in user's personal access tokens, newest first
+export async function GET() {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { data: tokens, error } = await supabase
+    .from('api_tokens')
+    .select(TOKEN_COLUMNS)
+    .eq('user_id', user.id)
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  return NextResponse.json(tokens)
+}
+
+// Mint a token. The plaintext is in this response only; afterwards just its
+// prefix is shown.
+export async function POST(request: Request) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const body = await request.json()
+  const { profile_id } = body
+  const expiresInDays = body.expires_in_days ?? null
+  const name = typeof body.name === 'string' ? body.name.trim() : ''
+  const scopes: unknown[] = Array.isArray(body.scopes) ? body.scopes : []
+
+  if (!name || name.length > MAX_TOKEN_NAME_LENGTH) {
+    return NextResponse.json(
+      { error: `Name is required and at most ${MAX_TOKEN_NAME_LENGTH} characters` },
+      { status: 400 }
+    )
+  }
+
+  if (scopes.length === 0 || !scopes.every(isApiScope)) {
+    return NextResponse.json({ error: 'Choose at least one valid scope' }, { status: 400 })
+  }
+
+  if (expiresInDays !== null && !(Number.isInteger(expiresInDays) && expiresInDays > 0)) {
+    return NextResponse.json({ error: 'Expiry must be a whole number of days' }, { status: 400 })
+  }
+
+  // A token limited to one profile must be for a profile the user can access
+  if (profile_id) {
+    const role = await getProfileRole(supabase, profile_id)
+
+    if (!canViewProfile(role)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 403 })
+    }
+  }
+
+  const { count } = await supabase
+    .from('api_tokens')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', user.id)
+    .is('revoked_at', null)
+
+  if ((count || 0) >= MAX_TOKENS_PER_USER) {
+    return NextResponse.json(
+      { error: `You can have at most ${MAX_TOKENS_PER_USER} active tokens` },
+      { status: 400 }
+    )
+  }
+
+  const { token, hash, prefix } = generateApiToken()
+
+  const { data: created, error } = await supabase
+    .from('api_tokens')
+    .insert({
+      user_id: user.id,
+      profile_id: profile_id || null,
+      name,
+      token_hash: hash,
+      token_prefix: prefix,
+      scopes: Array.from(new Set(scopes)),
+      expires_at: expiresInDays && new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000).toISOString(),
+    })
+    .select(TOKEN_COLUMNS)
+    .single()
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  return NextResponse.json({ ...created, token }, { status: 201 })
+}
+
+// Revoke a token. Revoked tokens stay listed so their last use remains visible.
+export async function DELETE(request: Request) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { searchParams } = new URL(request.url)
+  const id = searchParams.get('id')
+
+  if (!id) {
+    return NextResponse.json({ error: 'Token ID required' }, { status: 400 })
+  }
+
+  const { data: revoked, error } = await supabase.rpc('revoke_api_token', { p_token_id: id })
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  if (!revoked) {
+    return NextResponse.json({ error: 'Token not found' }, { status: 404 })
+  }
+
+  return NextResponse.json({ success: true })
+}
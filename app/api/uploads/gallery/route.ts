@@ -0,0 +1,122 @@
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { NextResponse } from 'next/server'
+import { randomUUID } from 'crypto'
+import { canEditProfile, getProfileRole } from '@/lib/permissions'
+import {
+  IMAGE_CONTENT_TYPES,
+  IMAGE_EXTENSIONS,
+  MAX_GALLERY_IMAGE_BYTES,
+  detectImageType,
+  makeThumbnail,
+  stripImageMetadata,
+} from '@/lib/images'
+import { STORAGE_BUCKET, galleryFolder } from '@/lib/storage'
+import { GalleryImage } from '@/lib/types'
+
+const MAX_FILES_PER_REQUEST = 20
+
+// multipart/form-data with `profile_id` and one or more `files`. Each file is
+// stored without its metadata and with a thumbnail; files that fail the checks are reported one by one
+// so a single bad file doesn't sink the whole batch.
+export async function POST(request: Request) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const form = await request.formData()
+  const profileId = form.get('profile_id')
+  const files = form.getAll('files').filter((entry): entry is File => typeof entry !== 'string')
+
+  if (typeof profileId !== 'string' || !profileId) {
+    return NextResponse.json({ error: 'Profile ID required' }, { status: 400 })
+  }
+
+  if (files.length === 0) {
+    return NextResponse.json({ error: 'No files uploaded' }, { status: 400 })
+  }
+
+  if (files.length > MAX_FILES_PER_REQUEST) {
+    return NextResponse.json(
+      { error: `At most ${MAX_FILES_PER_REQUEST} files per upload` },
+      { status: 400 }
+    )
+  }
+
+  // Verify user can edit the profile
+  const role = await getProfileRole(supabase, profileId)
+
+  if (!canEditProfile(role)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 403 })
+  }
+
+  const storage = supabase.storage.from(STORAGE_BUCKET)
+  const folder = galleryFolder(profileId)
+  const images: GalleryImage[] = []
+  const errors: { file: string; message: string }[] = []
+
+  for (const file of files) {
+    if (file.size > MAX_GALLERY_IMAGE_BYTES) {
+      errors.push({ file: file.name, message: `Larger than ${MAX_GALLERY_IMAGE_BYTES / 1024 / 1024} MB` })
+      continue
+    }
+
+    const buffer = Buffer.from(await file.arrayBuffer())
+    const type = detectImageType(buffer)
+
+    if (!type) {
+      errors.push({ file: file.name, message: 'Not a JPEG, PNG, WebP or GIF image' })
+      continue
+    }
+
+    // The original is stored re-encoded, never as uploaded, so photos don't
+    // publish where they were taken
+    let original: Buffer
+    let thumbnail: Buffer
+    try {
+      original = await stripImageMetadata(buffer, type)
+      thumbnail = await makeThumbnail(buffer)
+    } catch {
+      errors.push({ file: file.name, message: 'Image could not be read' })
+      continue
+    }
+
+    const id = randomUUID()
+    const path = `${folder}/${id}.${IMAGE_EXTENSIONS[type]}`
+    const thumbnailPath = `${folder}/${id}_thumb.webp`
+
+    const { error: uploadError } = await storage.upload(path, original, {
+      contentType: IMAGE_CONTENT_TYPES[type],
+    })
+
+    if (uploadError) {
+      errors.push({ file: file.name, message: uploadError.message })
+      continue
+    }
+
+    const { error: thumbnailError } = await storage.upload(thumbnailPath, thumbnail, {
+      contentType: 'image/webp',
+    })
+
+    if (thumbnailError) {
+      await storage.remove([path])
+      errors.push({ file: file.name, message: thumbnailError.message })
+      continue
+    }
+
+    images.push({
+      url: storage.getPublicUrl(path).data.publicUrl,
+      thumbnail_url: storage.getPublicUrl(thumbnailPath).data.publicUrl,
+    })
+  }
+
+  if (images.length === 0) {
+    return NextResponse.json({ error: 'No files could be uploaded', errors }, { status: 422 })
+  }
+
+  return NextResponse.json({ images, errors })
+}
@@ -0,0 +1,95 @@
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { NextResponse } from 'next/server'
+import { randomUUID } from 'crypto'
+import { canEditProfile, getProfileRole } from '@/lib/permissions'
+import { MAX_PROFILE_IMAGE_BYTES, detectImageType, processProfileImage } from '@/lib/images'
+import { STORAGE_BUCKET, cleanupProfileImages, profileImageFolder } from '@/lib/storage'
+import { ProfileImageKind } from '@/lib/types'
+
+const KINDS: ProfileImageKind[] = ['avatar', 'banner']
+
+// multipart/form-data with `profile_id`, `kind` (avatar or banner) and `file`.
+// Only the processed renditions are stored, never the original upload. The
+// caller saves the returned URL to the profile draft.
+export async function POST(request: Request) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const form = await request.formData()
+  const profileId = form.get('profile_id')
+  const kind = form.get('kind')
+  const file = form.get('file')
+
+  if (typeof profileId !== 'string' || !profileId) {
+    return NextResponse.json({ error: 'Profile ID required' }, { status: 400 })
+  }
+
+  if (!KINDS.includes(kind as ProfileImageKind)) {
+    return NextResponse.json({ error: 'Kind must be avatar or banner' }, { status: 400 })
+  }
+
+  if (!file || typeof file === 'string') {
+    return NextResponse.json({ error: 'No file uploaded' }, { status: 400 })
+  }
+
+  // Verify user can edit the profile
+  const role = await getProfileRole(supabase, profileId)
+
+  if (!canEditProfile(role)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 403 })
+  }
+
+  if (file.size > MAX_PROFILE_IMAGE_BYTES) {
+    return NextResponse.json(
+      { error: `Image must be at most ${MAX_PROFILE_IMAGE_BYTES / 1024 / 1024} MB` },
+      { status: 422 }
+    )
+  }
+
+  const buffer = Buffer.from(await file.arrayBuffer())
+
+  if (!detectImageType(buffer)) {
+    return NextResponse.json({ error: 'Not a JPEG, PNG, WebP or GIF image' }, { status: 422 })
+  }
+
+  let renditions: { webp: Buffer; jpeg: Buffer }
+  try {
+    renditions = await processProfileImage(buffer, kind as ProfileImageKind)
+  } catch {
+    return NextResponse.json({ error: 'Image could not be read' }, { status: 422 })
+  }
+
+  // A fresh name per upload, so browsers and CDNs never serve a stale copy
+  const storage = supabase.storage.from(STORAGE_BUCKET)
+  const base = `${profileImageFolder(profileId)}/${kind}-${randomUUID()}`
+
+  const { error: webpError } = await storage.upload(`${base}.webp`, renditions.webp, {
+    contentType: 'image/webp',
+  })
+
+  if (webpError) {
+    return NextResponse.json({ error: webpError.message }, { status: 500 })
+  }
+
+  const { error: jpegError } = await storage.upload(`${base}.jpg`, renditions.jpeg, {
+    contentType: 'image/jpeg',
+  })
+
+  if (jpegError) {
+    await storage.remove([`${base}.webp`])
+    return NextResponse.json({ error: jpegError.message }, { status: 500 })
+  }
+
+  await cleanupProfileImages(supabase, profileId)
+
+  return NextResponse.json({
+    url: storage.getPublicUrl(`${base}.webp`).data.publicUrl,
+    fallback_url: storage.getPublicUrl(`${base}.jpg`).data.publicUrl,
+  })
+}
@@ -0,0 +1,25 @@
+import { authenticateApiRequest, apiJson } from '@/lib/apiTokens'
+import { canEditProfile, getProfileRole } from '@/lib/permissions'
+import { publishProfile } from '@/lib/publish'
+
+// Promote the whole draft, like the dashboard's Publish button
+export async function POST(request: Request, { params }: { params: { id: string } }) {
+  const auth = await authenticateApiRequest(request, 'publish')
+  if (!auth.ok) return auth.response
+  const { context } = auth
+  const { supabase } = context
+
+  const role = await getProfileRole(supabase, params.id)
+
+  if (!canEditProfile(role)) {
+    return apiJson(context, { error: 'Unauthorized' }, 403)
+  }
+
+  const { error } = await publishProfile(supabase, params.id)
+
+  if (error) {
+    return apiJson(context, { error: error.message }, 500)
+  }
+
+  return apiJson(context, { success: true })
+}
@@ -0,0 +1,93 @@
+import { authenticateApiRequest, apiJson } from '@/lib/apiTokens'
+import { canEditProfile, canViewProfile, getProfileRole } from '@/lib/permissions'
+import { applyDraft } from '@/lib/drafts'
+import { isThemeId } from '@/lib/themes'
+import { validateProfileDetails } from '@/lib/profileFields'
+import { Profile, ProfileDraft } from '@/lib/types'
+
+interface RouteParams {
+  params: { id: string }
+}
+
+// The profile as the editor sees it, draft changes included, plus whether
+// those changes are still unpublished
+export async function GET(request: Request, { params }: RouteParams) {
+  const auth = await authenticateApiRequest(request, 'profile:read')
+  if (!auth.ok) return auth.response
+  const { context } = auth
+  const { supabase } = context
+
+  const role = await getProfileRole(supabase, params.id)
+
+  if (!canViewProfile(role)) {
+    return apiJson(context, { error: 'Unauthorized' }, 403)
+  }
+
+  const [{ data: profile, error }, { data: draft }, { data: pending }] = await Promise.all([
+    supabase.from('profiles').select('*').eq('id', params.id).single<Profile>(),
+    supabase.from('profile_drafts').select('*').eq('profile_id', params.id).maybeSingle<ProfileDraft>(),
+    supabase.rpc('has_unpublished_changes', { p_profile_id: params.id }),
+  ])
+
+  if (error || !profile) {
+    return apiJson(context, { error: error?.message || 'Profile not found' }, error ? 500 : 404)
+  }
+
+  return apiJson(context, { ...applyDraft(profile, draft), role, unpublished_changes: Boolean(pending) })
+}
+
+// Update profile details in the draft. Fields left out keep their value.
+export async function PATCH(request: Request, { params }: RouteParams) {
+  const auth = await authenticateApiRequest(request, 'profile:write')
+  if (!auth.ok) return auth.response
+  const { context } = auth
+  const { supabase } = context
+
+  const body = await request.json()
+  const { display_name, bio, avatar_url, banner_url, theme } = body
+
+  if (theme !== undefined && !isThemeId(theme)) {
+    return apiJson(context, { error: 'Unknown theme' }, 400)
+  }
+
+  const detailErrors = validateProfileDetails({ display_name, bio, avatar_url, banner_url })
+  if (detailErrors.length > 0) {
+    return apiJson(context, { error: 'Invalid profile details', errors: detailErrors }, 400)
+  }
+
+  const role = await getProfileRole(supabase, params.id)
+
+  if (!canEditProfile(role)) {
+    return apiJson(context, { error: 'Unauthorized' }, 403)
+  }
+
+  const [{ data: profile }, { data: existingDraft }] = await Promise.all([
+    supabase.from('profiles').select('*').eq('id', params.id).single<Profile>(),
+    supabase.from('profile_drafts').select('*').eq('profile_id', params.id).maybeSingle<ProfileDraft>(),
+  ])
+
+  if (!profile) {
+    return apiJson(context, { error: 'Profile not found' }, 404)
+  }
+
+  const base = existingDraft || profile
+  const { data: draft, error } = await supabase
+    .from('profile_drafts')
+    .upsert({
+      profile_id: params.id,
+      display_name: display_name !== undefined ? display_name : base.display_name,
+      bio: bio !== undefined ? bio : base.bio,
+      avatar_url: avatar_url !== undefined ? avatar_url : base.avatar_url,
+      banner_url: banner_url !== undefined ? banner_url : base.banner_url,
+      theme: theme !== undefined ? theme : base.theme,
+      updated_at: new Date().toISOString(),
+    })
+    .select()
+    .single<ProfileDraft>()
+
+  if (error) {
+    return apiJson(context, { error: error.message }, 500)
+  }
+
+  return apiJson(context, applyDraft(profile, draft))
+}
@@ -0,0 +1,73 @@
+import { authenticateApiRequest, apiJson } from '@/lib/apiTokens'
+import { canEditProfile, getProfileRole } from '@/lib/permissions'
+import { createServiceClient } from '@/lib/serviceClient'
+
+// Replace the draft order. `section_ids` must list every section once.
+export async function PUT(request: Request, { params }: { params: { id: string } }) {
+  const auth = await authenticateApiRequest(request, 'sections:write')
+  if (!auth.ok) return auth.response
+  const { context } = auth
+  const { supabase } = context
+
+  const body = await request.json()
+  const { section_ids } = body
+
+  if (!Array.isArray(section_ids)) {
+    return apiJson(context, { error: 'Section IDs required' }, 400)
+  }
+
+  const role = await getProfileRole(supabase, params.id)
+
+  if (!canEditProfile(role)) {
+    return apiJson(context, { error: 'Unauthorized' }, 403)
+  }
+
+  const { data: existing, error: existingError } = await supabase
+    .from('draft_sections')
+    .select('id')
+    .eq('profile_id', params.id)
+
+  if (existingError) {
+    return apiJson(context, { error: existingError.message }, 500)
+  }
+
+  const existingIds = new Set((existing || []).map((s: { id: string }) => s.id))
+  const requestedIds = new Set<string>(section_ids)
+
+  if (
+    requestedIds.size !== section_ids.length ||
+    requestedIds.size !== existingIds.size ||
+    section_ids.some((id: string) => !existingIds.has(id))
+  ) {
+    return apiJson(context, { error: 'Section IDs must match the profile sections exactly' }, 400)
+  }
+
+  // Token requests reach the database as anon, which may not call
+  // reorder_sections(); the checks above stand in for its RLS
+  const admin = createServiceClient()
+
+  if (!admin) {
+    return apiJson(context, { error: 'The API is not configured' }, 501)
+  }
+
+  const { error } = await admin.rpc('reorder_sections', {
+    p_profile_id: params.id,
+    p_section_ids: section_ids,
+  })
+
+  if (error) {
+    return apiJson(context, { error: error.message }, 500)
+  }
+
+  const { data: sections, error: sectionsError } = await supabase
+    .from('draft_sections')
+    .select('*')
+    .eq('profile_id', params.id)
+    .order('position')
+
+  if (sectionsError) {
+    return apiJson(context, { error: sectionsError.message }, 500)
+  }
+
+  return apiJson(context, sections)
+}
@@ -0,0 +1,114 @@
+import { authenticateApiRequest, apiJson } from '@/lib/apiTokens'
+import { canEditProfile, canViewProfile, getProfileRole } from '@/lib/permissions'
+import {
+  isSectionType,
+  validateSectionAccess,
+  validateSectionContent,
+  validateSectionSchedule,
+  validateSectionTitle,
+} from '@/lib/sectionContent'
+
+interface RouteParams {
+  params: { id: string }
+}
+
+// Draft sections in display order, hidden and scheduled ones included
+export async function GET(request: Request, { params }: RouteParams) {
+  const auth = await authenticateApiRequest(request, 'sections:read')
+  if (!auth.ok) return auth.response
+  const { context } = auth
+  const { supabase } = context
+
+  const role = await getProfileRole(supabase, params.id)
+
+  if (!canViewProfile(role)) {
+    return apiJson(context, { error: 'Unauthorized' }, 403)
+  }
+
+  const { data: sections, error } = await supabase
+    .from('draft_sections')
+    .select('*')
+    .eq('profile_id', params.id)
+    .order('position')
+
+  if (error) {
+    return apiJson(context, { error: error.message }, 500)
+  }
+
+  return apiJson(context, sections)
+}
+
+// Add a draft section. Without a position it goes after the last one.
+export async function POST(request: Request, { params }: RouteParams) {
+  const auth = await authenticateApiRequest(request, 'sections:write')
+  if (!auth.ok) return auth.response
+  const { context } = auth
+  const { supabase } = context
+
+  const body = await request.json()
+  const { title, type, content, position, visible, access, publish_at, unpublish_at } = body
+
+  if (!isSectionType(type)) {
+    return apiJson(
+      context,
+      { error: 'Invalid section', errors: [{ path: 'type', message: 'Unknown section type' }] },
+      422
+    )
+  }
+
+  const contentResult = validateSectionContent(type, content)
+  const errors = [
+    ...validateSectionTitle(title),
+    ...(contentResult.ok ? [] : contentResult.errors),
+    ...validateSectionSchedule(publish_at, unpublish_at),
+    ...validateSectionAccess(access),
+  ]
+
+  if (position !== undefined && !(Number.isInteger(position) && position >= 0)) {
+    errors.push({ path: 'position', message: 'Must be a whole number, 0 or more' })
+  }
+
+  if (errors.length > 0 || !contentResult.ok) {
+    return apiJson(context, { error: 'Invalid section', errors }, 422)
+  }
+
+  const role = await getProfileRole(supabase, params.id)
+
+  if (!canEditProfile(role)) {
+    return apiJson(context, { error: 'Unauthorized' }, 403)
+  }
+
+  let nextPosition = position
+  if (nextPosition === undefined) {
+    const { data: last } = await supabase
+      .from('draft_sections')
+      .select('position')
+      .eq('profile_id', params.id)
+      .order('position', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+    nextPosition = last ? last.position + 1 : 0
+  }
+
+  const { data: section, error } = await supabase
+    .from('draft_sections')
+    .insert({
+      profile_id: params.id,
+      title,
+      type,
+      content: contentResult.value,
+      position: nextPosition,
+      visible: visible !== false,
+      access,
+      publish_at: publish_at || null,
+      unpublish_at: unpublish_at || null,
+    })
+    .select()
+    .single()
+
+  if (error) {
+    return apiJson(context, { error: error.message }, 500)
+  }
+
+  return apiJson(context, section, 201)
+}
@@ -0,0 +1,49 @@
+import { authenticateApiRequest, apiJson } from '@/lib/apiTokens'
+import { getProfileRole } from '@/lib/permissions'
+import { MemberProfile, Profile } from '@/lib/types'
+
+// Profiles the token can reach: the owner's and those shared with them, or
+// just one when the token is limited to a profile
+export async function GET(request: Request) {
+  const auth = await authenticateApiRequest(request, 'profile:read')
+  if (!auth.ok) return auth.response
+  const { context } = auth
+  const { supabase } = context
+
+  const { data: owned, error } = await supabase
+    .from('profiles')
+    .select('*')
+    .eq('user_id', context.userId)
+    .order('created_at')
+
+  if (error) {
+    return apiJson(context, { error: error.message }, 500)
+  }
+
+  const { data: memberships, error: membershipsError } = await supabase
+    .from('profile_members')
+    .select('profile:profiles(*)')
+    .eq('user_id', context.userId)
+    .not('accepted_at', 'is', null)
+
+  if (membershipsError) {
+    return apiJson(context, { error: membershipsError.message }, 500)
+  }
+
+  const candidates: Profile[] = [...(owned || [])]
+  for (const membership of (memberships || []) as unknown as { profile: Profile | null }[]) {
+    if (membership.profile && !candidates.some((p) => p.id === membership.profile!.id)) {
+      candidates.push(membership.profile)
+    }
+  }
+
+  // Roles as this token sees them, which also drops profiles it can't reach
+  const profiles: MemberProfile[] = []
+  for (const profile of candidates) {
+    if (context.profileId && profile.id !== context.profileId) continue
+    const role = await getProfileRole(supabase, profile.id)
+    if (role) profiles.push({ ...profile, role })
+  }
+
+  return apiJson(context, profiles)
+}
@@ -0,0 +1,49 @@
+import { authenticateApiRequest, apiJson } from '@/lib/apiTokens'
+import { canViewProfile, getProfileRole } from '@/lib/permissions'
+import { deleteDraftSection, updateDraftSection } from '@/lib/sectionEdits'
+
+interface RouteParams {
+  params: { id: string }
+}
+
+export async function GET(request: Request, { params }: RouteParams) {
+  const auth = await authenticateApiRequest(request, 'sections:read')
+  if (!auth.ok) return auth.response
+  const { context } = auth
+  const { supabase } = context
+
+  const { data: section } = await supabase
+    .from('draft_sections')
+    .select('*')
+    .eq('id', params.id)
+    .maybeSingle()
+
+  if (!section || !canViewProfile(await getProfileRole(supabase, section.profile_id))) {
+    return apiJson(context, { error: 'Section not found' }, 404)
+  }
+
+  return apiJson(context, section)
+}
+
+// Same rules as the dashboard: the type never changes, content is validated
+// against it, and the previous state is kept as a revision
+export async function PATCH(request: Request, { params }: RouteParams) {
+  const auth = await authenticateApiRequest(request, 'sections:write')
+  if (!auth.ok) return auth.response
+  const { context } = auth
+
+  const body = await request.json()
+  const { status, body: result } = await updateDraftSection(context.supabase, context.userId, params.id, body)
+
+  return apiJson(context, result, status)
+}
+
+export async function DELETE(request: Request, { params }: RouteParams) {
+  const auth = await authenticateApiRequest(request, 'sections:write')
+  if (!auth.ok) return auth.response
+  const { context } = auth
+
+  const { status, body: result } = await deleteDraftSection(context.supabase, context.userId, params.id)
+
+  return apiJson(context, result, status)
+}
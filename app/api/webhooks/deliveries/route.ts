@@ -0,0 +1,98 @@
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { NextResponse } from 'next/server'
+import { canManageProfile, getProfileRole } from '@/lib/permissions'
+import { deliverProfileWebhooks } from '@/lib/webhookDelivery'
+
+const LOG_LIMIT = 50
+
+// Delivery log for a profile, newest first. Retries that have come due are
+// sent first, so the log is current even without the cron job.
+export async function GET(request: Request) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { searchParams } = new URL(request.url)
+  const profileId = searchParams.get('profile_id')
+
+  if (!profileId) {
+    return NextResponse.json({ error: 'Profile ID required' }, { status: 400 })
+  }
+
+  const role = await getProfileRole(supabase, profileId)
+
+  if (!canManageProfile(role)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 403 })
+  }
+
+  await deliverProfileWebhooks(profileId)
+
+  const { data: deliveries, error } = await supabase
+    .from('webhook_deliveries')
+    .select('*')
+    .eq('profile_id', profileId)
+    .order('created_at', { ascending: false })
+    .limit(LOG_LIMIT)
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  return NextResponse.json(deliveries)
+}
+
+// Put a delivery back in the queue and send it now. Failed deliveries get
+// one more attempt.
+export async function POST(request: Request) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const body = await request.json()
+  const { id } = body
+
+  const { data: delivery } = await supabase
+    .from('webhook_deliveries')
+    .select('profile_id')
+    .eq('id', id)
+    .single()
+
+  if (!delivery) {
+    return NextResponse.json({ error: 'Delivery not found' }, { status: 404 })
+  }
+
+  // Verify user can manage the profile
+  const role = await getProfileRole(supabase, delivery.profile_id)
+
+  if (!canManageProfile(role)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 403 })
+  }
+
+  const { error } = await supabase
+    .from('webhook_deliveries')
+    .update({ status: 'pending', next_attempt_at: new Date().toISOString() })
+    .eq('id', id)
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  await deliverProfileWebhooks(delivery.profile_id)
+
+  const { data: updated } = await supabase
+    .from('webhook_deliveries')
+    .select('*')
+    .eq('id', id)
+    .single()
+
+  return NextResponse.json(updated)
+}
@@ -0,0 +1,203 @@
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { NextResponse } from 'next/server'
+import { randomBytes } from 'crypto'
+import { canManageProfile, getProfileRole } from '@/lib/permissions'
+import { ALLOW_LOCAL_WEBHOOKS, isWebhookEvent, webhookUrlError } from '@/lib/webhooks'
+
+const MAX_WEBHOOKS_PER_PROFILE = 10
+
+function eventsError(events: unknown): string | null {
+  if (!Array.isArray(events) || events.length === 0 || !events.every(isWebhookEvent)) {
+    return 'Choose at least one valid event'
+  }
+  return null
+}
+
+export async function GET(request: Request) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { searchParams } = new URL(request.url)
+  const profileId = searchParams.get('profile_id')
+
+  if (!profileId) {
+    return NextResponse.json({ error: 'Profile ID required' }, { status: 400 })
+  }
+
+  // RLS limits this to webhooks on profiles the user owns
+  const { data: webhooks, error } = await supabase
+    .from('webhooks')
+    .select('*')
+    .eq('profile_id', profileId)
+    .order('created_at')
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  return NextResponse.json(webhooks)
+}
+
+export async function POST(request: Request) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const body = await request.json()
+  const { profile_id, events } = body
+  const url = String(body.url || '').trim()
+
+  const error = webhookUrlError(url, ALLOW_LOCAL_WEBHOOKS) || eventsError(events)
+  if (error) {
+    return NextResponse.json({ error }, { status: 400 })
+  }
+
+  // Verify user can manage the profile
+  const role = await getProfileRole(supabase, profile_id)
+
+  if (!canManageProfile(role)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 403 })
+  }
+
+  const { count } = await supabase
+    .from('webhooks')
+    .select('id', { count: 'exact', head: true })
+    .eq('profile_id', profile_id)
+
+  if ((count || 0) >= MAX_WEBHOOKS_PER_PROFILE) {
+    return NextResponse.json(
+      { error: `A profile can have at most ${MAX_WEBHOOKS_PER_PROFILE} webhooks` },
+      { status: 400 }
+    )
+  }
+
+  const { data: webhook, error: insertError } = await supabase
+    .from('webhooks')
+    .insert({
+      profile_id,
+      url,
+      events: Array.from(new Set(events)),
+      secret: `whsec_${randomBytes(24).toString('hex')}`,
+    })
+    .select()
+    .single()
+
+  if (insertError) {
+    return NextResponse.json({ error: insertError.message }, { status: 500 })
+  }
+
+  return NextResponse.json(webhook, { status: 201 })
+}
+
+// Change the URL, the events or pause/resume a webhook
+export async function PATCH(request: Request) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const body = await request.json()
+  const { id, url, events, active } = body
+
+  const error =
+    (url !== undefined ? webhookUrlError(String(url).trim(), ALLOW_LOCAL_WEBHOOKS) : null) ||
+    (events !== undefined ? eventsError(events) : null)
+
+  if (error) {
+    return NextResponse.json({ error }, { status: 400 })
+  }
+
+  // Look up the webhook to find its profile
+  const { data: existing } = await supabase
+    .from('webhooks')
+    .select('profile_id')
+    .eq('id', id)
+    .single()
+
+  if (!existing) {
+    return NextResponse.json({ error: 'Webhook not found' }, { status: 404 })
+  }
+
+  // Verify user can manage the profile
+  const role = await getProfileRole(supabase, existing.profile_id)
+
+  if (!canManageProfile(role)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 403 })
+  }
+
+  const { data: webhook, error: updateError } = await supabase
+    .from('webhooks')
+    .update({
+      url: url !== undefined ? String(url).trim() : undefined,
+      events: events !== undefined ? Array.from(new Set(events)) : undefined,
+      active: typeof active === 'boolean' ? active : undefined,
+    })
+    .eq('id', id)
+    .select()
+    .single()
+
+  if (updateError) {
+    return NextResponse.json({ error: updateError.message }, { status: 500 })
+  }
+
+  return NextResponse.json(webhook)
+}
+
+export async function DELETE(request: Request) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { searchParams } = new URL(request.url)
+  const id = searchParams.get('id')
+
+  if (!id) {
+    return NextResponse.json({ error: 'Webhook ID required' }, { status: 400 })
+  }
+
+  // Look up the webhook to find its profile
+  const { data: existing } = await supabase
+    .from('webhooks')
+    .select('profile_id')
+    .eq('id', id)
+    .single()
+
+  if (!existing) {
+    return NextResponse.json({ error: 'Webhook not found' }, { status: 404 })
+  }
+
+  // Verify user can manage the profile
+  const role = await getProfileRole(supabase, existing.profile_id)
+
+  if (!canManageProfile(role)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 403 })
+  }
+
+  const { error } = await supabase
+    .from('webhooks')
+    .delete()
+    .eq('id', id)
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  return NextResponse.json({ success: true })
+}
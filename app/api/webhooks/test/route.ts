@@ -0,0 +1,64 @@
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { NextResponse } from 'next/server'
+import { canManageProfile, getProfileRole } from '@/lib/permissions'
+import { deliverProfileWebhooks, enqueueWebhookEvent } from '@/lib/webhookDelivery'
+
+// Send a `ping` event to one webhook, regardless of the events it listens to
+export async function POST(request: Request) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const body = await request.json()
+  const { id } = body
+
+  const { data: webhook } = await supabase
+    .from('webhooks')
+    .select('id, profile_id, url, active')
+    .eq('id', id)
+    .single()
+
+  if (!webhook) {
+    return NextResponse.json({ error: 'Webhook not found' }, { status: 404 })
+  }
+
+  // Verify user can manage the profile
+  const role = await getProfileRole(supabase, webhook.profile_id)
+
+  if (!canManageProfile(role)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 403 })
+  }
+
+  if (!webhook.active) {
+    return NextResponse.json({ error: 'Resume the webhook before testing it' }, { status: 400 })
+  }
+
+  const queued = await enqueueWebhookEvent(
+    supabase,
+    webhook.profile_id,
+    'ping',
+    { webhook_id: webhook.id, url: webhook.url },
+    webhook.id
+  )
+
+  if (queued > 0) {
+    await deliverProfileWebhooks(webhook.profile_id)
+  }
+
+  // Report how the attempt went so the dashboard can show it right away
+  const { data: delivery } = await supabase
+    .from('webhook_deliveries')
+    .select('*')
+    .eq('webhook_id', webhook.id)
+    .eq('event', 'ping')
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  return NextResponse.json(delivery)
+}
@@ -1,14 +1,71 @@
 'use client'
 
-import { useEffect, useState } from 'react'
-import { useRouter } from 'next/navigation'
+import { Suspense, useEffect, useState } from 'react'
+import { useRouter, useSearchParams } from 'next/navigation'
 import { getSupabaseClient } from '@/lib/supabase'
-import { Profile, Section } from '@/lib/types'
-import { Plus, Eye, Edit2, Trash2, GripVertical } from 'lucide-react'
+import {
+  AccessMode,
+  MemberProfile,
+  Profile,
+  ProfileDraft,
+  ProfileImageKind,
+  Section,
+  SectionRevision,
+  SectionTemplate,
+} from '@/lib/types'
+import {
+  FieldError,
+  normalizeSectionContent,
+  validateSectionContent,
+  validateSectionSchedule,
+  validateSectionTitle,
+} from '@/lib/sectionContent'
+import { fromDateTimeLocal, isSectionLive, scheduleStatus, toDateTimeLocal } from '@/lib/schedule'
+import { DEFAULT_THEME_ID } from '@/lib/themes'
+import { MAX_BIO_LENGTH, MAX_DISPLAY_NAME_LENGTH } from '@/lib/profileFields'
+import { validateUsername } from '@/lib/username'
+import { getActiveProfileId, notifyProfilesChanged, setActiveProfileId } from '@/lib/activeProfile'
+import { canEditProfile, canManageProfile } from '@/lib/permissions'
+import { ACCESS_MODE_LABELS } from '@/lib/access'
+import { applyDraft } from '@/lib/drafts'
+import { SectionPreset } from '@/lib/templates'
+import ProfileCard from '@/components/ProfileCard'
+import ThemePicker from '@/components/ThemePicker'
+import DomainSettings from '@/components/DomainSettings'
+import AccessSettings from '@/components/AccessSettings'
+import VisibilitySettings from '@/components/VisibilitySettings'
+import UsernameSettings from '@/components/UsernameSettings'
+import AnalyticsPanel from '@/components/AnalyticsPanel'
+import MembersPanel from '@/components/MembersPanel'
+import BundlePanel from '@/components/BundlePanel'
+import ApiTokensPanel from '@/components/ApiTokensPanel'
+import WebhooksPanel from '@/components/WebhooksPanel'
+import InboxPanel from '@/components/InboxPanel'
+import FeedPanel from '@/components/FeedPanel'
+import SectionHistory from '@/components/SectionHistory'
+import SectionContentEditor, { DraftContent } from '@/components/SectionContentEditor'
+import AddSectionMenu from '@/components/AddSectionMenu'
+import { Plus, Eye, Edit2, Trash2, GripVertical, History, Upload, BookmarkPlus } from 'lucide-react'
 import Link from 'next/link'
 
-export default function DashboardPage() {
-  const [profile, setProfile] = useState<Profile | null>(null)
+// Unsaved state of one section card
+type SectionEdit = {
+  title: string
+  content: DraftContent
+  visible: boolean
+  access: AccessMode
+  // datetime-local input values, empty when unset
+  publish_at: string
+  unpublish_at: string
+}
+
+function Dashboard() {
+  const [profile, setProfile] = useState<MemberProfile | null>(null)
+  const [userId, setUserId] = useState<string | null>(null)
+  const [profileCount, setProfileCount] = useState(0)
+  const [showNewProfile, setShowNewProfile] = useState(false)
+  const [newUsername, setNewUsername] = useState('')
+  const [newProfileError, setNewProfileError] = useState('')
   const [sections, setSections] = useState<Section[]>([])
   const [loading, setLoading] = useState(true)
   const [editingProfile, setEditingProfile] = useState(false)
@@ -16,18 +73,46 @@ export default function DashboardPage() {
   const [bio, setBio] = useState('')
   const [avatarUrl, setAvatarUrl] = useState('')
   const [bannerUrl, setBannerUrl] = useState('')
-  const [showAddMenu, setShowAddMenu] = useState(false)
+  const [theme, setTheme] = useState(DEFAULT_THEME_ID)
+  const [templates, setTemplates] = useState<SectionTemplate[]>([])
   const [uploadingAvatar, setUploadingAvatar] = useState(false)
   const [uploadingBanner, setUploadingBanner] = useState(false)
-  const [sectionEdits, setSectionEdits] = useState<Record<string, { title: string; content: any; visible: boolean }>>({})
+  const [sectionEdits, setSectionEdits] = useState<Record<string, SectionEdit>>({})
+  const [sectionErrors, setSectionErrors] = useState<Record<string, FieldError[]>>({})
   const [savingSectionId, setSavingSectionId] = useState<string | null>(null)
+  const [uploadingGalleryId, setUploadingGalleryId] = useState<string | null>(null)
+  const [dragHandleId, setDragHandleId] = useState<string | null>(null)
+  const [draggingId, setDraggingId] = useState<string | null>(null)
+  const [savingOrder, setSavingOrder] = useState(false)
+  const [historySectionId, setHistorySectionId] = useState<string | null>(null)
+  const [deletedSections, setDeletedSections] = useState<SectionRevision[]>([])
+  const [hasUnpublishedChanges, setHasUnpublishedChanges] = useState(false)
+  const [publishing, setPublishing] = useState(false)
+  const [showDraftPreview, setShowDraftPreview] = useState(false)
   const router = useRouter()
+  const searchParams = useSearchParams()
   const supabase = getSupabaseClient()
 
+  // ?profile=<id> selects which of the account's profiles is being edited
+  const requestedProfileId = searchParams.get('profile')
+
   useEffect(() => {
     loadProfile()
+  }, [requestedProfileId])
+
+  // Saved templates belong to the account, not the profile being edited
+  useEffect(() => {
+    loadTemplates()
   }, [])
 
+  // Panels render after the profile loads, too late for the browser to
+  // follow links like /dashboard#inbox by itself
+  useEffect(() => {
+    if (!loading && window.location.hash) {
+      document.getElementById(window.location.hash.slice(1))?.scrollIntoView()
+    }
+  }, [loading])
+
   const loadProfile = async () => {
     const { data: { user } } = await supabase.auth.getUser()
     
@@ -36,84 +121,175 @@ export default function DashboardPage() {
       return
     }
 
-    const { data: profileData, error: profileError } = await supabase
-      .from('profiles')
-      .select('*')
-      .eq('user_id', user.id)
-      .single<Profile>()
+    setUserId(user.id)
+
+    // Owned profiles plus those shared with this account, each with a role
+    const profilesResponse = await fetch('/api/profiles', { credentials: 'include' })
+    const profilesResult = await profilesResponse.json()
+    const memberProfiles: MemberProfile[] = profilesResponse.ok ? profilesResult : []
 
-    if (profileError) {
-      console.error('Error loading profile:', profileError)
+    const preferredId = requestedProfileId || getActiveProfileId()
+    const publishedProfile = memberProfiles.find((p) => p.id === preferredId) || memberProfiles[0]
+    setProfileCount(memberProfiles.filter((p) => p.user_id === user.id).length)
+
+    if (!profilesResponse.ok) {
+      console.error('Error loading profiles:', profilesResult.error)
       console.error('User ID:', user.id)
-      console.error('Error code:', profileError.code)
-      
+    } else if (memberProfiles.length === 0) {
       // If profile doesn't exist, try to create it as a fallback
-      if (profileError.code === 'PGRST116') {
-        console.warn('Profile not found for user, attempting to create...')
-        try {
-          const response = await fetch('/api/profile', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            credentials: 'include',
-            body: JSON.stringify({
-              username: `user_${user.id.slice(0, 8)}`,
-              display_name: user.email?.split('@')[0] || 'New User',
-            }),
-          })
-          
-          const result = await response.json()
-          if (response.ok && result) {
-            setProfile(result)
-            setDisplayName(result.display_name || '')
-            setBio(result.bio || '')
-          } else {
-            console.error('Failed to create profile:', result.error)
-          }
-        } catch (err) {
-          console.error('Exception creating profile:', err)
+      console.warn('Profile not found for user, attempting to create...')
+      try {
+        const response = await fetch('/api/profile', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          credentials: 'include',
+          // Signups that had to confirm their email first saved the chosen username
+          body: JSON.stringify({
+            username: user.user_metadata?.username || `user_${user.id.slice(0, 8)}`,
+            display_name: user.email?.split('@')[0] || 'New User',
+          }),
+        })
+        
+        const result = await response.json()
+        if (response.ok && result) {
+          setProfile({ ...result, role: 'owner' })
+          setProfileCount(1)
+          setDisplayName(result.display_name || '')
+          setBio(result.bio || '')
+        } else {
+          console.error('Failed to create profile:', result.error)
         }
+      } catch (err) {
+        console.error('Exception creating profile:', err)
       }
     }
 
-    if (profileData) {
+    if (publishedProfile) {
+      // The dashboard always edits the draft
+      const { data: draftData } = await supabase
+        .from('profile_drafts')
+        .select('*')
+        .eq('profile_id', publishedProfile.id)
+        .maybeSingle<ProfileDraft>()
+      const profileData = applyDraft(publishedProfile, draftData)
+
+      if (profileData.id !== getActiveProfileId()) {
+        setActiveProfileId(profileData.id)
+      }
       setProfile(profileData)
       setDisplayName(profileData.display_name || '')
       setBio(profileData.bio || '')
       setAvatarUrl(profileData.avatar_url || '')
       setBannerUrl(profileData.banner_url || '')
+      setTheme(profileData.theme || DEFAULT_THEME_ID)
 
       const profileId: string = profileData.id
 
+      // First visit after signup: fill the new profile with the chosen layout
+      const starterLayout = user.user_metadata?.starter_layout
+      if (starterLayout && profileData.user_id === user.id) {
+        await fetch('/api/templates/starter', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          credentials: 'include',
+          body: JSON.stringify({ profile_id: profileId, layout: starterLayout }),
+        })
+      }
+
       const { data: sectionsData } = await supabase
-        .from('sections')
+        .from('draft_sections')
         .select('*')
         .eq('profile_id', profileId)
         .order('position')
 
       if (sectionsData) {
         setSections(sectionsData as Section[])
-        const edits: Record<string, { title: string; content: any; visible: boolean }> = {}
+        const edits: Record<string, SectionEdit> = {}
         ;(sectionsData as Section[]).forEach((s: Section) => {
-          // Normalize defaults so editors don't crash
-          const normalizedContent =
-            s.type === 'text_list'
-              ? { items: s.content?.items || [] }
-              : s.type === 'links'
-              ? { links: s.content?.links || [] }
-              : { images: s.content?.images || [] }
           edits[s.id] = {
             title: s.title,
-            content: normalizedContent,
+            // Normalize defaults so editors don't crash
+            content: normalizeSectionContent(s.type, s.content),
             visible: s.visible ?? true,
+            access: s.access ?? 'public',
+            publish_at: toDateTimeLocal(s.publish_at),
+            unpublish_at: toDateTimeLocal(s.unpublish_at),
           }
         })
         setSectionEdits(edits)
+        setSectionErrors({})
+      }
+
+      const deletedResponse = await fetch(`/api/sections/revisions?profile_id=${profileId}`, {
+        credentials: 'include',
+      })
+      if (deletedResponse.ok) {
+        setDeletedSections(await deletedResponse.json())
+      }
+
+      const statusResponse = await fetch(`/api/profile/publish?profile_id=${profileId}`, {
+        credentials: 'include',
+      })
+      if (statusResponse.ok) {
+        setHasUnpublishedChanges((await statusResponse.json()).pending)
       }
     }
 
     setLoading(false)
   }
 
+  const createProfile = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setNewProfileError('')
+
+    const username = newUsername.toLowerCase()
+    const usernameError = validateUsername(username)
+    if (usernameError) {
+      setNewProfileError(usernameError)
+      return
+    }
+
+    const response = await fetch('/api/profile', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify({ username, display_name: username }),
+    })
+    const result = await response.json()
+
+    if (!response.ok) {
+      setNewProfileError(result.error || 'Failed to create profile')
+      return
+    }
+
+    setShowNewProfile(false)
+    setNewUsername('')
+    setActiveProfileId(result.id)
+    notifyProfilesChanged()
+    router.push(`/dashboard?profile=${result.id}`)
+  }
+
+  const deleteProfile = async () => {
+    if (!profile) return
+    if (!confirm(`Delete @${profile.username} and all of its sections? This cannot be undone.`)) return
+
+    const response = await fetch(`/api/profile?id=${profile.id}`, {
+      method: 'DELETE',
+      credentials: 'include',
+    })
+
+    if (response.ok) {
+      setEditingProfile(false)
+      notifyProfilesChanged()
+      router.push('/dashboard')
+      // Same URL when no profile was requested explicitly, so reload directly
+      if (!requestedProfileId) loadProfile()
+    } else {
+      const result = await response.json()
+      alert(`Failed to delete profile: ${result.error || 'Unknown error'}`)
+    }
+  }
+
   const handleLogout = async () => {
     await supabase.auth.signOut()
     router.push('/')
@@ -122,179 +298,332 @@ export default function DashboardPage() {
   const updateProfile = async () => {
     if (!profile) return
 
-    const updateData = {
-      display_name: displayName,
-      bio: bio,
-      avatar_url: avatarUrl,
-      banner_url: bannerUrl,
-      updated_at: new Date().toISOString(),
-    }
-
-    const { error } = await supabase
-      .from('profiles')
-      // @ts-expect-error - Supabase type inference issue
-      .update(updateData)
-      .eq('id', profile.id)
+    const response = await fetch('/api/profile', {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify({
+        id: profile.id,
+        display_name: displayName,
+        bio: bio,
+        avatar_url: avatarUrl,
+        banner_url: bannerUrl,
+        theme,
+      }),
+    })
 
-    if (!error) {
+    if (response.ok) {
       setEditingProfile(false)
       loadProfile()
     }
   }
 
-  const uploadAvatar = async (file: File) => {
+  const saveProfileDraftField = async (fields: Partial<Pick<Profile, 'avatar_url' | 'banner_url'>>) => {
     if (!profile) return
-    setUploadingAvatar(true)
-    
-    try {
-      const fileExt = file.name.split('.').pop()
-      const fileName = `${profile.id}-avatar.${fileExt}`
-      const filePath = `avatars/${fileName}`
 
-      console.log('Starting avatar upload...')
-      console.log('File:', file.name, 'Size:', file.size, 'Type:', file.type)
-      console.log('Upload path:', filePath)
+    const response = await fetch('/api/profile', {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify({ id: profile.id, ...fields }),
+    })
 
-      const { error: uploadError, data } = await supabase.storage
-        .from('Profiles')
-        .upload(filePath, file, { upsert: true })
-
-      console.log('Upload response:', { error: uploadError, data })
+    if (!response.ok) {
+      const result = await response.json()
+      throw new Error(result.error || 'Failed to save profile')
+    }
+  }
 
-      if (uploadError) {
-        console.error('Upload error details:', uploadError)
-        throw uploadError
-      }
+  const publishProfile = async () => {
+    if (!profile) return
+    if (!confirm('Publish all draft changes? Visitors will see them right away.')) return
 
-      const { data: publicUrlData } = supabase.storage.from('Profiles').getPublicUrl(filePath)
-      const newUrl = publicUrlData.publicUrl
-      console.log('Generated public URL:', newUrl)
-      setAvatarUrl(newUrl)
+    setPublishing(true)
+    const response = await fetch('/api/profile/publish', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify({ profile_id: profile.id }),
+    })
 
-      // Auto-save to database
-      // @ts-ignore - Supabase type inference
-      await supabase.from('profiles').update({ avatar_url: newUrl, updated_at: new Date().toISOString() }).eq('id', profile.id)
-      console.log('Avatar URL saved to database')
+    if (response.ok) {
       await loadProfile()
-    } catch (error) {
-      console.error('Avatar upload failed:', error)
-      const errorMsg = error instanceof Error ? error.message : String(error)
-      alert(`Failed to upload avatar: ${errorMsg}`)
-    } finally {
-      setUploadingAvatar(false)
+    } else {
+      const result = await response.json()
+      alert(`Failed to publish: ${result.error || 'Unknown error'}`)
     }
+    setPublishing(false)
   }
 
-  const uploadBanner = async (file: File) => {
+  // Resized, cropped and stripped of metadata on the server
+  const uploadProfileImage = async (kind: ProfileImageKind, file: File) => {
     if (!profile) return
-    setUploadingBanner(true)
-    
-    try {
-      const fileExt = file.name.split('.').pop()
-      const fileName = `${profile.id}-banner.${fileExt}`
-      const filePath = `banners/${fileName}`
+    const setUploading = kind === 'avatar' ? setUploadingAvatar : setUploadingBanner
+    setUploading(true)
 
-      console.log('Starting banner upload...')
-      console.log('File:', file.name, 'Size:', file.size, 'Type:', file.type)
-      console.log('Upload path:', filePath)
-
-      const { error: uploadError, data } = await supabase.storage
-        .from('Profiles')
-        .upload(filePath, file, { upsert: true })
+    try {
+      const form = new FormData()
+      form.append('profile_id', profile.id)
+      form.append('kind', kind)
+      form.append('file', file)
 
-      console.log('Upload response:', { error: uploadError, data })
+      const response = await fetch('/api/uploads/profile-image', {
+        method: 'POST',
+        credentials: 'include',
+        body: form,
+      })
+      const result = await response.json()
 
-      if (uploadError) {
-        console.error('Upload error details:', uploadError)
-        throw uploadError
+      if (!response.ok) {
+        throw new Error(result.error || 'Upload failed')
       }
 
-      const { data: publicUrlData } = supabase.storage.from('Profiles').getPublicUrl(filePath)
-      const newUrl = publicUrlData.publicUrl
-      console.log('Generated public URL:', newUrl)
-      setBannerUrl(newUrl)
-
-      // Auto-save to database
-      // @ts-ignore - Supabase type inference
-      await supabase.from('profiles').update({ banner_url: newUrl, updated_at: new Date().toISOString() }).eq('id', profile.id)
-      console.log('Banner URL saved to database')
+      if (kind === 'avatar') {
+        setAvatarUrl(result.url)
+        await saveProfileDraftField({ avatar_url: result.url })
+      } else {
+        setBannerUrl(result.url)
+        await saveProfileDraftField({ banner_url: result.url })
+      }
       await loadProfile()
     } catch (error) {
-      console.error('Banner upload failed:', error)
+      console.error(`${kind} upload failed:`, error)
       const errorMsg = error instanceof Error ? error.message : String(error)
-      alert(`Failed to upload banner: ${errorMsg}`)
+      alert(`Failed to upload ${kind}: ${errorMsg}`)
     } finally {
-      setUploadingBanner(false)
+      setUploading(false)
     }
   }
 
-  const addSection = async (type: 'text_list' | 'links' | 'gallery') => {
+  const uploadAvatar = (file: File) => uploadProfileImage('avatar', file)
+
+  const uploadBanner = (file: File) => uploadProfileImage('banner', file)
+
+  const loadTemplates = async () => {
+    const response = await fetch('/api/templates', { credentials: 'include' })
+    if (response.ok) {
+      setTemplates(await response.json())
+    }
+  }
+
+  // Blank sections, presets and saved templates all start the same way
+  const addSection = async (template: SectionPreset | SectionTemplate) => {
     if (!profile) return
 
-    const defaultContent = {
-      text_list: { items: ['First item', 'Second item'] },
-      links: { links: [{ title: 'My Link', url: 'https://example.com' }] },
-      gallery: { images: [] },
+    const response = await fetch('/api/sections', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify({
+        profile_id: profile.id,
+        title: template.title,
+        type: template.type,
+        content: template.content,
+        position: sections.length,
+      }),
+    })
+
+    if (response.ok) {
+      loadProfile()
+    } else {
+      const result = await response.json()
+      console.error('Failed to add section:', result.error)
     }
+  }
+
+  // Saves the section as last stored, so unsaved edits aren't included
+  const saveAsTemplate = async (section: Section) => {
+    const name = prompt('Template name', section.title)
+    if (!name?.trim()) return
+
+    const response = await fetch('/api/templates', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify({ section_id: section.id, name }),
+    })
 
-    const insertData = {
-      profile_id: profile.id,
-      title: `New ${type.replace('_', ' ')}`,
-      type,
-      content: defaultContent[type],
-      position: sections.length,
+    if (response.ok) {
+      loadTemplates()
+    } else {
+      const result = await response.json()
+      alert(`Failed to save template: ${result.error || 'Unknown error'}`)
     }
+  }
 
-    const { error } = await supabase
-      .from('sections')
-      // @ts-expect-error - Supabase type inference issue
-      .insert(insertData)
+  const deleteTemplate = async (templateId: string) => {
+    if (!confirm('Delete this template?')) return
 
-    if (!error) {
-      loadProfile()
+    const response = await fetch(`/api/templates?id=${templateId}`, {
+      method: 'DELETE',
+      credentials: 'include',
+    })
+
+    if (response.ok) {
+      setTemplates((current) => current.filter((t) => t.id !== templateId))
     }
   }
 
-  const updateSectionEdit = (id: string, updater: (prev: { title: string; content: any; visible: boolean }) => { title: string; content: any; visible: boolean }) => {
+  const updateSectionEdit = (id: string, updater: (prev: SectionEdit) => SectionEdit) => {
     setSectionEdits((prev) => ({
       ...prev,
-      [id]: updater(prev[id] || { title: '', content: {}, visible: true }),
+      [id]: updater(prev[id] || { title: '', content: {}, visible: true, access: 'public', publish_at: '', unpublish_at: '' }),
     }))
   }
 
+  const fieldError = (id: string, path: string) =>
+    (sectionErrors[id] || []).find((e) => e.path === path || e.path.startsWith(`${path}.`) || e.path.startsWith(`${path}[`))
+
+  const inputBorder = (id: string, path: string) =>
+    fieldError(id, path) ? 'border-red-500' : 'border-gray-800'
+
   const saveSection = async (id: string) => {
     const edits = sectionEdits[id]
-    if (!edits) return
+    const section = sections.find((s) => s.id === id)
+    if (!edits || !section) return
+
+    // Same validators as the API, so most mistakes surface before a round trip
+    const contentResult = validateSectionContent(section.type, edits.content)
+    const publishAt = fromDateTimeLocal(edits.publish_at)
+    const unpublishAt = fromDateTimeLocal(edits.unpublish_at)
+    const errors = [
+      ...validateSectionTitle(edits.title),
+      ...(contentResult.ok ? [] : contentResult.errors),
+      ...validateSectionSchedule(publishAt, unpublishAt),
+    ]
+    setSectionErrors((prev) => ({ ...prev, [id]: errors }))
+    if (errors.length > 0) return
+
     setSavingSectionId(id)
-    // Explicit cast to bypass Supabase type inference issues during build
-    const { error } = await supabase
-      .from('sections')
-      // @ts-expect-error -- content is JSONB; Supabase types are lenient at runtime
-      .update({
+    const response = await fetch('/api/sections', {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify({
+        id,
         title: edits.title,
         content: edits.content,
         visible: edits.visible,
-        updated_at: new Date().toISOString(),
-      })
-      .eq('id', id)
+        access: edits.access,
+        publish_at: publishAt,
+        unpublish_at: unpublishAt,
+      }),
+    })
 
-    if (!error) {
+    if (response.ok) {
       await loadProfile()
+    } else {
+      const result = await response.json()
+      setSectionErrors((prev) => ({
+        ...prev,
+        [id]: result.errors || [{ path: '', message: result.error || 'Failed to save section' }],
+      }))
     }
     setSavingSectionId(null)
   }
 
+  const uploadGalleryImages = async (sectionId: string, files: FileList) => {
+    if (!profile || files.length === 0) return
+
+    const form = new FormData()
+    form.append('profile_id', profile.id)
+    Array.from(files).forEach((file) => form.append('files', file))
+
+    setUploadingGalleryId(sectionId)
+    try {
+      const response = await fetch('/api/uploads/gallery', {
+        method: 'POST',
+        credentials: 'include',
+        body: form,
+      })
+      const result = await response.json()
+
+      // Uploaded images join the unsaved edit; Save stores them in the draft
+      if (response.ok) {
+        updateSectionEdit(sectionId, (prev) => ({
+          ...prev,
+          content: { ...prev.content, images: [...(prev.content.images || []), ...result.images] },
+        }))
+      }
+
+      const uploadErrors: FieldError[] = (result.errors || []).map((err: { file: string; message: string }) => ({
+        path: 'content.images',
+        message: `${err.file}: ${err.message}`,
+      }))
+      if (!response.ok && uploadErrors.length === 0) {
+        uploadErrors.push({ path: 'content.images', message: result.error || 'Upload failed' })
+      }
+      setSectionErrors((prev) => ({ ...prev, [sectionId]: uploadErrors }))
+    } catch (err) {
+      console.error('Gallery upload failed:', err)
+    } finally {
+      setUploadingGalleryId(null)
+    }
+  }
+
   const deleteSection = async (sectionId: string) => {
     if (!confirm('Delete this section?')) return
 
-    const { error } = await supabase
-      .from('sections')
-      .delete()
-      .eq('id', sectionId)
+    // Goes through the API so a revision is kept for undelete
+    const response = await fetch(`/api/sections?id=${sectionId}`, {
+      method: 'DELETE',
+      credentials: 'include',
+    })
 
-    if (!error) {
+    if (response.ok) {
       loadProfile()
+    } else {
+      const result = await response.json()
+      alert(`Failed to delete section: ${result.error || 'Unknown error'}`)
+    }
+  }
+
+  const moveSection = (targetId: string) => {
+    if (!draggingId || draggingId === targetId) return
+
+    setSections((prev) => {
+      const from = prev.findIndex((s) => s.id === draggingId)
+      const to = prev.findIndex((s) => s.id === targetId)
+      if (from === -1 || to === -1) return prev
+
+      const next = [...prev]
+      const [moved] = next.splice(from, 1)
+      next.splice(to, 0, moved)
+      return next
+    })
+  }
+
+  const saveSectionOrder = async () => {
+    if (!profile) return
+
+    const originalIds = [...sections]
+      .sort((a, b) => a.position - b.position)
+      .map((s) => s.id)
+    const sectionIds = sections.map((s) => s.id)
+
+    if (sectionIds.every((id, idx) => id === originalIds[idx])) return
+
+    setSavingOrder(true)
+    try {
+      const response = await fetch('/api/sections/reorder', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ profile_id: profile.id, section_ids: sectionIds }),
+      })
+
+      if (!response.ok) {
+        const result = await response.json()
+        console.error('Failed to reorder sections:', result.error)
+        alert(`Failed to reorder sections: ${result.error || 'Unknown error'}`)
+      }
+    } catch (err) {
+      console.error('Exception reordering sections:', err)
     }
+
+    // Reload so positions match the server, or roll back on failure
+    await loadProfile()
+    setSavingOrder(false)
   }
 
   if (loading) {
@@ -313,6 +642,9 @@ export default function DashboardPage() {
     )
   }
 
+  const canEdit = canEditProfile(profile.role)
+  const canManage = canManageProfile(profile.role)
+
   return (
     <div className="min-h-screen bg-black text-white">
       <div className="container mx-auto px-6 py-12 max-w-4xl">
@@ -321,7 +653,19 @@ export default function DashboardPage() {
           <div className="flex justify-between items-start mb-6">
             <div>
               <h2 className="text-3xl font-serif mb-2">{profile.display_name}</h2>
-              <p className="text-gray-400">@{profile.username}</p>
+              <p className="text-gray-400">
+                @{profile.username}
+                {profile.role !== 'owner' && (
+                  <span className="ml-3 text-xs uppercase tracking-wide text-gray-500">{profile.role}</span>
+                )}
+              </p>
+              <p className="text-xs text-gray-500 mt-2">
+                {hasUnpublishedChanges
+                  ? 'Unpublished changes — visitors still see the last published version'
+                  : profile.published_at
+                    ? `Published ${new Date(profile.published_at).toLocaleString()}`
+                    : 'Not published yet'}
+              </p>
             </div>
             <div className="flex gap-3">
               <Link
@@ -329,18 +673,69 @@ export default function DashboardPage() {
                 className="flex items-center gap-2 px-4 py-2 border border-gray-700 text-gray-300 hover:border-white hover:text-white transition text-sm rounded-lg"
               >
                 <Eye size={16} />
-                View
+                View live
               </Link>
               <button
-                onClick={() => setEditingProfile(!editingProfile)}
-                className="flex items-center gap-2 px-4 py-2 bg-white text-black hover:bg-gray-200 transition text-sm rounded-lg"
+                onClick={() => setShowDraftPreview(true)}
+                className="flex items-center gap-2 px-4 py-2 border border-gray-700 text-gray-300 hover:border-white hover:text-white transition text-sm rounded-lg"
               >
-                <Edit2 size={16} />
-                Edit
+                <Eye size={16} />
+                Preview draft
+              </button>
+              {canEdit && (
+                <button
+                  onClick={publishProfile}
+                  disabled={publishing || !hasUnpublishedChanges}
+                  className="flex items-center gap-2 px-4 py-2 border border-white text-white hover:bg-white hover:text-black transition text-sm rounded-lg disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:bg-transparent disabled:hover:text-white"
+                >
+                  <Upload size={16} />
+                  {publishing ? 'Publishing...' : 'Publish'}
+                </button>
+              )}
+              {canEdit && (
+                <button
+                  onClick={() => setEditingProfile(!editingProfile)}
+                  className="flex items-center gap-2 px-4 py-2 bg-white text-black hover:bg-gray-200 transition text-sm rounded-lg"
+                >
+                  <Edit2 size={16} />
+                  Edit
+                </button>
+              )}
+              <button
+                onClick={() => setShowNewProfile(!showNewProfile)}
+                className="flex items-center gap-2 px-4 py-2 border border-gray-700 text-gray-300 hover:border-white hover:text-white transition text-sm rounded-lg"
+              >
+                <Plus size={16} />
+                New profile
               </button>
             </div>
           </div>
 
+          {showNewProfile && (
+            <form onSubmit={createProfile} className="space-y-3 pb-6 mb-6 border-b border-gray-800">
+              <label className="block text-sm font-medium text-gray-400">
+                Username for the new profile
+              </label>
+              <div className="flex gap-3">
+                <input
+                  type="text"
+                  value={newUsername}
+                  onChange={(e) => setNewUsername(e.target.value.toLowerCase())}
+                  className="flex-1 px-4 py-2 bg-black border border-gray-800 text-white text-sm focus:border-white focus:outline-none transition"
+                  placeholder="projectname"
+                  required
+                />
+                <button
+                  type="submit"
+                  className="px-4 py-2 bg-white text-black hover:bg-gray-200 transition text-sm rounded-lg"
+                >
+                  Create
+                </button>
+              </div>
+              {newProfileError && <p className="text-sm text-red-400">{newProfileError}</p>}
+            </form>
+          )}
+
           {editingProfile && (
             <div className="space-y-5 pt-6 border-t border-gray-800">
               <div>
@@ -350,7 +745,7 @@ export default function DashboardPage() {
                 <div className="flex gap-3">
                   <input
                     type="file"
-                    accept="image/*"
+                    accept="image/jpeg,image/png,image/webp,image/gif"
                     onChange={(e) => e.target.files && uploadAvatar(e.target.files[0])}
                     disabled={uploadingAvatar}
                     className="flex-1 px-4 py-3 bg-black border border-gray-800 text-white text-sm focus:border-white focus:outline-none transition rounded"
@@ -376,7 +771,7 @@ export default function DashboardPage() {
                 <div className="flex gap-3">
                   <input
                     type="file"
-                    accept="image/*"
+                    accept="image/jpeg,image/png,image/webp,image/gif"
                     onChange={(e) => e.target.files && uploadBanner(e.target.files[0])}
                     disabled={uploadingBanner}
                     className="flex-1 px-4 py-3 bg-black border border-gray-800 text-white text-sm focus:border-white focus:outline-none transition rounded"
@@ -403,6 +798,7 @@ export default function DashboardPage() {
                   type="text"
                   value={displayName}
                   onChange={(e) => setDisplayName(e.target.value)}
+                  maxLength={MAX_DISPLAY_NAME_LENGTH}
                   className="w-full px-4 py-3 bg-black border border-gray-800 text-white focus:border-white focus:outline-none transition"
                 />
               </div>
@@ -413,11 +809,33 @@ export default function DashboardPage() {
                 <textarea
                   value={bio}
                   onChange={(e) => setBio(e.target.value)}
+                  maxLength={MAX_BIO_LENGTH}
                   rows={4}
                   className="w-full px-4 py-3 bg-black border border-gray-800 text-white focus:border-white focus:outline-none transition resize-none"
                   placeholder="Tell your story..."
                 />
               </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-400 mb-3">
+                  Theme
+                </label>
+                <ThemePicker value={theme} onChange={setTheme} />
+                <p className="text-xs text-gray-500 mt-4 mb-2">Live preview</p>
+                <div className="h-96 overflow-y-auto border border-gray-800 rounded">
+                  <ProfileCard
+                    profile={{
+                      ...profile,
+                      display_name: displayName,
+                      bio,
+                      avatar_url: avatarUrl || null,
+                      banner_url: bannerUrl || null,
+                      theme,
+                    }}
+                    sections={sections.filter((s) => isSectionLive(s))}
+                    preview
+                  />
+                </div>
+              </div>
               <div className="flex gap-3">
                 <button
                   onClick={updateProfile}
@@ -431,6 +849,14 @@ export default function DashboardPage() {
                 >
                   Cancel
                 </button>
+                {profile.user_id === userId && profileCount > 1 && (
+                  <button
+                    onClick={deleteProfile}
+                    className="ml-auto px-6 py-2 border border-gray-800 text-gray-500 hover:border-red-400 hover:text-red-400 transition text-sm rounded-lg"
+                  >
+                    Delete profile
+                  </button>
+                )}
               </div>
             </div>
           )}
@@ -439,47 +865,11 @@ export default function DashboardPage() {
         {/* Sections */}
         <div className="border border-gray-800 p-8">
           <div className="flex justify-between items-center mb-8">
-            <h3 className="text-2xl font-serif">Sections</h3>
-            <div className="relative">
-              <button 
-                onClick={() => setShowAddMenu(!showAddMenu)}
-                className="flex items-center gap-2 px-4 py-2 bg-white text-black hover:bg-gray-200 transition text-sm rounded-lg"
-              >
-                <Plus size={16} />
-                Add Section
-              </button>
-              {showAddMenu && (
-                <div className="absolute right-0 mt-2 w-48 bg-black border border-gray-800 z-10 rounded">
-                  <button
-                    onClick={() => {
-                      addSection('text_list')
-                      setShowAddMenu(false)
-                    }}
-                    className="w-full px-4 py-3 text-left text-white hover:bg-gray-900 border-b border-gray-800"
-                  >
-                    Text List
-                  </button>
-                  <button
-                    onClick={() => {
-                      addSection('links')
-                      setShowAddMenu(false)
-                    }}
-                    className="w-full px-4 py-3 text-left text-white hover:bg-gray-900 border-b border-gray-800"
-                  >
-                    Links
-                  </button>
-                  <button
-                    onClick={() => {
-                      addSection('gallery')
-                      setShowAddMenu(false)
-                    }}
-                    className="w-full px-4 py-3 text-left text-white hover:bg-gray-900"
-                  >
-                    Gallery
-                  </button>
-                </div>
-              )}
+            <div>
+              <h3 className="text-2xl font-serif">Sections</h3>
+              {savingOrder && <p className="text-xs text-gray-400 mt-1">Saving order...</p>}
             </div>
+            {canEdit && <AddSectionMenu templates={templates} onAdd={addSection} onDeleteTemplate={deleteTemplate} />}
           </div>
 
           {sections.length === 0 ? (
@@ -492,22 +882,79 @@ export default function DashboardPage() {
               {sections.map((section) => (
                 <div
                   key={section.id}
-                  className="p-4 border border-gray-800 hover:border-gray-700 transition space-y-4"
+                  draggable={dragHandleId === section.id}
+                  onDragStart={(e) => {
+                    e.dataTransfer.effectAllowed = 'move'
+                    setDraggingId(section.id)
+                  }}
+                  onDragOver={(e) => {
+                    if (!draggingId) return
+                    e.preventDefault()
+                    moveSection(section.id)
+                  }}
+                  onDrop={(e) => e.preventDefault()}
+                  onDragEnd={() => {
+                    setDraggingId(null)
+                    setDragHandleId(null)
+                    saveSectionOrder()
+                  }}
+                  className={`p-4 border transition space-y-4 ${
+                    draggingId === section.id
+                      ? 'border-white opacity-50'
+                      : 'border-gray-800 hover:border-gray-700'
+                  }`}
                 >
                   <div className="flex items-center gap-4">
-                    <GripVertical size={18} className="text-gray-600 cursor-move" />
+                    {/* Only the handle starts a drag, so inputs inside the card stay selectable */}
+                    {canEdit && (
+                      <span
+                        onMouseDown={() => setDragHandleId(section.id)}
+                        onMouseUp={() => setDragHandleId(null)}
+                        className={savingOrder ? 'pointer-events-none opacity-50' : ''}
+                      >
+                        <GripVertical size={18} className="text-gray-600 cursor-move" />
+                      </span>
+                    )}
                     <div className="flex-1">
                       <h4 className="font-medium text-white">{sectionEdits[section.id]?.title || section.title}</h4>
                       <p className="text-sm text-gray-500 capitalize">
                         {section.type.replace('_', ' ')}
+                        {scheduleStatus(section) !== 'live' && (
+                          <span className="ml-2 text-xs uppercase tracking-wide text-gray-600">
+                            · {scheduleStatus(section)}
+                          </span>
+                        )}
+                        {section.access !== 'public' && (
+                          <span className="ml-2 text-xs uppercase tracking-wide text-gray-600">
+                            · {ACCESS_MODE_LABELS[section.access]}
+                          </span>
+                        )}
                       </p>
                     </div>
                     <button
-                      onClick={() => deleteSection(section.id)}
-                      className="p-2 text-gray-500 hover:text-red-400 transition"
+                      onClick={() => setHistorySectionId(section.id)}
+                      className="p-2 text-gray-500 hover:text-white transition"
+                      title="History"
                     >
-                      <Trash2 size={16} />
+                      <History size={16} />
                     </button>
+                    {(canEdit || section.type !== 'gallery') && (
+                      <button
+                        onClick={() => saveAsTemplate(section)}
+                        className="p-2 text-gray-500 hover:text-white transition"
+                        title="Save as template"
+                      >
+                        <BookmarkPlus size={16} />
+                      </button>
+                    )}
+                    {canEdit && (
+                      <button
+                        onClick={() => deleteSection(section.id)}
+                        className="p-2 text-gray-500 hover:text-red-400 transition"
+                      >
+                        <Trash2 size={16} />
+                      </button>
+                    )}
                   </div>
 
                   <div className="space-y-4">
@@ -525,7 +972,7 @@ export default function DashboardPage() {
                               title: e.target.value,
                             }))
                           }
-                          className="w-full px-3 py-2 bg-black border border-gray-800 text-white text-sm focus:border-white focus:outline-none"
+                          className={`w-full px-3 py-2 bg-black border text-white text-sm focus:border-white focus:outline-none ${inputBorder(section.id, 'title')}`}
                         />
                       </div>
                       <div className="flex items-center gap-2 pt-6">
@@ -547,166 +994,84 @@ export default function DashboardPage() {
                       </div>
                     </div>
 
-                    {/* Type-specific editors */}
-                    {section.type === 'text_list' && (
+                    {/* Optional visibility window, e.g. for limited-time promos */}
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
                       <div>
                         <label className="block text-xs uppercase tracking-wide text-gray-500 mb-2">
-                          Items (one per line)
+                          Show from (optional)
                         </label>
-                        <textarea
-                          rows={4}
-                          value={(sectionEdits[section.id]?.content.items || []).join('\n')}
-                          onChange={(e) => {
-                            const items = e.target.value.split('\n').filter((line) => line.trim().length > 0)
+                        <input
+                          type="datetime-local"
+                          value={sectionEdits[section.id]?.publish_at || ''}
+                          onChange={(e) =>
                             updateSectionEdit(section.id, (prev) => ({
                               ...prev,
-                              content: { ...prev.content, items },
+                              publish_at: e.target.value,
                             }))
-                          }}
-                          className="w-full px-3 py-2 bg-black border border-gray-800 text-white text-sm focus:border-white focus:outline-none resize-none"
+                          }
+                          className={`w-full px-3 py-2 bg-black border text-white text-sm focus:border-white focus:outline-none ${inputBorder(section.id, 'publish_at')}`}
                         />
                       </div>
-                    )}
+                      <div>
+                        <label className="block text-xs uppercase tracking-wide text-gray-500 mb-2">
+                          Hide after (optional)
+                        </label>
+                        <input
+                          type="datetime-local"
+                          value={sectionEdits[section.id]?.unpublish_at || ''}
+                          onChange={(e) =>
+                            updateSectionEdit(section.id, (prev) => ({
+                              ...prev,
+                              unpublish_at: e.target.value,
+                            }))
+                          }
+                          className={`w-full px-3 py-2 bg-black border text-white text-sm focus:border-white focus:outline-none ${inputBorder(section.id, 'unpublish_at')}`}
+                        />
+                      </div>
+                    </div>
 
-                    {section.type === 'links' && (
-                      <div className="space-y-3">
-                        <div className="flex justify-between items-center">
-                          <label className="block text-xs uppercase tracking-wide text-gray-500">
-                            Links
-                          </label>
-                          <button
-                            onClick={() => {
-                              const links = sectionEdits[section.id]?.content.links || []
-                              updateSectionEdit(section.id, (prev) => ({
-                                ...prev,
-                                content: { ...prev.content, links: [...links, { title: 'New link', url: 'https://example.com' }] },
-                              }))
-                            }}
-                            className="text-xs px-3 py-1 border border-gray-700 text-gray-300 hover:border-white rounded"
-                          >
-                            Add link
-                          </button>
-                        </div>
-                        {(sectionEdits[section.id]?.content.links || []).map((link: any, idx: number) => (
-                          <div key={idx} className="grid grid-cols-1 md:grid-cols-2 gap-2 border border-gray-800 p-3">
-                            <input
-                              type="text"
-                              value={link.title}
-                              onChange={(e) => {
-                                const links = [...(sectionEdits[section.id]?.content.links || [])]
-                                links[idx] = { ...links[idx], title: e.target.value }
-                                updateSectionEdit(section.id, (prev) => ({
-                                  ...prev,
-                                  content: { ...prev.content, links },
-                                }))
-                              }}
-                              className="w-full px-3 py-2 bg-black border border-gray-800 text-white text-sm focus:border-white focus:outline-none"
-                              placeholder="Title"
-                            />
-                            <div className="flex gap-2">
-                              <input
-                                type="url"
-                                value={link.url}
-                                onChange={(e) => {
-                                  const links = [...(sectionEdits[section.id]?.content.links || [])]
-                                  links[idx] = { ...links[idx], url: e.target.value }
-                                  updateSectionEdit(section.id, (prev) => ({
-                                    ...prev,
-                                    content: { ...prev.content, links },
-                                  }))
-                                }}
-                                className="w-full px-3 py-2 bg-black border border-gray-800 text-white text-sm focus:border-white focus:outline-none"
-                                placeholder="https://example.com"
-                              />
-                              <button
-                                onClick={() => {
-                                  const links = [...(sectionEdits[section.id]?.content.links || [])]
-                                  links.splice(idx, 1)
-                                  updateSectionEdit(section.id, (prev) => ({
-                                    ...prev,
-                                    content: { ...prev.content, links },
-                                  }))
-                                }}
-                                className="px-2 text-gray-500 hover:text-red-400"
-                              >
-                                Remove
-                              </button>
-                            </div>
-                          </div>
-                        ))}
+                    {/* Saved with the section; the password itself is stored right away */}
+                    {canEdit && (
+                      <div>
+                        <label className="block text-xs uppercase tracking-wide text-gray-500 mb-2">
+                          Who can see it
+                        </label>
+                        <AccessSettings
+                          profileId={profile.id}
+                          targetId={section.id}
+                          value={sectionEdits[section.id]?.access ?? section.access}
+                          onChange={(access) =>
+                            updateSectionEdit(section.id, (prev) => ({
+                              ...prev,
+                              access,
+                            }))
+                          }
+                        />
                       </div>
                     )}
 
-                    {section.type === 'gallery' && (
-                      <div className="space-y-3">
-                        <div className="flex justify-between items-center">
-                          <label className="block text-xs uppercase tracking-wide text-gray-500">
-                            Images
-                          </label>
-                          <button
-                            onClick={() => {
-                              const images = sectionEdits[section.id]?.content.images || []
-                              updateSectionEdit(section.id, (prev) => ({
-                                ...prev,
-                                content: { ...prev.content, images: [...images, { url: 'https://placehold.co/600x400', caption: '' }] },
-                              }))
-                            }}
-                            className="text-xs px-3 py-1 border border-gray-700 text-gray-300 hover:border-white rounded"
-                          >
-                            Add image
-                          </button>
-                        </div>
-                        {(sectionEdits[section.id]?.content.images || []).map((image: any, idx: number) => (
-                          <div key={idx} className="grid grid-cols-1 md:grid-cols-2 gap-2 border border-gray-800 p-3">
-                            <input
-                              type="url"
-                              value={image.url}
-                              onChange={(e) => {
-                                const images = [...(sectionEdits[section.id]?.content.images || [])]
-                                images[idx] = { ...images[idx], url: e.target.value }
-                                updateSectionEdit(section.id, (prev) => ({
-                                  ...prev,
-                                  content: { ...prev.content, images },
-                                }))
-                              }}
-                              className="w-full px-3 py-2 bg-black border border-gray-800 text-white text-sm focus:border-white focus:outline-none"
-                              placeholder="Image URL"
-                            />
-                            <div className="flex gap-2">
-                              <input
-                                type="text"
-                                value={image.caption || ''}
-                                onChange={(e) => {
-                                  const images = [...(sectionEdits[section.id]?.content.images || [])]
-                                  images[idx] = { ...images[idx], caption: e.target.value }
-                                  updateSectionEdit(section.id, (prev) => ({
-                                    ...prev,
-                                    content: { ...prev.content, images },
-                                  }))
-                                }}
-                                className="w-full px-3 py-2 bg-black border border-gray-800 text-white text-sm focus:border-white focus:outline-none"
-                                placeholder="Caption (optional)"
-                              />
-                              <button
-                                onClick={() => {
-                                  const images = [...(sectionEdits[section.id]?.content.images || [])]
-                                  images.splice(idx, 1)
-                                  updateSectionEdit(section.id, (prev) => ({
-                                    ...prev,
-                                    content: { ...prev.content, images },
-                                  }))
-                                }}
-                                className="px-2 text-gray-500 hover:text-red-400"
-                              >
-                                Remove
-                              </button>
-                            </div>
-                          </div>
+                    {/* Type-specific editors */}
+                    <SectionContentEditor
+                      type={section.type}
+                      content={sectionEdits[section.id]?.content || {}}
+                      onChange={(content) => updateSectionEdit(section.id, (prev) => ({ ...prev, content }))}
+                      fieldBorder={(path) => inputBorder(section.id, path)}
+                      uploading={uploadingGalleryId === section.id}
+                      onUploadImages={(files) => uploadGalleryImages(section.id, files)}
+                    />
+
+                    {(sectionErrors[section.id] || []).length > 0 && (
+                      <ul className="bg-gray-900 border border-gray-700 text-red-400 px-4 py-3 text-sm space-y-1">
+                        {sectionErrors[section.id].map((err, idx) => (
+                          <li key={idx}>
+                            {err.path && <span className="text-gray-400">{err.path}: </span>}
+                            {err.message}
+                          </li>
                         ))}
-                      </div>
+                      </ul>
                     )}
 
-                    <div className="flex gap-3">
+                    <div className={`flex gap-3 ${canEdit ? '' : 'hidden'}`}>
                       <button
                         onClick={() => saveSection(section.id)}
                         disabled={savingSectionId === section.id}
@@ -726,8 +1091,175 @@ export default function DashboardPage() {
               ))}
             </div>
           )}
+
+          {deletedSections.length > 0 && (
+            <div className="mt-8">
+              <p className="text-xs uppercase tracking-wide text-gray-500 mb-3">Recently deleted</p>
+              <div className="space-y-2">
+                {deletedSections.map((revision) => (
+                  <div
+                    key={revision.id}
+                    className="flex items-center gap-4 px-4 py-3 border border-dashed border-gray-800 text-sm"
+                  >
+                    <div className="flex-1">
+                      <p className="text-gray-300">{revision.title}</p>
+                      <p className="text-xs text-gray-600">
+                        Deleted {new Date(revision.created_at).toLocaleString()}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => setHistorySectionId(revision.section_id)}
+                      className="px-3 py-1 border border-gray-700 text-gray-400 hover:border-gray-600 hover:text-white rounded"
+                    >
+                      {canEdit ? 'Restore' : 'History'}
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        {showDraftPreview && (
+          <div className="fixed inset-0 z-50 overflow-y-auto bg-black">
+            <div className="sticky top-0 z-10 flex justify-between items-center px-6 py-3 bg-black border-b border-gray-800 text-sm">
+              <span className="text-gray-400">Draft preview — not visible to visitors</span>
+              <button
+                onClick={() => setShowDraftPreview(false)}
+                className="px-4 py-1 border border-gray-700 text-gray-300 hover:border-white hover:text-white rounded"
+              >
+                Close
+              </button>
+            </div>
+            <ProfileCard profile={profile} sections={sections.filter((s) => isSectionLive(s))} preview />
+          </div>
+        )}
+
+        {historySectionId && (
+          <SectionHistory
+            sectionId={historySectionId}
+            current={sections.find((s) => s.id === historySectionId) || null}
+            canEdit={canEdit}
+            onClose={() => setHistorySectionId(null)}
+            onRestored={() => loadProfile()}
+          />
+        )}
+
+        {/* Following feed */}
+        <div className="border border-gray-800 p-8 mt-8">
+          <h3 className="text-2xl font-serif mb-2">Following</h3>
+          <p className="text-sm text-gray-500 mb-6">Recent updates from profiles @{profile.username} follows</p>
+          <FeedPanel profileId={profile.id} />
+        </div>
+
+        {/* Inbox */}
+        {canEdit && (
+          <div id="inbox" className="border border-gray-800 p-8 mt-8">
+            <h3 className="text-2xl font-serif mb-2">Inbox</h3>
+            <p className="text-sm text-gray-500 mb-6">Messages sent through this profile&apos;s contact forms</p>
+            <InboxPanel profileId={profile.id} />
+          </div>
+        )}
+
+        {/* Analytics */}
+        <div className="border border-gray-800 p-8 mt-8">
+          <h3 className="text-2xl font-serif mb-6">Analytics</h3>
+          <AnalyticsPanel profileId={profile.id} />
+        </div>
+
+        {/* Export & Import */}
+        <div className="border border-gray-800 p-8 mt-8">
+          <h3 className="text-2xl font-serif mb-2">Export &amp; Import</h3>
+          <p className="text-sm text-gray-500 mb-6">
+            Back up this profile or move it to another one. Imports land in the draft.
+          </p>
+          <BundlePanel profileId={profile.id} canEdit={canEdit} onImported={() => loadProfile()} />
+        </div>
+
+        {/* API Tokens */}
+        <div className="border border-gray-800 p-8 mt-8">
+          <h3 className="text-2xl font-serif mb-2">API Tokens</h3>
+          <p className="text-sm text-gray-500 mb-6">
+            Personal access tokens for scripts and CI. Send one as a Bearer token to the /api/v1 endpoints.
+          </p>
+          <ApiTokensPanel profileId={profile.id} />
+        </div>
+
+        {/* Collaborators */}
+        <div className="border border-gray-800 p-8 mt-8">
+          <h3 className="text-2xl font-serif mb-2">Collaborators</h3>
+          <p className="text-sm text-gray-500 mb-6">
+            Editors can change the profile and its sections; viewers can only look
+          </p>
+          <MembersPanel profileId={profile.id} canManage={canManage} />
         </div>
+
+        {/* Profile access */}
+        {canManage && (
+          <div className="border border-gray-800 p-8 mt-8">
+            <h3 className="text-2xl font-serif mb-2">Visibility</h3>
+            <p className="text-sm text-gray-500 mb-6">
+              Who can see /{profile.username}. Changes apply immediately, without publishing.
+            </p>
+            <VisibilitySettings profile={profile} onChanged={() => loadProfile()} />
+          </div>
+        )}
+
+        {/* Username */}
+        {canManage && (
+          <div className="border border-gray-800 p-8 mt-8">
+            <h3 className="text-2xl font-serif mb-2">Username</h3>
+            <p className="text-sm text-gray-500 mb-6">
+              Your profile lives at /{profile.username}. Old links keep working after a change.
+            </p>
+            <UsernameSettings
+              profileId={profile.id}
+              username={profile.username}
+              onChanged={() => {
+                notifyProfilesChanged()
+                loadProfile()
+              }}
+            />
+          </div>
+        )}
+
+        {/* Custom Domains */}
+        {canManage && (
+          <div className="border border-gray-800 p-8 mt-8">
+            <h3 className="text-2xl font-serif mb-2">Custom Domain</h3>
+            <p className="text-sm text-gray-500 mb-6">
+              Serve your profile from your own hostname instead of /{profile.username}
+            </p>
+            <DomainSettings profileId={profile.id} />
+          </div>
+        )}
+
+        {/* Webhooks */}
+        {canManage && (
+          <div className="border border-gray-800 p-8 mt-8">
+            <h3 className="text-2xl font-serif mb-2">Webhooks</h3>
+            <p className="text-sm text-gray-500 mb-6">
+              Get a signed POST whenever a publish changes the profile or its sections. Failed deliveries are retried with backoff.
+            </p>
+            <WebhooksPanel profileId={profile.id} />
+          </div>
+        )}
       </div>
     </div>
   )
 }
+
+// useSearchParams needs a Suspense boundary for the page to prerender
+export default function DashboardPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="min-h-screen flex items-center justify-center bg-black">
+          <div className="text-gray-400">Loading...</div>
+        </div>
+      }
+    >
+      <Dashboard />
+    </Suspense>
+  )
+}
@@ -0,0 +1,124 @@
+import type { Metadata } from 'next'
+import Link from 'next/link'
+import { DIRECTORY_PAGE_SIZE, searchDirectory } from '@/lib/publicProfile'
+import ProfileImage from '@/components/ProfileImage'
+import { Search } from 'lucide-react'
+
+export const revalidate = 0
+
+export const metadata: Metadata = {
+  title: 'Explore · Selfbook',
+  description: 'Find people on Selfbook',
+}
+
+interface PageProps {
+  searchParams: {
+    q?: string
+    page?: string
+  }
+}
+
+function pageHref(query: string, page: number): string {
+  const params = new URLSearchParams()
+  if (query) params.set('q', query)
+  if (page > 1) params.set('page', String(page))
+  const search = params.toString()
+  return search ? `/explore?${search}` : '/explore'
+}
+
+// Public profiles whose owners opted in, searchable by username, display
+// name and bio. Paging happens in the database, so this works without JS.
+export default async function ExplorePage({ searchParams }: PageProps) {
+  const query = (searchParams.q || '').trim().slice(0, 100)
+  const page = Math.max(1, Number.parseInt(searchParams.page || '1', 10) || 1)
+  const { profiles, total } = await searchDirectory(query, page)
+  const pageCount = Math.ceil(total / DIRECTORY_PAGE_SIZE)
+
+  return (
+    <main className="min-h-screen bg-black text-white">
+      <div className="max-w-6xl mx-auto px-6 py-12">
+        <h1 className="text-4xl font-serif mb-2">Explore</h1>
+        <p className="text-gray-400 mb-8">People who chose to be found</p>
+
+        <form action="/explore" className="flex gap-3 mb-10">
+          <div className="flex-1 flex items-center border border-gray-800 focus-within:border-white transition">
+            <Search size={16} className="ml-4 text-gray-500" />
+            <input
+              type="search"
+              name="q"
+              defaultValue={query}
+              className="flex-1 px-3 py-3 bg-black text-white focus:outline-none"
+              placeholder="Search by name, username or bio"
+            />
+          </div>
+          <button
+            type="submit"
+            className="px-6 py-3 bg-white text-black hover:bg-gray-200 transition text-sm font-medium rounded-lg"
+          >
+            Search
+          </button>
+        </form>
+
+        {profiles.length === 0 ? (
+          <p className="text-center py-16 text-gray-500">
+            {query ? `No profiles match “${query}”` : 'Nobody is listed yet'}
+          </p>
+        ) : (
+          <>
+            <p className="text-sm text-gray-500 mb-4">
+              {total} profile{total === 1 ? '' : 's'}
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {profiles.map((profile) => (
+                <Link
+                  key={profile.id}
+                  href={`/${profile.username}`}
+                  className="flex gap-4 p-5 border border-gray-800 hover:border-gray-600 transition"
+                >
+                  <div className="w-14 h-14 flex-shrink-0 rounded-full overflow-hidden bg-gray-900 flex items-center justify-center">
+                    {profile.avatar_url ? (
+                      <ProfileImage
+                        src={profile.avatar_url}
+                        alt={profile.display_name || profile.username}
+                        className="w-full h-full object-cover"
+                      />
+                    ) : (
+                      <span className="text-2xl text-gray-500">👤</span>
+                    )}
+                  </div>
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">{profile.display_name || profile.username}</p>
+                    <p className="text-sm text-gray-500 mb-2">@{profile.username}</p>
+                    {profile.bio && <p className="text-sm text-gray-400 line-clamp-2">{profile.bio}</p>}
+                  </div>
+                </Link>
+              ))}
+            </div>
+          </>
+        )}
+
+        {pageCount > 1 && (
+          <nav className="flex justify-between items-center mt-10 text-sm">
+            {page > 1 ? (
+              <Link href={pageHref(query, page - 1)} className="px-4 py-2 border border-gray-700 hover:border-white rounded-lg">
+                Previous
+              </Link>
+            ) : (
+              <span />
+            )}
+            <span className="text-gray-500">
+              Page {page} of {pageCount}
+            </span>
+            {page < pageCount ? (
+              <Link href={pageHref(query, page + 1)} className="px-4 py-2 border border-gray-700 hover:border-white rounded-lg">
+                Next
+              </Link>
+            ) : (
+              <span />
+            )}
+          </nav>
+        )}
+      </div>
+    </main>
+  )
+}
@@ -0,0 +1,99 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { getSupabaseClient } from '@/lib/supabase'
+import { notifyProfilesChanged, setActiveProfileId } from '@/lib/activeProfile'
+
+interface PageProps {
+  params: {
+    token: string
+  }
+}
+
+export default function AcceptInvitePage({ params }: PageProps) {
+  const [signedIn, setSignedIn] = useState<boolean | null>(null)
+  const [error, setError] = useState('')
+  const [accepting, setAccepting] = useState(false)
+  const router = useRouter()
+
+  useEffect(() => {
+    const supabase = getSupabaseClient()
+    supabase.auth.getUser().then(({ data: { user } }) => setSignedIn(!!user))
+  }, [])
+
+  const acceptInvite = async () => {
+    setError('')
+    setAccepting(true)
+
+    const response = await fetch('/api/members/accept', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify({ token: params.token }),
+    })
+    const result = await response.json()
+
+    if (!response.ok) {
+      setError(result.error || 'Failed to accept invitation')
+      setAccepting(false)
+      return
+    }
+
+    setActiveProfileId(result.profile_id)
+    notifyProfilesChanged()
+    router.push(`/dashboard?profile=${result.profile_id}`)
+  }
+
+  const invitePath = `/invite/${params.token}`
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-black p-4">
+      <div className="max-w-md w-full border border-gray-800 p-10 text-center">
+        <h1 className="text-4xl font-serif mb-3">You&apos;re Invited</h1>
+        <p className="text-gray-400 mb-10 text-sm">Join a shared Selfbook page</p>
+
+        {signedIn === null && <p className="text-gray-500 text-sm">Loading...</p>}
+
+        {signedIn === false && (
+          <div className="space-y-4">
+            <p className="text-gray-400 text-sm">
+              Sign in with the email address the invitation was sent to.
+            </p>
+            <div className="flex gap-3 justify-center">
+              <Link
+                href={`/login?next=${encodeURIComponent(invitePath)}`}
+                className="px-6 py-2 bg-white text-black hover:bg-gray-200 transition text-sm rounded-lg"
+              >
+                Enter
+              </Link>
+              <Link
+                href="/signup"
+                className="px-6 py-2 border border-gray-700 text-gray-300 hover:border-white transition text-sm rounded-lg"
+              >
+                Begin
+              </Link>
+            </div>
+          </div>
+        )}
+
+        {signedIn && (
+          <button
+            onClick={acceptInvite}
+            disabled={accepting}
+            className="w-full bg-white text-black py-3 font-medium hover:bg-gray-200 transition disabled:opacity-50 disabled:cursor-not-allowed rounded-lg"
+          >
+            {accepting ? 'Accepting...' : 'Accept invitation'}
+          </button>
+        )}
+
+        {error && (
+          <div className="mt-6 bg-gray-900 border border-gray-700 text-red-400 px-4 py-3 text-sm">
+            {error}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
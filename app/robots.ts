@@ -0,0 +1,17 @@
+import type { MetadataRoute } from 'next'
+import { requestOrigin } from '@/lib/seo'
+
+// Profiles that aren't public also send noindex from their own page, since
+// robots.txt can't tell them apart by URL
+export default function robots(): MetadataRoute.Robots {
+  const { origin } = requestOrigin()
+
+  return {
+    rules: {
+      userAgent: '*',
+      allow: '/',
+      disallow: ['/api/', '/dashboard', '/invite/', '/auth/', '/*/unlock'],
+    },
+    sitemap: `${origin}/sitemap.xml`,
+  }
+}
@@ -3,12 +3,15 @@
 import { useState } from 'react'
 import { useRouter } from 'next/navigation'
 import { getSupabaseClient } from '@/lib/supabase'
+import { isUsernameAvailable, validateUsername } from '@/lib/username'
+import { STARTER_LAYOUTS } from '@/lib/templates'
 import Link from 'next/link'
 
 export default function SignupPage() {
   const [email, setEmail] = useState('')
   const [password, setPassword] = useState('')
   const [username, setUsername] = useState('')
+  const [starterLayout, setStarterLayout] = useState('personal')
   const [error, setError] = useState('')
   const [loading, setLoading] = useState(false)
   const router = useRouter()
@@ -20,26 +23,17 @@ export default function SignupPage() {
     setLoading(true)
 
     // Validate username
-    if (username.length < 3 || username.length > 20) {
-      setError('Username must be 3-20 characters')
+    const usernameError = validateUsername(username)
+    if (usernameError) {
+      setError(usernameError)
       setLoading(false)
       return
     }
 
-    if (!/^[a-zA-Z0-9_]+$/.test(username)) {
-      setError('Username can only contain letters, numbers, and underscores')
-      setLoading(false)
-      return
-    }
+    // Check if username is taken, or held for a profile that just gave it up
+    const { available } = await isUsernameAvailable(supabase, username)
 
-    // Check if username is taken
-    const { data: existingProfile } = await supabase
-      .from('profiles')
-      .select('username')
-      .eq('username', username.toLowerCase())
-      .single()
-
-    if (existingProfile) {
+    if (!available) {
       setError('Username is already taken')
       setLoading(false)
       return
@@ -51,6 +45,9 @@ export default function SignupPage() {
       password,
       options: {
         emailRedirectTo: `${window.location.origin}/auth/callback`,
+        // The dashboard adds the layout's sections on first visit, and creates
+        // the profile then if the email has to be confirmed first
+        data: { starter_layout: starterLayout, username: username.toLowerCase() },
       },
     })
 
@@ -66,80 +63,29 @@ export default function SignupPage() {
       return
     }
 
-    // Create profile using RPC function (bypasses RLS)
-    // This works even without email confirmation
-    const rpcParams = {
-      p_user_id: authData.user.id,
-      p_username: username.toLowerCase(),
-      p_display_name: username,
-    }
-    
-    let profileCreated = false
-    
-    console.log('Attempting to create profile via RPC with params:', rpcParams)
-    
-    try {
-      // @ts-expect-error - Supabase RPC types are generated at runtime
-      const { data: profileData, error: rpcError } = await supabase.rpc('create_profile_for_user', rpcParams)
-
-      console.log('RPC response - Data:', profileData, 'Error:', rpcError)
-
-      if (rpcError) {
-        console.error('RPC error details:', rpcError)
-        // RPC function doesn't exist or failed, will try API fallback
-      } else if (profileData) {
-        console.log('Profile created successfully via RPC')
-        profileCreated = true
-      }
-    } catch (err) {
-      console.error('RPC exception:', err)
-      // Will try API fallback
-    }
-
-    // If RPC failed, try API route as fallback
-    if (!profileCreated) {
-      console.log('RPC failed or returned no data, trying API fallback...')
-      try {
-        const response = await fetch('/api/profile', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          credentials: 'include',
-          body: JSON.stringify({
-            username: username.toLowerCase(),
-            display_name: username,
-            user_id: authData.user.id,
-          }),
-        })
-
-        const result = await response.json()
-
-        console.log('API response status:', response.status, 'Data:', result)
-
-        if (!response.ok) {
-          // API creation also failed
-          console.error('Profile creation failed:', result.error)
-          setError('Profile creation failed: ' + (result.error || 'Unknown error'))
-          setLoading(false)
-          return
-        }
-        
-        console.log('Profile created successfully via API')
-        profileCreated = true
-      } catch (apiErr) {
-        console.error('API exception:', apiErr)
-        setError('Failed to create profile. Please try again or contact support.')
-        setLoading(false)
-        return
-      }
+    // Without a session (email confirmation pending) there is nobody to own a
+    // profile yet; the dashboard creates it from the username saved above
+    if (!authData.session) {
+      setError('Account created! Please check your email to confirm your account, then log in.')
+      setLoading(false)
+      return
     }
 
-    console.log('Profile creation status:', profileCreated)
+    const response = await fetch('/api/profile', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      credentials: 'include',
+      body: JSON.stringify({
+        username: username.toLowerCase(),
+        display_name: username,
+      }),
+    })
 
-    // If we need email confirmation, show a message
-    if (!authData.session) {
-      setError('Account created! Please check your email to confirm your account, then log in.')
+    if (!response.ok) {
+      const result = await response.json()
+      setError('Profile creation failed: ' + (result.error || 'Unknown error'))
       setLoading(false)
       return
     }
@@ -204,6 +150,30 @@ export default function SignupPage() {
             <p className="text-xs text-gray-500 mt-2">At least 6 characters</p>
           </div>
 
+          <div>
+            <label className="block text-sm font-medium text-gray-400 mb-2">
+              Start with
+            </label>
+            <div className="grid grid-cols-2 gap-2">
+              {STARTER_LAYOUTS.map((layout) => (
+                <button
+                  key={layout.id}
+                  type="button"
+                  onClick={() => setStarterLayout(layout.id)}
+                  className={`p-3 text-left border transition ${
+                    starterLayout === layout.id
+                      ? 'border-white text-white'
+                      : 'border-gray-800 text-gray-400 hover:border-gray-600'
+                  }`}
+                >
+                  <span className="block text-sm font-medium">{layout.name}</span>
+                  <span className="block text-xs text-gray-500 mt-1">{layout.description}</span>
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500 mt-2">You can change everything later</p>
+          </div>
+
           {error && (
             <div className={`px-4 py-3 text-sm border ${
               error.includes('created') || error.includes('Account')
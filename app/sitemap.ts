@@ -0,0 +1,50 @@
+import type { MetadataRoute } from 'next'
+import { getSupabaseClient } from '@/lib/supabase'
+import { isAppHostname } from '@/lib/domains'
+import { isListed } from '@/lib/access'
+import { requestOrigin } from '@/lib/seo'
+import { AccessMode, Profile } from '@/lib/types'
+
+// Search engines allow at most this many URLs per sitemap
+const MAX_URLS = 50000
+
+// Every public profile. Unlisted, password-protected and signed-in only
+// profiles are left out; that is how owners opt out. On a custom domain the
+// sitemap covers just the profile served there.
+export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
+  const { origin, hostname } = requestOrigin()
+  const supabase = getSupabaseClient()
+
+  if (!isAppHostname(hostname)) {
+    // @ts-expect-error - Supabase RPC types are generated at runtime
+    const { data: username } = await supabase.rpc('resolve_domain', { p_hostname: hostname })
+    if (typeof username !== 'string') return []
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('access, updated_at')
+      .eq('username', username)
+      .maybeSingle<{ access: AccessMode; updated_at: string }>()
+
+    return profile && isListed(profile.access) ? [{ url: `${origin}/`, lastModified: profile.updated_at }] : []
+  }
+
+  const { data: profiles, error } = await supabase
+    .from('profiles')
+    .select('username, updated_at')
+    .eq('access', 'public')
+    .order('updated_at', { ascending: false })
+    .limit(MAX_URLS - 1)
+
+  if (error) {
+    console.error('Failed to list profiles for the sitemap:', error)
+  }
+
+  return [
+    { url: `${origin}/explore`, changeFrequency: 'daily' },
+    ...((profiles || []) as Pick<Profile, 'username' | 'updated_at'>[]).map((profile) => ({
+      url: `${origin}/${profile.username}`,
+      lastModified: profile.updated_at,
+    })),
+  ]
+}
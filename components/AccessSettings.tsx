@@ -0,0 +1,118 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { AccessMode } from '@/lib/types'
+import { ACCESS_MODES, ACCESS_MODE_DESCRIPTIONS, ACCESS_MODE_LABELS, MIN_ACCESS_PASSWORD_LENGTH } from '@/lib/access'
+
+interface Props {
+  profileId: string
+  // The profile's own ID, or the ID of the section being configured
+  targetId: string
+  value: AccessMode
+  // Resolves to an error message when the change was refused
+  onChange: (access: AccessMode) => void | Promise<string | void>
+}
+
+export default function AccessSettings({ profileId, targetId, value, onChange }: Props) {
+  const [hasPassword, setHasPassword] = useState(false)
+  const [choosingPassword, setChoosingPassword] = useState(false)
+  const [password, setPassword] = useState('')
+  const [error, setError] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    loadPasswordState()
+  }, [profileId, targetId])
+
+  const loadPasswordState = async () => {
+    const response = await fetch(`/api/access/password?profile_id=${profileId}&target_id=${targetId}`, {
+      credentials: 'include',
+    })
+    if (response.ok) {
+      setHasPassword((await response.json()).has_password)
+    }
+  }
+
+  const selectMode = async (mode: AccessMode) => {
+    setError('')
+
+    // Password protection needs a password before it can be switched on
+    if (mode === 'password' && !hasPassword) {
+      setChoosingPassword(true)
+      return
+    }
+
+    setChoosingPassword(false)
+    const failure = await onChange(mode)
+    if (failure) setError(failure)
+  }
+
+  const savePassword = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+    setSaving(true)
+
+    const response = await fetch('/api/access/password', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify({ profile_id: profileId, target_id: targetId, password }),
+    })
+    const result = await response.json()
+
+    if (response.ok) {
+      setHasPassword(true)
+      setPassword('')
+      setChoosingPassword(false)
+      if (value !== 'password') {
+        const failure = await onChange('password')
+        if (failure) setError(failure)
+      }
+    } else {
+      setError(result.error || 'Failed to set password')
+    }
+    setSaving(false)
+  }
+
+  const selected = choosingPassword ? 'password' : value
+
+  return (
+    <div className="space-y-2">
+      <select
+        value={selected}
+        onChange={(e) => selectMode(e.target.value as AccessMode)}
+        className="w-full px-3 py-2 bg-black border border-gray-800 text-white text-sm focus:border-white focus:outline-none"
+      >
+        {ACCESS_MODES.map((mode) => (
+          <option key={mode} value={mode}>
+            {ACCESS_MODE_LABELS[mode]}
+          </option>
+        ))}
+      </select>
+      <p className="text-xs text-gray-500">{ACCESS_MODE_DESCRIPTIONS[selected]}</p>
+
+      {selected === 'password' && (
+        <form onSubmit={savePassword} className="flex gap-2">
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            minLength={MIN_ACCESS_PASSWORD_LENGTH}
+            className="flex-1 px-3 py-2 bg-black border border-gray-800 text-white text-sm focus:border-white focus:outline-none"
+            placeholder={hasPassword ? 'New password' : 'Password'}
+            required
+          />
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-4 py-2 border border-gray-700 text-gray-300 hover:border-white hover:text-white transition text-sm rounded-lg disabled:opacity-50"
+          >
+            {hasPassword ? 'Change password' : 'Set password'}
+          </button>
+        </form>
+      )}
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  )
+}
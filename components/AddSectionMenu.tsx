@@ -0,0 +1,92 @@
+'use client'
+
+import { useState } from 'react'
+import { Plus, Trash2 } from 'lucide-react'
+import { SectionTemplate } from '@/lib/types'
+import { BLANK_PRESETS, SECTION_PRESETS, SectionPreset } from '@/lib/templates'
+
+interface Props {
+  templates: SectionTemplate[]
+  onAdd: (template: SectionPreset | SectionTemplate) => void
+  onDeleteTemplate: (templateId: string) => void
+}
+
+// Add Section button with blank sections, presets and the account's saved templates
+export default function AddSectionMenu({ templates, onAdd, onDeleteTemplate }: Props) {
+  const [open, setOpen] = useState(false)
+
+  const add = (template: SectionPreset | SectionTemplate) => {
+    onAdd(template)
+    setOpen(false)
+  }
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-2 px-4 py-2 bg-white text-black hover:bg-gray-200 transition text-sm rounded-lg"
+      >
+        <Plus size={16} />
+        Add Section
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-2 w-72 max-h-[28rem] overflow-y-auto bg-black border border-gray-800 z-10 rounded">
+          <p className="px-4 pt-3 pb-1 text-xs uppercase tracking-wide text-gray-500">Blank</p>
+          {BLANK_PRESETS.map((preset) => (
+            <button
+              key={preset.id}
+              onClick={() => add(preset)}
+              className="w-full px-4 py-2 text-left text-white hover:bg-gray-900"
+            >
+              {preset.name}
+            </button>
+          ))}
+
+          <p className="px-4 pt-3 pb-1 text-xs uppercase tracking-wide text-gray-500 border-t border-gray-800">
+            Presets
+          </p>
+          {SECTION_PRESETS.map((preset) => (
+            <button
+              key={preset.id}
+              onClick={() => add(preset)}
+              className="w-full px-4 py-2 text-left text-white hover:bg-gray-900"
+            >
+              <span className="block">{preset.name}</span>
+              <span className="block text-xs text-gray-500">{preset.description}</span>
+            </button>
+          ))}
+
+          <p className="px-4 pt-3 pb-1 text-xs uppercase tracking-wide text-gray-500 border-t border-gray-800">
+            My templates
+          </p>
+          {templates.length === 0 ? (
+            <p className="px-4 pb-3 text-xs text-gray-600">
+              Save a section as a template to reuse it here
+            </p>
+          ) : (
+            templates.map((template) => (
+              <div key={template.id} className="flex items-center hover:bg-gray-900">
+                <button
+                  onClick={() => add(template)}
+                  className="flex-1 min-w-0 px-4 py-2 text-left text-white"
+                >
+                  <span className="block truncate">{template.name}</span>
+                  <span className="block text-xs text-gray-500 capitalize">
+                    {template.type.replace('_', ' ')}
+                  </span>
+                </button>
+                <button
+                  onClick={() => onDeleteTemplate(template.id)}
+                  className="p-2 mr-2 text-gray-500 hover:text-red-400 transition"
+                  title="Delete template"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,143 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { ProfileAnalytics } from '@/lib/types'
+
+interface Props {
+  profileId: string
+}
+
+const RANGES = [7, 30, 90]
+
+export default function AnalyticsPanel({ profileId }: Props) {
+  const [days, setDays] = useState(30)
+  const [analytics, setAnalytics] = useState<ProfileAnalytics | null>(null)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    loadAnalytics()
+  }, [profileId, days])
+
+  const loadAnalytics = async () => {
+    setError('')
+    const response = await fetch(`/api/analytics?profile_id=${profileId}&days=${days}`, {
+      credentials: 'include',
+    })
+    const result = await response.json()
+
+    if (response.ok) {
+      setAnalytics(result)
+    } else {
+      setError(result.error || 'Failed to load analytics')
+    }
+  }
+
+  const dailyViews = analytics?.daily_views || []
+  const totalViews = dailyViews.reduce((sum, d) => sum + Number(d.views), 0)
+  const totalClicks = (analytics?.top_links || []).reduce((sum, l) => sum + Number(l.clicks), 0)
+  const maxViews = Math.max(1, ...dailyViews.map((d) => Number(d.views)))
+
+  return (
+    <div className="space-y-8">
+      <div className="flex justify-between items-center">
+        <div className="flex gap-8">
+          <div>
+            <p className="text-3xl font-serif">{totalViews}</p>
+            <p className="text-xs uppercase tracking-wide text-gray-500">Views</p>
+          </div>
+          <div>
+            <p className="text-3xl font-serif">{totalClicks}</p>
+            <p className="text-xs uppercase tracking-wide text-gray-500">Link clicks</p>
+          </div>
+        </div>
+        <div className="flex gap-2">
+          {RANGES.map((range) => (
+            <button
+              key={range}
+              onClick={() => setDays(range)}
+              className={`text-xs px-3 py-1 border rounded ${
+                days === range ? 'border-white text-white' : 'border-gray-800 text-gray-500 hover:border-gray-700'
+              }`}
+            >
+              {range}d
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-gray-900 border border-gray-700 text-red-400 px-4 py-3 text-sm">
+          {error}
+        </div>
+      )}
+
+      {/* Daily views */}
+      <div>
+        <p className="text-xs uppercase tracking-wide text-gray-500 mb-3">Daily views</p>
+        <div className="flex items-end gap-px h-32 border-b border-gray-800">
+          {dailyViews.map((d) => (
+            <div
+              key={d.day}
+              title={`${d.day}: ${d.views} views`}
+              className="flex-1 bg-gray-600 hover:bg-white transition"
+              style={{ height: `${(Number(d.views) / maxViews) * 100}%`, minHeight: Number(d.views) > 0 ? 2 : 0 }}
+            />
+          ))}
+        </div>
+        {dailyViews.length > 0 && (
+          <div className="flex justify-between text-xs text-gray-600 mt-2">
+            <span>{dailyViews[0].day}</span>
+            <span>{dailyViews[dailyViews.length - 1].day}</span>
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <p className="text-xs uppercase tracking-wide text-gray-500 mb-3">Top links</p>
+          {(analytics?.top_links || []).length === 0 ? (
+            <p className="text-sm text-gray-600">No clicks yet</p>
+          ) : (
+            <ul className="space-y-2">
+              {analytics!.top_links.map((link) => (
+                <li key={link.url} className="flex justify-between gap-4 text-sm">
+                  <span className="text-gray-300 truncate">{link.url}</span>
+                  <span className="text-gray-500">{link.clicks}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+        <div>
+          <p className="text-xs uppercase tracking-wide text-gray-500 mb-3">Top referrers</p>
+          {(analytics?.top_referrers || []).length === 0 ? (
+            <p className="text-sm text-gray-600">No referrers yet</p>
+          ) : (
+            <ul className="space-y-2">
+              {analytics!.top_referrers.map((ref) => (
+                <li key={ref.referrer} className="flex justify-between gap-4 text-sm">
+                  <span className="text-gray-300 truncate">{ref.referrer}</span>
+                  <span className="text-gray-500">{ref.views}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+
+      {(analytics?.section_views || []).length > 0 && (
+        <div>
+          <p className="text-xs uppercase tracking-wide text-gray-500 mb-3">Section views</p>
+          <ul className="space-y-2">
+            {analytics!.section_views.map((section) => (
+              <li key={section.section_id} className="flex justify-between gap-4 text-sm">
+                <span className="text-gray-300 truncate">{section.title}</span>
+                <span className="text-gray-500">{section.views}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,197 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { ApiScope, ApiToken } from '@/lib/types'
+import { API_SCOPES, API_SCOPE_LABELS } from '@/lib/permissions'
+import { Copy, KeyRound, Trash2 } from 'lucide-react'
+
+interface Props {
+  profileId: string
+}
+
+const EXPIRY_OPTIONS = [
+  { label: '30 days', days: 30 },
+  { label: '90 days', days: 90 },
+  { label: '1 year', days: 365 },
+  { label: 'Never', days: null },
+]
+
+export default function ApiTokensPanel({ profileId }: Props) {
+  const [tokens, setTokens] = useState<ApiToken[]>([])
+  const [name, setName] = useState('')
+  const [scopes, setScopes] = useState<ApiScope[]>(['profile:read', 'sections:read'])
+  const [thisProfileOnly, setThisProfileOnly] = useState(true)
+  const [expiresInDays, setExpiresInDays] = useState<number | null>(90)
+  const [newToken, setNewToken] = useState<string | null>(null)
+  const [error, setError] = useState('')
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  useEffect(() => {
+    loadTokens()
+  }, [])
+
+  const loadTokens = async () => {
+    const response = await fetch('/api/tokens', { credentials: 'include' })
+    if (response.ok) {
+      setTokens(await response.json())
+    }
+  }
+
+  const toggleScope = (scope: ApiScope) => {
+    setScopes((current) => (current.includes(scope) ? current.filter((s) => s !== scope) : [...current, scope]))
+  }
+
+  const createToken = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+    setNewToken(null)
+    setBusyId('new')
+
+    const response = await fetch('/api/tokens', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify({
+        name,
+        scopes,
+        profile_id: thisProfileOnly ? profileId : null,
+        expires_in_days: expiresInDays,
+      }),
+    })
+    const result = await response.json()
+
+    if (response.ok) {
+      setName('')
+      setNewToken(result.token)
+      await loadTokens()
+    } else {
+      setError(result.error || 'Failed to create token')
+    }
+    setBusyId(null)
+  }
+
+  const revokeToken = async (id: string) => {
+    if (!confirm('Revoke this token? Scripts using it will stop working.')) return
+    setBusyId(id)
+
+    const response = await fetch(`/api/tokens?id=${id}`, {
+      method: 'DELETE',
+      credentials: 'include',
+    })
+
+    if (response.ok) {
+      await loadTokens()
+    }
+    setBusyId(null)
+  }
+
+  const tokenReach = (token: ApiToken) => {
+    if (!token.profile_id) return 'all profiles'
+    return token.profile_id === profileId ? 'this profile' : 'another profile'
+  }
+
+  const formatDate = (value: string | null) => (value ? new Date(value).toLocaleDateString() : 'never')
+
+  return (
+    <div className="space-y-4">
+      <form onSubmit={createToken} className="space-y-3">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          className="w-full px-4 py-2 bg-black border border-gray-800 text-white text-sm focus:border-white focus:outline-none transition"
+          placeholder="Token name, e.g. CI deploy"
+          required
+        />
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+          {API_SCOPES.map((scope) => (
+            <label key={scope} className="flex items-center gap-2 text-sm text-gray-300">
+              <input type="checkbox" checked={scopes.includes(scope)} onChange={() => toggleScope(scope)} />
+              {API_SCOPE_LABELS[scope]}
+              <span className="text-xs text-gray-600 font-mono">{scope}</span>
+            </label>
+          ))}
+        </div>
+        <div className="flex flex-wrap items-center gap-4 text-sm text-gray-400">
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={thisProfileOnly} onChange={(e) => setThisProfileOnly(e.target.checked)} />
+            Only this profile
+          </label>
+          <label className="flex items-center gap-2">
+            Expires
+            <select
+              value={expiresInDays ?? ''}
+              onChange={(e) => setExpiresInDays(e.target.value ? Number(e.target.value) : null)}
+              className="px-2 py-1 bg-black border border-gray-800 text-white text-sm"
+            >
+              {EXPIRY_OPTIONS.map((option) => (
+                <option key={option.label} value={option.days ?? ''}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <button
+            type="submit"
+            disabled={busyId === 'new' || scopes.length === 0}
+            className="ml-auto px-4 py-2 bg-white text-black hover:bg-gray-200 transition text-sm rounded-lg disabled:opacity-50"
+          >
+            Create token
+          </button>
+        </div>
+      </form>
+
+      {error && (
+        <div className="bg-gray-900 border border-gray-700 text-red-400 px-4 py-3 text-sm">
+          {error}
+        </div>
+      )}
+
+      {newToken && (
+        <div className="p-4 border border-gray-700 space-y-2">
+          <p className="text-sm text-gray-300">Copy this token now. It won&apos;t be shown again.</p>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 text-xs text-white font-mono break-all">{newToken}</code>
+            <button
+              onClick={() => navigator.clipboard.writeText(newToken)}
+              className="p-1 text-gray-500 hover:text-white transition"
+              title="Copy"
+            >
+              <Copy size={14} />
+            </button>
+          </div>
+          <p className="text-xs text-gray-500 font-mono break-all">
+            curl -H &quot;Authorization: Bearer {newToken.slice(0, 10)}…&quot; {window.location.origin}/api/v1/profiles
+          </p>
+        </div>
+      )}
+
+      {tokens.map((token) => (
+        <div key={token.id} className={`p-4 border border-gray-800 ${token.revoked_at ? 'opacity-50' : ''}`}>
+          <div className="flex items-center gap-3">
+            <KeyRound size={16} className="text-gray-500" />
+            <span className="flex-1 text-white text-sm font-medium">
+              {token.name} <span className="text-xs text-gray-500 font-mono">{token.token_prefix}…</span>
+            </span>
+            {token.revoked_at ? (
+              <span className="text-xs text-gray-500">Revoked</span>
+            ) : (
+              <button
+                onClick={() => revokeToken(token.id)}
+                disabled={busyId === token.id}
+                className="p-1 text-gray-500 hover:text-red-400 transition disabled:opacity-50"
+                title="Revoke"
+              >
+                <Trash2 size={14} />
+              </button>
+            )}
+          </div>
+          <p className="text-xs text-gray-500 mt-2">
+            {token.scopes.join(', ')} · {tokenReach(token)}
+            {' · '}last used {formatDate(token.last_used_at)} · expires {formatDate(token.expires_at)}
+          </p>
+        </div>
+      ))}
+    </div>
+  )
+}
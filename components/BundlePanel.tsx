@@ -0,0 +1,118 @@
+'use client'
+
+import { useRef, useState } from 'react'
+import { Download, Upload } from 'lucide-react'
+
+interface Props {
+  profileId: string
+  canEdit: boolean
+  onImported: () => void
+}
+
+export default function BundlePanel({ profileId, canEdit, onImported }: Props) {
+  const fileInput = useRef<HTMLInputElement>(null)
+  const [replace, setReplace] = useState(false)
+  const [importing, setImporting] = useState(false)
+  const [message, setMessage] = useState('')
+  const [errors, setErrors] = useState<string[]>([])
+
+  const importBundle = async (file: File) => {
+    if (replace && !confirm('Replace every section and your profile details with the imported ones?')) return
+
+    setImporting(true)
+    setMessage('')
+    setErrors([])
+
+    const form = new FormData()
+    form.append('profile_id', profileId)
+    form.append('replace', String(replace))
+    form.append('file', file)
+
+    const response = await fetch('/api/profile/import', {
+      method: 'POST',
+      credentials: 'include',
+      body: form,
+    })
+    const result = await response.json()
+
+    if (response.ok) {
+      setMessage(
+        `Imported ${result.sections} section${result.sections === 1 ? '' : 's'}` +
+          (result.assets > 0 ? ` and ${result.assets} image${result.assets === 1 ? '' : 's'}` : '') +
+          '. Publish to make them live.'
+      )
+      onImported()
+    } else {
+      setMessage(result.error || 'Import failed')
+      setErrors(
+        ((result.errors || []) as { path: string; message: string }[]).map((err) => `${err.path}: ${err.message}`)
+      )
+    }
+    setImporting(false)
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap gap-3">
+        <a
+          href={`/api/profile/export?id=${profileId}`}
+          className="flex items-center gap-2 px-4 py-2 border border-gray-700 text-gray-300 hover:border-white text-sm rounded-lg transition"
+        >
+          <Download size={16} />
+          Download JSON
+        </a>
+        <a
+          href={`/api/profile/export?id=${profileId}&assets=1`}
+          className="flex items-center gap-2 px-4 py-2 border border-gray-700 text-gray-300 hover:border-white text-sm rounded-lg transition"
+        >
+          <Download size={16} />
+          Download zip with images
+        </a>
+      </div>
+      <p className="text-xs text-gray-500">
+        The JSON file links to your images where they are; the zip carries its own copies.
+      </p>
+
+      {canEdit && (
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center gap-4">
+            <button
+              onClick={() => fileInput.current?.click()}
+              disabled={importing}
+              className="flex items-center gap-2 px-4 py-2 bg-white text-black hover:bg-gray-200 transition text-sm rounded-lg disabled:opacity-50"
+            >
+              <Upload size={16} />
+              {importing ? 'Importing...' : 'Import bundle'}
+            </button>
+            <label className="flex items-center gap-2 text-sm text-gray-400">
+              <input type="checkbox" checked={replace} onChange={(e) => setReplace(e.target.checked)} />
+              Replace existing sections and profile details
+            </label>
+            <input
+              ref={fileInput}
+              type="file"
+              accept=".json,.zip,application/json,application/zip"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0]
+                e.target.value = ''
+                if (file) importBundle(file)
+              }}
+            />
+          </div>
+
+          {message && (
+            <div className="bg-gray-900 border border-gray-700 px-4 py-3 text-sm space-y-1">
+              <p className={errors.length > 0 ? 'text-red-400' : 'text-gray-300'}>{message}</p>
+              {errors.map((err) => (
+                <p key={err} className="text-xs text-red-400 font-mono">
+                  {err}
+                </p>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,152 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Domain } from '@/lib/types'
+import { verificationRecordName, verificationRecordValue } from '@/lib/domains'
+import { CheckCircle, Globe, Trash2 } from 'lucide-react'
+
+interface Props {
+  profileId: string
+}
+
+export default function DomainSettings({ profileId }: Props) {
+  const [domains, setDomains] = useState<Domain[]>([])
+  const [hostname, setHostname] = useState('')
+  const [error, setError] = useState('')
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  useEffect(() => {
+    loadDomains()
+  }, [profileId])
+
+  const loadDomains = async () => {
+    const response = await fetch(`/api/domains?profile_id=${profileId}`, { credentials: 'include' })
+    if (response.ok) {
+      setDomains(await response.json())
+    }
+  }
+
+  const addDomain = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+    setBusyId('new')
+
+    const response = await fetch('/api/domains', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify({ profile_id: profileId, hostname }),
+    })
+    const result = await response.json()
+
+    if (response.ok) {
+      setHostname('')
+      await loadDomains()
+    } else {
+      setError(result.error || 'Failed to add domain')
+    }
+    setBusyId(null)
+  }
+
+  const verifyDomain = async (id: string) => {
+    setError('')
+    setBusyId(id)
+
+    const response = await fetch('/api/domains/verify', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify({ id }),
+    })
+    const result = await response.json()
+
+    if (response.ok) {
+      await loadDomains()
+    } else {
+      setError(result.error || 'Verification failed')
+    }
+    setBusyId(null)
+  }
+
+  const removeDomain = async (id: string) => {
+    if (!confirm('Remove this domain?')) return
+    setBusyId(id)
+
+    const response = await fetch(`/api/domains?id=${id}`, {
+      method: 'DELETE',
+      credentials: 'include',
+    })
+
+    if (response.ok) {
+      await loadDomains()
+    }
+    setBusyId(null)
+  }
+
+  return (
+    <div className="space-y-4">
+      <form onSubmit={addDomain} className="flex gap-3">
+        <input
+          type="text"
+          value={hostname}
+          onChange={(e) => setHostname(e.target.value)}
+          className="flex-1 px-4 py-2 bg-black border border-gray-800 text-white text-sm focus:border-white focus:outline-none transition"
+          placeholder="me.example.com"
+          required
+        />
+        <button
+          type="submit"
+          disabled={busyId === 'new'}
+          className="px-4 py-2 bg-white text-black hover:bg-gray-200 transition text-sm rounded-lg disabled:opacity-50"
+        >
+          Add domain
+        </button>
+      </form>
+
+      {error && (
+        <div className="bg-gray-900 border border-gray-700 text-red-400 px-4 py-3 text-sm">
+          {error}
+        </div>
+      )}
+
+      {domains.map((domain) => (
+        <div key={domain.id} className="p-4 border border-gray-800 space-y-3">
+          <div className="flex items-center gap-3">
+            <Globe size={16} className="text-gray-500" />
+            <span className="flex-1 text-white text-sm font-medium">{domain.hostname}</span>
+            {domain.verified_at ? (
+              <span className="flex items-center gap-1 text-xs text-green-400">
+                <CheckCircle size={14} />
+                Verified
+              </span>
+            ) : (
+              <button
+                onClick={() => verifyDomain(domain.id)}
+                disabled={busyId === domain.id}
+                className="text-xs px-3 py-1 border border-gray-700 text-gray-300 hover:border-white rounded disabled:opacity-50"
+              >
+                {busyId === domain.id ? 'Checking...' : 'Verify'}
+              </button>
+            )}
+            <button
+              onClick={() => removeDomain(domain.id)}
+              className="p-1 text-gray-500 hover:text-red-400 transition"
+            >
+              <Trash2 size={14} />
+            </button>
+          </div>
+
+          {!domain.verified_at && (
+            <div className="text-xs text-gray-400 space-y-1">
+              <p>Add this TXT record at your DNS provider, then press Verify:</p>
+              <p className="font-mono text-gray-300 break-all">
+                {verificationRecordName(domain.hostname)} TXT &quot;{verificationRecordValue(domain.verification_token)}&quot;
+              </p>
+              <p>Point the domain itself at this app with a CNAME or A record.</p>
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,86 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { FeedItem } from '@/lib/types'
+import ProfileImage from './ProfileImage'
+
+interface Props {
+  profileId: string
+}
+
+export default function FeedPanel({ profileId }: Props) {
+  const [items, setItems] = useState<FeedItem[]>([])
+  const [hasMore, setHasMore] = useState(false)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    setItems([])
+    loadFeed()
+  }, [profileId])
+
+  // Without `after` this loads the first page, replacing what is shown
+  const loadFeed = async (after?: FeedItem) => {
+    setLoading(true)
+    const params = new URLSearchParams({ profile_id: profileId })
+    if (after) {
+      params.set('before', after.updated_at)
+      params.set('before_id', after.section_id)
+    }
+
+    const response = await fetch(`/api/follows/feed?${params}`, { credentials: 'include' })
+    if (response.ok) {
+      const result: { items: FeedItem[]; has_more: boolean } = await response.json()
+      setItems((current) => (after ? [...current, ...result.items] : result.items))
+      setHasMore(result.has_more)
+    }
+    setLoading(false)
+  }
+
+  if (!loading && items.length === 0) {
+    return (
+      <p className="text-sm text-gray-500">
+        Nothing yet. Follow people from their profile, or find some on{' '}
+        <Link href="/explore" className="underline hover:text-white">
+          Explore
+        </Link>
+        .
+      </p>
+    )
+  }
+
+  return (
+    <div className="space-y-2">
+      {items.map((item) => (
+        <Link
+          key={`${item.section_id}-${item.updated_at}`}
+          href={`/${item.username}`}
+          className="flex items-center gap-3 p-3 border border-gray-800 hover:border-gray-600 transition text-sm"
+        >
+          <div className="w-8 h-8 flex-shrink-0 rounded-full overflow-hidden bg-gray-900 flex items-center justify-center">
+            {item.avatar_url ? (
+              <ProfileImage src={item.avatar_url} alt={item.username} className="w-full h-full object-cover" />
+            ) : (
+              <span className="text-gray-500">👤</span>
+            )}
+          </div>
+          <p className="flex-1 min-w-0 truncate text-gray-400">
+            <span className="text-white font-medium">{item.display_name || `@${item.username}`}</span> updated{' '}
+            <span className="text-gray-200">{item.title}</span>
+          </p>
+          <span className="text-xs text-gray-500 whitespace-nowrap">{new Date(item.updated_at).toLocaleString()}</span>
+        </Link>
+      ))}
+
+      {hasMore && (
+        <button
+          onClick={() => loadFeed(items[items.length - 1])}
+          disabled={loading}
+          className="w-full py-2 border border-gray-800 text-gray-400 hover:border-white hover:text-white transition text-sm disabled:opacity-50"
+        >
+          {loading ? 'Loading...' : 'Load more'}
+        </button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,99 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { getSupabaseClient } from '@/lib/supabase'
+import { getActiveProfileId } from '@/lib/activeProfile'
+import { FollowCounts } from '@/lib/types'
+import { Theme } from '@/lib/themes'
+
+interface Props {
+  profileId: string
+  username: string
+  counts: FollowCounts
+  theme: Theme
+}
+
+// Follower counts and the follow button on a public profile. Signed-in users
+// follow with the profile they last edited in the dashboard.
+export default function FollowBar({ profileId, username, counts: initialCounts, theme }: Props) {
+  const [counts, setCounts] = useState(initialCounts)
+  const [signedIn, setSignedIn] = useState<boolean | null>(null)
+  const [followerId, setFollowerId] = useState<string | null>(null)
+  const [following, setFollowing] = useState(false)
+  const [busy, setBusy] = useState(false)
+
+  useEffect(() => {
+    loadFollowState()
+  }, [profileId])
+
+  const loadFollowState = async () => {
+    try {
+      const { data: { user } } = await getSupabaseClient().auth.getUser()
+      setSignedIn(!!user)
+      if (!user) return
+
+      const activeId = getActiveProfileId()
+      const response = await fetch(
+        `/api/follows?profile_id=${profileId}${activeId ? `&follower_id=${activeId}` : ''}`,
+        { credentials: 'include' }
+      )
+      if (response.ok) {
+        const result = await response.json()
+        setFollowerId(result.follower_id)
+        setFollowing(result.following)
+      }
+    } catch (error) {
+      console.error('Failed to load follow state:', error)
+    }
+  }
+
+  const toggleFollow = async () => {
+    if (!followerId) return
+    setBusy(true)
+
+    const response = following
+      ? await fetch(`/api/follows?follower_id=${followerId}&profile_id=${profileId}`, {
+          method: 'DELETE',
+          credentials: 'include',
+        })
+      : await fetch('/api/follows', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          credentials: 'include',
+          body: JSON.stringify({ follower_id: followerId, profile_id: profileId }),
+        })
+
+    if (response.ok) {
+      const result = await response.json()
+      setFollowing(result.following)
+      setCounts(result.counts)
+    }
+    setBusy(false)
+  }
+
+  const buttonClass = `px-5 py-2 font-medium text-sm transition disabled:opacity-50 ${theme.buttonShape} ${
+    following ? theme.tabInactive : theme.tabActive
+  }`
+
+  return (
+    <div className="flex items-center gap-6 mt-4">
+      <p className={`text-sm ${theme.textMuted}`}>
+        <span className={theme.accent}>{counts.followers}</span> follower{counts.followers === 1 ? '' : 's'}
+        {' · '}
+        <span className={theme.accent}>{counts.following}</span> following
+      </p>
+
+      {signedIn === false && (
+        <a href={`/login?next=${encodeURIComponent(`/${username}`)}`} className={buttonClass}>
+          Follow
+        </a>
+      )}
+
+      {signedIn && followerId && followerId !== profileId && (
+        <button onClick={toggleFollow} disabled={busy} className={buttonClass}>
+          {following ? 'Following' : 'Follow'}
+        </button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,144 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Message } from '@/lib/types'
+import { notifyInboxChanged } from '@/lib/messages'
+import { Archive, ArchiveRestore, Mail, MailOpen, Reply } from 'lucide-react'
+
+interface Props {
+  profileId: string
+}
+
+export default function InboxPanel({ profileId }: Props) {
+  const [messages, setMessages] = useState<Message[]>([])
+  const [showArchived, setShowArchived] = useState(false)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    loadMessages()
+  }, [profileId, showArchived])
+
+  const loadMessages = async () => {
+    setLoading(true)
+    const response = await fetch(`/api/messages?profile_id=${profileId}&archived=${showArchived}`, {
+      credentials: 'include',
+    })
+    if (response.ok) {
+      setMessages(await response.json())
+    }
+    setLoading(false)
+  }
+
+  const updateMessage = async (id: string, changes: { read?: boolean; archived?: boolean }) => {
+    setBusyId(id)
+
+    const response = await fetch('/api/messages', {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify({ id, ...changes }),
+    })
+
+    if (response.ok) {
+      const updated: Message = await response.json()
+      // Archiving or restoring moves the message to the other list
+      setMessages((current) =>
+        changes.archived === undefined
+          ? current.map((m) => (m.id === id ? updated : m))
+          : current.filter((m) => m.id !== id)
+      )
+      notifyInboxChanged()
+    }
+    setBusyId(null)
+  }
+
+  // Opening an unread message marks it read
+  const toggleMessage = (message: Message) => {
+    setExpandedId(expandedId === message.id ? null : message.id)
+    if (!message.read_at && expandedId !== message.id) {
+      updateMessage(message.id, { read: true })
+    }
+  }
+
+  const preview = (message: Message) => message.fields.map((f) => f.value).join(' · ')
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2">
+        <button
+          onClick={() => setShowArchived(false)}
+          className={`px-3 py-1 text-xs rounded ${showArchived ? 'border border-gray-700 text-gray-400 hover:border-white' : 'bg-white text-black'}`}
+        >
+          Inbox
+        </button>
+        <button
+          onClick={() => setShowArchived(true)}
+          className={`px-3 py-1 text-xs rounded ${showArchived ? 'bg-white text-black' : 'border border-gray-700 text-gray-400 hover:border-white'}`}
+        >
+          Archived
+        </button>
+      </div>
+
+      {!loading && messages.length === 0 && (
+        <p className="text-sm text-gray-500">
+          {showArchived ? 'No archived messages' : 'No messages yet. Add a Contact Form section to receive some.'}
+        </p>
+      )}
+
+      {messages.map((message) => (
+        <div key={message.id} className="border border-gray-800 text-sm">
+          <div className="flex items-center gap-3 px-4 py-3">
+            <span className={`w-2 h-2 rounded-full flex-shrink-0 ${message.read_at ? 'bg-transparent' : 'bg-white'}`} />
+            <button
+              onClick={() => toggleMessage(message)}
+              className={`flex-1 text-left truncate ${message.read_at ? 'text-gray-400' : 'text-white font-medium'}`}
+            >
+              {preview(message)}
+            </button>
+            <span className="text-xs text-gray-500 whitespace-nowrap">
+              {new Date(message.created_at).toLocaleString()}
+            </span>
+            <button
+              onClick={() => updateMessage(message.id, { read: !message.read_at })}
+              disabled={busyId === message.id}
+              className="p-1 text-gray-500 hover:text-white transition disabled:opacity-50"
+              title={message.read_at ? 'Mark unread' : 'Mark read'}
+            >
+              {message.read_at ? <Mail size={14} /> : <MailOpen size={14} />}
+            </button>
+            <button
+              onClick={() => updateMessage(message.id, { archived: !message.archived_at })}
+              disabled={busyId === message.id}
+              className="p-1 text-gray-500 hover:text-white transition disabled:opacity-50"
+              title={message.archived_at ? 'Move to inbox' : 'Archive'}
+            >
+              {message.archived_at ? <ArchiveRestore size={14} /> : <Archive size={14} />}
+            </button>
+          </div>
+
+          {expandedId === message.id && (
+            <div className="px-4 pb-4 space-y-3">
+              {message.fields.map((field, idx) => (
+                <div key={idx}>
+                  <p className="text-xs uppercase tracking-wide text-gray-500">{field.label}</p>
+                  <p className="text-gray-300 whitespace-pre-wrap break-words">{field.value}</p>
+                </div>
+              ))}
+              {message.reply_to && (
+                <a
+                  href={`mailto:${message.reply_to}`}
+                  className="inline-flex items-center gap-2 px-3 py-1 border border-gray-700 text-gray-300 hover:border-white rounded text-xs"
+                >
+                  <Reply size={12} />
+                  Reply to {message.reply_to}
+                </a>
+              )}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  )
+}
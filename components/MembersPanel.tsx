@@ -0,0 +1,178 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { ProfileMember, ProfileRole } from '@/lib/types'
+import { PROFILE_ROLES } from '@/lib/permissions'
+import { Copy, Trash2 } from 'lucide-react'
+
+interface Props {
+  profileId: string
+  canManage: boolean
+}
+
+export default function MembersPanel({ profileId, canManage }: Props) {
+  const [members, setMembers] = useState<ProfileMember[]>([])
+  const [email, setEmail] = useState('')
+  const [role, setRole] = useState<ProfileRole>('editor')
+  const [error, setError] = useState('')
+  const [notice, setNotice] = useState('')
+
+  useEffect(() => {
+    loadMembers()
+  }, [profileId])
+
+  const loadMembers = async () => {
+    const response = await fetch(`/api/members?profile_id=${profileId}`, { credentials: 'include' })
+    if (response.ok) {
+      setMembers(await response.json())
+    }
+  }
+
+  const inviteMember = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+    setNotice('')
+
+    const response = await fetch('/api/members', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify({ profile_id: profileId, email, role }),
+    })
+    const result = await response.json()
+
+    if (!response.ok) {
+      setError(result.error || 'Failed to send invitation')
+      return
+    }
+
+    setEmail('')
+    setNotice(
+      result.email_sent
+        ? `Invitation sent to ${result.email}`
+        : `Email isn't configured; share this link with ${result.email}: ${result.accept_url}`
+    )
+    await loadMembers()
+  }
+
+  const changeRole = async (id: string, newRole: ProfileRole) => {
+    const response = await fetch('/api/members', {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify({ id, role: newRole }),
+    })
+
+    if (response.ok) {
+      await loadMembers()
+    }
+  }
+
+  const removeMember = async (id: string) => {
+    if (!confirm('Remove this collaborator?')) return
+
+    const response = await fetch(`/api/members?id=${id}`, {
+      method: 'DELETE',
+      credentials: 'include',
+    })
+
+    if (response.ok) {
+      await loadMembers()
+    }
+  }
+
+  const copyInviteLink = (token: string) => {
+    navigator.clipboard.writeText(`${window.location.origin}/invite/${token}`)
+    setNotice('Invite link copied')
+  }
+
+  return (
+    <div className="space-y-4">
+      {canManage && (
+        <form onSubmit={inviteMember} className="flex gap-3">
+          <input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            className="flex-1 px-4 py-2 bg-black border border-gray-800 text-white text-sm focus:border-white focus:outline-none transition"
+            placeholder="teammate@example.com"
+            required
+          />
+          <select
+            value={role}
+            onChange={(e) => setRole(e.target.value as ProfileRole)}
+            className="px-3 py-2 bg-black border border-gray-800 text-white text-sm focus:border-white focus:outline-none capitalize"
+          >
+            {PROFILE_ROLES.map((r) => (
+              <option key={r} value={r}>
+                {r}
+              </option>
+            ))}
+          </select>
+          <button
+            type="submit"
+            className="px-4 py-2 bg-white text-black hover:bg-gray-200 transition text-sm rounded-lg"
+          >
+            Invite
+          </button>
+        </form>
+      )}
+
+      {error && (
+        <div className="bg-gray-900 border border-gray-700 text-red-400 px-4 py-3 text-sm">
+          {error}
+        </div>
+      )}
+      {notice && (
+        <div className="bg-gray-900 border border-gray-700 text-green-400 px-4 py-3 text-sm break-all">
+          {notice}
+        </div>
+      )}
+
+      {members.length === 0 ? (
+        <p className="text-sm text-gray-600">No collaborators yet</p>
+      ) : (
+        <ul className="space-y-2">
+          {members.map((member) => (
+            <li key={member.id} className="flex items-center gap-3 p-3 border border-gray-800 text-sm">
+              <span className="flex-1 text-white truncate">{member.email}</span>
+              {!member.accepted_at && <span className="text-xs text-gray-500">Pending</span>}
+              {canManage ? (
+                <>
+                  <select
+                    value={member.role}
+                    onChange={(e) => changeRole(member.id, e.target.value as ProfileRole)}
+                    className="px-2 py-1 bg-black border border-gray-800 text-gray-300 text-xs capitalize"
+                  >
+                    {PROFILE_ROLES.map((r) => (
+                      <option key={r} value={r}>
+                        {r}
+                      </option>
+                    ))}
+                  </select>
+                  {member.invite_token && (
+                    <button
+                      onClick={() => copyInviteLink(member.invite_token!)}
+                      className="p-1 text-gray-500 hover:text-white transition"
+                      title="Copy invite link"
+                    >
+                      <Copy size={14} />
+                    </button>
+                  )}
+                  <button
+                    onClick={() => removeMember(member.id)}
+                    className="p-1 text-gray-500 hover:text-red-400 transition"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </>
+              ) : (
+                <span className="text-xs text-gray-500 capitalize">{member.role}</span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -3,11 +3,16 @@
 import Link from 'next/link'
 import { useEffect, useState } from 'react'
 import { getSupabaseClient } from '@/lib/supabase'
-import { LogOut } from 'lucide-react'
+import { getActiveProfileId, onActiveProfileChange } from '@/lib/activeProfile'
+import { onInboxChange } from '@/lib/messages'
+import { LogOut, Mail } from 'lucide-react'
 import { useRouter } from 'next/navigation'
+import ProfileSwitcher from './ProfileSwitcher'
 
 export default function Navbar() {
   const [user, setUser] = useState<any>(null)
+  const [unreadCounts, setUnreadCounts] = useState<Record<string, number>>({})
+  const [activeProfileId, setActiveProfileId] = useState<string | null>(null)
   const router = useRouter()
 
   useEffect(() => {
@@ -16,6 +21,17 @@ export default function Navbar() {
     checkUser(supabase)
   }, [])
 
+  useEffect(() => {
+    if (!user) return
+    loadUnreadCounts()
+    const stopProfiles = onActiveProfileChange(loadUnreadCounts)
+    const stopInbox = onInboxChange(loadUnreadCounts)
+    return () => {
+      stopProfiles()
+      stopInbox()
+    }
+  }, [user])
+
   const checkUser = async (supabase: ReturnType<typeof getSupabaseClient>) => {
     try {
       const { data: { user } } = await supabase.auth.getUser()
@@ -26,6 +42,18 @@ export default function Navbar() {
     }
   }
 
+  const loadUnreadCounts = async () => {
+    setActiveProfileId(getActiveProfileId())
+    try {
+      const response = await fetch('/api/messages/unread', { credentials: 'include' })
+      if (response.ok) {
+        setUnreadCounts(await response.json())
+      }
+    } catch (error) {
+      console.error('Failed to load unread messages:', error)
+    }
+  }
+
   const handleLogout = async () => {
     try {
       const supabase = getSupabaseClient()
@@ -45,8 +73,26 @@ export default function Navbar() {
         </Link>
 
         <div className="flex gap-4 items-center">
+          <Link href="/explore" className="text-gray-400 hover:text-white font-medium transition text-sm">
+            Explore
+          </Link>
           {user ? (
             <>
+              <ProfileSwitcher unreadCounts={unreadCounts} />
+              {activeProfileId && (
+                <Link
+                  href={`/dashboard?profile=${activeProfileId}#inbox`}
+                  className="relative p-2 text-gray-400 hover:text-white transition"
+                  title="Inbox"
+                >
+                  <Mail size={18} />
+                  {(unreadCounts[activeProfileId] || 0) > 0 && (
+                    <span className="absolute -top-1 -right-1 min-w-[1.25rem] px-1 bg-white text-black text-xs font-medium text-center rounded-full">
+                      {unreadCounts[activeProfileId]}
+                    </span>
+                  )}
+                </Link>
+              )}
               <Link href="/dashboard" className="text-gray-400 hover:text-white font-medium transition text-sm">
                 Dashboard
               </Link>
@@ -1,93 +1,154 @@
 'use client'
 
-import { useState } from 'react'
-import { Profile, Section } from '@/lib/types'
+import { useEffect, useState } from 'react'
+import { FollowCounts, LockedSection, Profile, Section } from '@/lib/types'
+import { Theme, getTheme } from '@/lib/themes'
+import { sendBeacon } from '@/lib/analytics'
+import { parseLightboxHash } from '@/lib/lightbox'
+import { unlockPath } from '@/lib/access'
+import { Lock } from 'lucide-react'
 import TextListSection from './sections/TextListSection'
 import LinksSection from './sections/LinksSection'
 import GallerySection from './sections/GallerySection'
+import MarkdownSection from './sections/MarkdownSection'
+import EmbedSection from './sections/EmbedSection'
+import ContactFormSection from './sections/ContactFormSection'
+import ProfileImage from './ProfileImage'
+import FollowBar from './FollowBar'
 
 interface Props {
   profile: Profile
   sections: Section[]
+  // Shown as tabs that lead to the password prompt or sign-in
+  lockedSections?: LockedSection[]
+  // Omitted in dashboard previews, which have no follow button
+  follows?: FollowCounts
+  // Dashboard previews render the card without recording analytics
+  preview?: boolean
 }
 
-export default function ProfileCard({ profile, sections }: Props) {
-  const [activeSection, setActiveSection] = useState<string>(sections[0]?.id || '')
+export default function ProfileCard({ profile, sections, lockedSections = [], follows, preview = false }: Props) {
+  const tabs = [...sections, ...lockedSections].sort((a, b) => a.position - b.position)
+  const [activeSection, setActiveSection] = useState<string>(tabs[0]?.id || '')
+  const theme: Theme = getTheme(profile.theme)
+
+  // A shared image link opens on its gallery tab
+  useEffect(() => {
+    if (preview) return
+    const target = parseLightboxHash(window.location.hash)
+    if (target && sections.some((s) => s.id === target.sectionId)) {
+      setActiveSection(target.sectionId)
+    }
+  }, [])
+
+  const selectSection = (sectionId: string) => {
+    if (sectionId === activeSection) return
+    setActiveSection(sectionId)
+
+    if (!preview && sections.some((s) => s.id === sectionId)) {
+      sendBeacon({ profile_id: profile.id, type: 'section_view', section_id: sectionId })
+    }
+  }
 
   const renderSection = (section: Section) => {
     switch (section.type) {
       case 'text_list':
-        return <TextListSection section={section} />
+        return <TextListSection section={section} theme={theme} />
       case 'links':
-        return <LinksSection section={section} />
+        return <LinksSection section={section} theme={theme} trackClicks={!preview} />
       case 'gallery':
-        return <GallerySection section={section} />
+        return <GallerySection section={section} theme={theme} deepLink={!preview} />
+      case 'markdown':
+        return <MarkdownSection section={section} theme={theme} />
+      case 'embed':
+        return <EmbedSection section={section} theme={theme} />
+      case 'contact_form':
+        return <ContactFormSection section={section} theme={theme} disabled={preview} />
       default:
         return null
     }
   }
 
+  const renderLocked = (section: LockedSection) => (
+    <div className="py-6 text-center">
+      <Lock size={24} className={`mx-auto mb-4 ${theme.textMuted}`} />
+      <p className={`mb-6 ${theme.textSubtle}`}>
+        {section.access === 'password' ? 'This section is password protected.' : 'Sign in to see this section.'}
+      </p>
+      <a
+        href={unlockPath(profile.username, section.access, section.id)}
+        className={`inline-block px-5 py-2 font-medium text-sm ${theme.buttonShape} ${theme.tabActive}`}
+      >
+        {section.access === 'password' ? 'Enter password' : 'Sign in'}
+      </a>
+    </div>
+  )
+
   const activeContent = sections.find((s) => s.id === activeSection)
+  const activeLocked = lockedSections.find((s) => s.id === activeSection)
+  const lockedIds = new Set(lockedSections.map((s) => s.id))
 
   return (
-    <div className="min-h-screen bg-black text-white">
-      <div className="max-w-4xl mx-auto border-x border-gray-800">
+    <div className={`min-h-screen ${theme.page} ${theme.bodyFont}`}>
+      <div className={`max-w-4xl mx-auto border-x ${theme.border}`}>
         {/* Banner */}
-        <div className="h-56 w-full overflow-hidden bg-gray-900">
+        <div className="h-56 w-full overflow-hidden">
           {profile.banner_url ? (
-            <img
+            <ProfileImage
               src={profile.banner_url}
               alt="Banner"
               className="w-full h-full object-cover"
             />
           ) : (
-            <div className="w-full h-full bg-gradient-to-r from-gray-900 via-gray-800 to-gray-900" />
+            <div className={`w-full h-full ${theme.bannerFallback}`} />
           )}
         </div>
 
         {/* Profile Header */}
-        <div className="px-8 py-8 border-b border-gray-800">
+        <div className={`px-8 py-8 border-b ${theme.border}`}>
           <div className="flex gap-6 items-start">
             {/* Avatar */}
             <div className="flex-shrink-0 -mt-24">
-              <div className="w-40 h-40 bg-black rounded-full border-4 border-black flex items-center justify-center text-6xl overflow-hidden">
+              <div className={`w-40 h-40 rounded-full border-4 flex items-center justify-center text-6xl overflow-hidden ${theme.avatar}`}>
                 {profile.avatar_url ? (
-                  <img
+                  <ProfileImage
                     src={profile.avatar_url}
                     alt={profile.display_name || profile.username}
                     className="w-full h-full object-cover"
                   />
                 ) : (
-                  <span className="text-gray-600">👤</span>
+                  <span className={theme.textMuted}>👤</span>
                 )}
               </div>
             </div>
 
             {/* Profile Info */}
             <div className="flex-1 pt-8">
-              <h1 className="text-4xl font-serif mb-1">{profile.display_name}</h1>
-              <p className="text-gray-400 text-lg mb-4">@{profile.username}</p>
+              <h1 className={`text-4xl mb-1 ${theme.headingFont}`}>{profile.display_name}</h1>
+              <p className={`text-lg mb-4 ${theme.textMuted}`}>@{profile.username}</p>
               {profile.bio && (
-                <p className="text-gray-300 text-base leading-relaxed">{profile.bio}</p>
+                <p className={`text-base leading-relaxed ${theme.textSubtle}`}>{profile.bio}</p>
+              )}
+              {follows && !preview && (
+                <FollowBar profileId={profile.id} username={profile.username} counts={follows} theme={theme} />
               )}
             </div>
           </div>
         </div>
 
         {/* Sections Navigation */}
-        {sections.length > 0 && (
+        {tabs.length > 0 && (
           <>
-            <div className="border-b border-gray-800 px-8 py-4 flex gap-3 overflow-x-auto">
-              {sections.map((section) => (
+            <div className={`border-b px-8 py-4 flex gap-3 overflow-x-auto ${theme.border}`}>
+              {tabs.map((section) => (
                 <button
                   key={section.id}
-                  onClick={() => setActiveSection(section.id)}
-                  className={`px-5 py-2 font-medium transition whitespace-nowrap text-sm rounded-lg ${
-                    activeSection === section.id
-                      ? 'bg-white text-black'
-                      : 'border border-gray-800 text-gray-400 hover:border-gray-700 hover:text-white'
-                  }`}
+                  onClick={() => selectSection(section.id)}
+                  className={`flex items-center gap-2 px-5 py-2 font-medium transition whitespace-nowrap text-sm ${
+                    theme.buttonShape
+                  } ${activeSection === section.id ? theme.tabActive : theme.tabInactive}`}
                 >
+                  {lockedIds.has(section.id) && <Lock size={12} />}
                   {section.title}
                 </button>
               ))}
@@ -99,11 +160,12 @@ export default function ProfileCard({ profile, sections }: Props) {
                 {renderSection(activeContent)}
               </div>
             )}
+            {activeLocked && <div className="px-8 py-10">{renderLocked(activeLocked)}</div>}
           </>
         )}
 
-        {sections.length === 0 && (
-          <div className="px-8 py-16 text-center text-gray-500 border-t border-gray-800">
+        {tabs.length === 0 && (
+          <div className={`px-8 py-16 text-center border-t ${theme.textMuted} ${theme.border}`}>
             <p>No sections yet</p>
           </div>
         )}
@@ -0,0 +1,24 @@
+import { fallbackRenditionUrl } from '@/lib/storage'
+
+interface Props {
+  src: string
+  alt: string
+  className?: string
+}
+
+// Processed uploads have a JPEG next to the WebP for browsers without WebP;
+// any other URL renders as a plain <img>
+export default function ProfileImage({ src, alt, className }: Props) {
+  const fallback = fallbackRenditionUrl(src)
+
+  if (!fallback) {
+    return <img src={src} alt={alt} className={className} />
+  }
+
+  return (
+    <picture>
+      <source srcSet={src} type="image/webp" />
+      <img src={fallback} alt={alt} className={className} />
+    </picture>
+  )
+}
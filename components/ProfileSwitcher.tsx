@@ -0,0 +1,60 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Profile } from '@/lib/types'
+import { getActiveProfileId, onActiveProfileChange, setActiveProfileId } from '@/lib/activeProfile'
+
+interface Props {
+  // Unread contact messages per profile ID
+  unreadCounts?: Record<string, number>
+}
+
+export default function ProfileSwitcher({ unreadCounts = {} }: Props) {
+  const [profiles, setProfiles] = useState<Profile[]>([])
+  const [activeId, setActiveId] = useState<string | null>(null)
+  const router = useRouter()
+
+  useEffect(() => {
+    loadProfiles()
+    return onActiveProfileChange(loadProfiles)
+  }, [])
+
+  const loadProfiles = async () => {
+    try {
+      const response = await fetch('/api/profiles', { credentials: 'include' })
+      if (!response.ok) return
+
+      const result: Profile[] = await response.json()
+      setProfiles(result)
+      setActiveId(getActiveProfileId() || result[0]?.id || null)
+    } catch (error) {
+      console.error('Failed to load profiles:', error)
+    }
+  }
+
+  const switchProfile = (id: string) => {
+    setActiveProfileId(id)
+    router.push(`/dashboard?profile=${id}`)
+  }
+
+  if (profiles.length === 0) {
+    return null
+  }
+
+  return (
+    <select
+      value={activeId || ''}
+      onChange={(e) => switchProfile(e.target.value)}
+      className="px-3 py-2 bg-black border border-gray-700 text-gray-300 hover:border-gray-600 text-sm rounded-lg focus:border-white focus:outline-none"
+      aria-label="Switch profile"
+    >
+      {profiles.map((p) => (
+        <option key={p.id} value={p.id}>
+          @{p.username}
+          {unreadCounts[p.id] ? ` (${unreadCounts[p.id]})` : ''}
+        </option>
+      ))}
+    </select>
+  )
+}
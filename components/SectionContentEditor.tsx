@@ -0,0 +1,374 @@
+'use client'
+
+import {
+  ContactFieldType,
+  ContactFormContent,
+  EmbedContent,
+  GalleryContent,
+  LinksContent,
+  MarkdownContent,
+  SectionType,
+  TextListContent,
+} from '@/lib/types'
+import { renderMarkdown } from '@/lib/markdown'
+import { EMBED_PROVIDER_NAMES, parseEmbedUrl } from '@/lib/embeds'
+import { CONTACT_FIELD_TYPES, CONTACT_FIELD_TYPE_LABELS } from '@/lib/messages'
+
+// Editors work on a loose view of the content; it is validated before saving
+export type DraftContent = Partial<
+  TextListContent & LinksContent & GalleryContent & MarkdownContent & EmbedContent & ContactFormContent
+>
+
+interface Props {
+  type: SectionType
+  content: DraftContent
+  onChange: (content: DraftContent) => void
+  // Border class for an input, red when the last validation flagged its path
+  fieldBorder: (path: string) => string
+  uploading: boolean
+  onUploadImages: (files: FileList) => void
+}
+
+// The type-specific part of a section card in the dashboard
+export default function SectionContentEditor({ type, content, onChange, fieldBorder, uploading, onUploadImages }: Props) {
+  const update = (changes: DraftContent) => onChange({ ...content, ...changes })
+
+  return (
+    <>
+      {type === 'text_list' && (
+        <div>
+          <label className="block text-xs uppercase tracking-wide text-gray-500 mb-2">
+            Items (one per line)
+          </label>
+          <textarea
+            rows={4}
+            value={(content.items || []).join('\n')}
+            onChange={(e) => {
+              const items = e.target.value.split('\n').filter((line) => line.trim().length > 0)
+              update({ items })
+            }}
+            className={`w-full px-3 py-2 bg-black border text-white text-sm focus:border-white focus:outline-none resize-none ${fieldBorder('content.items')}`}
+          />
+        </div>
+      )}
+
+      {type === 'links' && (
+        <div className="space-y-3">
+          <div className="flex justify-between items-center">
+            <label className="block text-xs uppercase tracking-wide text-gray-500">
+              Links
+            </label>
+            <button
+              onClick={() => {
+                const links = content.links || []
+                update({ links: [...links, { title: 'New link', url: 'https://example.com' }] })
+              }}
+              className="text-xs px-3 py-1 border border-gray-700 text-gray-300 hover:border-white rounded"
+            >
+              Add link
+            </button>
+          </div>
+          {(content.links || []).map((link, idx) => (
+            <div key={idx} className="grid grid-cols-1 md:grid-cols-2 gap-2 border border-gray-800 p-3">
+              <input
+                type="text"
+                value={link.title}
+                onChange={(e) => {
+                  const links = [...(content.links || [])]
+                  links[idx] = { ...links[idx], title: e.target.value }
+                  update({ links })
+                }}
+                className={`w-full px-3 py-2 bg-black border text-white text-sm focus:border-white focus:outline-none ${fieldBorder(`content.links[${idx}].title`)}`}
+                placeholder="Title"
+              />
+              <div className="flex gap-2">
+                <input
+                  type="url"
+                  value={link.url}
+                  onChange={(e) => {
+                    const links = [...(content.links || [])]
+                    links[idx] = { ...links[idx], url: e.target.value }
+                    update({ links })
+                  }}
+                  className={`w-full px-3 py-2 bg-black border text-white text-sm focus:border-white focus:outline-none ${fieldBorder(`content.links[${idx}].url`)}`}
+                  placeholder="https://example.com"
+                />
+                <button
+                  onClick={() => {
+                    const links = [...(content.links || [])]
+                    links.splice(idx, 1)
+                    update({ links })
+                  }}
+                  className="px-2 text-gray-500 hover:text-red-400"
+                >
+                  Remove
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {type === 'markdown' && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <div>
+            <label className="block text-xs uppercase tracking-wide text-gray-500 mb-2">
+              Markdown
+            </label>
+            <textarea
+              rows={12}
+              value={content.markdown || ''}
+              onChange={(e) => {
+                const markdown = e.target.value
+                update({ markdown })
+              }}
+              className={`w-full px-3 py-2 bg-black border text-white text-sm font-mono focus:border-white focus:outline-none resize-y ${fieldBorder('content.markdown')}`}
+              placeholder="# Heading, **bold**, *italic*, - lists, > quotes, `code`, [links](https://...)"
+            />
+          </div>
+          <div>
+            <label className="block text-xs uppercase tracking-wide text-gray-500 mb-2">
+              Preview
+            </label>
+            <div
+              className="markdown h-full min-h-[12rem] max-h-80 overflow-y-auto px-3 py-2 border border-gray-800 text-gray-300 text-sm"
+              dangerouslySetInnerHTML={{
+                __html: renderMarkdown(content.markdown || ''),
+              }}
+            />
+          </div>
+        </div>
+      )}
+
+      {type === 'embed' && (() => {
+        const embedUrl = content.url || ''
+        const embed = parseEmbedUrl(embedUrl)
+        return (
+          <div className="space-y-3">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+              <div>
+                <label className="block text-xs uppercase tracking-wide text-gray-500 mb-2">
+                  Media URL
+                </label>
+                <input
+                  type="url"
+                  value={embedUrl}
+                  onChange={(e) => {
+                    const url = e.target.value
+                    update({ url })
+                  }}
+                  className={`w-full px-3 py-2 bg-black border text-white text-sm focus:border-white focus:outline-none ${fieldBorder('content.url')}`}
+                  placeholder="YouTube, Vimeo, SoundCloud or Spotify link"
+                />
+                <p className={`text-xs mt-2 ${embed ? 'text-gray-500' : 'text-red-400'}`}>
+                  {embed
+                    ? `Detected ${EMBED_PROVIDER_NAMES[embed.provider]}`
+                    : `Supported: ${Object.values(EMBED_PROVIDER_NAMES).join(', ')}`}
+                </p>
+              </div>
+              <div>
+                <label className="block text-xs uppercase tracking-wide text-gray-500 mb-2">
+                  Caption
+                </label>
+                <input
+                  type="text"
+                  value={content.caption || ''}
+                  onChange={(e) => {
+                    const caption = e.target.value
+                    update({ caption })
+                  }}
+                  className={`w-full px-3 py-2 bg-black border text-white text-sm focus:border-white focus:outline-none ${fieldBorder('content.caption')}`}
+                  placeholder="Caption (optional)"
+                />
+              </div>
+            </div>
+            {embed && (
+              <div
+                className={`relative w-full overflow-hidden border border-gray-800 ${embed.height ? '' : 'aspect-video'}`}
+                style={embed.height ? { height: embed.height } : undefined}
+              >
+                <iframe
+                  src={embed.src}
+                  title="Embed preview"
+                  className="absolute inset-0 w-full h-full"
+                  loading="lazy"
+                  sandbox="allow-scripts allow-same-origin allow-popups allow-presentation"
+                />
+              </div>
+            )}
+          </div>
+        )
+      })()}
+
+      {type === 'contact_form' && (
+        <div className="space-y-3">
+          <div>
+            <label className="block text-xs uppercase tracking-wide text-gray-500 mb-2">
+              Intro
+            </label>
+            <input
+              type="text"
+              value={content.intro || ''}
+              onChange={(e) => {
+                const intro = e.target.value
+                update({ intro })
+              }}
+              className={`w-full px-3 py-2 bg-black border text-white text-sm focus:border-white focus:outline-none ${fieldBorder('content.intro')}`}
+              placeholder="A line above the form (optional)"
+            />
+          </div>
+          <div className="flex justify-between items-center">
+            <label className="block text-xs uppercase tracking-wide text-gray-500">
+              Fields
+            </label>
+            <button
+              onClick={() => {
+                const fields = content.fields || []
+                // IDs only need to be unique within the form
+                const id = Math.random().toString(36).slice(2, 10)
+                update({ fields: [...fields, { id, label: 'New field', type: 'text', required: false }] })
+              }}
+              className="text-xs px-3 py-1 border border-gray-700 text-gray-300 hover:border-white rounded"
+            >
+              Add field
+            </button>
+          </div>
+          {(content.fields || []).map((field, idx) => (
+            <div key={field.id || idx} className="flex flex-wrap items-center gap-2 border border-gray-800 p-3">
+              <input
+                type="text"
+                value={field.label}
+                onChange={(e) => {
+                  const fields = [...(content.fields || [])]
+                  fields[idx] = { ...fields[idx], label: e.target.value }
+                  update({ fields })
+                }}
+                className={`flex-1 min-w-[10rem] px-3 py-2 bg-black border text-white text-sm focus:border-white focus:outline-none ${fieldBorder(`content.fields[${idx}].label`)}`}
+                placeholder="Label"
+              />
+              <select
+                value={field.type}
+                onChange={(e) => {
+                  const fields = [...(content.fields || [])]
+                  fields[idx] = { ...fields[idx], type: e.target.value as ContactFieldType }
+                  update({ fields })
+                }}
+                className="px-3 py-2 bg-black border border-gray-800 text-white text-sm focus:border-white focus:outline-none"
+              >
+                {CONTACT_FIELD_TYPES.map((type) => (
+                  <option key={type} value={type}>
+                    {CONTACT_FIELD_TYPE_LABELS[type]}
+                  </option>
+                ))}
+              </select>
+              <label className="flex items-center gap-2 text-xs text-gray-400">
+                <input
+                  type="checkbox"
+                  checked={field.required}
+                  onChange={(e) => {
+                    const fields = [...(content.fields || [])]
+                    fields[idx] = { ...fields[idx], required: e.target.checked }
+                    update({ fields })
+                  }}
+                />
+                Required
+              </label>
+              <button
+                onClick={() => {
+                  const fields = [...(content.fields || [])]
+                  fields.splice(idx, 1)
+                  update({ fields })
+                }}
+                className="px-2 text-gray-500 hover:text-red-400"
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {type === 'gallery' && (
+        <div className="space-y-3">
+          <div className="flex justify-between items-center">
+            <label className="block text-xs uppercase tracking-wide text-gray-500">
+              Images
+            </label>
+            <div className="flex gap-2">
+              <label
+                className={`text-xs px-3 py-1 border border-gray-700 text-gray-300 hover:border-white rounded cursor-pointer ${
+                  uploading ? 'pointer-events-none opacity-50' : ''
+                }`}
+              >
+                {uploading ? 'Uploading...' : 'Upload images'}
+                <input
+                  type="file"
+                  accept="image/jpeg,image/png,image/webp,image/gif"
+                  multiple
+                  className="hidden"
+                  onChange={(e) => {
+                    if (e.target.files) onUploadImages(e.target.files)
+                    e.target.value = ''
+                  }}
+                />
+              </label>
+              <button
+                onClick={() => {
+                  const images = content.images || []
+                  update({ images: [...images, { url: 'https://placehold.co/600x400', caption: '' }] })
+                }}
+                className="text-xs px-3 py-1 border border-gray-700 text-gray-300 hover:border-white rounded"
+              >
+                Add by URL
+              </button>
+            </div>
+          </div>
+          {(content.images || []).map((image, idx) => (
+            <div key={idx} className="grid grid-cols-1 md:grid-cols-2 gap-2 border border-gray-800 p-3">
+              <div className="flex gap-2">
+                {image.thumbnail_url && (
+                  <img src={image.thumbnail_url} alt="" className="w-10 h-10 object-cover flex-shrink-0" />
+                )}
+                <input
+                  type="url"
+                  value={image.url}
+                  onChange={(e) => {
+                    const images = [...(content.images || [])]
+                    // A new URL makes any generated thumbnail stale
+                    images[idx] = { url: e.target.value, caption: images[idx].caption }
+                    update({ images })
+                  }}
+                  className={`w-full px-3 py-2 bg-black border text-white text-sm focus:border-white focus:outline-none ${fieldBorder(`content.images[${idx}].url`)}`}
+                  placeholder="Image URL"
+                />
+              </div>
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={image.caption || ''}
+                  onChange={(e) => {
+                    const images = [...(content.images || [])]
+                    images[idx] = { ...images[idx], caption: e.target.value }
+                    update({ images })
+                  }}
+                  className={`w-full px-3 py-2 bg-black border text-white text-sm focus:border-white focus:outline-none ${fieldBorder(`content.images[${idx}].caption`)}`}
+                  placeholder="Caption (optional)"
+                />
+                <button
+                  onClick={() => {
+                    const images = [...(content.images || [])]
+                    images.splice(idx, 1)
+                    update({ images })
+                  }}
+                  className="px-2 text-gray-500 hover:text-red-400"
+                >
+                  Remove
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </>
+  )
+}
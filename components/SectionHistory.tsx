@@ -0,0 +1,162 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Section, SectionRevision } from '@/lib/types'
+import { diffLines, revisionLines } from '@/lib/revisions'
+import { X } from 'lucide-react'
+
+interface Props {
+  sectionId: string
+  // The live section, or null when it has been deleted
+  current: Section | null
+  canEdit: boolean
+  onClose: () => void
+  onRestored: () => void
+}
+
+const ACTION_LABELS: Record<SectionRevision['action'], string> = {
+  update: 'Before save',
+  delete: 'Before delete',
+  restore: 'Before restore',
+}
+
+export default function SectionHistory({ sectionId, current, canEdit, onClose, onRestored }: Props) {
+  const [revisions, setRevisions] = useState<SectionRevision[]>([])
+  const [selectedId, setSelectedId] = useState<number | null>(null)
+  const [restoring, setRestoring] = useState(false)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    loadRevisions()
+  }, [sectionId])
+
+  const loadRevisions = async () => {
+    setError('')
+    const response = await fetch(`/api/sections/revisions?section_id=${sectionId}`, {
+      credentials: 'include',
+    })
+    const result = await response.json()
+
+    if (response.ok) {
+      setRevisions(result)
+      setSelectedId(result[0]?.id ?? null)
+    } else {
+      setError(result.error || 'Failed to load history')
+    }
+  }
+
+  const restoreRevision = async (revisionId: number) => {
+    if (!confirm(current ? 'Restore this version?' : 'Restore this deleted section?')) return
+
+    setRestoring(true)
+    setError('')
+    const response = await fetch('/api/sections/revisions/restore', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify({ revision_id: revisionId }),
+    })
+    const result = await response.json()
+    setRestoring(false)
+
+    if (!response.ok) {
+      setError(result.errors?.[0]?.message || result.error || 'Failed to restore')
+      return
+    }
+
+    onRestored()
+    await loadRevisions()
+  }
+
+  const selectedIndex = revisions.findIndex((r) => r.id === selectedId)
+  const selected = selectedIndex === -1 ? null : revisions[selectedIndex]
+
+  // Compare the selected version with whatever replaced it
+  const next = selectedIndex > 0 ? revisions[selectedIndex - 1] : current
+  const diff = selected
+    ? diffLines(revisionLines(selected), selected.action === 'delete' || !next ? [] : revisionLines(next))
+    : []
+
+  return (
+    <div className="fixed inset-0 z-40 flex justify-end bg-black/60" onClick={onClose}>
+      <div
+        className="w-full max-w-2xl h-full overflow-y-auto bg-black border-l border-gray-800 p-8"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-6">
+          <div>
+            <h3 className="text-2xl font-serif">History</h3>
+            <p className="text-sm text-gray-500">{current?.title || revisions[0]?.title || ''}</p>
+          </div>
+          <button onClick={onClose} className="p-2 text-gray-500 hover:text-white transition">
+            <X size={18} />
+          </button>
+        </div>
+
+        {error && (
+          <div className="bg-gray-900 border border-gray-700 text-red-400 px-4 py-3 text-sm mb-6">{error}</div>
+        )}
+
+        {revisions.length === 0 ? (
+          <p className="text-sm text-gray-500">No earlier versions yet. One is kept every time this section is saved.</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <ul className="space-y-1">
+              {revisions.map((revision) => (
+                <li key={revision.id}>
+                  <button
+                    onClick={() => setSelectedId(revision.id)}
+                    className={`w-full text-left px-3 py-2 border text-sm ${
+                      revision.id === selectedId
+                        ? 'border-white text-white'
+                        : 'border-gray-800 text-gray-400 hover:border-gray-700'
+                    }`}
+                  >
+                    <span className="block">{ACTION_LABELS[revision.action]}</span>
+                    <span className="block text-xs text-gray-500">
+                      {new Date(revision.created_at).toLocaleString()}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            {selected && (
+              <div className="md:col-span-2 space-y-4">
+                <p className="text-xs uppercase tracking-wide text-gray-500">
+                  {selected.action === 'delete' ? 'Removed by the delete' : 'Changed by the next version'}
+                </p>
+                <pre className="text-xs border border-gray-800 p-3 overflow-x-auto whitespace-pre-wrap">
+                  {diff.map((line, idx) => (
+                    <div
+                      key={idx}
+                      className={
+                        line.kind === 'added'
+                          ? 'text-green-400'
+                          : line.kind === 'removed'
+                            ? 'text-red-400'
+                            : 'text-gray-500'
+                      }
+                    >
+                      {line.kind === 'added' ? '+ ' : line.kind === 'removed' ? '- ' : '  '}
+                      {line.text}
+                    </div>
+                  ))}
+                </pre>
+                {canEdit && (
+                  <button
+                    onClick={() => restoreRevision(selected.id)}
+                    disabled={restoring}
+                    className="px-4 py-2 bg-white text-black text-sm rounded hover:bg-gray-200 disabled:opacity-60 disabled:cursor-not-allowed"
+                  >
+                    {restoring ? 'Restoring...' : current ? 'Restore this version' : 'Undelete with this version'}
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
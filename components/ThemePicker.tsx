@@ -0,0 +1,41 @@
+'use client'
+
+import { THEMES } from '@/lib/themes'
+import { Check } from 'lucide-react'
+
+interface Props {
+  value: string
+  onChange: (themeId: string) => void
+}
+
+export default function ThemePicker({ value, onChange }: Props) {
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+      {THEMES.map((theme) => (
+        <button
+          key={theme.id}
+          type="button"
+          onClick={() => onChange(theme.id)}
+          className={`text-left p-3 border transition rounded ${
+            value === theme.id ? 'border-white' : 'border-gray-800 hover:border-gray-700'
+          }`}
+        >
+          <div className="flex items-center justify-between mb-2">
+            <div className="flex gap-1">
+              {theme.swatch.map((color) => (
+                <span
+                  key={color}
+                  className="w-5 h-5 rounded-full border border-gray-700"
+                  style={{ backgroundColor: color }}
+                />
+              ))}
+            </div>
+            {value === theme.id && <Check size={14} className="text-white" />}
+          </div>
+          <p className="text-sm font-medium text-white">{theme.name}</p>
+          <p className="text-xs text-gray-500">{theme.description}</p>
+        </button>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,158 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { getSupabaseClient } from '@/lib/supabase'
+import { UsernameHistoryEntry } from '@/lib/types'
+import { USERNAME_HOLD_DAYS, nextUsernameChange, validateUsername } from '@/lib/username'
+import { AtSign, CheckCircle } from 'lucide-react'
+
+interface Props {
+  profileId: string
+  username: string
+  onChanged: () => void
+}
+
+interface Availability {
+  username: string
+  available: boolean
+  reason: string | null
+}
+
+const CHECK_DELAY_MS = 400
+
+export default function UsernameSettings({ profileId, username, onChanged }: Props) {
+  const [history, setHistory] = useState<UsernameHistoryEntry[]>([])
+  const [newUsername, setNewUsername] = useState('')
+  const [availability, setAvailability] = useState<Availability | null>(null)
+  const [error, setError] = useState('')
+  const [saving, setSaving] = useState(false)
+  const supabase = getSupabaseClient()
+
+  useEffect(() => {
+    loadHistory()
+  }, [profileId, username])
+
+  // Check availability once the user stops typing
+  useEffect(() => {
+    setAvailability(null)
+    if (!newUsername || newUsername === username) return
+
+    const localError = validateUsername(newUsername)
+    if (localError) {
+      setAvailability({ username: newUsername, available: false, reason: localError })
+      return
+    }
+
+    const timer = setTimeout(async () => {
+      const response = await fetch(
+        `/api/profile/username?username=${encodeURIComponent(newUsername)}&profile_id=${profileId}`,
+        { credentials: 'include' }
+      )
+      if (response.ok) {
+        setAvailability(await response.json())
+      }
+    }, CHECK_DELAY_MS)
+
+    return () => clearTimeout(timer)
+  }, [newUsername, username, profileId])
+
+  const loadHistory = async () => {
+    const { data } = await supabase
+      .from('username_history')
+      .select('*')
+      .eq('profile_id', profileId)
+      .order('released_at', { ascending: false })
+
+    setHistory((data || []) as UsernameHistoryEntry[])
+  }
+
+  const changeUsername = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const message = `Change @${username} to @${newUsername}? Links to @${username} will redirect to the new handle.`
+    if (!confirm(message)) return
+
+    setError('')
+    setSaving(true)
+
+    const response = await fetch('/api/profile', {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify({ id: profileId, username: newUsername }),
+    })
+    const result = await response.json()
+
+    if (response.ok) {
+      setNewUsername('')
+      onChanged()
+    } else {
+      setError(result.error || 'Failed to change username')
+    }
+    setSaving(false)
+  }
+
+  const nextChange = nextUsernameChange(history[0]?.released_at ?? null)
+  const checked = availability?.username === newUsername ? availability : null
+
+  return (
+    <div className="space-y-4">
+      {nextChange ? (
+        <p className="text-sm text-gray-400">
+          You can change the username again on {nextChange.toLocaleDateString()}.
+        </p>
+      ) : (
+        <form onSubmit={changeUsername} className="space-y-2">
+          <div className="flex gap-3">
+            <div className="flex-1 flex items-center border border-gray-800 focus-within:border-white transition">
+              <AtSign size={14} className="ml-3 text-gray-500" />
+              <input
+                type="text"
+                value={newUsername}
+                onChange={(e) => setNewUsername(e.target.value.toLowerCase())}
+                className="flex-1 px-2 py-2 bg-black text-white text-sm focus:outline-none"
+                placeholder={username}
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={saving || !checked?.available}
+              className="px-4 py-2 bg-white text-black hover:bg-gray-200 transition text-sm rounded-lg disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Change'}
+            </button>
+          </div>
+          {checked && (
+            <p className={`text-xs flex items-center gap-1 ${checked.available ? 'text-green-400' : 'text-red-400'}`}>
+              {checked.available && <CheckCircle size={12} />}
+              {checked.available ? `@${checked.username} is available` : checked.reason}
+            </p>
+          )}
+        </form>
+      )}
+
+      {error && (
+        <div className="bg-gray-900 border border-gray-700 text-red-400 px-4 py-3 text-sm">
+          {error}
+        </div>
+      )}
+
+      {history.length > 0 && (
+        <div>
+          <p className="text-xs text-gray-500 mb-2">
+            Previous usernames redirect here. Nobody else can claim them for {USERNAME_HOLD_DAYS} days.
+          </p>
+          <ul className="space-y-1">
+            {history.map((entry) => (
+              <li key={entry.username} className="flex justify-between text-sm text-gray-400">
+                <span>@{entry.username}</span>
+                <span className="text-xs text-gray-500">
+                  changed {new Date(entry.released_at).toLocaleDateString()}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,57 @@
+'use client'
+
+import Link from 'next/link'
+import { Profile } from '@/lib/types'
+import { isListed } from '@/lib/access'
+import AccessSettings from './AccessSettings'
+
+interface Props {
+  profile: Profile
+  onChanged: () => void
+}
+
+// Profile-wide access mode and the Explore listing; both apply immediately
+export default function VisibilitySettings({ profile, onChanged }: Props) {
+  const patchProfile = (fields: Partial<Pick<Profile, 'access' | 'in_directory'>>) =>
+    fetch('/api/profile', {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify({ id: profile.id, ...fields }),
+    })
+
+  return (
+    <>
+      <AccessSettings
+        profileId={profile.id}
+        targetId={profile.id}
+        value={profile.access}
+        onChange={async (access) => {
+          const response = await patchProfile({ access })
+
+          if (!response.ok) {
+            return (await response.json()).error || 'Failed to change visibility'
+          }
+          onChanged()
+        }}
+      />
+      <label className={`flex items-center gap-2 mt-4 text-sm ${isListed(profile.access) ? 'text-gray-300' : 'text-gray-600'}`}>
+        <input
+          type="checkbox"
+          checked={profile.in_directory}
+          disabled={!isListed(profile.access)}
+          onChange={async (e) => {
+            const response = await patchProfile({ in_directory: e.target.checked })
+
+            if (!response.ok) {
+              alert((await response.json()).error || 'Failed to update the directory listing')
+            }
+            onChanged()
+          }}
+        />
+        List this profile on <Link href="/explore" className="underline hover:text-white">Explore</Link>
+        {!isListed(profile.access) && <span className="text-xs">(public profiles only)</span>}
+      </label>
+    </>
+  )
+}
@@ -0,0 +1,288 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Webhook, WebhookDelivery, WebhookEvent } from '@/lib/types'
+import { WEBHOOK_EVENTS, WEBHOOK_EVENT_LABELS } from '@/lib/webhooks'
+import { Copy, Pause, Play, RefreshCw, Send, Trash2, Webhook as WebhookIcon } from 'lucide-react'
+
+interface Props {
+  profileId: string
+}
+
+const STATUS_STYLES: Record<WebhookDelivery['status'], string> = {
+  pending: 'text-yellow-400',
+  succeeded: 'text-green-400',
+  failed: 'text-red-400',
+}
+
+export default function WebhooksPanel({ profileId }: Props) {
+  const [webhooks, setWebhooks] = useState<Webhook[]>([])
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([])
+  const [url, setUrl] = useState('')
+  const [events, setEvents] = useState<WebhookEvent[]>([...WEBHOOK_EVENTS])
+  const [revealedId, setRevealedId] = useState<string | null>(null)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [error, setError] = useState('')
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  useEffect(() => {
+    loadWebhooks()
+    loadDeliveries()
+  }, [profileId])
+
+  const loadWebhooks = async () => {
+    const response = await fetch(`/api/webhooks?profile_id=${profileId}`, { credentials: 'include' })
+    if (response.ok) {
+      setWebhooks(await response.json())
+    }
+  }
+
+  const loadDeliveries = async () => {
+    const response = await fetch(`/api/webhooks/deliveries?profile_id=${profileId}`, { credentials: 'include' })
+    if (response.ok) {
+      setDeliveries(await response.json())
+    }
+  }
+
+  const toggleEvent = (event: WebhookEvent) => {
+    setEvents((current) => (current.includes(event) ? current.filter((e) => e !== event) : [...current, event]))
+  }
+
+  const addWebhook = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+    setBusyId('new')
+
+    const response = await fetch('/api/webhooks', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify({ profile_id: profileId, url, events }),
+    })
+    const result = await response.json()
+
+    if (response.ok) {
+      setUrl('')
+      setRevealedId(result.id)
+      await loadWebhooks()
+    } else {
+      setError(result.error || 'Failed to add webhook')
+    }
+    setBusyId(null)
+  }
+
+  const setActive = async (webhook: Webhook, active: boolean) => {
+    setBusyId(webhook.id)
+
+    const response = await fetch('/api/webhooks', {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify({ id: webhook.id, active }),
+    })
+
+    if (response.ok) {
+      await loadWebhooks()
+    }
+    setBusyId(null)
+  }
+
+  const testWebhook = async (id: string) => {
+    setError('')
+    setBusyId(id)
+
+    const response = await fetch('/api/webhooks/test', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify({ id }),
+    })
+
+    if (!response.ok) {
+      setError((await response.json()).error || 'Test failed')
+    }
+    await loadDeliveries()
+    setBusyId(null)
+  }
+
+  const removeWebhook = async (id: string) => {
+    if (!confirm('Remove this webhook? Its delivery log goes with it.')) return
+    setBusyId(id)
+
+    const response = await fetch(`/api/webhooks?id=${id}`, {
+      method: 'DELETE',
+      credentials: 'include',
+    })
+
+    if (response.ok) {
+      await loadWebhooks()
+      await loadDeliveries()
+    }
+    setBusyId(null)
+  }
+
+  const retryDelivery = async (id: string) => {
+    setBusyId(id)
+
+    await fetch('/api/webhooks/deliveries', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify({ id }),
+    })
+
+    await loadDeliveries()
+    setBusyId(null)
+  }
+
+  const webhookUrl = (id: string) => webhooks.find((w) => w.id === id)?.url || 'removed webhook'
+
+  return (
+    <div className="space-y-4">
+      <form onSubmit={addWebhook} className="space-y-3">
+        <div className="flex gap-3">
+          <input
+            type="url"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            className="flex-1 px-4 py-2 bg-black border border-gray-800 text-white text-sm focus:border-white focus:outline-none transition"
+            placeholder="https://example.com/selfbook-webhook"
+            required
+          />
+          <button
+            type="submit"
+            disabled={busyId === 'new' || events.length === 0}
+            className="px-4 py-2 bg-white text-black hover:bg-gray-200 transition text-sm rounded-lg disabled:opacity-50"
+          >
+            Add webhook
+          </button>
+        </div>
+        <div className="flex flex-wrap gap-4">
+          {WEBHOOK_EVENTS.map((event) => (
+            <label
+              key={event}
+              className="flex items-center gap-2 text-sm text-gray-300"
+              title={WEBHOOK_EVENT_LABELS[event]}
+            >
+              <input type="checkbox" checked={events.includes(event)} onChange={() => toggleEvent(event)} />
+              <span className="font-mono text-xs">{event}</span>
+            </label>
+          ))}
+        </div>
+      </form>
+
+      {error && (
+        <div className="bg-gray-900 border border-gray-700 text-red-400 px-4 py-3 text-sm">
+          {error}
+        </div>
+      )}
+
+      {webhooks.map((webhook) => (
+        <div key={webhook.id} className={`p-4 border border-gray-800 space-y-2 ${webhook.active ? '' : 'opacity-60'}`}>
+          <div className="flex items-center gap-3">
+            <WebhookIcon size={16} className="text-gray-500" />
+            <span className="flex-1 text-white text-sm font-medium break-all">{webhook.url}</span>
+            {!webhook.active && <span className="text-xs text-gray-500">Paused</span>}
+            <button
+              onClick={() => testWebhook(webhook.id)}
+              disabled={busyId === webhook.id || !webhook.active}
+              className="p-1 text-gray-500 hover:text-white transition disabled:opacity-50"
+              title="Send test event"
+            >
+              <Send size={14} />
+            </button>
+            <button
+              onClick={() => setActive(webhook, !webhook.active)}
+              disabled={busyId === webhook.id}
+              className="p-1 text-gray-500 hover:text-white transition disabled:opacity-50"
+              title={webhook.active ? 'Pause' : 'Resume'}
+            >
+              {webhook.active ? <Pause size={14} /> : <Play size={14} />}
+            </button>
+            <button
+              onClick={() => removeWebhook(webhook.id)}
+              className="p-1 text-gray-500 hover:text-red-400 transition"
+              title="Remove"
+            >
+              <Trash2 size={14} />
+            </button>
+          </div>
+          <p className="text-xs text-gray-500 font-mono">{webhook.events.join(', ')}</p>
+          <div className="flex items-center gap-2 text-xs text-gray-400">
+            <span>Signing secret:</span>
+            {revealedId === webhook.id ? (
+              <>
+                <code className="font-mono text-gray-300 break-all">{webhook.secret}</code>
+                <button
+                  onClick={() => navigator.clipboard.writeText(webhook.secret)}
+                  className="p-1 text-gray-500 hover:text-white transition"
+                  title="Copy"
+                >
+                  <Copy size={12} />
+                </button>
+              </>
+            ) : (
+              <button onClick={() => setRevealedId(webhook.id)} className="underline hover:text-white">
+                Reveal
+              </button>
+            )}
+          </div>
+        </div>
+      ))}
+
+      {webhooks.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <h4 className="text-sm font-medium text-gray-300">Recent deliveries</h4>
+            <button
+              onClick={() => loadDeliveries()}
+              className="p-1 text-gray-500 hover:text-white transition"
+              title="Refresh"
+            >
+              <RefreshCw size={14} />
+            </button>
+          </div>
+
+          {deliveries.length === 0 && <p className="text-sm text-gray-500">No deliveries yet</p>}
+
+          {deliveries.map((delivery) => (
+            <div key={delivery.id} className="border border-gray-800 text-xs">
+              <div className="flex items-center gap-3 px-3 py-2">
+                <span className={`w-20 ${STATUS_STYLES[delivery.status]}`}>{delivery.status}</span>
+                <button
+                  onClick={() => setExpandedId(expandedId === delivery.id ? null : delivery.id)}
+                  className="font-mono text-gray-300 hover:text-white"
+                >
+                  {delivery.event}
+                </button>
+                <span className="flex-1 text-gray-500 truncate">{webhookUrl(delivery.webhook_id)}</span>
+                <span className="text-gray-500">
+                  {delivery.last_status_code ?? '—'} · {delivery.attempts} attempt{delivery.attempts === 1 ? '' : 's'}
+                </span>
+                <span className="text-gray-500">{new Date(delivery.created_at).toLocaleString()}</span>
+                <button
+                  onClick={() => retryDelivery(delivery.id)}
+                  disabled={busyId === delivery.id}
+                  className="px-2 py-1 border border-gray-700 text-gray-300 hover:border-white rounded disabled:opacity-50"
+                >
+                  {delivery.status === 'succeeded' ? 'Redeliver' : 'Retry now'}
+                </button>
+              </div>
+              {expandedId === delivery.id && (
+                <div className="px-3 pb-3 space-y-2">
+                  {delivery.last_error && <p className="text-red-400 break-all">{delivery.last_error}</p>}
+                  {delivery.status === 'pending' && delivery.attempts > 0 && (
+                    <p className="text-gray-500">Next attempt {new Date(delivery.next_attempt_at).toLocaleString()}</p>
+                  )}
+                  <pre className="bg-black border border-gray-800 p-2 text-gray-300 overflow-x-auto">
+                    {JSON.stringify(delivery.payload, null, 2)}
+                  </pre>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,128 @@
+'use client'
+
+import { useState } from 'react'
+import { SectionOf } from '@/lib/types'
+import { Theme } from '@/lib/themes'
+import { HONEYPOT_FIELD } from '@/lib/messages'
+import { FieldError } from '@/lib/sectionContent'
+import { CheckCircle } from 'lucide-react'
+
+interface Props {
+  section: SectionOf<'contact_form'>
+  theme: Theme
+  // Dashboard previews show the form without sending anything
+  disabled?: boolean
+}
+
+export default function ContactFormSection({ section, theme, disabled = false }: Props) {
+  const fields = section.content.fields || []
+  const [values, setValues] = useState<Record<string, string>>({})
+  const [honeypot, setHoneypot] = useState('')
+  const [errors, setErrors] = useState<FieldError[]>([])
+  const [error, setError] = useState('')
+  const [sending, setSending] = useState(false)
+  const [sent, setSent] = useState(false)
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (disabled) return
+
+    setError('')
+    setErrors([])
+    setSending(true)
+
+    try {
+      const response = await fetch('/api/contact', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ section_id: section.id, values, [HONEYPOT_FIELD]: honeypot }),
+      })
+      const result = await response.json()
+
+      if (response.ok) {
+        setSent(true)
+        setValues({})
+      } else {
+        setErrors(result.errors || [])
+        setError(result.errors ? '' : result.error || 'Failed to send message')
+      }
+    } catch {
+      setError('Failed to send message')
+    }
+    setSending(false)
+  }
+
+  const fieldError = (id: string) => errors.find((e) => e.path === `values.${id}`)?.message
+
+  const inputClass = `w-full px-4 py-3 bg-transparent border focus:outline-none ${theme.border} ${theme.borderHover} ${theme.cardShape}`
+
+  return (
+    <div className="space-y-4">
+      <h2 className={`text-2xl mb-6 ${theme.headingFont}`}>{section.title}</h2>
+      {section.content.intro && <p className={theme.textSubtle}>{section.content.intro}</p>}
+
+      {sent ? (
+        <div className={`flex items-center gap-3 py-6 ${theme.textSubtle}`}>
+          <CheckCircle size={20} />
+          <p>Thanks, your message was sent.</p>
+        </div>
+      ) : (
+        <form onSubmit={submit} className="space-y-4 max-w-xl">
+          {fields.map((field) => (
+            <div key={field.id}>
+              <label htmlFor={`${section.id}-${field.id}`} className={`block text-sm mb-2 ${theme.textMuted}`}>
+                {field.label}
+                {field.required && ' *'}
+              </label>
+              {field.type === 'textarea' ? (
+                <textarea
+                  id={`${section.id}-${field.id}`}
+                  rows={5}
+                  value={values[field.id] || ''}
+                  onChange={(e) => setValues({ ...values, [field.id]: e.target.value })}
+                  required={field.required}
+                  className={`${inputClass} resize-y`}
+                />
+              ) : (
+                <input
+                  id={`${section.id}-${field.id}`}
+                  type={field.type}
+                  value={values[field.id] || ''}
+                  onChange={(e) => setValues({ ...values, [field.id]: e.target.value })}
+                  required={field.required}
+                  className={inputClass}
+                />
+              )}
+              {fieldError(field.id) && <p className="text-sm text-red-500 mt-1">{fieldError(field.id)}</p>}
+            </div>
+          ))}
+
+          {/* Off-screen rather than display:none, which some bots skip */}
+          <div aria-hidden="true" className="absolute -left-[9999px] w-px h-px overflow-hidden">
+            <label>
+              Leave this empty
+              <input
+                type="text"
+                name={HONEYPOT_FIELD}
+                tabIndex={-1}
+                autoComplete="off"
+                value={honeypot}
+                onChange={(e) => setHoneypot(e.target.value)}
+              />
+            </label>
+          </div>
+
+          {error && <p className="text-sm text-red-500">{error}</p>}
+
+          <button
+            type="submit"
+            disabled={sending || disabled}
+            className={`px-6 py-3 font-medium text-sm disabled:opacity-50 ${theme.buttonShape} ${theme.tabActive}`}
+          >
+            {sending ? 'Sending...' : 'Send message'}
+          </button>
+        </form>
+      )}
+    </div>
+  )
+}
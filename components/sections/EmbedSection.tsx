@@ -0,0 +1,45 @@
+import { SectionOf } from '@/lib/types'
+import { Theme } from '@/lib/themes'
+import { EMBED_PROVIDER_NAMES, parseEmbedUrl } from '@/lib/embeds'
+
+interface Props {
+  section: SectionOf<'embed'>
+  theme: Theme
+}
+
+export default function EmbedSection({ section, theme }: Props) {
+  // Re-parse on render so only normalized player URLs are ever framed
+  const embed = parseEmbedUrl(section.content.url || '')
+
+  return (
+    <div className="space-y-4">
+      <h2 className={`text-2xl mb-6 ${theme.headingFont}`}>{section.title}</h2>
+      {!embed ? (
+        <p className={`text-center py-12 ${theme.textMuted}`}>This media can&apos;t be embedded</p>
+      ) : (
+        <figure className="space-y-3">
+          <div
+            className={`relative w-full overflow-hidden border ${theme.border} ${theme.cardShape} ${
+              embed.height ? '' : 'aspect-video'
+            }`}
+            style={embed.height ? { height: embed.height } : undefined}
+          >
+            <iframe
+              src={embed.src}
+              title={section.content.caption || `${EMBED_PROVIDER_NAMES[embed.provider]} embed`}
+              className="absolute inset-0 w-full h-full"
+              loading="lazy"
+              allow="autoplay; clipboard-write; encrypted-media; fullscreen; picture-in-picture"
+              allowFullScreen
+              referrerPolicy="strict-origin-when-cross-origin"
+              sandbox="allow-scripts allow-same-origin allow-popups allow-presentation"
+            />
+          </div>
+          {section.content.caption && (
+            <figcaption className={`text-sm ${theme.textMuted}`}>{section.content.caption}</figcaption>
+          )}
+        </figure>
+      )}
+    </div>
+  )
+}
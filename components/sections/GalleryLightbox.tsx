@@ -0,0 +1,135 @@
+import { useEffect, useRef, useState } from 'react'
+import { GalleryImage } from '@/lib/types'
+import { ChevronLeft, ChevronRight, X } from 'lucide-react'
+
+interface Props {
+  images: GalleryImage[]
+  index: number
+  onChange: (index: number) => void
+  onClose: () => void
+}
+
+// Minimum horizontal travel, in pixels, for a touch to count as a swipe
+const SWIPE_THRESHOLD = 50
+
+export default function GalleryLightbox({ images, index, onChange, onClose }: Props) {
+  const [loaded, setLoaded] = useState(false)
+  const touchStartX = useRef<number | null>(null)
+  const image = images[index]
+
+  const previous = () => onChange((index - 1 + images.length) % images.length)
+  const next = () => onChange((index + 1) % images.length)
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose()
+      if (e.key === 'ArrowLeft') previous()
+      if (e.key === 'ArrowRight') next()
+    }
+
+    window.addEventListener('keydown', handleKey)
+    return () => window.removeEventListener('keydown', handleKey)
+  })
+
+  // Keep the page behind from scrolling while the viewer is open
+  useEffect(() => {
+    const overflow = document.body.style.overflow
+    document.body.style.overflow = 'hidden'
+    return () => {
+      document.body.style.overflow = overflow
+    }
+  }, [])
+
+  useEffect(() => {
+    setLoaded(false)
+  }, [index])
+
+  // Once the current image is in, warm the cache for its neighbours
+  useEffect(() => {
+    if (!loaded || images.length < 2) return
+    for (const offset of [1, -1]) {
+      const neighbour = images[(index + offset + images.length) % images.length]
+      new window.Image().src = neighbour.url
+    }
+  }, [loaded, index, images])
+
+  if (!image) return null
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex flex-col bg-black/95 text-white"
+      role="dialog"
+      aria-modal="true"
+      aria-label="Image viewer"
+      onTouchStart={(e) => {
+        touchStartX.current = e.touches[0].clientX
+      }}
+      onTouchEnd={(e) => {
+        if (touchStartX.current === null) return
+        const delta = e.changedTouches[0].clientX - touchStartX.current
+        touchStartX.current = null
+        if (delta > SWIPE_THRESHOLD) previous()
+        if (delta < -SWIPE_THRESHOLD) next()
+      }}
+    >
+      <div className="flex justify-between items-center px-6 py-4 text-sm text-gray-400">
+        <span>
+          {index + 1} / {images.length}
+        </span>
+        <button onClick={onClose} className="p-2 hover:text-white transition" aria-label="Close">
+          <X size={20} />
+        </button>
+      </div>
+
+      <div className="relative flex-1 flex items-center justify-center px-4 min-h-0" onClick={onClose}>
+        {/* The thumbnail stands in until the full-size image has loaded */}
+        {!loaded && image.thumbnail_url && (
+          <img
+            src={image.thumbnail_url}
+            alt=""
+            className="absolute max-h-full max-w-full object-contain blur-sm opacity-60"
+          />
+        )}
+        <img
+          key={image.url}
+          src={image.url}
+          alt={image.caption || `Image ${index + 1}`}
+          onLoad={() => setLoaded(true)}
+          onClick={(e) => e.stopPropagation()}
+          className={`relative max-h-full max-w-full object-contain transition-opacity duration-200 ${
+            loaded ? 'opacity-100' : 'opacity-0'
+          }`}
+        />
+
+        {images.length > 1 && (
+          <>
+            <button
+              onClick={(e) => {
+                e.stopPropagation()
+                previous()
+              }}
+              className="absolute left-4 p-3 text-gray-400 hover:text-white transition"
+              aria-label="Previous image"
+            >
+              <ChevronLeft size={32} />
+            </button>
+            <button
+              onClick={(e) => {
+                e.stopPropagation()
+                next()
+              }}
+              className="absolute right-4 p-3 text-gray-400 hover:text-white transition"
+              aria-label="Next image"
+            >
+              <ChevronRight size={32} />
+            </button>
+          </>
+        )}
+      </div>
+
+      <div className="px-6 py-5 min-h-[4rem] text-center text-sm text-gray-300">
+        {image.caption}
+      </div>
+    </div>
+  )
+}
@@ -1,35 +1,87 @@
-import { Section } from '@/lib/types'
+import { useEffect, useState } from 'react'
+import { SectionOf } from '@/lib/types'
+import { Theme } from '@/lib/themes'
+import { lightboxHash, parseLightboxHash } from '@/lib/lightbox'
+import GalleryLightbox from './GalleryLightbox'
 
 interface Props {
-  section: Section
+  section: SectionOf<'gallery'>
+  theme: Theme
+  // Mirror the open image in the URL hash so it can be shared
+  deepLink?: boolean
 }
 
-export default function GallerySection({ section }: Props) {
+export default function GallerySection({ section, theme, deepLink = false }: Props) {
   const images = section.content.images || []
+  const [openIndex, setOpenIndex] = useState<number | null>(null)
+
+  // Follow #image=<section>:<n>, both on load and on back/forward
+  useEffect(() => {
+    if (!deepLink) return
+
+    const syncFromHash = () => {
+      const target = parseLightboxHash(window.location.hash)
+      if (target && target.sectionId === section.id && target.index < images.length) {
+        setOpenIndex(target.index)
+      } else {
+        setOpenIndex(null)
+      }
+    }
+
+    syncFromHash()
+    window.addEventListener('hashchange', syncFromHash)
+    return () => window.removeEventListener('hashchange', syncFromHash)
+  }, [deepLink, section.id, images.length])
+
+  const showImage = (index: number | null) => {
+    setOpenIndex(index)
+    if (!deepLink) return
+
+    const { pathname, search } = window.location
+    const hash = index === null ? '' : lightboxHash(section.id, index)
+    window.history.replaceState(null, '', `${pathname}${search}${hash}`)
+  }
 
   return (
     <div className="space-y-4">
-      <h2 className="text-2xl font-serif mb-6">{section.title}</h2>
+      <h2 className={`text-2xl mb-6 ${theme.headingFont}`}>{section.title}</h2>
       {images.length === 0 ? (
-        <p className="text-gray-500 text-center py-12">No images yet</p>
+        <p className={`text-center py-12 ${theme.textMuted}`}>No images yet</p>
       ) : (
         <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-          {images.map((image: any, index: number) => (
-            <div key={index} className="overflow-hidden border border-gray-800 hover:border-gray-700 transition">
-              <img
-                src={image.url}
-                alt={image.caption || `Gallery image ${index + 1}`}
-                className="w-full h-48 object-cover hover:opacity-90 transition duration-300"
-              />
+          {images.map((image, index) => (
+            <div key={index} className={`overflow-hidden border transition ${theme.border} ${theme.borderHover} ${theme.cardShape}`}>
+              <button
+                type="button"
+                onClick={() => showImage(index)}
+                className="block w-full cursor-zoom-in"
+                aria-label={`Open ${image.caption || `image ${index + 1}`}`}
+              >
+                <img
+                  src={image.thumbnail_url || image.url}
+                  loading="lazy"
+                  alt={image.caption || `Gallery image ${index + 1}`}
+                  className="w-full h-48 object-cover hover:opacity-90 transition duration-300"
+                />
+              </button>
               {image.caption && (
-                <div className="p-3 bg-black border-t border-gray-800">
-                  <p className="text-sm text-gray-400">{image.caption}</p>
+                <div className={`p-3 border-t ${theme.border}`}>
+                  <p className={`text-sm ${theme.textMuted}`}>{image.caption}</p>
                 </div>
               )}
             </div>
           ))}
         </div>
       )}
+
+      {openIndex !== null && (
+        <GalleryLightbox
+          images={images}
+          index={openIndex}
+          onChange={showImage}
+          onClose={() => showImage(null)}
+        />
+      )}
     </div>
   )
 }
@@ -1,29 +1,33 @@
-import { Section } from '@/lib/types'
+import { SectionOf } from '@/lib/types'
+import { Theme } from '@/lib/themes'
+import { trackedLinkUrl } from '@/lib/analytics'
 import { ExternalLink } from 'lucide-react'
 
 interface Props {
-  section: Section
+  section: SectionOf<'links'>
+  theme: Theme
+  trackClicks?: boolean
 }
 
-export default function LinksSection({ section }: Props) {
+export default function LinksSection({ section, theme, trackClicks = false }: Props) {
   const links = section.content.links || []
 
   return (
     <div className="space-y-4">
-      <h2 className="text-2xl font-serif mb-6">{section.title}</h2>
+      <h2 className={`text-2xl mb-6 ${theme.headingFont}`}>{section.title}</h2>
       <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-        {links.map((link: any, index: number) => (
+        {links.map((link, index) => (
           <a
             key={index}
-            href={link.url}
+            href={trackClicks ? trackedLinkUrl(section.id, link.url) : link.url}
             target="_blank"
             rel="noopener noreferrer"
-            className="flex items-center justify-between p-4 border border-gray-800 hover:border-white transition group"
+            className={`flex items-center justify-between p-4 border transition group ${theme.border} ${theme.borderHover} ${theme.buttonShape}`}
           >
-            <span className="font-medium text-white group-hover:text-gray-300">
+            <span className="font-medium group-hover:opacity-80">
               {link.title}
             </span>
-            <ExternalLink size={16} className="text-gray-500 group-hover:text-white transition" />
+            <ExternalLink size={16} className={`transition ${theme.textMuted}`} />
           </a>
         ))}
       </div>
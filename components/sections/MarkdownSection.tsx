@@ -0,0 +1,23 @@
+import { SectionOf } from '@/lib/types'
+import { Theme } from '@/lib/themes'
+import { renderMarkdown } from '@/lib/markdown'
+
+interface Props {
+  section: SectionOf<'markdown'>
+  theme: Theme
+}
+
+export default function MarkdownSection({ section, theme }: Props) {
+  // renderMarkdown escapes all input, so its output is safe to inject
+  const html = renderMarkdown(section.content.markdown || '')
+
+  return (
+    <div className="space-y-4">
+      <h2 className={`text-2xl mb-6 ${theme.headingFont}`}>{section.title}</h2>
+      <div
+        className={`markdown ${theme.textSubtle}`}
+        dangerouslySetInnerHTML={{ __html: html }}
+      />
+    </div>
+  )
+}
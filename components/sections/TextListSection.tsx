@@ -1,20 +1,22 @@
-import { Section } from '@/lib/types'
+import { SectionOf } from '@/lib/types'
+import { Theme } from '@/lib/themes'
 
 interface Props {
-  section: Section
+  section: SectionOf<'text_list'>
+  theme: Theme
 }
 
-export default function TextListSection({ section }: Props) {
+export default function TextListSection({ section, theme }: Props) {
   const items = section.content.items || []
 
   return (
     <div className="space-y-4">
-      <h2 className="text-2xl font-serif mb-6">{section.title}</h2>
+      <h2 className={`text-2xl mb-6 ${theme.headingFont}`}>{section.title}</h2>
       <ul className="space-y-3">
-        {items.map((item: string, index: number) => (
-          <li key={index} className="flex items-start gap-4 p-4 border border-gray-800 hover:border-gray-700 transition">
-            <span className="text-white font-bold mt-1">•</span>
-            <span className="text-gray-300 leading-relaxed">{item}</span>
+        {items.map((item, index) => (
+          <li key={index} className={`flex items-start gap-4 p-4 border transition ${theme.border} ${theme.borderHover} ${theme.cardShape}`}>
+            <span className={`font-bold mt-1 ${theme.accent}`}>•</span>
+            <span className={`leading-relaxed ${theme.textSubtle}`}>{item}</span>
           </li>
         ))}
       </ul>
@@ -5,39 +5,39 @@
 -- run this SQL in your Supabase SQL Editor
 -- ========================================
 
--- Option 1: Create a function that bypasses RLS for profile creation
--- This function runs with SECURITY DEFINER, so it bypasses RLS
-CREATE OR REPLACE FUNCTION create_profile_for_user(
-  p_user_id UUID,
-  p_username TEXT,
-  p_display_name TEXT
-)
+-- Earlier versions took the owner as a parameter from any caller
+DROP FUNCTION IF EXISTS create_profile_for_user(UUID, TEXT, TEXT);
+
+-- Create a profile for the signed-in account. This is the only way profiles
+-- are created, so the limit of 5 per account can't be skipped; concurrent
+-- calls from one account wait for each other so they can't both pass it.
+CREATE OR REPLACE FUNCTION create_profile_for_user(p_username TEXT, p_display_name TEXT)
 RETURNS UUID
 LANGUAGE plpgsql
 SECURITY DEFINER
 AS $$
 DECLARE
+  c_limit CONSTANT INTEGER := 5;
+  v_user_id UUID := auth.uid();
   v_profile_id UUID;
 BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not signed in' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext('create_profile:' || v_user_id::TEXT));
+
+  IF (SELECT COUNT(*) FROM profiles WHERE user_id = v_user_id) >= c_limit THEN
+    RAISE EXCEPTION 'You can have at most % profiles', c_limit USING ERRCODE = 'check_violation';
+  END IF;
+
   INSERT INTO profiles (user_id, username, display_name)
-  VALUES (p_user_id, p_username, p_display_name)
+  VALUES (v_user_id, p_username, p_display_name)
   RETURNING id INTO v_profile_id;
-  
+
   RETURN v_profile_id;
 END;
 $$;
 
--- Grant execute permission to authenticated users
-GRANT EXECUTE ON FUNCTION create_profile_for_user(UUID, TEXT, TEXT) TO authenticated;
-
--- ========================================
--- Option 2: Alternative - Update RLS policy to be more permissive
--- (Only use if Option 1 doesn't work)
--- ========================================
--- DROP POLICY IF EXISTS "profiles_insert" ON profiles;
--- CREATE POLICY "profiles_insert" ON profiles FOR INSERT
---   WITH CHECK (
---     auth.uid() = user_id OR
---     auth.uid() IS NOT NULL
---   );
-
+REVOKE EXECUTE ON FUNCTION create_profile_for_user(TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION create_profile_for_user(TEXT, TEXT) TO authenticated;
@@ -0,0 +1,383 @@
+-- ========================================
+-- MIGRATION: ACCESS MODES
+-- ========================================
+-- Run this once in the Supabase SQL Editor on databases created before
+-- profiles and sections had access modes. Fresh installs get the same schema
+-- from database_setup.sql. Requires database_migrate_username_history.sql.
+-- ========================================
+
+-- Unlock tokens are signed with HMAC-SHA256 and passwords hashed with bcrypt
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS access TEXT NOT NULL DEFAULT 'public' CHECK (access IN ('public', 'unlisted', 'password', 'signed_in'));
+ALTER TABLE sections ADD COLUMN IF NOT EXISTS access TEXT NOT NULL DEFAULT 'public' CHECK (access IN ('public', 'unlisted', 'password', 'signed_in'));
+ALTER TABLE draft_sections ADD COLUMN IF NOT EXISTS access TEXT NOT NULL DEFAULT 'public' CHECK (access IN ('public', 'unlisted', 'password', 'signed_in'));
+ALTER TABLE section_revisions ADD COLUMN IF NOT EXISTS access TEXT NOT NULL DEFAULT 'public';
+
+-- Who may see a profile is the owner's call; editors can change everything
+-- else
+CREATE OR REPLACE FUNCTION prevent_profile_access_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.access IS DISTINCT FROM OLD.access
+    AND profile_role(OLD.id) IS DISTINCT FROM 'owner'
+    AND auth.role() IS DISTINCT FROM 'service_role'
+  THEN
+    RAISE EXCEPTION 'Only the profile owner can change who sees it';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS profiles_access_owner_only ON profiles;
+CREATE TRIGGER profiles_access_owner_only
+  BEFORE UPDATE ON profiles
+  FOR EACH ROW EXECUTE FUNCTION prevent_profile_access_change();
+
+-- profiles.access and sections.access decide who may see a profile or one
+-- of its sections:
+--   public     anyone, and listed in search and the sitemap
+--   unlisted   anyone with the link, but never listed
+--   password   visitors holding an unlock token for it (see unlock_access)
+--   signed_in  any signed-in account
+-- Members of a profile always see everything. A section's access is drafted
+-- like its other fields; a profile's applies immediately.
+
+-- Passwords for password-protected profiles and sections, keyed by the
+-- profile or section ID. Unlock tokens are signed with unlock_secret, which
+-- is replaced along with the password so changing it locks everyone out
+-- again. No policies: only the functions below read or write this table.
+CREATE TABLE IF NOT EXISTS access_passwords (
+  target_id UUID PRIMARY KEY,
+  profile_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  password_hash TEXT NOT NULL,
+  unlock_secret TEXT NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_access_passwords_profile ON access_passwords(profile_id);
+
+ALTER TABLE access_passwords ENABLE ROW LEVEL SECURITY;
+
+-- Set the password for a profile (p_target_id = p_profile_id) or one of its
+-- sections. Owners protect profiles; any editor may protect a section.
+CREATE OR REPLACE FUNCTION set_access_password(p_profile_id UUID, p_target_id UUID, p_password TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+BEGIN
+  IF p_target_id = p_profile_id THEN
+    IF profile_role(p_profile_id) IS DISTINCT FROM 'owner' THEN
+      RAISE EXCEPTION 'Not allowed to protect this profile';
+    END IF;
+  ELSIF NOT can_edit_profile(p_profile_id) THEN
+    RAISE EXCEPTION 'Not allowed to protect this section';
+  ELSIF NOT EXISTS (SELECT 1 FROM draft_sections WHERE id = p_target_id AND profile_id = p_profile_id) THEN
+    RAISE EXCEPTION 'Section not found';
+  END IF;
+
+  INSERT INTO access_passwords (target_id, profile_id, password_hash, unlock_secret)
+  VALUES (p_target_id, p_profile_id, crypt(p_password, gen_salt('bf')), encode(gen_random_bytes(32), 'hex'))
+  ON CONFLICT (target_id) DO UPDATE
+  SET password_hash = EXCLUDED.password_hash,
+      unlock_secret = EXCLUDED.unlock_secret,
+      updated_at = NOW();
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION set_access_password(UUID, UUID, TEXT) TO authenticated;
+
+CREATE OR REPLACE FUNCTION has_access_password(p_target_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT EXISTS (SELECT 1 FROM access_passwords WHERE target_id = p_target_id)
+$$;
+
+GRANT EXECUTE ON FUNCTION has_access_password(UUID) TO anon, authenticated;
+
+-- Failed password attempts, counted per visitor so nobody can guess
+-- passwords at full speed. Counting per target instead would let anyone lock
+-- the owner and every real visitor out by failing on purpose. client_hash is
+-- a SHA-256 of the visitor's address. No policies: only unlock_access() reads
+-- or writes this table.
+CREATE TABLE IF NOT EXISTS unlock_attempts (
+  id BIGSERIAL PRIMARY KEY,
+  target_id UUID NOT NULL,
+  client_hash TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Earlier versions of this migration also limited attempts per target
+DROP INDEX IF EXISTS idx_unlock_attempts_target;
+CREATE INDEX IF NOT EXISTS idx_unlock_attempts_client ON unlock_attempts(client_hash, created_at);
+
+ALTER TABLE unlock_attempts ENABLE ROW LEVEL SECURITY;
+
+-- Check a password and return a token that unlocks the target for 30 days,
+-- "<target_id>.<expiry epoch>.<hmac>", or NULL when the password is wrong.
+-- After 10 failures from one visitor in 15 minutes their password is not
+-- checked at all and locked is true. Only the unlock route calls this, with
+-- the service role, because it supplies p_client_hash.
+-- Earlier versions of this migration let anyone call unlock_access() directly
+DROP FUNCTION IF EXISTS unlock_access(UUID, UUID, TEXT);
+
+CREATE OR REPLACE FUNCTION unlock_access(p_profile_id UUID, p_target_id UUID, p_password TEXT, p_client_hash TEXT)
+RETURNS TABLE (token TEXT, locked BOOLEAN)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  c_window CONSTANT INTERVAL := INTERVAL '15 minutes';
+  c_client_limit CONSTANT INTEGER := 10;
+  v_secret TEXT;
+  v_payload TEXT;
+BEGIN
+  IF (SELECT COUNT(*) FROM unlock_attempts
+      WHERE client_hash = p_client_hash AND created_at > NOW() - c_window) >= c_client_limit
+  THEN
+    RETURN QUERY SELECT NULL::TEXT, true;
+    RETURN;
+  END IF;
+
+  SELECT unlock_secret INTO v_secret
+  FROM access_passwords
+  WHERE target_id = p_target_id
+    AND profile_id = p_profile_id
+    AND password_hash = crypt(p_password, password_hash);
+
+  IF v_secret IS NULL THEN
+    INSERT INTO unlock_attempts (target_id, client_hash) VALUES (p_target_id, p_client_hash);
+    DELETE FROM unlock_attempts WHERE created_at < NOW() - INTERVAL '1 day';
+    RETURN QUERY SELECT NULL::TEXT, false;
+    RETURN;
+  END IF;
+
+  v_payload := p_target_id || '.' || extract(epoch FROM NOW() + INTERVAL '30 days')::BIGINT;
+  RETURN QUERY SELECT v_payload || '.' || encode(hmac(v_payload, v_secret, 'sha256'), 'hex'), false;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION unlock_access(UUID, UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION unlock_access(UUID, UUID, TEXT, TEXT) TO service_role;
+
+-- Whether the request carries a valid, unexpired unlock token for the target.
+-- The app forwards the visitor's unlock cookie in the x-selfbook-unlock
+-- header as a comma-separated list of tokens.
+CREATE OR REPLACE FUNCTION access_unlocked(p_target_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM access_passwords a,
+      unnest(string_to_array(
+        NULLIF(current_setting('request.headers', true), '')::json ->> 'x-selfbook-unlock', ',')) AS token
+    WHERE a.target_id = p_target_id
+      AND split_part(token, '.', 1) = p_target_id::TEXT
+      AND split_part(token, '.', 2) ~ '^[0-9]{1,12}$'
+      AND to_timestamp(split_part(token, '.', 2)::BIGINT) > NOW()
+      AND split_part(token, '.', 3) = encode(hmac(
+        split_part(token, '.', 1) || '.' || split_part(token, '.', 2), a.unlock_secret, 'sha256'), 'hex')
+  )
+$$;
+
+-- Whether the current request satisfies an access mode
+CREATE OR REPLACE FUNCTION access_allowed(p_access TEXT, p_target_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT CASE p_access
+    WHEN 'signed_in' THEN request_user_id() IS NOT NULL
+    WHEN 'password' THEN access_unlocked(p_target_id)
+    ELSE true
+  END
+$$;
+
+GRANT EXECUTE ON FUNCTION access_allowed(TEXT, UUID) TO anon, authenticated;
+
+-- Whether the current request may see a profile at all
+CREATE OR REPLACE FUNCTION can_see_profile(p_profile_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT EXISTS (SELECT 1 FROM profiles WHERE id = p_profile_id AND access_allowed(access, id))
+    OR profile_role(p_profile_id) IS NOT NULL
+$$;
+
+GRANT EXECUTE ON FUNCTION can_see_profile(UUID) TO anon, authenticated;
+
+DROP POLICY IF EXISTS "profiles_select" ON profiles;
+DROP POLICY IF EXISTS "sections_select" ON sections;
+
+CREATE POLICY "profiles_select" ON profiles FOR SELECT
+  USING (access_allowed(access, id) OR profile_role(id) IS NOT NULL);
+
+-- Visitors only see a section inside its optional publish_at/unpublish_at
+-- window, when both it and its profile let them in
+CREATE POLICY "sections_select" ON sections FOR SELECT
+  USING (
+    (visible = true
+      AND (publish_at IS NULL OR publish_at <= NOW())
+      AND (unpublish_at IS NULL OR unpublish_at > NOW())
+      AND access_allowed(access, id)
+      AND can_see_profile(profile_id))
+    OR can_view_profile(profile_id)
+  );
+
+-- How a profile is gated, for visitors the profiles policy keeps out, so the
+-- page can ask for a password or a sign-in instead of showing a 404
+CREATE OR REPLACE FUNCTION profile_gate(p_username TEXT)
+RETURNS TABLE (profile_id UUID, access TEXT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT p.id, p.access FROM profiles p WHERE p.username = lower(p_username)
+$$;
+
+GRANT EXECUTE ON FUNCTION profile_gate(TEXT) TO anon, authenticated;
+
+-- Live sections of a visible profile that the current request can't open
+-- yet. Only their titles are revealed, so the page can offer to unlock them.
+-- Members see every section and so never get any.
+CREATE OR REPLACE FUNCTION locked_sections(p_profile_id UUID)
+RETURNS TABLE (id UUID, title TEXT, access TEXT, "position" INTEGER)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT s.id, s.title, s.access, s.position
+  FROM sections s
+  WHERE s.profile_id = p_profile_id
+    AND can_see_profile(p_profile_id)
+    AND profile_role(p_profile_id) IS NULL
+    AND s.visible = true
+    AND (s.publish_at IS NULL OR s.publish_at <= NOW())
+    AND (s.unpublish_at IS NULL OR s.unpublish_at > NOW())
+    AND NOT access_allowed(s.access, s.id)
+  ORDER BY s.position
+$$;
+
+GRANT EXECUTE ON FUNCTION locked_sections(UUID) TO anon, authenticated;
+
+-- Drafts and publishing now carry sections.access
+-- True when the draft differs from what visitors currently see
+CREATE OR REPLACE FUNCTION has_unpublished_changes(p_profile_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM profile_drafts d
+    JOIN profiles p ON p.id = d.profile_id
+    WHERE d.profile_id = p_profile_id
+      AND (d.display_name, d.bio, d.avatar_url, d.banner_url, d.theme)
+        IS DISTINCT FROM (p.display_name, p.bio, p.avatar_url, p.banner_url, p.theme)
+  ) OR EXISTS (
+    (SELECT id, title, type, content, position, visible, access, publish_at, unpublish_at FROM draft_sections WHERE profile_id = p_profile_id
+     EXCEPT
+     SELECT id, title, type, content, position, visible, access, publish_at, unpublish_at FROM sections WHERE profile_id = p_profile_id)
+    UNION ALL
+    (SELECT id, title, type, content, position, visible, access, publish_at, unpublish_at FROM sections WHERE profile_id = p_profile_id
+     EXCEPT
+     SELECT id, title, type, content, position, visible, access, publish_at, unpublish_at FROM draft_sections WHERE profile_id = p_profile_id)
+  )
+$$;
+
+GRANT EXECUTE ON FUNCTION has_unpublished_changes(UUID) TO anon, authenticated;
+
+-- Promote every draft change for a profile in one transaction, so visitors
+-- never see half a publish. Runs with the caller's privileges; the profiles
+-- and sections policies still decide who may publish.
+CREATE OR REPLACE FUNCTION publish_profile(p_profile_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NOT can_edit_profile(p_profile_id) THEN
+    RAISE EXCEPTION 'Not allowed to publish this profile';
+  END IF;
+
+  -- Through the API, only a request checked for the publish scope may publish
+  IF auth.uid() IS NULL AND NOT EXISTS (SELECT 1 FROM request_api_token() WHERE 'publish' = ANY(scopes)) THEN
+    RAISE EXCEPTION 'Not allowed to publish this profile';
+  END IF;
+
+  UPDATE profiles p
+  SET display_name = d.display_name,
+      bio = d.bio,
+      avatar_url = d.avatar_url,
+      banner_url = d.banner_url,
+      theme = d.theme,
+      updated_at = NOW()
+  FROM profile_drafts d
+  WHERE d.profile_id = p.id
+    AND p.id = p_profile_id;
+
+  DELETE FROM sections
+  WHERE profile_id = p_profile_id
+    AND id NOT IN (SELECT id FROM draft_sections WHERE profile_id = p_profile_id);
+
+  -- updated_at only moves for sections that actually changed
+  INSERT INTO sections (id, profile_id, title, type, content, position, visible, access, publish_at, unpublish_at)
+  SELECT id, profile_id, title, type, content, position, visible, access, publish_at, unpublish_at
+  FROM draft_sections
+  WHERE profile_id = p_profile_id
+  ON CONFLICT (id) DO UPDATE
+  SET title = EXCLUDED.title,
+      content = EXCLUDED.content,
+      position = EXCLUDED.position,
+      visible = EXCLUDED.visible,
+      access = EXCLUDED.access,
+      publish_at = EXCLUDED.publish_at,
+      unpublish_at = EXCLUDED.unpublish_at,
+      updated_at = NOW()
+  WHERE (sections.title, sections.content, sections.position, sections.visible, sections.access,
+         sections.publish_at, sections.unpublish_at)
+    IS DISTINCT FROM (EXCLUDED.title, EXCLUDED.content, EXCLUDED.position, EXCLUDED.visible, EXCLUDED.access,
+         EXCLUDED.publish_at, EXCLUDED.unpublish_at);
+
+  UPDATE profiles SET published_at = NOW() WHERE id = p_profile_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION publish_profile(UUID) TO anon, authenticated;
+
+-- Private profiles are hidden from the profiles policy, but their usernames
+-- are still taken, so this now runs as definer.
+
+-- Whether a profile (or a new one, when p_profile_id is NULL) may take a username
+CREATE OR REPLACE FUNCTION username_available(p_username TEXT, p_profile_id UUID DEFAULT NULL)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE username = lower(p_username)
+      AND id IS DISTINCT FROM p_profile_id
+  ) AND NOT EXISTS (
+    SELECT 1 FROM username_history
+    WHERE username = lower(p_username)
+      AND profile_id IS DISTINCT FROM p_profile_id
+      AND released_at > NOW() - INTERVAL '90 days'
+  )
+$$;
+
+GRANT EXECUTE ON FUNCTION username_available(TEXT, UUID) TO anon, authenticated;
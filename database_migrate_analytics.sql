@@ -0,0 +1,94 @@
+-- ========================================
+-- MIGRATION: ANALYTICS
+-- ========================================
+-- Run this once in the Supabase SQL Editor on databases created before
+-- profile analytics existed. Fresh installs get the same schema from
+-- database_setup.sql.
+-- ========================================
+
+CREATE TABLE IF NOT EXISTS events (
+  id BIGSERIAL PRIMARY KEY,
+  profile_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN ('page_view', 'section_view', 'link_click')),
+  section_id UUID REFERENCES sections(id) ON DELETE SET NULL,
+  target_url TEXT,
+  referrer TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_events_profile_created ON events(profile_id, created_at);
+
+ALTER TABLE events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "events_insert" ON events;
+DROP POLICY IF EXISTS "events_select" ON events;
+
+-- Visitors may record events; a section must belong to the same profile
+CREATE POLICY "events_insert" ON events FOR INSERT
+  WITH CHECK (
+    section_id IS NULL OR
+    EXISTS (SELECT 1 FROM sections WHERE id = section_id AND sections.profile_id = events.profile_id)
+  );
+
+-- database_migrate_collaborators.sql opens this up to every member
+CREATE POLICY "events_select" ON events FOR SELECT
+  USING (auth.uid() = (SELECT user_id FROM profiles WHERE id = profile_id));
+
+-- Dashboard aggregates; runs as the caller so events_select limits it to the owner
+CREATE OR REPLACE FUNCTION profile_analytics(p_profile_id UUID, p_days INTEGER DEFAULT 30)
+RETURNS JSON
+LANGUAGE sql
+STABLE
+AS $$
+  WITH recent AS (
+    SELECT * FROM events
+    WHERE profile_id = p_profile_id
+      AND created_at >= CURRENT_DATE - (p_days - 1)
+  )
+  SELECT json_build_object(
+    'daily_views', (
+      SELECT COALESCE(json_agg(d ORDER BY d.day), '[]'::json)
+      FROM (
+        SELECT gs::date AS day, COUNT(r.id) AS views
+        FROM generate_series(CURRENT_DATE - (p_days - 1), CURRENT_DATE, INTERVAL '1 day') gs
+        LEFT JOIN recent r ON r.type = 'page_view' AND r.created_at::date = gs::date
+        GROUP BY gs
+      ) d
+    ),
+    'top_links', (
+      SELECT COALESCE(json_agg(l), '[]'::json)
+      FROM (
+        SELECT target_url AS url, COUNT(*) AS clicks
+        FROM recent
+        WHERE type = 'link_click'
+        GROUP BY target_url
+        ORDER BY clicks DESC
+        LIMIT 10
+      ) l
+    ),
+    'top_referrers', (
+      SELECT COALESCE(json_agg(rf), '[]'::json)
+      FROM (
+        SELECT referrer, COUNT(*) AS views
+        FROM recent
+        WHERE type = 'page_view' AND referrer IS NOT NULL
+        GROUP BY referrer
+        ORDER BY views DESC
+        LIMIT 10
+      ) rf
+    ),
+    'section_views', (
+      SELECT COALESCE(json_agg(sv), '[]'::json)
+      FROM (
+        SELECT r.section_id, s.title, COUNT(*) AS views
+        FROM recent r
+        JOIN sections s ON s.id = r.section_id
+        WHERE r.type = 'section_view'
+        GROUP BY r.section_id, s.title
+        ORDER BY views DESC
+      ) sv
+    )
+  )
+$$;
+
+GRANT EXECUTE ON FUNCTION profile_analytics(UUID, INTEGER) TO authenticated;
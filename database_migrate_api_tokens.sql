@@ -0,0 +1,229 @@
+-- ========================================
+-- MIGRATION: PERSONAL ACCESS TOKENS
+-- ========================================
+-- Run this once in the Supabase SQL Editor on databases created before the
+-- /api/v1 endpoints existed. Fresh installs get the same schema from
+-- database_setup.sql. Requires database_migrate_drafts.sql.
+-- ========================================
+
+-- Sessions are keyed with random bytes from pgcrypto
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- Credentials for the /api/v1 endpoints. Only a SHA-256 hash is stored; the
+-- token itself is shown once, when it is created. A token acts as its user,
+-- limited by its scopes and, when profile_id is set, to that one profile.
+CREATE TABLE IF NOT EXISTS api_tokens (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  profile_id UUID REFERENCES profiles(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  token_hash TEXT NOT NULL UNIQUE,
+  token_prefix TEXT NOT NULL,
+  scopes TEXT[] NOT NULL CHECK (
+    cardinality(scopes) > 0
+    AND scopes <@ ARRAY['profile:read', 'profile:write', 'sections:read', 'sections:write', 'publish']
+  ),
+  expires_at TIMESTAMP WITH TIME ZONE,
+  last_used_at TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  rate_window_start TIMESTAMP WITH TIME ZONE,
+  rate_window_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_tokens_user ON api_tokens(user_id);
+
+ALTER TABLE api_tokens ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "api_tokens_select" ON api_tokens;
+DROP POLICY IF EXISTS "api_tokens_insert" ON api_tokens;
+DROP POLICY IF EXISTS "api_tokens_update" ON api_tokens;
+
+-- Tokens are managed from a signed-in session only, never with a token
+CREATE POLICY "api_tokens_select" ON api_tokens FOR SELECT
+  USING (user_id = auth.uid());
+
+CREATE POLICY "api_tokens_insert" ON api_tokens FOR INSERT
+  WITH CHECK (user_id = auth.uid());
+
+-- Revoking is the only change a user may make to a token once it exists, so
+-- there is no UPDATE policy
+CREATE OR REPLACE FUNCTION revoke_api_token(p_token_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+SECURITY DEFINER
+AS $$
+  WITH revoked AS (
+    UPDATE api_tokens
+    SET revoked_at = NOW()
+    WHERE id = p_token_id
+      AND user_id = auth.uid()
+      AND revoked_at IS NULL
+    RETURNING id
+  )
+  SELECT EXISTS (SELECT 1 FROM revoked)
+$$;
+
+GRANT EXECUTE ON FUNCTION revoke_api_token(UUID) TO authenticated;
+
+-- Short-lived credentials the API routes open with use_api_token() once a
+-- request has passed its token's rate limit and scope check. The database
+-- trusts only these, never a token itself, so a token sent straight to the
+-- database API gets nothing. Each session carries the one scope its request
+-- was checked for. No policies: only the functions below use this table.
+CREATE TABLE IF NOT EXISTS api_token_sessions (
+  key_hash TEXT PRIMARY KEY,
+  token_id UUID NOT NULL REFERENCES api_tokens(id) ON DELETE CASCADE,
+  scope TEXT NOT NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_token_sessions_token ON api_token_sessions(token_id);
+
+ALTER TABLE api_token_sessions ENABLE ROW LEVEL SECURITY;
+
+-- The token behind the session sent in the x-selfbook-session request
+-- header, if any, with the session's scope. The API routes set that header
+-- on their database client after use_api_token() accepts the request.
+CREATE OR REPLACE FUNCTION request_api_token()
+RETURNS TABLE (id UUID, user_id UUID, profile_id UUID, scopes TEXT[])
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT t.id, t.user_id, t.profile_id, ARRAY[s.scope]
+  FROM api_token_sessions s
+  JOIN api_tokens t ON t.id = s.token_id
+  WHERE s.key_hash = encode(sha256(convert_to(
+      NULLIF(current_setting('request.headers', true), '')::json ->> 'x-selfbook-session', 'UTF8')), 'hex')
+    AND s.expires_at > NOW()
+    AND t.revoked_at IS NULL
+    AND (t.expires_at IS NULL OR t.expires_at > NOW())
+$$;
+
+-- The signed-in user, or else the user behind the request's access token
+CREATE OR REPLACE FUNCTION request_user_id()
+RETURNS UUID
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(auth.uid(), (SELECT user_id FROM request_api_token()))
+$$;
+
+GRANT EXECUTE ON FUNCTION request_user_id() TO anon, authenticated;
+
+-- Count one API request against its token's budget of 120 a minute and,
+-- when it is within budget and the token has p_scope, open a session for it.
+-- Returns no row when the token is missing, revoked or expired, and a NULL
+-- session_key when the request must be refused. Server-only: the API routes
+-- call it with the service role.
+CREATE OR REPLACE FUNCTION use_api_token(p_token_hash TEXT, p_scope TEXT)
+RETURNS TABLE (
+  session_key TEXT,
+  user_id UUID,
+  profile_id UUID,
+  scopes TEXT[],
+  rate_limit INTEGER,
+  remaining INTEGER,
+  reset_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+#variable_conflict use_column
+DECLARE
+  c_limit CONSTANT INTEGER := 120;
+  v_token api_tokens%ROWTYPE;
+  v_key TEXT;
+BEGIN
+  UPDATE api_tokens t
+  SET last_used_at = NOW(),
+      rate_window_start = CASE
+        WHEN t.rate_window_start IS NULL OR t.rate_window_start <= NOW() - INTERVAL '1 minute' THEN NOW()
+        ELSE t.rate_window_start
+      END,
+      rate_window_count = CASE
+        WHEN t.rate_window_start IS NULL OR t.rate_window_start <= NOW() - INTERVAL '1 minute' THEN 1
+        ELSE t.rate_window_count + 1
+      END
+  WHERE t.token_hash = p_token_hash
+    AND t.revoked_at IS NULL
+    AND (t.expires_at IS NULL OR t.expires_at > NOW())
+  RETURNING t.* INTO v_token;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  DELETE FROM api_token_sessions WHERE token_id = v_token.id AND expires_at <= NOW();
+
+  IF v_token.rate_window_count <= c_limit AND p_scope = ANY(v_token.scopes) THEN
+    v_key := encode(extensions.gen_random_bytes(32), 'hex');
+    INSERT INTO api_token_sessions (key_hash, token_id, scope, expires_at)
+    VALUES (encode(sha256(convert_to(v_key, 'UTF8')), 'hex'), v_token.id, p_scope, NOW() + INTERVAL '5 minutes');
+  END IF;
+
+  RETURN QUERY SELECT v_key, v_token.user_id, v_token.profile_id, v_token.scopes, c_limit,
+    c_limit - v_token.rate_window_count, v_token.rate_window_start + INTERVAL '1 minute';
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION use_api_token(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION use_api_token(TEXT, TEXT) TO service_role;
+
+-- Role of the current user on a profile: 'owner', 'editor', 'viewer' or NULL.
+-- SECURITY DEFINER so policies can call it without recursing into RLS.
+-- Requests authenticated by a personal access token (see api_tokens)
+-- are capped: never 'owner', and only 'viewer' without a write scope.
+CREATE OR REPLACE FUNCTION profile_role(p_profile_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_role TEXT;
+  v_token RECORD;
+BEGIN
+  SELECT CASE
+    WHEN EXISTS (SELECT 1 FROM profiles WHERE id = p_profile_id AND user_id = request_user_id()) THEN 'owner'
+    ELSE (
+      SELECT role FROM profile_members
+      WHERE profile_id = p_profile_id
+        AND user_id = request_user_id()
+        AND accepted_at IS NOT NULL
+    )
+  END INTO v_role;
+
+  IF v_role IS NULL OR auth.uid() IS NOT NULL THEN
+    RETURN v_role;
+  END IF;
+
+  SELECT * INTO v_token FROM request_api_token();
+
+  IF v_token.profile_id IS NOT NULL AND v_token.profile_id <> p_profile_id THEN
+    RETURN NULL;
+  END IF;
+
+  IF v_role = 'viewer' OR NOT (v_token.scopes && ARRAY['profile:write', 'sections:write', 'publish']) THEN
+    RETURN 'viewer';
+  END IF;
+
+  RETURN 'editor';
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION profile_role(UUID) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION has_unpublished_changes(UUID) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION publish_profile(UUID) TO anon, authenticated;
+
+-- /api/v1 reorders with the service role once it has checked the token, so
+-- reorder_sections() stays closed to anon. Earlier versions of this
+-- migration opened it up.
+REVOKE EXECUTE ON FUNCTION reorder_sections(UUID, UUID[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION reorder_sections(UUID, UUID[]) TO authenticated, service_role;
+
+DROP POLICY IF EXISTS "section_revisions_insert" ON section_revisions;
+
+CREATE POLICY "section_revisions_insert" ON section_revisions FOR INSERT
+  WITH CHECK (can_edit_profile(profile_id) AND created_by = request_user_id());
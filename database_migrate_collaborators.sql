@@ -0,0 +1,190 @@
+-- ========================================
+-- MIGRATION: COLLABORATORS
+-- ========================================
+-- Run this once in the Supabase SQL Editor on databases created before
+-- profiles could be shared with editors and viewers. Fresh installs get the
+-- same schema from database_setup.sql. Requires
+-- database_migrate_custom_domains.sql and database_migrate_analytics.sql.
+-- ========================================
+
+-- Collaborators on a profile. The account in profiles.user_id is always an
+-- implicit owner; rows here grant access to everyone else. user_id stays NULL
+-- until the emailed invitation is accepted.
+CREATE TABLE IF NOT EXISTS profile_members (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  profile_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('owner', 'editor', 'viewer')),
+  invite_token TEXT UNIQUE NOT NULL,
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  accepted_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (profile_id, email)
+);
+
+CREATE INDEX IF NOT EXISTS idx_profile_members_user ON profile_members(user_id);
+
+-- Role of the current user on a profile: 'owner', 'editor', 'viewer' or NULL.
+-- SECURITY DEFINER so policies can call it without recursing into RLS.
+-- database_migrate_api_tokens.sql extends it to personal access tokens.
+CREATE OR REPLACE FUNCTION profile_role(p_profile_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT CASE
+    WHEN EXISTS (SELECT 1 FROM profiles WHERE id = p_profile_id AND user_id = auth.uid()) THEN 'owner'
+    ELSE (
+      SELECT role FROM profile_members
+      WHERE profile_id = p_profile_id
+        AND user_id = auth.uid()
+        AND accepted_at IS NOT NULL
+    )
+  END
+$$;
+
+CREATE OR REPLACE FUNCTION can_edit_profile(p_profile_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(profile_role(p_profile_id) IN ('owner', 'editor'), false)
+$$;
+
+CREATE OR REPLACE FUNCTION can_view_profile(p_profile_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT profile_role(p_profile_id) IS NOT NULL
+$$;
+
+GRANT EXECUTE ON FUNCTION profile_role(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION can_edit_profile(UUID) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION can_view_profile(UUID) TO anon, authenticated;
+
+-- Editors may update a profile, but only its primary owner can hand it over
+CREATE OR REPLACE FUNCTION prevent_profile_owner_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.user_id IS DISTINCT FROM OLD.user_id THEN
+    RAISE EXCEPTION 'Profile owner cannot be changed';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS profiles_owner_immutable ON profiles;
+CREATE TRIGGER profiles_owner_immutable
+  BEFORE UPDATE ON profiles
+  FOR EACH ROW EXECUTE FUNCTION prevent_profile_owner_change();
+
+ALTER TABLE profile_members ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "profiles_update" ON profiles;
+DROP POLICY IF EXISTS "sections_insert" ON sections;
+DROP POLICY IF EXISTS "sections_select" ON sections;
+DROP POLICY IF EXISTS "sections_update" ON sections;
+DROP POLICY IF EXISTS "sections_delete" ON sections;
+DROP POLICY IF EXISTS "profile_members_select" ON profile_members;
+DROP POLICY IF EXISTS "profile_members_insert" ON profile_members;
+DROP POLICY IF EXISTS "profile_members_update" ON profile_members;
+DROP POLICY IF EXISTS "profile_members_delete" ON profile_members;
+DROP POLICY IF EXISTS "domains_select" ON domains;
+DROP POLICY IF EXISTS "domains_insert" ON domains;
+DROP POLICY IF EXISTS "domains_delete" ON domains;
+DROP POLICY IF EXISTS "events_select" ON events;
+
+CREATE POLICY "profiles_update" ON profiles FOR UPDATE
+  USING (can_edit_profile(id));
+
+CREATE POLICY "sections_insert" ON sections FOR INSERT
+  WITH CHECK (can_edit_profile(profile_id));
+
+CREATE POLICY "sections_select" ON sections FOR SELECT
+  USING (visible = true OR can_view_profile(profile_id));
+
+CREATE POLICY "sections_update" ON sections FOR UPDATE
+  USING (can_edit_profile(profile_id));
+
+CREATE POLICY "sections_delete" ON sections FOR DELETE
+  USING (can_edit_profile(profile_id));
+
+-- Members see the whole team; invitees see their own pending invitation
+CREATE POLICY "profile_members_select" ON profile_members FOR SELECT
+  USING (can_view_profile(profile_id) OR user_id = auth.uid());
+
+CREATE POLICY "profile_members_insert" ON profile_members FOR INSERT
+  WITH CHECK (profile_role(profile_id) = 'owner');
+
+CREATE POLICY "profile_members_update" ON profile_members FOR UPDATE
+  USING (profile_role(profile_id) = 'owner');
+
+-- Owners remove anyone; members may leave on their own
+CREATE POLICY "profile_members_delete" ON profile_members FOR DELETE
+  USING (profile_role(profile_id) = 'owner' OR user_id = auth.uid());
+
+-- Invite tokens are secrets: members list each other without them, and only
+-- owners read them, through profile_invite_tokens(). Updates are limited to
+-- the role; accepting goes through accept_profile_invite().
+REVOKE SELECT, UPDATE ON profile_members FROM anon, authenticated;
+GRANT SELECT (id, profile_id, user_id, email, role, invited_by, accepted_at, created_at)
+  ON profile_members TO authenticated;
+GRANT UPDATE (role) ON profile_members TO authenticated;
+
+-- Tokens of a profile's pending invitations, for its owners
+CREATE OR REPLACE FUNCTION profile_invite_tokens(p_profile_id UUID)
+RETURNS TABLE (id UUID, invite_token TEXT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT m.id, m.invite_token
+  FROM profile_members m
+  WHERE m.profile_id = p_profile_id
+    AND m.accepted_at IS NULL
+    AND profile_role(p_profile_id) = 'owner'
+$$;
+
+GRANT EXECUTE ON FUNCTION profile_invite_tokens(UUID) TO authenticated;
+
+-- Accept an invitation for the signed-in user; the account email must match
+CREATE OR REPLACE FUNCTION accept_profile_invite(p_token TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_profile_id UUID;
+BEGIN
+  UPDATE profile_members
+  SET user_id = auth.uid(),
+      accepted_at = NOW()
+  WHERE invite_token = p_token
+    AND accepted_at IS NULL
+    AND lower(email) = (SELECT lower(email) FROM auth.users WHERE id = auth.uid())
+  RETURNING profile_id INTO v_profile_id;
+
+  RETURN v_profile_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION accept_profile_invite(TEXT) TO authenticated;
+
+-- Co-owners manage domains too; public lookups go through resolve_domain()
+CREATE POLICY "domains_select" ON domains FOR SELECT
+  USING (profile_role(profile_id) = 'owner');
+
+CREATE POLICY "domains_insert" ON domains FOR INSERT
+  WITH CHECK (profile_role(profile_id) = 'owner' AND verified_at IS NULL);
+
+CREATE POLICY "domains_delete" ON domains FOR DELETE
+  USING (profile_role(profile_id) = 'owner');
+
+-- Every member can read the analytics
+CREATE POLICY "events_select" ON events FOR SELECT
+  USING (can_view_profile(profile_id));
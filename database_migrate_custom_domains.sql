@@ -0,0 +1,68 @@
+-- ========================================
+-- MIGRATION: CUSTOM DOMAINS
+-- ========================================
+-- Run this once in the Supabase SQL Editor on databases created before
+-- custom domains existed, or before verification moved server-side. Fresh
+-- installs get the same schema from database_setup.sql.
+-- ========================================
+
+-- Anyone may claim a hostname; it only routes once the DNS record proves
+-- control. So hostnames are unique among verified rows only, and a pending
+-- claim can't block the real owner.
+CREATE TABLE IF NOT EXISTS domains (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  profile_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  hostname TEXT NOT NULL,
+  verification_token TEXT NOT NULL,
+  verified_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (profile_id, hostname)
+);
+
+-- Earlier versions made every hostname unique, pending or not
+ALTER TABLE domains DROP CONSTRAINT IF EXISTS domains_hostname_key;
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'domains_profile_id_hostname_key') THEN
+    ALTER TABLE domains ADD CONSTRAINT domains_profile_id_hostname_key UNIQUE (profile_id, hostname);
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_domains_profile ON domains(profile_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_domains_verified_hostname ON domains(hostname) WHERE verified_at IS NOT NULL;
+
+ALTER TABLE domains ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "domains_select" ON domains;
+DROP POLICY IF EXISTS "domains_insert" ON domains;
+DROP POLICY IF EXISTS "domains_update" ON domains;
+DROP POLICY IF EXISTS "domains_delete" ON domains;
+
+-- Only the owner can see tokens; public lookups go through resolve_domain().
+-- database_migrate_collaborators.sql widens these to co-owners.
+CREATE POLICY "domains_select" ON domains FOR SELECT
+  USING (auth.uid() = (SELECT user_id FROM profiles WHERE id = profile_id));
+
+-- There is no update policy: verified_at is only set by /api/domains/verify,
+-- with the service role, after it has checked DNS
+CREATE POLICY "domains_insert" ON domains FOR INSERT
+  WITH CHECK (auth.uid() = (SELECT user_id FROM profiles WHERE id = profile_id) AND verified_at IS NULL);
+
+CREATE POLICY "domains_delete" ON domains FOR DELETE
+  USING (auth.uid() = (SELECT user_id FROM profiles WHERE id = profile_id));
+
+-- Map a verified hostname to its profile's username (used by middleware)
+CREATE OR REPLACE FUNCTION resolve_domain(p_hostname TEXT)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT p.username
+  FROM domains d
+  JOIN profiles p ON p.id = d.profile_id
+  WHERE d.hostname = lower(p_hostname)
+    AND d.verified_at IS NOT NULL
+$$;
+
+GRANT EXECUTE ON FUNCTION resolve_domain(TEXT) TO anon, authenticated;
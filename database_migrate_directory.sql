@@ -0,0 +1,84 @@
+-- ========================================
+-- MIGRATION: PROFILE DIRECTORY
+-- ========================================
+-- Run this once in the Supabase SQL Editor on databases created before the
+-- /explore directory existed. Fresh installs get the same schema from
+-- database_setup.sql. Requires database_migrate_messages.sql.
+-- ========================================
+
+-- Profiles stay out of the directory until their owner opts in
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS in_directory BOOLEAN NOT NULL DEFAULT false;
+
+-- Who may see a profile, and whether it is listed in /explore, are the
+-- owner's call; editors can change everything else
+CREATE OR REPLACE FUNCTION prevent_profile_access_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF (NEW.access IS DISTINCT FROM OLD.access OR NEW.in_directory IS DISTINCT FROM OLD.in_directory)
+    AND profile_role(OLD.id) IS DISTINCT FROM 'owner'
+    AND auth.role() IS DISTINCT FROM 'service_role'
+  THEN
+    RAISE EXCEPTION 'Only the profile owner can change who sees it';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- What /explore searches. The 'simple' configuration keeps handles and names
+-- intact and lets every word be matched as a prefix.
+CREATE OR REPLACE FUNCTION profile_search_vector(p_username TEXT, p_display_name TEXT, p_bio TEXT)
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT setweight(to_tsvector('simple'::regconfig, coalesce(p_username, '')), 'A')
+    || setweight(to_tsvector('simple'::regconfig, coalesce(p_display_name, '')), 'A')
+    || setweight(to_tsvector('simple'::regconfig, coalesce(p_bio, '')), 'B')
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_profiles_search ON profiles USING GIN (profile_search_vector(username, display_name, bio));
+
+-- Free text to a prefix query: "jan design" matches "jane" and "designer".
+-- NULL when there is nothing to search for.
+CREATE OR REPLACE FUNCTION directory_query(p_query TEXT)
+RETURNS tsquery
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT to_tsquery('simple'::regconfig, string_agg(quote_literal(word) || ':*', ' & '))
+  FROM regexp_split_to_table(lower(coalesce(p_query, '')), '[^[:alnum:]]+') AS word
+  WHERE word <> ''
+$$;
+
+-- One page of public profiles that opted in to the directory, best matches
+-- first, with the total number of matches on every row
+CREATE OR REPLACE FUNCTION search_directory(p_query TEXT, p_limit INTEGER, p_offset INTEGER)
+RETURNS TABLE (
+  id UUID,
+  username TEXT,
+  display_name TEXT,
+  bio TEXT,
+  avatar_url TEXT,
+  total BIGINT
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT p.id, p.username, p.display_name, p.bio, p.avatar_url, COUNT(*) OVER ()
+  FROM profiles p
+  LEFT JOIN LATERAL (SELECT directory_query(p_query) AS query) q ON true
+  WHERE p.in_directory
+    AND p.access = 'public'
+    AND (q.query IS NULL OR profile_search_vector(p.username, p.display_name, p.bio) @@ q.query)
+  ORDER BY
+    CASE WHEN q.query IS NULL THEN 0
+      ELSE ts_rank(profile_search_vector(p.username, p.display_name, p.bio), q.query) END DESC,
+    p.updated_at DESC,
+    p.id
+  LIMIT LEAST(p_limit, 100)
+  OFFSET GREATEST(p_offset, 0)
+$$;
+
+GRANT EXECUTE ON FUNCTION search_directory(TEXT, INTEGER, INTEGER) TO anon, authenticated;
@@ -0,0 +1,168 @@
+-- ========================================
+-- MIGRATION: DRAFTS AND PUBLISHING
+-- ========================================
+-- Run this once in the Supabase SQL Editor on databases created before
+-- profile edits went through a draft. Fresh installs get the same schema
+-- from database_setup.sql. Requires database_migrate_section_revisions.sql.
+-- ========================================
+
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS published_at TIMESTAMP WITH TIME ZONE;
+
+-- Unpublished edits. The dashboard works on these tables only; profiles and
+-- sections hold what visitors see until publish_profile() copies drafts over.
+-- A profile without a profile_drafts row has no pending profile field changes.
+CREATE TABLE profile_drafts (
+  profile_id UUID PRIMARY KEY REFERENCES profiles(id) ON DELETE CASCADE,
+  display_name TEXT,
+  bio TEXT,
+  avatar_url TEXT,
+  banner_url TEXT,
+  theme TEXT DEFAULT 'default',
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Same shape as sections; a published section keeps its draft's ID
+CREATE TABLE draft_sections (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  profile_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  type TEXT NOT NULL,
+  content JSONB NOT NULL,
+  position INTEGER NOT NULL,
+  visible BOOLEAN DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_draft_sections_profile ON draft_sections(profile_id);
+
+ALTER TABLE profile_drafts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE draft_sections ENABLE ROW LEVEL SECURITY;
+
+-- Drafts are never public
+CREATE POLICY "profile_drafts_select" ON profile_drafts FOR SELECT
+  USING (can_view_profile(profile_id));
+
+CREATE POLICY "profile_drafts_insert" ON profile_drafts FOR INSERT
+  WITH CHECK (can_edit_profile(profile_id));
+
+CREATE POLICY "profile_drafts_update" ON profile_drafts FOR UPDATE
+  USING (can_edit_profile(profile_id));
+
+CREATE POLICY "draft_sections_select" ON draft_sections FOR SELECT
+  USING (can_view_profile(profile_id));
+
+CREATE POLICY "draft_sections_insert" ON draft_sections FOR INSERT
+  WITH CHECK (can_edit_profile(profile_id));
+
+CREATE POLICY "draft_sections_update" ON draft_sections FOR UPDATE
+  USING (can_edit_profile(profile_id));
+
+CREATE POLICY "draft_sections_delete" ON draft_sections FOR DELETE
+  USING (can_edit_profile(profile_id));
+
+-- True when the draft differs from what visitors currently see
+CREATE OR REPLACE FUNCTION has_unpublished_changes(p_profile_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM profile_drafts d
+    JOIN profiles p ON p.id = d.profile_id
+    WHERE d.profile_id = p_profile_id
+      AND (d.display_name, d.bio, d.avatar_url, d.banner_url, d.theme)
+        IS DISTINCT FROM (p.display_name, p.bio, p.avatar_url, p.banner_url, p.theme)
+  ) OR EXISTS (
+    (SELECT id, title, type, content, position, visible FROM draft_sections WHERE profile_id = p_profile_id
+     EXCEPT
+     SELECT id, title, type, content, position, visible FROM sections WHERE profile_id = p_profile_id)
+    UNION ALL
+    (SELECT id, title, type, content, position, visible FROM sections WHERE profile_id = p_profile_id
+     EXCEPT
+     SELECT id, title, type, content, position, visible FROM draft_sections WHERE profile_id = p_profile_id)
+  )
+$$;
+
+GRANT EXECUTE ON FUNCTION has_unpublished_changes(UUID) TO authenticated;
+
+-- Promote every draft change for a profile in one transaction, so visitors
+-- never see half a publish. Runs with the caller's privileges; the profiles
+-- and sections policies still decide who may publish.
+CREATE OR REPLACE FUNCTION publish_profile(p_profile_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NOT can_edit_profile(p_profile_id) THEN
+    RAISE EXCEPTION 'Not allowed to publish this profile';
+  END IF;
+
+  UPDATE profiles p
+  SET display_name = d.display_name,
+      bio = d.bio,
+      avatar_url = d.avatar_url,
+      banner_url = d.banner_url,
+      theme = d.theme,
+      updated_at = NOW()
+  FROM profile_drafts d
+  WHERE d.profile_id = p.id
+    AND p.id = p_profile_id;
+
+  DELETE FROM sections
+  WHERE profile_id = p_profile_id
+    AND id NOT IN (SELECT id FROM draft_sections WHERE profile_id = p_profile_id);
+
+  -- updated_at only moves for sections that actually changed
+  INSERT INTO sections (id, profile_id, title, type, content, position, visible)
+  SELECT id, profile_id, title, type, content, position, visible
+  FROM draft_sections
+  WHERE profile_id = p_profile_id
+  ON CONFLICT (id) DO UPDATE
+  SET title = EXCLUDED.title,
+      content = EXCLUDED.content,
+      position = EXCLUDED.position,
+      visible = EXCLUDED.visible,
+      updated_at = NOW()
+  WHERE (sections.title, sections.content, sections.position, sections.visible)
+    IS DISTINCT FROM (EXCLUDED.title, EXCLUDED.content, EXCLUDED.position, EXCLUDED.visible);
+
+  UPDATE profiles SET published_at = NOW() WHERE id = p_profile_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION publish_profile(UUID) TO authenticated;
+
+-- Reordering now edits the draft
+CREATE OR REPLACE FUNCTION reorder_sections(
+  p_profile_id UUID,
+  p_section_ids UUID[]
+)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF COALESCE(array_length(p_section_ids, 1), 0) <>
+     (SELECT COUNT(*)::INTEGER FROM draft_sections WHERE profile_id = p_profile_id) THEN
+    RAISE EXCEPTION 'Section IDs must match the profile sections exactly';
+  END IF;
+
+  UPDATE draft_sections s
+  SET position = o.ordinality - 1,
+      updated_at = NOW()
+  FROM unnest(p_section_ids) WITH ORDINALITY AS o(id, ordinality)
+  WHERE s.id = o.id
+    AND s.profile_id = p_profile_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION reorder_sections(UUID, UUID[]) TO authenticated;
+
+-- Start every draft from what is live today, so nothing counts as unpublished
+INSERT INTO draft_sections (id, profile_id, title, type, content, position, visible, created_at, updated_at)
+SELECT id, profile_id, title, type, content, position, visible, created_at, updated_at
+FROM sections
+ON CONFLICT (id) DO NOTHING;
+
+UPDATE profiles SET published_at = updated_at WHERE published_at IS NULL;
@@ -0,0 +1,101 @@
+-- ========================================
+-- MIGRATION: FOLLOWS
+-- ========================================
+-- Run this once in the Supabase SQL Editor on databases created before
+-- profiles could follow each other. Fresh installs get the same schema from
+-- database_setup.sql. Requires database_migrate_directory.sql.
+-- ========================================
+
+-- One profile following another. Accounts follow through one of their own
+-- profiles, so someone with several profiles keeps a separate feed for each.
+CREATE TABLE IF NOT EXISTS follows (
+  follower_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  following_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (follower_id, following_id),
+  CHECK (follower_id <> following_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_follows_following ON follows(following_id);
+-- Rebuilt in case an earlier install created it without the id tiebreaker
+DROP INDEX IF EXISTS idx_sections_updated;
+CREATE INDEX idx_sections_updated ON sections(profile_id, updated_at DESC, id DESC);
+
+ALTER TABLE follows ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "follows_select" ON follows;
+DROP POLICY IF EXISTS "follows_insert" ON follows;
+DROP POLICY IF EXISTS "follows_delete" ON follows;
+
+-- Who follows whom is visible to the members of either profile; everyone
+-- else only gets the counts from follow_counts()
+CREATE POLICY "follows_select" ON follows FOR SELECT
+  USING (can_view_profile(follower_id) OR can_view_profile(following_id));
+
+-- Editors follow on the profile's behalf, and only profiles they can see
+CREATE POLICY "follows_insert" ON follows FOR INSERT
+  WITH CHECK (
+    can_edit_profile(follower_id)
+    AND EXISTS (SELECT 1 FROM profiles WHERE id = following_id)
+  );
+
+CREATE POLICY "follows_delete" ON follows FOR DELETE
+  USING (can_edit_profile(follower_id));
+
+-- Follower and following counts for a profile the caller can see
+CREATE OR REPLACE FUNCTION follow_counts(p_profile_id UUID)
+RETURNS TABLE (followers INTEGER, following INTEGER)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT
+    (SELECT COUNT(*)::INTEGER FROM follows WHERE following_id = p_profile_id),
+    (SELECT COUNT(*)::INTEGER FROM follows WHERE follower_id = p_profile_id)
+  WHERE can_see_profile(p_profile_id)
+$$;
+
+GRANT EXECUTE ON FUNCTION follow_counts(UUID) TO anon, authenticated;
+
+-- Earlier installs paged the feed by updated_at alone
+DROP FUNCTION IF EXISTS following_feed(UUID, INTEGER, TIMESTAMPTZ);
+
+-- Recently updated live sections of the profiles p_profile_id follows,
+-- newest first. Runs as the caller, so access modes hide whatever they
+-- can't open; members would otherwise also see hidden and scheduled sections.
+-- Pages continue after the last row's (updated_at, section_id), since
+-- several sections can share an updated_at when a profile is published.
+CREATE OR REPLACE FUNCTION following_feed(
+  p_profile_id UUID,
+  p_limit INTEGER DEFAULT 30,
+  p_before_updated_at TIMESTAMPTZ DEFAULT NULL,
+  p_before_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  section_id UUID,
+  title TEXT,
+  type TEXT,
+  updated_at TIMESTAMP WITH TIME ZONE,
+  profile_id UUID,
+  username TEXT,
+  display_name TEXT,
+  avatar_url TEXT
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT s.id, s.title, s.type, s.updated_at, p.id, p.username, p.display_name, p.avatar_url
+  FROM follows f
+  JOIN profiles p ON p.id = f.following_id
+  JOIN sections s ON s.profile_id = p.id
+  WHERE f.follower_id = p_profile_id
+    AND can_view_profile(p_profile_id)
+    AND s.visible = true
+    AND (s.publish_at IS NULL OR s.publish_at <= NOW())
+    AND (s.unpublish_at IS NULL OR s.unpublish_at > NOW())
+    AND (p_before_updated_at IS NULL OR (s.updated_at, s.id) < (p_before_updated_at, p_before_id))
+  ORDER BY s.updated_at DESC, s.id DESC
+  LIMIT LEAST(p_limit, 100)
+$$;
+
+GRANT EXECUTE ON FUNCTION following_feed(UUID, INTEGER, TIMESTAMPTZ, UUID) TO anon, authenticated;
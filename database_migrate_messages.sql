@@ -0,0 +1,122 @@
+-- ========================================
+-- MIGRATION: CONTACT MESSAGES
+-- ========================================
+-- Run this once in the Supabase SQL Editor on databases created before
+-- contact_form sections existed. Fresh installs get the same schema from
+-- database_setup.sql. Requires database_migrate_access_modes.sql.
+-- ========================================
+
+-- Submissions from contact_form sections. Visitors never write the table
+-- directly; submit_message() checks the form is live and applies the rate
+-- limit. Editors work the inbox.
+CREATE TABLE IF NOT EXISTS messages (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  profile_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  section_id UUID REFERENCES sections(id) ON DELETE SET NULL,
+  -- [{ "label": ..., "value": ... }] as the form read when it was sent
+  fields JSONB NOT NULL CHECK (jsonb_typeof(fields) = 'array'),
+  reply_to TEXT,
+  -- Hash of the sender's address, only used for rate limiting
+  sender_hash TEXT NOT NULL,
+  read_at TIMESTAMP WITH TIME ZONE,
+  archived_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_messages_profile ON messages(profile_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_messages_sender ON messages(sender_hash, created_at);
+
+ALTER TABLE messages ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "messages_select" ON messages;
+DROP POLICY IF EXISTS "messages_update" ON messages;
+
+CREATE POLICY "messages_select" ON messages FOR SELECT
+  USING (can_edit_profile(profile_id));
+
+CREATE POLICY "messages_update" ON messages FOR UPDATE
+  USING (can_edit_profile(profile_id));
+
+-- Earlier installs let anyone call submit_message() with their own limit
+DROP FUNCTION IF EXISTS submit_message(UUID, JSONB, TEXT, TEXT, INTEGER);
+
+-- Store a submission for a live contact_form section. Returns NULL once the
+-- sender has sent 5 messages to the profile in the last hour; the
+-- profile-wide cap of 200 is a backstop for senders that change address.
+-- Only the contact route calls this, with the service role, after reading
+-- the section as the visitor so its access mode still applies; p_sender_hash
+-- is a SHA-256 of the address the hosting platform reports.
+CREATE OR REPLACE FUNCTION submit_message(
+  p_section_id UUID,
+  p_fields JSONB,
+  p_reply_to TEXT,
+  p_sender_hash TEXT
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  c_sender_limit CONSTANT INTEGER := 5;
+  c_profile_limit CONSTANT INTEGER := 200;
+  v_profile_id UUID;
+  v_id UUID;
+BEGIN
+  SELECT s.profile_id INTO v_profile_id
+  FROM sections s
+  WHERE s.id = p_section_id
+    AND s.type = 'contact_form'
+    AND s.visible = true
+    AND (s.publish_at IS NULL OR s.publish_at <= NOW())
+    AND (s.unpublish_at IS NULL OR s.unpublish_at > NOW());
+
+  IF v_profile_id IS NULL THEN
+    RAISE EXCEPTION 'This form is not accepting messages';
+  END IF;
+
+  IF jsonb_typeof(p_fields) <> 'array' OR pg_column_size(p_fields) > 65536 THEN
+    RAISE EXCEPTION 'Invalid message';
+  END IF;
+
+  -- One sender at a time per profile, so concurrent posts can't slip past the count
+  PERFORM pg_advisory_xact_lock(hashtext(v_profile_id::TEXT || p_sender_hash));
+
+  IF (
+    SELECT COUNT(*) FROM messages
+    WHERE profile_id = v_profile_id
+      AND sender_hash = p_sender_hash
+      AND created_at > NOW() - INTERVAL '1 hour'
+  ) >= c_sender_limit OR (
+    SELECT COUNT(*) FROM messages
+    WHERE profile_id = v_profile_id
+      AND created_at > NOW() - INTERVAL '1 hour'
+  ) >= c_profile_limit THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO messages (profile_id, section_id, fields, reply_to, sender_hash)
+  VALUES (v_profile_id, p_section_id, p_fields, NULLIF(p_reply_to, ''), p_sender_hash)
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION submit_message(UUID, JSONB, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION submit_message(UUID, JSONB, TEXT, TEXT) TO service_role;
+
+-- Unread, unarchived messages per profile; runs as the caller so
+-- messages_select limits it to profiles they edit
+CREATE OR REPLACE FUNCTION unread_message_counts()
+RETURNS TABLE (profile_id UUID, unread INTEGER)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT m.profile_id, COUNT(*)::INTEGER
+  FROM messages m
+  WHERE m.read_at IS NULL
+    AND m.archived_at IS NULL
+  GROUP BY m.profile_id
+$$;
+
+GRANT EXECUTE ON FUNCTION unread_message_counts() TO anon, authenticated;
@@ -0,0 +1,59 @@
+-- ========================================
+-- MIGRATION: MULTIPLE PROFILES PER ACCOUNT
+-- ========================================
+-- Run this once in the Supabase SQL Editor on databases created before
+-- accounts could own more than one profile. Fresh installs get the same
+-- schema from database_setup.sql.
+-- ========================================
+
+-- Existing rows need no changes: each account keeps its current profile,
+-- which stays the default because the dashboard picks the oldest first.
+ALTER TABLE profiles DROP CONSTRAINT IF EXISTS profiles_user_id_key;
+
+-- The unique constraint doubled as the lookup index; keep a plain one
+CREATE INDEX IF NOT EXISTS idx_profiles_user_id ON profiles(user_id);
+
+-- Owners can now remove individual profiles
+DROP POLICY IF EXISTS "profiles_delete" ON profiles;
+CREATE POLICY "profiles_delete" ON profiles FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- New profiles go through create_profile_for_user(), which takes the owner
+-- from the session and enforces the per-account limit. The old version took
+-- the owner as a parameter, and a direct insert would skip the limit.
+DROP POLICY IF EXISTS "profiles_insert" ON profiles;
+DROP FUNCTION IF EXISTS create_profile_for_user(UUID, TEXT, TEXT);
+
+-- Create a profile for the signed-in account. This is the only way profiles
+-- are created, so the limit of 5 per account can't be skipped; concurrent
+-- calls from one account wait for each other so they can't both pass it.
+CREATE OR REPLACE FUNCTION create_profile_for_user(p_username TEXT, p_display_name TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  c_limit CONSTANT INTEGER := 5;
+  v_user_id UUID := auth.uid();
+  v_profile_id UUID;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not signed in' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext('create_profile:' || v_user_id::TEXT));
+
+  IF (SELECT COUNT(*) FROM profiles WHERE user_id = v_user_id) >= c_limit THEN
+    RAISE EXCEPTION 'You can have at most % profiles', c_limit USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO profiles (user_id, username, display_name)
+  VALUES (v_user_id, p_username, p_display_name)
+  RETURNING id INTO v_profile_id;
+
+  RETURN v_profile_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION create_profile_for_user(TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION create_profile_for_user(TEXT, TEXT) TO authenticated;
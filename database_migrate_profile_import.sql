@@ -0,0 +1,71 @@
+-- ========================================
+-- MIGRATION: PROFILE IMPORT
+-- ========================================
+-- Run this once in the Supabase SQL Editor on databases created before
+-- imports ran in a single transaction. Fresh installs get the same function
+-- from database_setup.sql. Requires database_migrate_access_modes.sql.
+-- ========================================
+
+-- Import a bundle into the draft in one transaction, so a failed import never
+-- leaves the draft half replaced. With p_replace the draft sections are kept
+-- as "delete" revisions and removed, and p_profile replaces the draft profile
+-- details; otherwise the sections go after the existing ones. p_sections is
+-- the bundle's already validated section list (see lib/bundle.ts). Runs with
+-- the caller's privileges, so the draft and revision policies still apply.
+CREATE OR REPLACE FUNCTION import_profile_draft(
+  p_profile_id UUID,
+  p_replace BOOLEAN,
+  p_profile JSONB,
+  p_sections JSONB
+)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_offset INTEGER := 0;
+BEGIN
+  IF NOT can_edit_profile(p_profile_id) THEN
+    RAISE EXCEPTION 'Not allowed to import into this profile';
+  END IF;
+
+  IF p_replace THEN
+    INSERT INTO section_revisions (section_id, profile_id, action, title, type, content, position, visible, access,
+                                   publish_at, unpublish_at, created_by)
+    SELECT id, profile_id, 'delete', title, type, content, position, COALESCE(visible, true), access,
+           publish_at, unpublish_at, request_user_id()
+    FROM draft_sections
+    WHERE profile_id = p_profile_id;
+
+    DELETE FROM draft_sections WHERE profile_id = p_profile_id;
+
+    INSERT INTO profile_drafts (profile_id, display_name, bio, avatar_url, banner_url, theme, updated_at)
+    VALUES (p_profile_id, p_profile->>'display_name', p_profile->>'bio', p_profile->>'avatar_url',
+            p_profile->>'banner_url', p_profile->>'theme', NOW())
+    ON CONFLICT (profile_id) DO UPDATE
+    SET display_name = EXCLUDED.display_name,
+        bio = EXCLUDED.bio,
+        avatar_url = EXCLUDED.avatar_url,
+        banner_url = EXCLUDED.banner_url,
+        theme = EXCLUDED.theme,
+        updated_at = NOW();
+  ELSE
+    SELECT COALESCE(MAX(position) + 1, 0) INTO v_offset
+    FROM draft_sections
+    WHERE profile_id = p_profile_id;
+  END IF;
+
+  INSERT INTO draft_sections (profile_id, title, type, content, position, visible, access, publish_at, unpublish_at)
+  SELECT p_profile_id,
+         s.value->>'title',
+         s.value->>'type',
+         s.value->'content',
+         v_offset + s.ordinality::INTEGER - 1,
+         COALESCE((s.value->>'visible')::BOOLEAN, true),
+         COALESCE(s.value->>'access', 'public'),
+         (s.value->>'publish_at')::TIMESTAMPTZ,
+         (s.value->>'unpublish_at')::TIMESTAMPTZ
+  FROM jsonb_array_elements(p_sections) WITH ORDINALITY AS s(value, ordinality);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION import_profile_draft(UUID, BOOLEAN, JSONB, JSONB) TO authenticated;
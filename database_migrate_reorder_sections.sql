@@ -0,0 +1,35 @@
+-- ========================================
+-- MIGRATION: SECTION REORDERING
+-- ========================================
+-- Run this once in the Supabase SQL Editor on databases created before
+-- sections could be reordered by drag and drop. Fresh installs get the same
+-- function from database_setup.sql.
+-- ========================================
+
+-- Rewrite every section position for a profile in one statement.
+-- Runs with the caller's privileges, so the sections_update policy still applies.
+CREATE OR REPLACE FUNCTION reorder_sections(
+  p_profile_id UUID,
+  p_section_ids UUID[]
+)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF COALESCE(array_length(p_section_ids, 1), 0) <>
+     (SELECT COUNT(*)::INTEGER FROM sections WHERE profile_id = p_profile_id) THEN
+    RAISE EXCEPTION 'Section IDs must match the profile sections exactly';
+  END IF;
+
+  UPDATE sections s
+  SET position = o.ordinality - 1,
+      updated_at = NOW()
+  FROM unnest(p_section_ids) WITH ORDINALITY AS o(id, ordinality)
+  WHERE s.id = o.id
+    AND s.profile_id = p_profile_id;
+END;
+$$;
+
+-- Signed-in users only; functions are executable by everyone by default
+REVOKE EXECUTE ON FUNCTION reorder_sections(UUID, UUID[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION reorder_sections(UUID, UUID[]) TO authenticated;
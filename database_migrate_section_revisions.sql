@@ -0,0 +1,38 @@
+-- ========================================
+-- MIGRATION: SECTION REVISIONS
+-- ========================================
+-- Run this once in the Supabase SQL Editor on databases created before
+-- section history existed. Fresh installs get the same schema from
+-- database_setup.sql. Requires database_migrate_collaborators.sql.
+-- ========================================
+
+-- Snapshot of a section taken before each update, delete or restore.
+-- section_id has no foreign key so history survives the section being deleted.
+CREATE TABLE IF NOT EXISTS section_revisions (
+  id BIGSERIAL PRIMARY KEY,
+  section_id UUID NOT NULL,
+  profile_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  action TEXT NOT NULL CHECK (action IN ('update', 'delete', 'restore')),
+  title TEXT NOT NULL,
+  type TEXT NOT NULL,
+  content JSONB NOT NULL,
+  position INTEGER NOT NULL,
+  visible BOOLEAN NOT NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_section_revisions_section ON section_revisions(section_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_section_revisions_profile ON section_revisions(profile_id, created_at);
+
+ALTER TABLE section_revisions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "section_revisions_select" ON section_revisions;
+DROP POLICY IF EXISTS "section_revisions_insert" ON section_revisions;
+
+-- Append-only: there are deliberately no UPDATE or DELETE policies
+CREATE POLICY "section_revisions_select" ON section_revisions FOR SELECT
+  USING (can_view_profile(profile_id));
+
+CREATE POLICY "section_revisions_insert" ON section_revisions FOR INSERT
+  WITH CHECK (can_edit_profile(profile_id) AND created_by = auth.uid());
@@ -0,0 +1,111 @@
+-- ========================================
+-- MIGRATION: SCHEDULED SECTION VISIBILITY
+-- ========================================
+-- Run this once in the Supabase SQL Editor on databases created before
+-- sections had publish_at/unpublish_at. Fresh installs get the same schema
+-- from database_setup.sql. Requires database_migrate_drafts.sql.
+-- ========================================
+
+ALTER TABLE sections
+  ADD COLUMN IF NOT EXISTS publish_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS unpublish_at TIMESTAMP WITH TIME ZONE,
+  ADD CONSTRAINT sections_schedule_check
+    CHECK (publish_at IS NULL OR unpublish_at IS NULL OR unpublish_at > publish_at);
+
+ALTER TABLE draft_sections
+  ADD COLUMN IF NOT EXISTS publish_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS unpublish_at TIMESTAMP WITH TIME ZONE,
+  ADD CONSTRAINT draft_sections_schedule_check
+    CHECK (publish_at IS NULL OR unpublish_at IS NULL OR unpublish_at > publish_at);
+
+ALTER TABLE section_revisions
+  ADD COLUMN IF NOT EXISTS publish_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS unpublish_at TIMESTAMP WITH TIME ZONE;
+
+DROP POLICY IF EXISTS "sections_select" ON sections;
+
+-- Visitors only see a section inside its optional publish_at/unpublish_at window
+CREATE POLICY "sections_select" ON sections FOR SELECT
+  USING (
+    (visible = true
+      AND (publish_at IS NULL OR publish_at <= NOW())
+      AND (unpublish_at IS NULL OR unpublish_at > NOW()))
+    OR can_view_profile(profile_id)
+  );
+
+-- Schedules are part of the draft, so both functions compare and copy them
+CREATE OR REPLACE FUNCTION has_unpublished_changes(p_profile_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM profile_drafts d
+    JOIN profiles p ON p.id = d.profile_id
+    WHERE d.profile_id = p_profile_id
+      AND (d.display_name, d.bio, d.avatar_url, d.banner_url, d.theme)
+        IS DISTINCT FROM (p.display_name, p.bio, p.avatar_url, p.banner_url, p.theme)
+  ) OR EXISTS (
+    (SELECT id, title, type, content, position, visible, publish_at, unpublish_at FROM draft_sections WHERE profile_id = p_profile_id
+     EXCEPT
+     SELECT id, title, type, content, position, visible, publish_at, unpublish_at FROM sections WHERE profile_id = p_profile_id)
+    UNION ALL
+    (SELECT id, title, type, content, position, visible, publish_at, unpublish_at FROM sections WHERE profile_id = p_profile_id
+     EXCEPT
+     SELECT id, title, type, content, position, visible, publish_at, unpublish_at FROM draft_sections WHERE profile_id = p_profile_id)
+  )
+$$;
+
+GRANT EXECUTE ON FUNCTION has_unpublished_changes(UUID) TO authenticated;
+
+-- Promote every draft change for a profile in one transaction, so visitors
+-- never see half a publish. Runs with the caller's privileges; the profiles
+-- and sections policies still decide who may publish.
+CREATE OR REPLACE FUNCTION publish_profile(p_profile_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NOT can_edit_profile(p_profile_id) THEN
+    RAISE EXCEPTION 'Not allowed to publish this profile';
+  END IF;
+
+  UPDATE profiles p
+  SET display_name = d.display_name,
+      bio = d.bio,
+      avatar_url = d.avatar_url,
+      banner_url = d.banner_url,
+      theme = d.theme,
+      updated_at = NOW()
+  FROM profile_drafts d
+  WHERE d.profile_id = p.id
+    AND p.id = p_profile_id;
+
+  DELETE FROM sections
+  WHERE profile_id = p_profile_id
+    AND id NOT IN (SELECT id FROM draft_sections WHERE profile_id = p_profile_id);
+
+  -- updated_at only moves for sections that actually changed
+  INSERT INTO sections (id, profile_id, title, type, content, position, visible, publish_at, unpublish_at)
+  SELECT id, profile_id, title, type, content, position, visible, publish_at, unpublish_at
+  FROM draft_sections
+  WHERE profile_id = p_profile_id
+  ON CONFLICT (id) DO UPDATE
+  SET title = EXCLUDED.title,
+      content = EXCLUDED.content,
+      position = EXCLUDED.position,
+      visible = EXCLUDED.visible,
+      publish_at = EXCLUDED.publish_at,
+      unpublish_at = EXCLUDED.unpublish_at,
+      updated_at = NOW()
+  WHERE (sections.title, sections.content, sections.position, sections.visible,
+         sections.publish_at, sections.unpublish_at)
+    IS DISTINCT FROM (EXCLUDED.title, EXCLUDED.content, EXCLUDED.position, EXCLUDED.visible,
+         EXCLUDED.publish_at, EXCLUDED.unpublish_at);
+
+  UPDATE profiles SET published_at = NOW() WHERE id = p_profile_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION publish_profile(UUID) TO authenticated;
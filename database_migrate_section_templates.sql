@@ -0,0 +1,66 @@
+-- ========================================
+-- MIGRATION: SECTION TEMPLATES
+-- ========================================
+-- Run this once in the Supabase SQL Editor on databases created before
+-- accounts could save sections as templates. Fresh installs get the same
+-- schema from database_setup.sql. Requires database_migrate_follows.sql.
+-- ========================================
+
+-- Sections an account saved for reuse. They belong to the account rather
+-- than a profile, so a template can seed any profile its owner edits.
+CREATE TABLE IF NOT EXISTS section_templates (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  title TEXT NOT NULL,
+  type TEXT NOT NULL,
+  content JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_section_templates_user ON section_templates(user_id);
+
+ALTER TABLE section_templates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "section_templates_select" ON section_templates;
+DROP POLICY IF EXISTS "section_templates_insert" ON section_templates;
+DROP POLICY IF EXISTS "section_templates_delete" ON section_templates;
+
+CREATE POLICY "section_templates_select" ON section_templates FOR SELECT
+  USING (user_id = auth.uid());
+
+CREATE POLICY "section_templates_insert" ON section_templates FOR INSERT
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "section_templates_delete" ON section_templates FOR DELETE
+  USING (user_id = auth.uid());
+
+-- Contents of gallery templates that point at a profile's uploads, saved by
+-- anyone who can edit the profile. Gallery cleanup (lib/storage.ts) keeps
+-- those files alive even though the templates themselves are private to
+-- their account. Templates from anyone else never pin the profile's files,
+-- whatever URLs they contain.
+CREATE OR REPLACE FUNCTION gallery_template_content(p_profile_id UUID)
+RETURNS TABLE (content JSONB)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT t.content
+  FROM section_templates t
+  WHERE t.type = 'gallery'
+    AND t.content::text LIKE '%/profiles/' || p_profile_id::text || '/gallery/%'
+    AND can_edit_profile(p_profile_id)
+    AND (
+      EXISTS (SELECT 1 FROM profiles p WHERE p.id = p_profile_id AND p.user_id = t.user_id)
+      OR EXISTS (
+        SELECT 1 FROM profile_members m
+        WHERE m.profile_id = p_profile_id
+          AND m.user_id = t.user_id
+          AND m.accepted_at IS NOT NULL
+          AND m.role IN ('owner', 'editor')
+      )
+    )
+$$;
+
+GRANT EXECUTE ON FUNCTION gallery_template_content(UUID) TO authenticated;
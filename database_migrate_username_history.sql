@@ -0,0 +1,101 @@
+-- ========================================
+-- MIGRATION: USERNAME CHANGES
+-- ========================================
+-- Run this once in the Supabase SQL Editor on databases created before
+-- usernames could be changed. Fresh installs get the same schema from
+-- database_setup.sql. Requires database_migrate_webhooks.sql.
+-- ========================================
+
+-- Handles a profile has given up. Visitors to an old handle are redirected to
+-- the profile's current one until somebody else claims it, which other
+-- profiles can only do once the 90 day hold has passed. A profile may change
+-- its username once every 30 days. lib/username.ts mirrors both intervals.
+CREATE TABLE IF NOT EXISTS username_history (
+  username TEXT PRIMARY KEY,
+  profile_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  released_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_username_history_profile ON username_history(profile_id, released_at);
+
+ALTER TABLE username_history ENABLE ROW LEVEL SECURITY;
+
+-- Old handles are as public as current ones; rows are only written by the
+-- trigger below
+DROP POLICY IF EXISTS "username_history_select" ON username_history;
+CREATE POLICY "username_history_select" ON username_history FOR SELECT
+  USING (true);
+
+-- Whether a profile (or a new one, when p_profile_id is NULL) may take a username
+CREATE OR REPLACE FUNCTION username_available(p_username TEXT, p_profile_id UUID DEFAULT NULL)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE username = lower(p_username)
+      AND id IS DISTINCT FROM p_profile_id
+  ) AND NOT EXISTS (
+    SELECT 1 FROM username_history
+    WHERE username = lower(p_username)
+      AND profile_id IS DISTINCT FROM p_profile_id
+      AND released_at > NOW() - INTERVAL '90 days'
+  )
+$$;
+
+GRANT EXECUTE ON FUNCTION username_available(TEXT, UUID) TO anon, authenticated;
+
+-- Enforce the hold and cooldown on every insert or rename, and record the
+-- handle a rename gives up. Only the owner may rename a profile; editors and
+-- API tokens get an error.
+CREATE OR REPLACE FUNCTION track_username_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_last_change TIMESTAMP WITH TIME ZONE;
+BEGIN
+  NEW.username := lower(NEW.username);
+
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.username = OLD.username THEN
+      RETURN NEW;
+    END IF;
+
+    IF auth.role() IN ('anon', 'authenticated') AND profile_role(NEW.id) IS DISTINCT FROM 'owner' THEN
+      RAISE EXCEPTION 'Only the profile owner can change its username';
+    END IF;
+
+    SELECT max(released_at) INTO v_last_change
+    FROM username_history
+    WHERE profile_id = NEW.id;
+
+    IF v_last_change > NOW() - INTERVAL '30 days' THEN
+      RAISE EXCEPTION 'Username was changed too recently';
+    END IF;
+  END IF;
+
+  IF NOT username_available(NEW.username, NEW.id) THEN
+    RAISE EXCEPTION 'Username is already taken' USING ERRCODE = 'unique_violation';
+  END IF;
+
+  -- Claiming a handle, including taking back one of your own, ends any
+  -- redirect from it
+  DELETE FROM username_history WHERE username = NEW.username;
+
+  IF TG_OP = 'UPDATE' THEN
+    INSERT INTO username_history (username, profile_id)
+    VALUES (OLD.username, NEW.id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS profiles_username_history ON profiles;
+CREATE TRIGGER profiles_username_history
+  BEFORE INSERT OR UPDATE OF username ON profiles
+  FOR EACH ROW EXECUTE FUNCTION track_username_change();
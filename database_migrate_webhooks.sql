@@ -0,0 +1,239 @@
+-- ========================================
+-- MIGRATION: WEBHOOKS
+-- ========================================
+-- Run this once in the Supabase SQL Editor on databases created before
+-- webhooks existed. Fresh installs get the same schema from
+-- database_setup.sql. Requires database_migrate_api_tokens.sql.
+-- ========================================
+
+-- Deliveries are signed in the database with HMAC-SHA256, so editors who
+-- trigger events never get to read an endpoint's secret
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- Endpoints that receive signed JSON when a profile or its sections change.
+-- Only the profile owner manages them and sees their secrets.
+CREATE TABLE IF NOT EXISTS webhooks (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  profile_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  url TEXT NOT NULL,
+  secret TEXT NOT NULL,
+  events TEXT[] NOT NULL CHECK (
+    cardinality(events) > 0
+    AND events <@ ARRAY['profile.updated', 'section.created', 'section.updated', 'section.deleted', 'section.reordered']
+  ),
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- One row per event per endpoint. Pending rows are retried with exponential
+-- backoff until they succeed or run out of attempts.
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  webhook_id UUID NOT NULL REFERENCES webhooks(id) ON DELETE CASCADE,
+  profile_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  event TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'succeeded', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  last_status_code INTEGER,
+  last_error TEXT,
+  delivered_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Endpoint URLs must be https:// on a public host, however they are written;
+-- /api/webhooks checks the same before saving, and delivery checks the
+-- resolved address again. A development database may accept local http://
+-- receivers after: ALTER DATABASE postgres SET app.allow_local_webhooks = 'on';
+CREATE OR REPLACE FUNCTION check_webhook_url()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_host TEXT := lower(substring(NEW.url FROM '^[A-Za-z]+://([^/?#]*)'));
+BEGIN
+  IF current_setting('app.allow_local_webhooks', true) = 'on' AND NEW.url ~* '^https?://[^/?#@]+' THEN
+    RETURN NEW;
+  END IF;
+
+  v_host := regexp_replace(v_host, ':[0-9]*$', '');
+
+  IF NEW.url !~* '^https://'
+    OR v_host IS NULL
+    OR v_host = ''
+    OR v_host LIKE '%@%'
+    OR v_host LIKE '[%'
+    OR v_host = 'localhost'
+    OR v_host ~ '\.(localhost|local|internal)\.?$'
+    OR v_host ~ '^(0|10|127)\.'
+    OR v_host ~ '^169\.254\.'
+    OR v_host ~ '^192\.168\.'
+    OR v_host ~ '^172\.(1[6-9]|2[0-9]|3[01])\.'
+    -- Shorthand and hex spellings of addresses, like 2130706433 or 0x7f.1
+    OR (v_host ~ '^[0-9.]+$' AND v_host !~ '^[0-9]+\.[0-9]+\.[0-9]+\.[0-9]+$')
+    OR v_host ~ '^0x'
+  THEN
+    RAISE EXCEPTION 'Webhook URLs must be https:// on a public host' USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS webhooks_url_check ON webhooks;
+CREATE TRIGGER webhooks_url_check
+  BEFORE INSERT OR UPDATE OF url ON webhooks
+  FOR EACH ROW EXECUTE FUNCTION check_webhook_url();
+
+CREATE INDEX IF NOT EXISTS idx_webhooks_profile ON webhooks(profile_id);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_profile ON webhook_deliveries(profile_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(next_attempt_at) WHERE status = 'pending';
+
+ALTER TABLE webhooks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "webhooks_select" ON webhooks;
+DROP POLICY IF EXISTS "webhooks_insert" ON webhooks;
+DROP POLICY IF EXISTS "webhooks_update" ON webhooks;
+DROP POLICY IF EXISTS "webhooks_delete" ON webhooks;
+DROP POLICY IF EXISTS "webhook_deliveries_select" ON webhook_deliveries;
+DROP POLICY IF EXISTS "webhook_deliveries_update" ON webhook_deliveries;
+
+CREATE POLICY "webhooks_select" ON webhooks FOR SELECT
+  USING (profile_role(profile_id) = 'owner');
+
+CREATE POLICY "webhooks_insert" ON webhooks FOR INSERT
+  WITH CHECK (profile_role(profile_id) = 'owner');
+
+CREATE POLICY "webhooks_update" ON webhooks FOR UPDATE
+  USING (profile_role(profile_id) = 'owner');
+
+CREATE POLICY "webhooks_delete" ON webhooks FOR DELETE
+  USING (profile_role(profile_id) = 'owner');
+
+-- Deliveries are written by the functions below; owners may only read them
+-- and put one back in the queue
+CREATE POLICY "webhook_deliveries_select" ON webhook_deliveries FOR SELECT
+  USING (profile_role(profile_id) = 'owner');
+
+CREATE POLICY "webhook_deliveries_update" ON webhook_deliveries FOR UPDATE
+  USING (profile_role(profile_id) = 'owner');
+
+-- Queue an event for every active endpoint subscribed to it, or for just
+-- p_webhook_id (used by test pings). Any editor may trigger events, but only
+-- the ones listed in WEBHOOK_EVENTS (lib/webhooks.ts); ping needs a target.
+CREATE OR REPLACE FUNCTION enqueue_webhook_event(
+  p_profile_id UUID,
+  p_event TEXT,
+  p_data JSONB,
+  p_webhook_id UUID DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  IF NOT can_edit_profile(p_profile_id) THEN
+    RAISE EXCEPTION 'Not allowed to send events for this profile';
+  END IF;
+
+  IF NOT (p_event IN ('profile.updated', 'section.created', 'section.updated', 'section.deleted', 'section.reordered')
+      OR (p_event = 'ping' AND p_webhook_id IS NOT NULL)) THEN
+    RAISE EXCEPTION 'Unknown webhook event %', p_event USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  INSERT INTO webhook_deliveries (webhook_id, profile_id, event, payload)
+  SELECT w.id, w.profile_id, p_event, jsonb_build_object(
+    'event', p_event,
+    'profile_id', p_profile_id,
+    'created_at', NOW(),
+    'data', p_data
+  )
+  FROM webhooks w
+  WHERE w.profile_id = p_profile_id
+    AND w.active
+    AND (CASE WHEN p_webhook_id IS NULL THEN p_event = ANY (w.events) ELSE w.id = p_webhook_id END);
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION enqueue_webhook_event(UUID, TEXT, JSONB, UUID) TO anon, authenticated;
+
+-- Take due deliveries off the queue, signed and ready to send. Claimed rows
+-- are leased for two minutes so concurrent workers don't double-send. A
+-- NULL profile drains every profile. Signing needs the endpoint secrets, so
+-- this and record_webhook_attempt() are for the service role only.
+CREATE OR REPLACE FUNCTION claim_webhook_deliveries(p_profile_id UUID, p_limit INTEGER DEFAULT 10)
+RETURNS TABLE (delivery_id UUID, target_url TEXT, event_name TEXT, sent_at TEXT, body TEXT, signature TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_sent_at TEXT := floor(extract(epoch FROM NOW()))::BIGINT::TEXT;
+BEGIN
+  RETURN QUERY
+  WITH due AS (
+    SELECT d.id
+    FROM webhook_deliveries d
+    JOIN webhooks w ON w.id = d.webhook_id
+    WHERE d.status = 'pending'
+      AND d.next_attempt_at <= NOW()
+      AND w.active
+      AND (p_profile_id IS NULL OR d.profile_id = p_profile_id)
+    ORDER BY d.next_attempt_at
+    LIMIT p_limit
+    FOR UPDATE OF d SKIP LOCKED
+  ), claimed AS (
+    UPDATE webhook_deliveries d
+    SET next_attempt_at = NOW() + INTERVAL '2 minutes'
+    FROM due, webhooks w
+    WHERE d.id = due.id
+      AND w.id = d.webhook_id
+    RETURNING d.id, w.url, d.event, d.payload::TEXT AS body, w.secret
+  )
+  SELECT c.id, c.url, c.event, v_sent_at, c.body,
+    encode(extensions.hmac(v_sent_at || '.' || c.body, c.secret, 'sha256'), 'hex')
+  FROM claimed c;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION claim_webhook_deliveries(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_webhook_deliveries(UUID, INTEGER) TO service_role;
+
+-- Store the outcome of one attempt. Failures back off exponentially from 30
+-- seconds; after p_max_attempts the delivery is marked failed for good.
+CREATE OR REPLACE FUNCTION record_webhook_attempt(
+  p_delivery_id UUID,
+  p_status_code INTEGER,
+  p_error TEXT,
+  p_max_attempts INTEGER DEFAULT 8
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_success BOOLEAN := p_status_code BETWEEN 200 AND 299;
+BEGIN
+  UPDATE webhook_deliveries
+  SET attempts = attempts + 1,
+      last_status_code = p_status_code,
+      last_error = CASE WHEN v_success THEN NULL ELSE p_error END,
+      status = CASE
+        WHEN v_success THEN 'succeeded'
+        WHEN attempts + 1 >= p_max_attempts THEN 'failed'
+        ELSE 'pending'
+      END,
+      delivered_at = CASE WHEN v_success THEN NOW() ELSE delivered_at END,
+      next_attempt_at = NOW() + INTERVAL '30 seconds' * power(2, attempts)
+  WHERE id = p_delivery_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION record_webhook_attempt(UUID, INTEGER, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_webhook_attempt(UUID, INTEGER, TEXT, INTEGER) TO service_role;
@@ -2,19 +2,26 @@
 CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
 
 -- Drop existing tables and policies (clean slate)
+DROP TABLE IF EXISTS profile_members CASCADE;
 DROP TABLE IF EXISTS sections CASCADE;
 DROP TABLE IF EXISTS profiles CASCADE;
 
 -- Create profiles table with foreign key to auth.users
+-- An account may own several profiles
 CREATE TABLE profiles (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
-  user_id UUID NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
   username TEXT UNIQUE NOT NULL,
   display_name TEXT,
   bio TEXT,
   avatar_url TEXT,
   banner_url TEXT,
   theme TEXT DEFAULT 'default',
+  -- Who may see the profile; see "Access modes" below
+  access TEXT NOT NULL DEFAULT 'public' CHECK (access IN ('public', 'unlisted', 'password', 'signed_in')),
+  -- Opted in to /explore; see "Profile directory" below
+  in_directory BOOLEAN NOT NULL DEFAULT false,
+  published_at TIMESTAMP WITH TIME ZONE,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
@@ -28,49 +35,1778 @@ CREATE TABLE sections (
   content JSONB NOT NULL,
   position INTEGER NOT NULL,
   visible BOOLEAN DEFAULT true,
+  access TEXT NOT NULL DEFAULT 'public' CHECK (access IN ('public', 'unlisted', 'password', 'signed_in')),
+  publish_at TIMESTAMP WITH TIME ZONE,
+  unpublish_at TIMESTAMP WITH TIME ZONE,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (publish_at IS NULL OR unpublish_at IS NULL OR unpublish_at > publish_at)
+);
+
+-- Collaborators on a profile. The account in profiles.user_id is always an
+-- implicit owner; rows here grant access to everyone else. user_id stays NULL
+-- until the emailed invitation is accepted.
+CREATE TABLE profile_members (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  profile_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('owner', 'editor', 'viewer')),
+  invite_token TEXT UNIQUE NOT NULL,
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  accepted_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (profile_id, email)
 );
 
 -- Create indexes for better query performance
 CREATE INDEX idx_profiles_username ON profiles(username);
 CREATE INDEX idx_profiles_user_id ON profiles(user_id);
 CREATE INDEX idx_sections_profile ON sections(profile_id);
+CREATE INDEX idx_profile_members_user ON profile_members(user_id);
+
+-- Role of the current user on a profile: 'owner', 'editor', 'viewer' or NULL.
+-- SECURITY DEFINER so policies can call it without recursing into RLS.
+-- Requests authenticated by a personal access token (see api_tokens)
+-- are capped: never 'owner', and only 'viewer' without a write scope.
+CREATE OR REPLACE FUNCTION profile_role(p_profile_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_role TEXT;
+  v_token RECORD;
+BEGIN
+  SELECT CASE
+    WHEN EXISTS (SELECT 1 FROM profiles WHERE id = p_profile_id AND user_id = request_user_id()) THEN 'owner'
+    ELSE (
+      SELECT role FROM profile_members
+      WHERE profile_id = p_profile_id
+        AND user_id = request_user_id()
+        AND accepted_at IS NOT NULL
+    )
+  END INTO v_role;
+
+  IF v_role IS NULL OR auth.uid() IS NOT NULL THEN
+    RETURN v_role;
+  END IF;
+
+  SELECT * INTO v_token FROM request_api_token();
+
+  IF v_token.profile_id IS NOT NULL AND v_token.profile_id <> p_profile_id THEN
+    RETURN NULL;
+  END IF;
+
+  IF v_role = 'viewer' OR NOT (v_token.scopes && ARRAY['profile:write', 'sections:write', 'publish']) THEN
+    RETURN 'viewer';
+  END IF;
+
+  RETURN 'editor';
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION can_edit_profile(p_profile_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(profile_role(p_profile_id) IN ('owner', 'editor'), false)
+$$;
+
+CREATE OR REPLACE FUNCTION can_view_profile(p_profile_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT profile_role(p_profile_id) IS NOT NULL
+$$;
+
+GRANT EXECUTE ON FUNCTION profile_role(UUID) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION can_edit_profile(UUID) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION can_view_profile(UUID) TO anon, authenticated;
+
+-- Editors may update a profile, but only its primary owner can hand it over
+CREATE OR REPLACE FUNCTION prevent_profile_owner_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.user_id IS DISTINCT FROM OLD.user_id THEN
+    RAISE EXCEPTION 'Profile owner cannot be changed';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER profiles_owner_immutable
+  BEFORE UPDATE ON profiles
+  FOR EACH ROW EXECUTE FUNCTION prevent_profile_owner_change();
+
+-- Who may see a profile, and whether it is listed in /explore, are the
+-- owner's call; editors can change everything else
+CREATE OR REPLACE FUNCTION prevent_profile_access_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF (NEW.access IS DISTINCT FROM OLD.access OR NEW.in_directory IS DISTINCT FROM OLD.in_directory)
+    AND profile_role(OLD.id) IS DISTINCT FROM 'owner'
+    AND auth.role() IS DISTINCT FROM 'service_role'
+  THEN
+    RAISE EXCEPTION 'Only the profile owner can change who sees it';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER profiles_access_owner_only
+  BEFORE UPDATE ON profiles
+  FOR EACH ROW EXECUTE FUNCTION prevent_profile_access_change();
 
 -- Enable Row Level Security
 ALTER TABLE profiles ENABLE ROW LEVEL SECURITY;
 ALTER TABLE sections ENABLE ROW LEVEL SECURITY;
+ALTER TABLE profile_members ENABLE ROW LEVEL SECURITY;
 
 -- Drop existing policies if they exist (prevents conflicts)
 DROP POLICY IF EXISTS "profiles_insert" ON profiles;
 DROP POLICY IF EXISTS "profiles_select" ON profiles;
 DROP POLICY IF EXISTS "profiles_update" ON profiles;
+DROP POLICY IF EXISTS "profiles_delete" ON profiles;
 DROP POLICY IF EXISTS "sections_insert" ON sections;
 DROP POLICY IF EXISTS "sections_select" ON sections;
 DROP POLICY IF EXISTS "sections_update" ON sections;
 DROP POLICY IF EXISTS "sections_delete" ON sections;
+DROP POLICY IF EXISTS "profile_members_select" ON profile_members;
+DROP POLICY IF EXISTS "profile_members_insert" ON profile_members;
+DROP POLICY IF EXISTS "profile_members_update" ON profile_members;
+DROP POLICY IF EXISTS "profile_members_delete" ON profile_members;
 
 -- Create profiles policies
-CREATE POLICY "profiles_insert" ON profiles FOR INSERT
-  WITH CHECK (auth.uid() = user_id);
+-- There is no insert policy: profiles are created through
+-- create_profile_for_user() below
 
-CREATE POLICY "profiles_select" ON profiles FOR SELECT
-  USING (true);
+-- profiles_select depends on the access mode helpers; see "Access modes"
 
 CREATE POLICY "profiles_update" ON profiles FOR UPDATE
+  USING (can_edit_profile(id));
+
+CREATE POLICY "profiles_delete" ON profiles FOR DELETE
   USING (auth.uid() = user_id);
 
+-- Earlier versions took the owner as a parameter from any caller
+DROP FUNCTION IF EXISTS create_profile_for_user(UUID, TEXT, TEXT);
+
+-- Create a profile for the signed-in account. This is the only way profiles
+-- are created, so the limit of 5 per account can't be skipped; concurrent
+-- calls from one account wait for each other so they can't both pass it.
+CREATE OR REPLACE FUNCTION create_profile_for_user(p_username TEXT, p_display_name TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  c_limit CONSTANT INTEGER := 5;
+  v_user_id UUID := auth.uid();
+  v_profile_id UUID;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not signed in' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext('create_profile:' || v_user_id::TEXT));
+
+  IF (SELECT COUNT(*) FROM profiles WHERE user_id = v_user_id) >= c_limit THEN
+    RAISE EXCEPTION 'You can have at most % profiles', c_limit USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO profiles (user_id, username, display_name)
+  VALUES (v_user_id, p_username, p_display_name)
+  RETURNING id INTO v_profile_id;
+
+  RETURN v_profile_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION create_profile_for_user(TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION create_profile_for_user(TEXT, TEXT) TO authenticated;
+
 -- Create sections policies
 CREATE POLICY "sections_insert" ON sections FOR INSERT
+  WITH CHECK (can_edit_profile(profile_id));
+
+-- sections_select depends on the access mode helpers; see "Access modes"
+
+CREATE POLICY "sections_update" ON sections FOR UPDATE
+  USING (can_edit_profile(profile_id));
+
+CREATE POLICY "sections_delete" ON sections FOR DELETE
+  USING (can_edit_profile(profile_id));
+
+-- Create profile_members policies
+-- Members see the whole team; invitees see their own pending invitation
+CREATE POLICY "profile_members_select" ON profile_members FOR SELECT
+  USING (can_view_profile(profile_id) OR user_id = auth.uid());
+
+CREATE POLICY "profile_members_insert" ON profile_members FOR INSERT
+  WITH CHECK (profile_role(profile_id) = 'owner');
+
+CREATE POLICY "profile_members_update" ON profile_members FOR UPDATE
+  USING (profile_role(profile_id) = 'owner');
+
+-- Owners remove anyone; members may leave on their own
+CREATE POLICY "profile_members_delete" ON profile_members FOR DELETE
+  USING (profile_role(profile_id) = 'owner' OR user_id = auth.uid());
+
+-- Invite tokens are secrets: members list each other without them, and only
+-- owners read them, through profile_invite_tokens(). Updates are limited to
+-- the role; accepting goes through accept_profile_invite().
+REVOKE SELECT, UPDATE ON profile_members FROM anon, authenticated;
+GRANT SELECT (id, profile_id, user_id, email, role, invited_by, accepted_at, created_at)
+  ON profile_members TO authenticated;
+GRANT UPDATE (role) ON profile_members TO authenticated;
+
+-- Tokens of a profile's pending invitations, for its owners
+CREATE OR REPLACE FUNCTION profile_invite_tokens(p_profile_id UUID)
+RETURNS TABLE (id UUID, invite_token TEXT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT m.id, m.invite_token
+  FROM profile_members m
+  WHERE m.profile_id = p_profile_id
+    AND m.accepted_at IS NULL
+    AND profile_role(p_profile_id) = 'owner'
+$$;
+
+GRANT EXECUTE ON FUNCTION profile_invite_tokens(UUID) TO authenticated;
+
+-- Accept an invitation for the signed-in user; the account email must match
+CREATE OR REPLACE FUNCTION accept_profile_invite(p_token TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_profile_id UUID;
+BEGIN
+  UPDATE profile_members
+  SET user_id = auth.uid(),
+      accepted_at = NOW()
+  WHERE invite_token = p_token
+    AND accepted_at IS NULL
+    AND lower(email) = (SELECT lower(email) FROM auth.users WHERE id = auth.uid())
+  RETURNING profile_id INTO v_profile_id;
+
+  RETURN v_profile_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION accept_profile_invite(TEXT) TO authenticated;
+
+-- Rewrite every draft section position for a profile in one statement.
+-- Runs with the caller's privileges, so the draft_sections_update policy still
+-- applies. The new order reaches visitors on the next publish_profile().
+CREATE OR REPLACE FUNCTION reorder_sections(
+  p_profile_id UUID,
+  p_section_ids UUID[]
+)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF COALESCE(array_length(p_section_ids, 1), 0) <>
+     (SELECT COUNT(*)::INTEGER FROM draft_sections WHERE profile_id = p_profile_id) THEN
+    RAISE EXCEPTION 'Section IDs must match the profile sections exactly';
+  END IF;
+
+  UPDATE draft_sections s
+  SET position = o.ordinality - 1,
+      updated_at = NOW()
+  FROM unnest(p_section_ids) WITH ORDINALITY AS o(id, ordinality)
+  WHERE s.id = o.id
+    AND s.profile_id = p_profile_id;
+END;
+$$;
+
+-- Signed-in users only; /api/v1 reorders with the service role once it has
+-- checked the token, because token requests reach the database as anon
+REVOKE EXECUTE ON FUNCTION reorder_sections(UUID, UUID[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION reorder_sections(UUID, UUID[]) TO authenticated, service_role;
+
+-- ========================================
+-- Custom domains
+-- ========================================
+DROP TABLE IF EXISTS domains CASCADE;
+
+-- Anyone may claim a hostname; it only routes once the DNS record proves
+-- control. So hostnames are unique among verified rows only, and a pending
+-- claim can't block the real owner.
+CREATE TABLE domains (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  profile_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  hostname TEXT NOT NULL,
+  verification_token TEXT NOT NULL,
+  verified_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (profile_id, hostname)
+);
+
+CREATE INDEX idx_domains_profile ON domains(profile_id);
+CREATE UNIQUE INDEX idx_domains_verified_hostname ON domains(hostname) WHERE verified_at IS NOT NULL;
+
+ALTER TABLE domains ENABLE ROW LEVEL SECURITY;
+
+-- Only owners can see tokens; public lookups go through resolve_domain()
+CREATE POLICY "domains_select" ON domains FOR SELECT
+  USING (profile_role(profile_id) = 'owner');
+
+-- There is no update policy: verified_at is only set by /api/domains/verify,
+-- with the service role, after it has checked DNS
+CREATE POLICY "domains_insert" ON domains FOR INSERT
+  WITH CHECK (profile_role(profile_id) = 'owner' AND verified_at IS NULL);
+
+CREATE POLICY "domains_delete" ON domains FOR DELETE
+  USING (profile_role(profile_id) = 'owner');
+
+-- Map a verified hostname to its profile's username (used by middleware)
+CREATE OR REPLACE FUNCTION resolve_domain(p_hostname TEXT)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT p.username
+  FROM domains d
+  JOIN profiles p ON p.id = d.profile_id
+  WHERE d.hostname = lower(p_hostname)
+    AND d.verified_at IS NOT NULL
+$$;
+
+GRANT EXECUTE ON FUNCTION resolve_domain(TEXT) TO anon, authenticated;
+
+-- ========================================
+-- Analytics events
+-- ========================================
+DROP TABLE IF EXISTS events CASCADE;
+
+CREATE TABLE events (
+  id BIGSERIAL PRIMARY KEY,
+  profile_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN ('page_view', 'section_view', 'link_click')),
+  section_id UUID REFERENCES sections(id) ON DELETE SET NULL,
+  target_url TEXT,
+  referrer TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_events_profile_created ON events(profile_id, created_at);
+
+ALTER TABLE events ENABLE ROW LEVEL SECURITY;
+
+-- Visitors may record events; a section must belong to the same profile
+CREATE POLICY "events_insert" ON events FOR INSERT
+  WITH CHECK (
+    section_id IS NULL OR
+    EXISTS (SELECT 1 FROM sections WHERE id = section_id AND sections.profile_id = events.profile_id)
+  );
+
+CREATE POLICY "events_select" ON events FOR SELECT
+  USING (can_view_profile(profile_id));
+
+-- Dashboard aggregates; runs as the caller so events_select limits it to members
+CREATE OR REPLACE FUNCTION profile_analytics(p_profile_id UUID, p_days INTEGER DEFAULT 30)
+RETURNS JSON
+LANGUAGE sql
+STABLE
+AS $$
+  WITH recent AS (
+    SELECT * FROM events
+    WHERE profile_id = p_profile_id
+      AND created_at >= CURRENT_DATE - (p_days - 1)
+  )
+  SELECT json_build_object(
+    'daily_views', (
+      SELECT COALESCE(json_agg(d ORDER BY d.day), '[]'::json)
+      FROM (
+        SELECT gs::date AS day, COUNT(r.id) AS views
+        FROM generate_series(CURRENT_DATE - (p_days - 1), CURRENT_DATE, INTERVAL '1 day') gs
+        LEFT JOIN recent r ON r.type = 'page_view' AND r.created_at::date = gs::date
+        GROUP BY gs
+      ) d
+    ),
+    'top_links', (
+      SELECT COALESCE(json_agg(l), '[]'::json)
+      FROM (
+        SELECT target_url AS url, COUNT(*) AS clicks
+        FROM recent
+        WHERE type = 'link_click'
+        GROUP BY target_url
+        ORDER BY clicks DESC
+        LIMIT 10
+      ) l
+    ),
+    'top_referrers', (
+      SELECT COALESCE(json_agg(rf), '[]'::json)
+      FROM (
+        SELECT referrer, COUNT(*) AS views
+        FROM recent
+        WHERE type = 'page_view' AND referrer IS NOT NULL
+        GROUP BY referrer
+        ORDER BY views DESC
+        LIMIT 10
+      ) rf
+    ),
+    'section_views', (
+      SELECT COALESCE(json_agg(sv), '[]'::json)
+      FROM (
+        SELECT r.section_id, s.title, COUNT(*) AS views
+        FROM recent r
+        JOIN sections s ON s.id = r.section_id
+        WHERE r.type = 'section_view'
+        GROUP BY r.section_id, s.title
+        ORDER BY views DESC
+      ) sv
+    )
+  )
+$$;
+
+GRANT EXECUTE ON FUNCTION profile_analytics(UUID, INTEGER) TO authenticated;
+
+-- ========================================
+-- Section revisions
+-- ========================================
+DROP TABLE IF EXISTS section_revisions CASCADE;
+
+-- Snapshot of a section taken before each update, delete or restore.
+-- section_id has no foreign key so history survives the section being deleted.
+CREATE TABLE section_revisions (
+  id BIGSERIAL PRIMARY KEY,
+  section_id UUID NOT NULL,
+  profile_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  action TEXT NOT NULL CHECK (action IN ('update', 'delete', 'restore')),
+  title TEXT NOT NULL,
+  type TEXT NOT NULL,
+  content JSONB NOT NULL,
+  position INTEGER NOT NULL,
+  visible BOOLEAN NOT NULL,
+  access TEXT NOT NULL DEFAULT 'public',
+  publish_at TIMESTAMP WITH TIME ZONE,
+  unpublish_at TIMESTAMP WITH TIME ZONE,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_section_revisions_section ON section_revisions(section_id, created_at);
+CREATE INDEX idx_section_revisions_profile ON section_revisions(profile_id, created_at);
+
+ALTER TABLE section_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Append-only: there are deliberately no UPDATE or DELETE policies
+CREATE POLICY "section_revisions_select" ON section_revisions FOR SELECT
+  USING (can_view_profile(profile_id));
+
+CREATE POLICY "section_revisions_insert" ON section_revisions FOR INSERT
+  WITH CHECK (can_edit_profile(profile_id) AND created_by = request_user_id());
+
+-- ========================================
+-- Drafts and publishing
+-- ========================================
+DROP TABLE IF EXISTS draft_sections CASCADE;
+DROP TABLE IF EXISTS profile_drafts CASCADE;
+
+-- Unpublished edits. The dashboard works on these tables only; profiles and
+-- sections hold what visitors see until publish_profile() copies drafts over.
+-- A profile without a profile_drafts row has no pending profile field changes.
+CREATE TABLE profile_drafts (
+  profile_id UUID PRIMARY KEY REFERENCES profiles(id) ON DELETE CASCADE,
+  display_name TEXT,
+  bio TEXT,
+  avatar_url TEXT,
+  banner_url TEXT,
+  theme TEXT DEFAULT 'default',
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Same shape as sections; a published section keeps its draft's ID
+CREATE TABLE draft_sections (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  profile_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  type TEXT NOT NULL,
+  content JSONB NOT NULL,
+  position INTEGER NOT NULL,
+  visible BOOLEAN DEFAULT true,
+  access TEXT NOT NULL DEFAULT 'public' CHECK (access IN ('public', 'unlisted', 'password', 'signed_in')),
+  publish_at TIMESTAMP WITH TIME ZONE,
+  unpublish_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (publish_at IS NULL OR unpublish_at IS NULL OR unpublish_at > publish_at)
+);
+
+CREATE INDEX idx_draft_sections_profile ON draft_sections(profile_id);
+
+ALTER TABLE profile_drafts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE draft_sections ENABLE ROW LEVEL SECURITY;
+
+-- Drafts are never public
+CREATE POLICY "profile_drafts_select" ON profile_drafts FOR SELECT
+  USING (can_view_profile(profile_id));
+
+CREATE POLICY "profile_drafts_insert" ON profile_drafts FOR INSERT
+  WITH CHECK (can_edit_profile(profile_id));
+
+CREATE POLICY "profile_drafts_update" ON profile_drafts FOR UPDATE
+  USING (can_edit_profile(profile_id));
+
+CREATE POLICY "draft_sections_select" ON draft_sections FOR SELECT
+  USING (can_view_profile(profile_id));
+
+CREATE POLICY "draft_sections_insert" ON draft_sections FOR INSERT
+  WITH CHECK (can_edit_profile(profile_id));
+
+CREATE POLICY "draft_sections_update" ON draft_sections FOR UPDATE
+  USING (can_edit_profile(profile_id));
+
+CREATE POLICY "draft_sections_delete" ON draft_sections FOR DELETE
+  USING (can_edit_profile(profile_id));
+
+-- True when the draft differs from what visitors currently see
+CREATE OR REPLACE FUNCTION has_unpublished_changes(p_profile_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM profile_drafts d
+    JOIN profiles p ON p.id = d.profile_id
+    WHERE d.profile_id = p_profile_id
+      AND (d.display_name, d.bio, d.avatar_url, d.banner_url, d.theme)
+        IS DISTINCT FROM (p.display_name, p.bio, p.avatar_url, p.banner_url, p.theme)
+  ) OR EXISTS (
+    (SELECT id, title, type, content, position, visible, access, publish_at, unpublish_at FROM draft_sections WHERE profile_id = p_profile_id
+     EXCEPT
+     SELECT id, title, type, content, position, visible, access, publish_at, unpublish_at FROM sections WHERE profile_id = p_profile_id)
+    UNION ALL
+    (SELECT id, title, type, content, position, visible, access, publish_at, unpublish_at FROM sections WHERE profile_id = p_profile_id
+     EXCEPT
+     SELECT id, title, type, content, position, visible, access, publish_at, unpublish_at FROM draft_sections WHERE profile_id = p_profile_id)
+  )
+$$;
+
+GRANT EXECUTE ON FUNCTION has_unpublished_changes(UUID) TO anon, authenticated;
+
+-- Promote every draft change for a profile in one transaction, so visitors
+-- never see half a publish. Runs with the caller's privileges; the profiles
+-- and sections policies still decide who may publish.
+CREATE OR REPLACE FUNCTION publish_profile(p_profile_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NOT can_edit_profile(p_profile_id) THEN
+    RAISE EXCEPTION 'Not allowed to publish this profile';
+  END IF;
+
+  -- Through the API, only a request checked for the publish scope may publish
+  IF auth.uid() IS NULL AND NOT EXISTS (SELECT 1 FROM request_api_token() WHERE 'publish' = ANY(scopes)) THEN
+    RAISE EXCEPTION 'Not allowed to publish this profile';
+  END IF;
+
+  UPDATE profiles p
+  SET display_name = d.display_name,
+      bio = d.bio,
+      avatar_url = d.avatar_url,
+      banner_url = d.banner_url,
+      theme = d.theme,
+      updated_at = NOW()
+  FROM profile_drafts d
+  WHERE d.profile_id = p.id
+    AND p.id = p_profile_id;
+
+  DELETE FROM sections
+  WHERE profile_id = p_profile_id
+    AND id NOT IN (SELECT id FROM draft_sections WHERE profile_id = p_profile_id);
+
+  -- updated_at only moves for sections that actually changed
+  INSERT INTO sections (id, profile_id, title, type, content, position, visible, access, publish_at, unpublish_at)
+  SELECT id, profile_id, title, type, content, position, visible, access, publish_at, unpublish_at
+  FROM draft_sections
+  WHERE profile_id = p_profile_id
+  ON CONFLICT (id) DO UPDATE
+  SET title = EXCLUDED.title,
+      content = EXCLUDED.content,
+      position = EXCLUDED.position,
+      visible = EXCLUDED.visible,
+      access = EXCLUDED.access,
+      publish_at = EXCLUDED.publish_at,
+      unpublish_at = EXCLUDED.unpublish_at,
+      updated_at = NOW()
+  WHERE (sections.title, sections.content, sections.position, sections.visible, sections.access,
+         sections.publish_at, sections.unpublish_at)
+    IS DISTINCT FROM (EXCLUDED.title, EXCLUDED.content, EXCLUDED.position, EXCLUDED.visible, EXCLUDED.access,
+         EXCLUDED.publish_at, EXCLUDED.unpublish_at);
+
+  UPDATE profiles SET published_at = NOW() WHERE id = p_profile_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION publish_profile(UUID) TO anon, authenticated;
+
+-- Import a bundle into the draft in one transaction, so a failed import never
+-- leaves the draft half replaced. With p_replace the draft sections are kept
+-- as "delete" revisions and removed, and p_profile replaces the draft profile
+-- details; otherwise the sections go after the existing ones. p_sections is
+-- the bundle's already validated section list (see lib/bundle.ts). Runs with
+-- the caller's privileges, so the draft and revision policies still apply.
+CREATE OR REPLACE FUNCTION import_profile_draft(
+  p_profile_id UUID,
+  p_replace BOOLEAN,
+  p_profile JSONB,
+  p_sections JSONB
+)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_offset INTEGER := 0;
+BEGIN
+  IF NOT can_edit_profile(p_profile_id) THEN
+    RAISE EXCEPTION 'Not allowed to import into this profile';
+  END IF;
+
+  IF p_replace THEN
+    INSERT INTO section_revisions (section_id, profile_id, action, title, type, content, position, visible, access,
+                                   publish_at, unpublish_at, created_by)
+    SELECT id, profile_id, 'delete', title, type, content, position, COALESCE(visible, true), access,
+           publish_at, unpublish_at, request_user_id()
+    FROM draft_sections
+    WHERE profile_id = p_profile_id;
+
+    DELETE FROM draft_sections WHERE profile_id = p_profile_id;
+
+    INSERT INTO profile_drafts (profile_id, display_name, bio, avatar_url, banner_url, theme, updated_at)
+    VALUES (p_profile_id, p_profile->>'display_name', p_profile->>'bio', p_profile->>'avatar_url',
+            p_profile->>'banner_url', p_profile->>'theme', NOW())
+    ON CONFLICT (profile_id) DO UPDATE
+    SET display_name = EXCLUDED.display_name,
+        bio = EXCLUDED.bio,
+        avatar_url = EXCLUDED.avatar_url,
+        banner_url = EXCLUDED.banner_url,
+        theme = EXCLUDED.theme,
+        updated_at = NOW();
+  ELSE
+    SELECT COALESCE(MAX(position) + 1, 0) INTO v_offset
+    FROM draft_sections
+    WHERE profile_id = p_profile_id;
+  END IF;
+
+  INSERT INTO draft_sections (profile_id, title, type, content, position, visible, access, publish_at, unpublish_at)
+  SELECT p_profile_id,
+         s.value->>'title',
+         s.value->>'type',
+         s.value->'content',
+         v_offset + s.ordinality::INTEGER - 1,
+         COALESCE((s.value->>'visible')::BOOLEAN, true),
+         COALESCE(s.value->>'access', 'public'),
+         (s.value->>'publish_at')::TIMESTAMPTZ,
+         (s.value->>'unpublish_at')::TIMESTAMPTZ
+  FROM jsonb_array_elements(p_sections) WITH ORDINALITY AS s(value, ordinality);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION import_profile_draft(UUID, BOOLEAN, JSONB, JSONB) TO authenticated;
+
+-- ========================================
+-- Storage
+-- ========================================
+-- Gallery uploads live under profiles/<profile_id>/ in the public "Profiles"
+-- bucket. Public URLs need no policy; listing, writing and removing files is
+-- limited to editors of that profile.
+DROP POLICY IF EXISTS "profile_uploads_select" ON storage.objects;
+DROP POLICY IF EXISTS "profile_uploads_insert" ON storage.objects;
+DROP POLICY IF EXISTS "profile_uploads_delete" ON storage.objects;
+
+CREATE POLICY "profile_uploads_select" ON storage.objects FOR SELECT
+  USING (
+    bucket_id = 'Profiles'
+    AND (storage.foldername(name))[1] = 'profiles'
+    AND can_edit_profile(((storage.foldername(name))[2])::uuid)
+  );
+
+CREATE POLICY "profile_uploads_insert" ON storage.objects FOR INSERT
   WITH CHECK (
-    auth.uid() = (SELECT user_id FROM profiles WHERE id = profile_id)
+    bucket_id = 'Profiles'
+    AND (storage.foldername(name))[1] = 'profiles'
+    AND can_edit_profile(((storage.foldername(name))[2])::uuid)
+  );
+
+CREATE POLICY "profile_uploads_delete" ON storage.objects FOR DELETE
+  USING (
+    bucket_id = 'Profiles'
+    AND (storage.foldername(name))[1] = 'profiles'
+    AND can_edit_profile(((storage.foldername(name))[2])::uuid)
   );
 
+-- ========================================
+-- Personal access tokens
+-- ========================================
+DROP TABLE IF EXISTS api_token_sessions CASCADE;
+DROP TABLE IF EXISTS api_tokens CASCADE;
+
+-- Sessions are keyed with random bytes from pgcrypto
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- Credentials for the /api/v1 endpoints. Only a SHA-256 hash is stored; the
+-- token itself is shown once, when it is created. A token acts as its user,
+-- limited by its scopes and, when profile_id is set, to that one profile.
+CREATE TABLE api_tokens (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  profile_id UUID REFERENCES profiles(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  token_hash TEXT NOT NULL UNIQUE,
+  token_prefix TEXT NOT NULL,
+  scopes TEXT[] NOT NULL CHECK (
+    cardinality(scopes) > 0
+    AND scopes <@ ARRAY['profile:read', 'profile:write', 'sections:read', 'sections:write', 'publish']
+  ),
+  expires_at TIMESTAMP WITH TIME ZONE,
+  last_used_at TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  rate_window_start TIMESTAMP WITH TIME ZONE,
+  rate_window_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_api_tokens_user ON api_tokens(user_id);
+
+ALTER TABLE api_tokens ENABLE ROW LEVEL SECURITY;
+
+-- Tokens are managed from a signed-in session only, never with a token
+CREATE POLICY "api_tokens_select" ON api_tokens FOR SELECT
+  USING (user_id = auth.uid());
+
+CREATE POLICY "api_tokens_insert" ON api_tokens FOR INSERT
+  WITH CHECK (user_id = auth.uid());
+
+-- Revoking is the only change a user may make to a token once it exists, so
+-- there is no UPDATE policy
+CREATE OR REPLACE FUNCTION revoke_api_token(p_token_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+SECURITY DEFINER
+AS $$
+  WITH revoked AS (
+    UPDATE api_tokens
+    SET revoked_at = NOW()
+    WHERE id = p_token_id
+      AND user_id = auth.uid()
+      AND revoked_at IS NULL
+    RETURNING id
+  )
+  SELECT EXISTS (SELECT 1 FROM revoked)
+$$;
+
+GRANT EXECUTE ON FUNCTION revoke_api_token(UUID) TO authenticated;
+
+-- Short-lived credentials the API routes open with use_api_token() once a
+-- request has passed its token's rate limit and scope check. The database
+-- trusts only these, never a token itself, so a token sent straight to the
+-- database API gets nothing. Each session carries the one scope its request
+-- was checked for. No policies: only the functions below use this table.
+CREATE TABLE api_token_sessions (
+  key_hash TEXT PRIMARY KEY,
+  token_id UUID NOT NULL REFERENCES api_tokens(id) ON DELETE CASCADE,
+  scope TEXT NOT NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+CREATE INDEX idx_api_token_sessions_token ON api_token_sessions(token_id);
+
+ALTER TABLE api_token_sessions ENABLE ROW LEVEL SECURITY;
+
+-- The token behind the session sent in the x-selfbook-session request
+-- header, if any, with the session's scope. The API routes set that header
+-- on their database client after use_api_token() accepts the request.
+CREATE OR REPLACE FUNCTION request_api_token()
+RETURNS TABLE (id UUID, user_id UUID, profile_id UUID, scopes TEXT[])
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT t.id, t.user_id, t.profile_id, ARRAY[s.scope]
+  FROM api_token_sessions s
+  JOIN api_tokens t ON t.id = s.token_id
+  WHERE s.key_hash = encode(sha256(convert_to(
+      NULLIF(current_setting('request.headers', true), '')::json ->> 'x-selfbook-session', 'UTF8')), 'hex')
+    AND s.expires_at > NOW()
+    AND t.revoked_at IS NULL
+    AND (t.expires_at IS NULL OR t.expires_at > NOW())
+$$;
+
+-- The signed-in user, or else the user behind the request's access token
+CREATE OR REPLACE FUNCTION request_user_id()
+RETURNS UUID
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(auth.uid(), (SELECT user_id FROM request_api_token()))
+$$;
+
+GRANT EXECUTE ON FUNCTION request_user_id() TO anon, authenticated;
+
+-- Count one API request against its token's budget of 120 a minute and,
+-- when it is within budget and the token has p_scope, open a session for it.
+-- Returns no row when the token is missing, revoked or expired, and a NULL
+-- session_key when the request must be refused. Server-only: the API routes
+-- call it with the service role.
+CREATE OR REPLACE FUNCTION use_api_token(p_token_hash TEXT, p_scope TEXT)
+RETURNS TABLE (
+  session_key TEXT,
+  user_id UUID,
+  profile_id UUID,
+  scopes TEXT[],
+  rate_limit INTEGER,
+  remaining INTEGER,
+  reset_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+#variable_conflict use_column
+DECLARE
+  c_limit CONSTANT INTEGER := 120;
+  v_token api_tokens%ROWTYPE;
+  v_key TEXT;
+BEGIN
+  UPDATE api_tokens t
+  SET last_used_at = NOW(),
+      rate_window_start = CASE
+        WHEN t.rate_window_start IS NULL OR t.rate_window_start <= NOW() - INTERVAL '1 minute' THEN NOW()
+        ELSE t.rate_window_start
+      END,
+      rate_window_count = CASE
+        WHEN t.rate_window_start IS NULL OR t.rate_window_start <= NOW() - INTERVAL '1 minute' THEN 1
+        ELSE t.rate_window_count + 1
+      END
+  WHERE t.token_hash = p_token_hash
+    AND t.revoked_at IS NULL
+    AND (t.expires_at IS NULL OR t.expires_at > NOW())
+  RETURNING t.* INTO v_token;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  DELETE FROM api_token_sessions WHERE token_id = v_token.id AND expires_at <= NOW();
+
+  IF v_token.rate_window_count <= c_limit AND p_scope = ANY(v_token.scopes) THEN
+    v_key := encode(extensions.gen_random_bytes(32), 'hex');
+    INSERT INTO api_token_sessions (key_hash, token_id, scope, expires_at)
+    VALUES (encode(sha256(convert_to(v_key, 'UTF8')), 'hex'), v_token.id, p_scope, NOW() + INTERVAL '5 minutes');
+  END IF;
+
+  RETURN QUERY SELECT v_key, v_token.user_id, v_token.profile_id, v_token.scopes, c_limit,
+    c_limit - v_token.rate_window_count, v_token.rate_window_start + INTERVAL '1 minute';
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION use_api_token(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION use_api_token(TEXT, TEXT) TO service_role;
+
+-- ========================================
+-- Webhooks
+-- ========================================
+DROP TABLE IF EXISTS webhook_deliveries CASCADE;
+DROP TABLE IF EXISTS webhooks CASCADE;
+
+-- Deliveries are signed in the database with HMAC-SHA256, so editors who
+-- trigger events never get to read an endpoint's secret
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- Endpoints that receive signed JSON when a profile or its sections change.
+-- Only the profile owner manages them and sees their secrets.
+CREATE TABLE webhooks (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  profile_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  url TEXT NOT NULL,
+  secret TEXT NOT NULL,
+  events TEXT[] NOT NULL CHECK (
+    cardinality(events) > 0
+    AND events <@ ARRAY['profile.updated', 'section.created', 'section.updated', 'section.deleted', 'section.reordered']
+  ),
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- One row per event per endpoint. Pending rows are retried with exponential
+-- backoff until they succeed or run out of attempts.
+CREATE TABLE webhook_deliveries (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  webhook_id UUID NOT NULL REFERENCES webhooks(id) ON DELETE CASCADE,
+  profile_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  event TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'succeeded', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  last_status_code INTEGER,
+  last_error TEXT,
+  delivered_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Endpoint URLs must be https:// on a public host, however they are written;
+-- /api/webhooks checks the same before saving, and delivery checks the
+-- resolved address again. A development database may accept local http://
+-- receivers after: ALTER DATABASE postgres SET app.allow_local_webhooks = 'on';
+CREATE OR REPLACE FUNCTION check_webhook_url()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_host TEXT := lower(substring(NEW.url FROM '^[A-Za-z]+://([^/?#]*)'));
+BEGIN
+  IF current_setting('app.allow_local_webhooks', true) = 'on' AND NEW.url ~* '^https?://[^/?#@]+' THEN
+    RETURN NEW;
+  END IF;
+
+  v_host := regexp_replace(v_host, ':[0-9]*$', '');
+
+  IF NEW.url !~* '^https://'
+    OR v_host IS NULL
+    OR v_host = ''
+    OR v_host LIKE '%@%'
+    OR v_host LIKE '[%'
+    OR v_host = 'localhost'
+    OR v_host ~ '\.(localhost|local|internal)\.?$'
+    OR v_host ~ '^(0|10|127)\.'
+    OR v_host ~ '^169\.254\.'
+    OR v_host ~ '^192\.168\.'
+    OR v_host ~ '^172\.(1[6-9]|2[0-9]|3[01])\.'
+    -- Shorthand and hex spellings of addresses, like 2130706433 or 0x7f.1
+    OR (v_host ~ '^[0-9.]+$' AND v_host !~ '^[0-9]+\.[0-9]+\.[0-9]+\.[0-9]+$')
+    OR v_host ~ '^0x'
+  THEN
+    RAISE EXCEPTION 'Webhook URLs must be https:// on a public host' USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER webhooks_url_check
+  BEFORE INSERT OR UPDATE OF url ON webhooks
+  FOR EACH ROW EXECUTE FUNCTION check_webhook_url();
+
+CREATE INDEX idx_webhooks_profile ON webhooks(profile_id);
+CREATE INDEX idx_webhook_deliveries_profile ON webhook_deliveries(profile_id, created_at);
+CREATE INDEX idx_webhook_deliveries_due ON webhook_deliveries(next_attempt_at) WHERE status = 'pending';
+
+ALTER TABLE webhooks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "webhooks_select" ON webhooks FOR SELECT
+  USING (profile_role(profile_id) = 'owner');
+
+CREATE POLICY "webhooks_insert" ON webhooks FOR INSERT
+  WITH CHECK (profile_role(profile_id) = 'owner');
+
+CREATE POLICY "webhooks_update" ON webhooks FOR UPDATE
+  USING (profile_role(profile_id) = 'owner');
+
+CREATE POLICY "webhooks_delete" ON webhooks FOR DELETE
+  USING (profile_role(profile_id) = 'owner');
+
+-- Deliveries are written by the functions below; owners may only read them
+-- and put one back in the queue
+CREATE POLICY "webhook_deliveries_select" ON webhook_deliveries FOR SELECT
+  USING (profile_role(profile_id) = 'owner');
+
+CREATE POLICY "webhook_deliveries_update" ON webhook_deliveries FOR UPDATE
+  USING (profile_role(profile_id) = 'owner');
+
+-- Queue an event for every active endpoint subscribed to it, or for just
+-- p_webhook_id (used by test pings). Any editor may trigger events, but only
+-- the ones listed in WEBHOOK_EVENTS (lib/webhooks.ts); ping needs a target.
+CREATE OR REPLACE FUNCTION enqueue_webhook_event(
+  p_profile_id UUID,
+  p_event TEXT,
+  p_data JSONB,
+  p_webhook_id UUID DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  IF NOT can_edit_profile(p_profile_id) THEN
+    RAISE EXCEPTION 'Not allowed to send events for this profile';
+  END IF;
+
+  IF NOT (p_event IN ('profile.updated', 'section.created', 'section.updated', 'section.deleted', 'section.reordered')
+      OR (p_event = 'ping' AND p_webhook_id IS NOT NULL)) THEN
+    RAISE EXCEPTION 'Unknown webhook event %', p_event USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  INSERT INTO webhook_deliveries (webhook_id, profile_id, event, payload)
+  SELECT w.id, w.profile_id, p_event, jsonb_build_object(
+    'event', p_event,
+    'profile_id', p_profile_id,
+    'created_at', NOW(),
+    'data', p_data
+  )
+  FROM webhooks w
+  WHERE w.profile_id = p_profile_id
+    AND w.active
+    AND (CASE WHEN p_webhook_id IS NULL THEN p_event = ANY (w.events) ELSE w.id = p_webhook_id END);
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION enqueue_webhook_event(UUID, TEXT, JSONB, UUID) TO anon, authenticated;
+
+-- Take due deliveries off the queue, signed and ready to send. Claimed rows
+-- are leased for two minutes so concurrent workers don't double-send. A
+-- NULL profile drains every profile. Signing needs the endpoint secrets, so
+-- this and record_webhook_attempt() are for the service role only.
+CREATE OR REPLACE FUNCTION claim_webhook_deliveries(p_profile_id UUID, p_limit INTEGER DEFAULT 10)
+RETURNS TABLE (delivery_id UUID, target_url TEXT, event_name TEXT, sent_at TEXT, body TEXT, signature TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_sent_at TEXT := floor(extract(epoch FROM NOW()))::BIGINT::TEXT;
+BEGIN
+  RETURN QUERY
+  WITH due AS (
+    SELECT d.id
+    FROM webhook_deliveries d
+    JOIN webhooks w ON w.id = d.webhook_id
+    WHERE d.status = 'pending'
+      AND d.next_attempt_at <= NOW()
+      AND w.active
+      AND (p_profile_id IS NULL OR d.profile_id = p_profile_id)
+    ORDER BY d.next_attempt_at
+    LIMIT p_limit
+    FOR UPDATE OF d SKIP LOCKED
+  ), claimed AS (
+    UPDATE webhook_deliveries d
+    SET next_attempt_at = NOW() + INTERVAL '2 minutes'
+    FROM due, webhooks w
+    WHERE d.id = due.id
+      AND w.id = d.webhook_id
+    RETURNING d.id, w.url, d.event, d.payload::TEXT AS body, w.secret
+  )
+  SELECT c.id, c.url, c.event, v_sent_at, c.body,
+    encode(extensions.hmac(v_sent_at || '.' || c.body, c.secret, 'sha256'), 'hex')
+  FROM claimed c;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION claim_webhook_deliveries(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_webhook_deliveries(UUID, INTEGER) TO service_role;
+
+-- Store the outcome of one attempt. Failures back off exponentially from 30
+-- seconds; after p_max_attempts the delivery is marked failed for good.
+CREATE OR REPLACE FUNCTION record_webhook_attempt(
+  p_delivery_id UUID,
+  p_status_code INTEGER,
+  p_error TEXT,
+  p_max_attempts INTEGER DEFAULT 8
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_success BOOLEAN := p_status_code BETWEEN 200 AND 299;
+BEGIN
+  UPDATE webhook_deliveries
+  SET attempts = attempts + 1,
+      last_status_code = p_status_code,
+      last_error = CASE WHEN v_success THEN NULL ELSE p_error END,
+      status = CASE
+        WHEN v_success THEN 'succeeded'
+        WHEN attempts + 1 >= p_max_attempts THEN 'failed'
+        ELSE 'pending'
+      END,
+      delivered_at = CASE WHEN v_success THEN NOW() ELSE delivered_at END,
+      next_attempt_at = NOW() + INTERVAL '30 seconds' * power(2, attempts)
+  WHERE id = p_delivery_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION record_webhook_attempt(UUID, INTEGER, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_webhook_attempt(UUID, INTEGER, TEXT, INTEGER) TO service_role;
+
+-- ========================================
+-- Username history
+-- ========================================
+DROP TABLE IF EXISTS username_history CASCADE;
+
+-- Handles a profile has given up. Visitors to an old handle are redirected to
+-- the profile's current one until somebody else claims it, which other
+-- profiles can only do once the 90 day hold has passed. A profile may change
+-- its username once every 30 days. lib/username.ts mirrors both intervals.
+CREATE TABLE username_history (
+  username TEXT PRIMARY KEY,
+  profile_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  released_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_username_history_profile ON username_history(profile_id, released_at);
+
+ALTER TABLE username_history ENABLE ROW LEVEL SECURITY;
+
+-- Old handles are as public as current ones; rows are only written by the
+-- trigger below
+CREATE POLICY "username_history_select" ON username_history FOR SELECT
+  USING (true);
+
+-- Whether a profile (or a new one, when p_profile_id is NULL) may take a username
+CREATE OR REPLACE FUNCTION username_available(p_username TEXT, p_profile_id UUID DEFAULT NULL)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE username = lower(p_username)
+      AND id IS DISTINCT FROM p_profile_id
+  ) AND NOT EXISTS (
+    SELECT 1 FROM username_history
+    WHERE username = lower(p_username)
+      AND profile_id IS DISTINCT FROM p_profile_id
+      AND released_at > NOW() - INTERVAL '90 days'
+  )
+$$;
+
+GRANT EXECUTE ON FUNCTION username_available(TEXT, UUID) TO anon, authenticated;
+
+-- Enforce the hold and cooldown on every insert or rename, and record the
+-- handle a rename gives up. Only the owner may rename a profile; editors and
+-- API tokens get an error.
+CREATE OR REPLACE FUNCTION track_username_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_last_change TIMESTAMP WITH TIME ZONE;
+BEGIN
+  NEW.username := lower(NEW.username);
+
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.username = OLD.username THEN
+      RETURN NEW;
+    END IF;
+
+    IF auth.role() IN ('anon', 'authenticated') AND profile_role(NEW.id) IS DISTINCT FROM 'owner' THEN
+      RAISE EXCEPTION 'Only the profile owner can change its username';
+    END IF;
+
+    SELECT max(released_at) INTO v_last_change
+    FROM username_history
+    WHERE profile_id = NEW.id;
+
+    IF v_last_change > NOW() - INTERVAL '30 days' THEN
+      RAISE EXCEPTION 'Username was changed too recently';
+    END IF;
+  END IF;
+
+  IF NOT username_available(NEW.username, NEW.id) THEN
+    RAISE EXCEPTION 'Username is already taken' USING ERRCODE = 'unique_violation';
+  END IF;
+
+  -- Claiming a handle, including taking back one of your own, ends any
+  -- redirect from it
+  DELETE FROM username_history WHERE username = NEW.username;
+
+  IF TG_OP = 'UPDATE' THEN
+    INSERT INTO username_history (username, profile_id)
+    VALUES (OLD.username, NEW.id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER profiles_username_history
+  BEFORE INSERT OR UPDATE OF username ON profiles
+  FOR EACH ROW EXECUTE FUNCTION track_username_change();
+
+-- ========================================
+-- Access modes
+-- ========================================
+-- profiles.access and sections.access decide who may see a profile or one
+-- of its sections:
+--   public     anyone, and listed in search and the sitemap
+--   unlisted   anyone with the link, but never listed
+--   password   visitors holding an unlock token for it (see unlock_access)
+--   signed_in  any signed-in account
+-- Members of a profile always see everything. A section's access is drafted
+-- like its other fields; a profile's applies immediately.
+DROP TABLE IF EXISTS access_passwords CASCADE;
+DROP TABLE IF EXISTS unlock_attempts CASCADE;
+
+-- Passwords for password-protected profiles and sections, keyed by the
+-- profile or section ID. Unlock tokens are signed with unlock_secret, which
+-- is replaced along with the password so changing it locks everyone out
+-- again. No policies: only the functions below read or write this table.
+CREATE TABLE access_passwords (
+  target_id UUID PRIMARY KEY,
+  profile_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  password_hash TEXT NOT NULL,
+  unlock_secret TEXT NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_access_passwords_profile ON access_passwords(profile_id);
+
+ALTER TABLE access_passwords ENABLE ROW LEVEL SECURITY;
+
+-- Set the password for a profile (p_target_id = p_profile_id) or one of its
+-- sections. Owners protect profiles; any editor may protect a section.
+CREATE OR REPLACE FUNCTION set_access_password(p_profile_id UUID, p_target_id UUID, p_password TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+BEGIN
+  IF p_target_id = p_profile_id THEN
+    IF profile_role(p_profile_id) IS DISTINCT FROM 'owner' THEN
+      RAISE EXCEPTION 'Not allowed to protect this profile';
+    END IF;
+  ELSIF NOT can_edit_profile(p_profile_id) THEN
+    RAISE EXCEPTION 'Not allowed to protect this section';
+  ELSIF NOT EXISTS (SELECT 1 FROM draft_sections WHERE id = p_target_id AND profile_id = p_profile_id) THEN
+    RAISE EXCEPTION 'Section not found';
+  END IF;
+
+  INSERT INTO access_passwords (target_id, profile_id, password_hash, unlock_secret)
+  VALUES (p_target_id, p_profile_id, crypt(p_password, gen_salt('bf')), encode(gen_random_bytes(32), 'hex'))
+  ON CONFLICT (target_id) DO UPDATE
+  SET password_hash = EXCLUDED.password_hash,
+      unlock_secret = EXCLUDED.unlock_secret,
+      updated_at = NOW();
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION set_access_password(UUID, UUID, TEXT) TO authenticated;
+
+CREATE OR REPLACE FUNCTION has_access_password(p_target_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT EXISTS (SELECT 1 FROM access_passwords WHERE target_id = p_target_id)
+$$;
+
+GRANT EXECUTE ON FUNCTION has_access_password(UUID) TO anon, authenticated;
+
+-- Failed password attempts, counted per visitor so nobody can guess
+-- passwords at full speed. Counting per target instead would let anyone lock
+-- the owner and every real visitor out by failing on purpose. client_hash is
+-- a SHA-256 of the visitor's address. No policies: only unlock_access() reads
+-- or writes this table.
+CREATE TABLE unlock_attempts (
+  id BIGSERIAL PRIMARY KEY,
+  target_id UUID NOT NULL,
+  client_hash TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_unlock_attempts_client ON unlock_attempts(client_hash, created_at);
+
+ALTER TABLE unlock_attempts ENABLE ROW LEVEL SECURITY;
+
+-- Check a password and return a token that unlocks the target for 30 days,
+-- "<target_id>.<expiry epoch>.<hmac>", or NULL when the password is wrong.
+-- After 10 failures from one visitor in 15 minutes their password is not
+-- checked at all and locked is true. Only the unlock route calls this, with
+-- the service role, because it supplies p_client_hash.
+CREATE OR REPLACE FUNCTION unlock_access(p_profile_id UUID, p_target_id UUID, p_password TEXT, p_client_hash TEXT)
+RETURNS TABLE (token TEXT, locked BOOLEAN)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  c_window CONSTANT INTERVAL := INTERVAL '15 minutes';
+  c_client_limit CONSTANT INTEGER := 10;
+  v_secret TEXT;
+  v_payload TEXT;
+BEGIN
+  IF (SELECT COUNT(*) FROM unlock_attempts
+      WHERE client_hash = p_client_hash AND created_at > NOW() - c_window) >= c_client_limit
+  THEN
+    RETURN QUERY SELECT NULL::TEXT, true;
+    RETURN;
+  END IF;
+
+  SELECT unlock_secret INTO v_secret
+  FROM access_passwords
+  WHERE target_id = p_target_id
+    AND profile_id = p_profile_id
+    AND password_hash = crypt(p_password, password_hash);
+
+  IF v_secret IS NULL THEN
+    INSERT INTO unlock_attempts (target_id, client_hash) VALUES (p_target_id, p_client_hash);
+    DELETE FROM unlock_attempts WHERE created_at < NOW() - INTERVAL '1 day';
+    RETURN QUERY SELECT NULL::TEXT, false;
+    RETURN;
+  END IF;
+
+  v_payload := p_target_id || '.' || extract(epoch FROM NOW() + INTERVAL '30 days')::BIGINT;
+  RETURN QUERY SELECT v_payload || '.' || encode(hmac(v_payload, v_secret, 'sha256'), 'hex'), false;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION unlock_access(UUID, UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION unlock_access(UUID, UUID, TEXT, TEXT) TO service_role;
+
+-- Whether the request carries a valid, unexpired unlock token for the target.
+-- The app forwards the visitor's unlock cookie in the x-selfbook-unlock
+-- header as a comma-separated list of tokens.
+CREATE OR REPLACE FUNCTION access_unlocked(p_target_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM access_passwords a,
+      unnest(string_to_array(
+        NULLIF(current_setting('request.headers', true), '')::json ->> 'x-selfbook-unlock', ',')) AS token
+    WHERE a.target_id = p_target_id
+      AND split_part(token, '.', 1) = p_target_id::TEXT
+      AND split_part(token, '.', 2) ~ '^[0-9]{1,12}$'
+      AND to_timestamp(split_part(token, '.', 2)::BIGINT) > NOW()
+      AND split_part(token, '.', 3) = encode(hmac(
+        split_part(token, '.', 1) || '.' || split_part(token, '.', 2), a.unlock_secret, 'sha256'), 'hex')
+  )
+$$;
+
+-- Whether the current request satisfies an access mode
+CREATE OR REPLACE FUNCTION access_allowed(p_access TEXT, p_target_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT CASE p_access
+    WHEN 'signed_in' THEN request_user_id() IS NOT NULL
+    WHEN 'password' THEN access_unlocked(p_target_id)
+    ELSE true
+  END
+$$;
+
+GRANT EXECUTE ON FUNCTION access_allowed(TEXT, UUID) TO anon, authenticated;
+
+-- Whether the current request may see a profile at all
+CREATE OR REPLACE FUNCTION can_see_profile(p_profile_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT EXISTS (SELECT 1 FROM profiles WHERE id = p_profile_id AND access_allowed(access, id))
+    OR profile_role(p_profile_id) IS NOT NULL
+$$;
+
+GRANT EXECUTE ON FUNCTION can_see_profile(UUID) TO anon, authenticated;
+
+DROP POLICY IF EXISTS "profiles_select" ON profiles;
+DROP POLICY IF EXISTS "sections_select" ON sections;
+
+CREATE POLICY "profiles_select" ON profiles FOR SELECT
+  USING (access_allowed(access, id) OR profile_role(id) IS NOT NULL);
+
+-- Visitors only see a section inside its optional publish_at/unpublish_at
+-- window, when both it and its profile let them in
 CREATE POLICY "sections_select" ON sections FOR SELECT
-  USING (visible = true OR auth.uid() = (SELECT user_id FROM profiles WHERE id = profile_id));
+  USING (
+    (visible = true
+      AND (publish_at IS NULL OR publish_at <= NOW())
+      AND (unpublish_at IS NULL OR unpublish_at > NOW())
+      AND access_allowed(access, id)
+      AND can_see_profile(profile_id))
+    OR can_view_profile(profile_id)
+  );
 
-CREATE POLICY "sections_update" ON sections FOR UPDATE
-  USING (auth.uid() = (SELECT user_id FROM profiles WHERE id = profile_id));
+-- How a profile is gated, for visitors the profiles policy keeps out, so the
+-- page can ask for a password or a sign-in instead of showing a 404
+CREATE OR REPLACE FUNCTION profile_gate(p_username TEXT)
+RETURNS TABLE (profile_id UUID, access TEXT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT p.id, p.access FROM profiles p WHERE p.username = lower(p_username)
+$$;
 
-CREATE POLICY "sections_delete" ON sections FOR DELETE
-  USING (auth.uid() = (SELECT user_id FROM profiles WHERE id = profile_id));
+GRANT EXECUTE ON FUNCTION profile_gate(TEXT) TO anon, authenticated;
+
+-- Live sections of a visible profile that the current request can't open
+-- yet. Only their titles are revealed, so the page can offer to unlock them.
+-- Members see every section and so never get any.
+CREATE OR REPLACE FUNCTION locked_sections(p_profile_id UUID)
+RETURNS TABLE (id UUID, title TEXT, access TEXT, "position" INTEGER)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT s.id, s.title, s.access, s.position
+  FROM sections s
+  WHERE s.profile_id = p_profile_id
+    AND can_see_profile(p_profile_id)
+    AND profile_role(p_profile_id) IS NULL
+    AND s.visible = true
+    AND (s.publish_at IS NULL OR s.publish_at <= NOW())
+    AND (s.unpublish_at IS NULL OR s.unpublish_at > NOW())
+    AND NOT access_allowed(s.access, s.id)
+  ORDER BY s.position
+$$;
+
+GRANT EXECUTE ON FUNCTION locked_sections(UUID) TO anon, authenticated;
+
+-- ========================================
+-- Contact messages
+-- ========================================
+DROP TABLE IF EXISTS messages CASCADE;
+
+-- Submissions from contact_form sections. Visitors never write the table
+-- directly; submit_message() checks the form is live and applies the rate
+-- limit. Editors work the inbox.
+CREATE TABLE messages (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  profile_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  section_id UUID REFERENCES sections(id) ON DELETE SET NULL,
+  -- [{ "label": ..., "value": ... }] as the form read when it was sent
+  fields JSONB NOT NULL CHECK (jsonb_typeof(fields) = 'array'),
+  reply_to TEXT,
+  -- Hash of the sender's address, only used for rate limiting
+  sender_hash TEXT NOT NULL,
+  read_at TIMESTAMP WITH TIME ZONE,
+  archived_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_messages_profile ON messages(profile_id, created_at);
+CREATE INDEX idx_messages_sender ON messages(sender_hash, created_at);
+
+ALTER TABLE messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "messages_select" ON messages FOR SELECT
+  USING (can_edit_profile(profile_id));
+
+CREATE POLICY "messages_update" ON messages FOR UPDATE
+  USING (can_edit_profile(profile_id));
+
+-- Store a submission for a live contact_form section. Returns NULL once the
+-- sender has sent 5 messages to the profile in the last hour; the
+-- profile-wide cap of 200 is a backstop for senders that change address.
+-- Only the contact route calls this, with the service role, after reading
+-- the section as the visitor so its access mode still applies; p_sender_hash
+-- is a SHA-256 of the address the hosting platform reports.
+CREATE OR REPLACE FUNCTION submit_message(
+  p_section_id UUID,
+  p_fields JSONB,
+  p_reply_to TEXT,
+  p_sender_hash TEXT
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  c_sender_limit CONSTANT INTEGER := 5;
+  c_profile_limit CONSTANT INTEGER := 200;
+  v_profile_id UUID;
+  v_id UUID;
+BEGIN
+  SELECT s.profile_id INTO v_profile_id
+  FROM sections s
+  WHERE s.id = p_section_id
+    AND s.type = 'contact_form'
+    AND s.visible = true
+    AND (s.publish_at IS NULL OR s.publish_at <= NOW())
+    AND (s.unpublish_at IS NULL OR s.unpublish_at > NOW());
+
+  IF v_profile_id IS NULL THEN
+    RAISE EXCEPTION 'This form is not accepting messages';
+  END IF;
+
+  IF jsonb_typeof(p_fields) <> 'array' OR pg_column_size(p_fields) > 65536 THEN
+    RAISE EXCEPTION 'Invalid message';
+  END IF;
+
+  -- One sender at a time per profile, so concurrent posts can't slip past the count
+  PERFORM pg_advisory_xact_lock(hashtext(v_profile_id::TEXT || p_sender_hash));
+
+  IF (
+    SELECT COUNT(*) FROM messages
+    WHERE profile_id = v_profile_id
+      AND sender_hash = p_sender_hash
+      AND created_at > NOW() - INTERVAL '1 hour'
+  ) >= c_sender_limit OR (
+    SELECT COUNT(*) FROM messages
+    WHERE profile_id = v_profile_id
+      AND created_at > NOW() - INTERVAL '1 hour'
+  ) >= c_profile_limit THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO messages (profile_id, section_id, fields, reply_to, sender_hash)
+  VALUES (v_profile_id, p_section_id, p_fields, NULLIF(p_reply_to, ''), p_sender_hash)
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION submit_message(UUID, JSONB, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION submit_message(UUID, JSONB, TEXT, TEXT) TO service_role;
+
+-- Unread, unarchived messages per profile; runs as the caller so
+-- messages_select limits it to profiles they edit
+CREATE OR REPLACE FUNCTION unread_message_counts()
+RETURNS TABLE (profile_id UUID, unread INTEGER)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT m.profile_id, COUNT(*)::INTEGER
+  FROM messages m
+  WHERE m.read_at IS NULL
+    AND m.archived_at IS NULL
+  GROUP BY m.profile_id
+$$;
+
+GRANT EXECUTE ON FUNCTION unread_message_counts() TO anon, authenticated;
+
+-- ========================================
+-- Profile directory
+-- ========================================
+
+-- What /explore searches. The 'simple' configuration keeps handles and names
+-- intact and lets every word be matched as a prefix.
+CREATE OR REPLACE FUNCTION profile_search_vector(p_username TEXT, p_display_name TEXT, p_bio TEXT)
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT setweight(to_tsvector('simple'::regconfig, coalesce(p_username, '')), 'A')
+    || setweight(to_tsvector('simple'::regconfig, coalesce(p_display_name, '')), 'A')
+    || setweight(to_tsvector('simple'::regconfig, coalesce(p_bio, '')), 'B')
+$$;
+
+CREATE INDEX idx_profiles_search ON profiles USING GIN (profile_search_vector(username, display_name, bio));
+
+-- Free text to a prefix query: "jan design" matches "jane" and "designer".
+-- NULL when there is nothing to search for.
+CREATE OR REPLACE FUNCTION directory_query(p_query TEXT)
+RETURNS tsquery
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT to_tsquery('simple'::regconfig, string_agg(quote_literal(word) || ':*', ' & '))
+  FROM regexp_split_to_table(lower(coalesce(p_query, '')), '[^[:alnum:]]+') AS word
+  WHERE word <> ''
+$$;
+
+-- One page of public profiles that opted in to the directory, best matches
+-- first, with the total number of matches on every row
+CREATE OR REPLACE FUNCTION search_directory(p_query TEXT, p_limit INTEGER, p_offset INTEGER)
+RETURNS TABLE (
+  id UUID,
+  username TEXT,
+  display_name TEXT,
+  bio TEXT,
+  avatar_url TEXT,
+  total BIGINT
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT p.id, p.username, p.display_name, p.bio, p.avatar_url, COUNT(*) OVER ()
+  FROM profiles p
+  LEFT JOIN LATERAL (SELECT directory_query(p_query) AS query) q ON true
+  WHERE p.in_directory
+    AND p.access = 'public'
+    AND (q.query IS NULL OR profile_search_vector(p.username, p.display_name, p.bio) @@ q.query)
+  ORDER BY
+    CASE WHEN q.query IS NULL THEN 0
+      ELSE ts_rank(profile_search_vector(p.username, p.display_name, p.bio), q.query) END DESC,
+    p.updated_at DESC,
+    p.id
+  LIMIT LEAST(p_limit, 100)
+  OFFSET GREATEST(p_offset, 0)
+$$;
+
+GRANT EXECUTE ON FUNCTION search_directory(TEXT, INTEGER, INTEGER) TO anon, authenticated;
+
+-- ========================================
+-- Follows
+-- ========================================
+DROP TABLE IF EXISTS follows CASCADE;
+
+-- One profile following another. Accounts follow through one of their own
+-- profiles, so someone with several profiles keeps a separate feed for each.
+CREATE TABLE follows (
+  follower_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  following_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (follower_id, following_id),
+  CHECK (follower_id <> following_id)
+);
+
+CREATE INDEX idx_follows_following ON follows(following_id);
+CREATE INDEX idx_sections_updated ON sections(profile_id, updated_at DESC, id DESC);
+
+ALTER TABLE follows ENABLE ROW LEVEL SECURITY;
+
+-- Who follows whom is visible to the members of either profile; everyone
+-- else only gets the counts from follow_counts()
+CREATE POLICY "follows_select" ON follows FOR SELECT
+  USING (can_view_profile(follower_id) OR can_view_profile(following_id));
+
+-- Editors follow on the profile's behalf, and only profiles they can see
+CREATE POLICY "follows_insert" ON follows FOR INSERT
+  WITH CHECK (
+    can_edit_profile(follower_id)
+    AND EXISTS (SELECT 1 FROM profiles WHERE id = following_id)
+  );
+
+CREATE POLICY "follows_delete" ON follows FOR DELETE
+  USING (can_edit_profile(follower_id));
+
+-- Follower and following counts for a profile the caller can see
+CREATE OR REPLACE FUNCTION follow_counts(p_profile_id UUID)
+RETURNS TABLE (followers INTEGER, following INTEGER)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT
+    (SELECT COUNT(*)::INTEGER FROM follows WHERE following_id = p_profile_id),
+    (SELECT COUNT(*)::INTEGER FROM follows WHERE follower_id = p_profile_id)
+  WHERE can_see_profile(p_profile_id)
+$$;
+
+GRANT EXECUTE ON FUNCTION follow_counts(UUID) TO anon, authenticated;
+
+-- Recently updated live sections of the profiles p_profile_id follows,
+-- newest first. Runs as the caller, so access modes hide whatever they
+-- can't open; members would otherwise also see hidden and scheduled sections.
+-- Pages continue after the last row's (updated_at, section_id), since
+-- several sections can share an updated_at when a profile is published.
+CREATE OR REPLACE FUNCTION following_feed(
+  p_profile_id UUID,
+  p_limit INTEGER DEFAULT 30,
+  p_before_updated_at TIMESTAMPTZ DEFAULT NULL,
+  p_before_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  section_id UUID,
+  title TEXT,
+  type TEXT,
+  updated_at TIMESTAMP WITH TIME ZONE,
+  profile_id UUID,
+  username TEXT,
+  display_name TEXT,
+  avatar_url TEXT
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT s.id, s.title, s.type, s.updated_at, p.id, p.username, p.display_name, p.avatar_url
+  FROM follows f
+  JOIN profiles p ON p.id = f.following_id
+  JOIN sections s ON s.profile_id = p.id
+  WHERE f.follower_id = p_profile_id
+    AND can_view_profile(p_profile_id)
+    AND s.visible = true
+    AND (s.publish_at IS NULL OR s.publish_at <= NOW())
+    AND (s.unpublish_at IS NULL OR s.unpublish_at > NOW())
+    AND (p_before_updated_at IS NULL OR (s.updated_at, s.id) < (p_before_updated_at, p_before_id))
+  ORDER BY s.updated_at DESC, s.id DESC
+  LIMIT LEAST(p_limit, 100)
+$$;
+
+GRANT EXECUTE ON FUNCTION following_feed(UUID, INTEGER, TIMESTAMPTZ, UUID) TO anon, authenticated;
+
+-- ========================================
+-- Section templates
+-- ========================================
+DROP TABLE IF EXISTS section_templates CASCADE;
+
+-- Sections an account saved for reuse. They belong to the account rather
+-- than a profile, so a template can seed any profile its owner edits.
+CREATE TABLE section_templates (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  title TEXT NOT NULL,
+  type TEXT NOT NULL,
+  content JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_section_templates_user ON section_templates(user_id);
+
+ALTER TABLE section_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "section_templates_select" ON section_templates FOR SELECT
+  USING (user_id = auth.uid());
+
+CREATE POLICY "section_templates_insert" ON section_templates FOR INSERT
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "section_templates_delete" ON section_templates FOR DELETE
+  USING (user_id = auth.uid());
+
+-- Contents of gallery templates that point at a profile's uploads, saved by
+-- anyone who can edit the profile. Gallery cleanup (lib/storage.ts) keeps
+-- those files alive even though the templates themselves are private to
+-- their account. Templates from anyone else never pin the profile's files,
+-- whatever URLs they contain.
+CREATE OR REPLACE FUNCTION gallery_template_content(p_profile_id UUID)
+RETURNS TABLE (content JSONB)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT t.content
+  FROM section_templates t
+  WHERE t.type = 'gallery'
+    AND t.content::text LIKE '%/profiles/' || p_profile_id::text || '/gallery/%'
+    AND can_edit_profile(p_profile_id)
+    AND (
+      EXISTS (SELECT 1 FROM profiles p WHERE p.id = p_profile_id AND p.user_id = t.user_id)
+      OR EXISTS (
+        SELECT 1 FROM profile_members m
+        WHERE m.profile_id = p_profile_id
+          AND m.user_id = t.user_id
+          AND m.accepted_at IS NOT NULL
+          AND m.role IN ('owner', 'editor')
+      )
+    )
+$$;
+
+GRANT EXECUTE ON FUNCTION gallery_template_content(UUID) TO authenticated;
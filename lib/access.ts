@@ -0,0 +1,38 @@
+import { AccessMode } from './types'
+
+export const ACCESS_MODES: AccessMode[] = ['public', 'unlisted', 'password', 'signed_in']
+
+export const ACCESS_MODE_LABELS: Record<AccessMode, string> = {
+  public: 'Public',
+  unlisted: 'Unlisted',
+  password: 'Password protected',
+  signed_in: 'Signed-in visitors only',
+}
+
+export const ACCESS_MODE_DESCRIPTIONS: Record<AccessMode, string> = {
+  public: 'Anyone can see it, and it can show up in search',
+  unlisted: 'Anyone with the link can see it, but it is never listed',
+  password: 'Visitors need a password',
+  signed_in: 'Visitors need a Selfbook account',
+}
+
+export const MIN_ACCESS_PASSWORD_LENGTH = 6
+
+export function isAccessMode(value: unknown): value is AccessMode {
+  return typeof value === 'string' && (ACCESS_MODES as string[]).includes(value)
+}
+
+// Whether search engines, the sitemap and the directory may list it
+export function isListed(access: AccessMode): boolean {
+  return access === 'public'
+}
+
+// Where a visitor goes to get past a gate: the password prompt, or sign-in
+// with a way back to the profile
+export function unlockPath(username: string, access: AccessMode, sectionId?: string): string {
+  if (access === 'signed_in') {
+    return `/login?next=${encodeURIComponent(`/${username}`)}`
+  }
+
+  return sectionId ? `/${username}/unlock?section=${sectionId}` : `/${username}/unlock`
+}
@@ -0,0 +1,27 @@
+// Remembers which of the user's profiles the dashboard is editing, and lets
+// the Navbar switcher and the dashboard keep each other in sync.
+
+const STORAGE_KEY = 'selfbook.activeProfileId'
+const CHANGE_EVENT = 'selfbook:active-profile'
+
+export function getActiveProfileId(): string | null {
+  if (typeof window === 'undefined') return null
+  return window.localStorage.getItem(STORAGE_KEY)
+}
+
+export function setActiveProfileId(id: string) {
+  if (typeof window === 'undefined') return
+  window.localStorage.setItem(STORAGE_KEY, id)
+  window.dispatchEvent(new Event(CHANGE_EVENT))
+}
+
+// Also fired when the list of profiles changes, e.g. after creating one
+export function notifyProfilesChanged() {
+  if (typeof window === 'undefined') return
+  window.dispatchEvent(new Event(CHANGE_EVENT))
+}
+
+export function onActiveProfileChange(callback: () => void): () => void {
+  window.addEventListener(CHANGE_EVENT, callback)
+  return () => window.removeEventListener(CHANGE_EVENT, callback)
+}
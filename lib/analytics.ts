@@ -0,0 +1,56 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { AnalyticsEventType } from './types'
+
+export interface AnalyticsEvent {
+  profile_id: string
+  type: AnalyticsEventType
+  section_id?: string | null
+  target_url?: string | null
+  referrer?: string | null
+}
+
+// Only the referring host is kept; paths and query strings can carry personal data
+export function referrerHost(referrer: string | null | undefined): string | null {
+  if (!referrer) return null
+  try {
+    return new URL(referrer).hostname || null
+  } catch {
+    return null
+  }
+}
+
+// Where outbound clicks are sent so they can be counted before redirecting
+export function trackedLinkUrl(sectionId: string, url: string): string {
+  return `/api/events/click?section_id=${encodeURIComponent(sectionId)}&url=${encodeURIComponent(url)}`
+}
+
+// Fire-and-forget client beacon; failures never affect the page
+export function sendBeacon(event: AnalyticsEvent) {
+  if (typeof navigator === 'undefined') return
+  const body = JSON.stringify(event)
+
+  try {
+    if (navigator.sendBeacon) {
+      navigator.sendBeacon('/api/events', new Blob([body], { type: 'application/json' }))
+    } else {
+      fetch('/api/events', { method: 'POST', body, keepalive: true, headers: { 'Content-Type': 'application/json' } })
+    }
+  } catch {
+    // Analytics must never break the profile page
+  }
+}
+
+// Server-side insert; errors are logged and swallowed
+export async function recordEvent(supabase: SupabaseClient, event: AnalyticsEvent) {
+  const { error } = await supabase.from('events').insert({
+    profile_id: event.profile_id,
+    type: event.type,
+    section_id: event.section_id || null,
+    target_url: event.target_url || null,
+    referrer: event.referrer || null,
+  })
+
+  if (error) {
+    console.error('Failed to record analytics event:', error)
+  }
+}
@@ -0,0 +1,124 @@
+import { createClient } from '@supabase/supabase-js'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createHash, randomBytes } from 'crypto'
+import { NextResponse } from 'next/server'
+import { createServiceClient } from './serviceClient'
+import { ApiScope } from './types'
+
+// Server-only helpers for personal access tokens and the /api/v1 routes
+
+const TOKEN_PREFIX = 'sbk_'
+
+// Sent to the database with every accepted token request; request_api_token()
+// reads it. The token itself never reaches the database API.
+const SESSION_HEADER = 'x-selfbook-session'
+
+export function hashApiToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+// A new token with the parts that get stored. The token itself is returned to
+// the user once and never saved.
+export function generateApiToken(): { token: string; hash: string; prefix: string } {
+  const token = `${TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`
+  return { token, hash: hashApiToken(token), prefix: token.slice(0, TOKEN_PREFIX.length + 6) }
+}
+
+export interface ApiContext {
+  supabase: SupabaseClient
+  userId: string
+  // Set when the token is limited to one profile
+  profileId: string | null
+  scopes: ApiScope[]
+  headers: Record<string, string>
+}
+
+// One row from use_api_token()
+interface TokenUsage {
+  // Null when the request is over the rate limit or lacks the scope
+  session_key: string | null
+  user_id: string
+  profile_id: string | null
+  scopes: ApiScope[]
+  rate_limit: number
+  remaining: number
+  reset_at: string
+}
+
+function apiError(message: string, status: number, headers?: Record<string, string>) {
+  return NextResponse.json({ error: message }, { status, headers })
+}
+
+// Authenticate a /api/v1 request from its Authorization: Bearer header. The
+// database counts it against the token's rate limit and checks `scope`, and
+// only then opens a session that row level security accepts, so the policies
+// the dashboard relies on apply to API calls unchanged. Returns a ready error
+// response when the token is missing, invalid, over its limit or lacks `scope`.
+export async function authenticateApiRequest(
+  request: Request,
+  scope: ApiScope
+): Promise<{ ok: true; context: ApiContext } | { ok: false; response: NextResponse }> {
+  const match = /^Bearer\s+(\S+)$/i.exec(request.headers.get('authorization') || '')
+
+  if (!match || !match[1].startsWith(TOKEN_PREFIX)) {
+    return { ok: false, response: apiError('Missing bearer token', 401, { 'WWW-Authenticate': 'Bearer' }) }
+  }
+
+  const service = createServiceClient()
+
+  if (!service) {
+    return { ok: false, response: apiError('The API is not configured', 501) }
+  }
+
+  const { data, error } = await service.rpc('use_api_token', {
+    p_token_hash: hashApiToken(match[1]),
+    p_scope: scope,
+  })
+
+  if (error) {
+    return { ok: false, response: apiError(error.message, 500) }
+  }
+
+  const token = (data as TokenUsage[] | null)?.[0]
+
+  if (!token) {
+    return { ok: false, response: apiError('Invalid or revoked token', 401, { 'WWW-Authenticate': 'Bearer' }) }
+  }
+
+  const resetSeconds = Math.max(0, Math.ceil((new Date(token.reset_at).getTime() - Date.now()) / 1000))
+  const headers = {
+    'X-RateLimit-Limit': String(token.rate_limit),
+    'X-RateLimit-Remaining': String(Math.max(0, token.remaining)),
+    'X-RateLimit-Reset': String(Math.floor(new Date(token.reset_at).getTime() / 1000)),
+  }
+
+  if (token.remaining < 0) {
+    return {
+      ok: false,
+      response: apiError('Rate limit exceeded', 429, { ...headers, 'Retry-After': String(resetSeconds) }),
+    }
+  }
+
+  if (!token.session_key) {
+    return { ok: false, response: apiError(`Token lacks the ${scope} scope`, 403, headers) }
+  }
+
+  const supabase = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      auth: { persistSession: false, autoRefreshToken: false },
+      global: { headers: { [SESSION_HEADER]: token.session_key } },
+    }
+  )
+
+  return {
+    ok: true,
+    context: { supabase, userId: token.user_id, profileId: token.profile_id, scopes: token.scopes, headers },
+  }
+}
+
+// JSON response carrying the caller's rate limit headers
+export function apiJson(context: ApiContext, body: unknown, status = 200) {
+  return NextResponse.json(body, { status, headers: context.headers })
+}
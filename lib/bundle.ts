@@ -0,0 +1,257 @@
+import { AccessMode, Profile, Section, SectionContent, SectionType } from './types'
+import { isAccessMode } from './access'
+import {
+  FieldError,
+  ValidationResult,
+  isSectionType,
+  normalizeTimestamp,
+  validateSectionContent,
+  validateSectionSchedule,
+  validateSectionTitle,
+} from './sectionContent'
+import { validateProfileDetails } from './profileFields'
+import { DEFAULT_THEME_ID, isThemeId } from './themes'
+
+// Portable profile export. Bump BUNDLE_VERSION whenever the shape changes and
+// teach parseBundle to read the older versions it still accepts.
+export const BUNDLE_FORMAT = 'selfbook.profile'
+export const BUNDLE_VERSION = 1
+export const MAX_BUNDLE_SECTIONS = 100
+
+// Inside a zip export the bundle sits at this path, next to assets/
+export const BUNDLE_FILENAME = 'profile.json'
+
+export interface BundleProfile {
+  username: string
+  display_name: string | null
+  bio: string | null
+  avatar_url: string | null
+  banner_url: string | null
+  theme: string
+}
+
+export interface BundleSection {
+  title: string
+  type: SectionType
+  content: SectionContent
+  position: number
+  visible: boolean
+  // Passwords are never exported, so imported password sections stay locked
+  // until one is set
+  access: AccessMode
+  publish_at: string | null
+  unpublish_at: string | null
+}
+
+// A storage file packed into a zip export, keyed by the URL it replaces
+export interface BundleAsset {
+  url: string
+  file: string
+}
+
+export interface ProfileBundle {
+  format: typeof BUNDLE_FORMAT
+  version: number
+  exported_at: string
+  profile: BundleProfile
+  sections: BundleSection[]
+  assets?: BundleAsset[]
+}
+
+export function buildBundle(profile: Profile, sections: Section[], assets?: BundleAsset[]): ProfileBundle {
+  return {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exported_at: new Date().toISOString(),
+    profile: {
+      username: profile.username,
+      display_name: profile.display_name,
+      bio: profile.bio,
+      avatar_url: profile.avatar_url,
+      banner_url: profile.banner_url,
+      theme: profile.theme,
+    },
+    sections: [...sections]
+      .sort((a, b) => a.position - b.position)
+      .map((section) => ({
+        title: section.title,
+        type: section.type,
+        content: section.content,
+        position: section.position,
+        visible: section.visible ?? true,
+        access: section.access,
+        publish_at: section.publish_at,
+        unpublish_at: section.unpublish_at,
+      })),
+    ...(assets && assets.length > 0 ? { assets } : {}),
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function optionalText(value: unknown, path: string, errors: FieldError[]): string | null {
+  if (value === undefined || value === null) return null
+  if (typeof value !== 'string') {
+    errors.push({ path, message: 'Must be text' })
+    return null
+  }
+  return value
+}
+
+// Check a bundle read from an upload. Section content goes through the same
+// validators as the sections API, so an import can't store anything the
+// dashboard couldn't.
+export function parseBundle(raw: unknown): ValidationResult<ProfileBundle> {
+  const errors: FieldError[] = []
+
+  if (!isObject(raw) || raw.format !== BUNDLE_FORMAT) {
+    return { ok: false, errors: [{ path: 'format', message: 'Not a Selfbook profile bundle' }] }
+  }
+
+  if (raw.version !== BUNDLE_VERSION) {
+    const message =
+      typeof raw.version === 'number' && raw.version > BUNDLE_VERSION
+        ? `Bundle version ${raw.version} is newer than this server supports (${BUNDLE_VERSION})`
+        : `Unsupported bundle version ${String(raw.version)}`
+    return { ok: false, errors: [{ path: 'version', message }] }
+  }
+
+  const rawProfile = isObject(raw.profile) ? raw.profile : {}
+  if (!isObject(raw.profile)) errors.push({ path: 'profile', message: 'Must be an object' })
+
+  const theme = rawProfile.theme ?? DEFAULT_THEME_ID
+  if (!isThemeId(theme)) errors.push({ path: 'profile.theme', message: 'Unknown theme' })
+
+  const profile: BundleProfile = {
+    username: optionalText(rawProfile.username, 'profile.username', errors) || '',
+    display_name: optionalText(rawProfile.display_name, 'profile.display_name', errors),
+    bio: optionalText(rawProfile.bio, 'profile.bio', errors),
+    avatar_url: optionalText(rawProfile.avatar_url, 'profile.avatar_url', errors),
+    banner_url: optionalText(rawProfile.banner_url, 'profile.banner_url', errors),
+    theme: isThemeId(theme) ? theme : DEFAULT_THEME_ID,
+  }
+  errors.push(...validateProfileDetails(profile).map((err) => ({ ...err, path: `profile.${err.path}` })))
+
+  const rawSections = Array.isArray(raw.sections) ? raw.sections : []
+  if (!Array.isArray(raw.sections)) errors.push({ path: 'sections', message: 'Must be a list' })
+  if (rawSections.length > MAX_BUNDLE_SECTIONS) {
+    errors.push({ path: 'sections', message: `At most ${MAX_BUNDLE_SECTIONS} sections allowed` })
+  }
+
+  const sections: BundleSection[] = []
+  rawSections.slice(0, MAX_BUNDLE_SECTIONS).forEach((rawSection, idx) => {
+    const path = `sections[${idx}]`
+    const prefix = (err: FieldError) => ({ ...err, path: `${path}.${err.path}` })
+
+    if (!isObject(rawSection)) {
+      errors.push({ path, message: 'Must be an object' })
+      return
+    }
+
+    if (!isSectionType(rawSection.type)) {
+      errors.push({ path: `${path}.type`, message: 'Unknown section type' })
+      return
+    }
+
+    // Bundles from before access modes have no access field
+    const access = rawSection.access ?? 'public'
+    if (!isAccessMode(access)) errors.push({ path: `${path}.access`, message: 'Unknown access mode' })
+
+    const contentResult = validateSectionContent(rawSection.type, rawSection.content)
+    errors.push(
+      ...validateSectionTitle(rawSection.title).map(prefix),
+      ...(contentResult.ok ? [] : contentResult.errors.map(prefix)),
+      ...validateSectionSchedule(rawSection.publish_at, rawSection.unpublish_at).map(prefix)
+    )
+
+    if (contentResult.ok) {
+      sections.push({
+        title: String(rawSection.title),
+        type: rawSection.type,
+        content: contentResult.value,
+        position: idx,
+        visible: rawSection.visible !== false,
+        access: isAccessMode(access) ? access : 'public',
+        publish_at: normalizeTimestamp(rawSection.publish_at),
+        unpublish_at: normalizeTimestamp(rawSection.unpublish_at),
+      })
+    }
+  })
+
+  const assets: BundleAsset[] = []
+  if (raw.assets !== undefined) {
+    if (!Array.isArray(raw.assets)) {
+      errors.push({ path: 'assets', message: 'Must be a list' })
+    } else {
+      raw.assets.forEach((asset, idx) => {
+        if (!isObject(asset) || typeof asset.url !== 'string' || typeof asset.file !== 'string') {
+          errors.push({ path: `assets[${idx}]`, message: 'Must have a url and a file' })
+        } else {
+          assets.push({ url: asset.url, file: asset.file })
+        }
+      })
+    }
+  }
+
+  if (errors.length > 0) {
+    return { ok: false, errors }
+  }
+
+  return {
+    ok: true,
+    value: {
+      format: BUNDLE_FORMAT,
+      version: BUNDLE_VERSION,
+      exported_at: normalizeTimestamp(raw.exported_at) ?? '',
+      profile,
+      sections,
+      ...(assets.length > 0 ? { assets } : {}),
+    },
+  }
+}
+
+// Every URL a bundle refers to, for packing or rewriting assets
+export function bundleImageUrls(bundle: Pick<ProfileBundle, 'profile' | 'sections'>): string[] {
+  const urls: string[] = []
+  for (const url of [bundle.profile.avatar_url, bundle.profile.banner_url]) {
+    if (url) urls.push(url)
+  }
+  for (const section of bundle.sections) {
+    if (section.type !== 'gallery') continue
+    for (const image of (section.content as { images?: { url: string; thumbnail_url?: string }[] }).images || []) {
+      urls.push(image.url)
+      if (image.thumbnail_url) urls.push(image.thumbnail_url)
+    }
+  }
+  return urls
+}
+
+// Swap URLs throughout a bundle, e.g. after re-uploading its assets
+export function rewriteBundleUrls(bundle: ProfileBundle, replace: (url: string) => string): ProfileBundle {
+  const swap = (url: string | null) => (url ? replace(url) : url)
+
+  return {
+    ...bundle,
+    profile: {
+      ...bundle.profile,
+      avatar_url: swap(bundle.profile.avatar_url),
+      banner_url: swap(bundle.profile.banner_url),
+    },
+    sections: bundle.sections.map((section) => {
+      if (section.type !== 'gallery') return section
+      const content = section.content as { images: { url: string; thumbnail_url?: string; caption?: string }[] }
+      return {
+        ...section,
+        content: {
+          images: content.images.map((image) => ({
+            ...image,
+            url: replace(image.url),
+            ...(image.thumbnail_url ? { thumbnail_url: replace(image.thumbnail_url) } : {}),
+          })),
+        },
+      }
+    }),
+  }
+}
@@ -0,0 +1,17 @@
+import type { NextRequest } from 'next/server'
+import { createHash } from 'crypto'
+
+// Set on deployments behind a reverse proxy that sets x-real-ip itself and
+// drops any copy the client sent. Anywhere else the header is just another
+// thing the client can make up.
+const TRUST_PROXY = process.env.TRUST_PROXY === 'true'
+
+// A stable, anonymous key for the visitor behind a request, used to count
+// password attempts and contact form submissions. Only an address the hosting
+// platform or a trusted proxy reports is used, since anyone could spread their
+// attempts over made-up ones. Null when there is no such address; callers
+// refuse the request rather than count every such visitor as one.
+export function clientHash(request: NextRequest): string | null {
+  const address = request.ip || (TRUST_PROXY ? request.headers.get('x-real-ip') : null)
+  return address ? createHash('sha256').update(address).digest('hex') : null
+}
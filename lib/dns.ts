@@ -0,0 +1,7 @@
+import { promises as dns } from 'dns'
+import type { DnsResolver } from './domains'
+
+// Default resolver backed by the system DNS; route handlers only (Node runtime)
+export const systemDnsResolver: DnsResolver = {
+  resolveTxt: (hostname) => dns.resolveTxt(hostname),
+}
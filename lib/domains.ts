@@ -0,0 +1,60 @@
+// Hostname rules and DNS verification for custom domains. Kept free of Node
+// APIs so middleware (edge runtime) can import it.
+
+export interface DnsResolver {
+  resolveTxt(hostname: string): Promise<string[][]>
+}
+
+export const VERIFICATION_PREFIX = '_selfbook'
+
+const HOSTNAME = /^(?=.{1,253}$)(?!-)[a-z0-9-]{1,63}(?<!-)(\.(?!-)[a-z0-9-]{1,63}(?<!-))+$/
+
+export function normalizeHostname(raw: string): string {
+  return raw.trim().toLowerCase().replace(/^https?:\/\//, '').replace(/\/.*$/, '').replace(/:\d+$/, '').replace(/\.$/, '')
+}
+
+export function isValidHostname(hostname: string): boolean {
+  return HOSTNAME.test(hostname) && !/^\d+(\.\d+){3}$/.test(hostname)
+}
+
+// Hosts that serve the Selfbook app itself rather than a single profile
+export function isAppHostname(hostname: string): boolean {
+  const configured = (process.env.NEXT_PUBLIC_APP_HOSTS || '')
+    .split(',')
+    .map((h) => normalizeHostname(h))
+    .filter(Boolean)
+
+  return (
+    configured.includes(hostname) ||
+    hostname === 'localhost' ||
+    hostname === '127.0.0.1' ||
+    hostname.endsWith('.vercel.app')
+  )
+}
+
+export function verificationRecordName(hostname: string): string {
+  return `${VERIFICATION_PREFIX}.${hostname}`
+}
+
+export function verificationRecordValue(token: string): string {
+  return `selfbook-verify=${token}`
+}
+
+// True when a TXT record at _selfbook.<hostname> carries the expected token
+export async function verifyDomain(
+  resolver: DnsResolver,
+  hostname: string,
+  token: string
+): Promise<boolean> {
+  let records: string[][]
+  try {
+    records = await resolver.resolveTxt(verificationRecordName(hostname))
+  } catch {
+    // NXDOMAIN / ENODATA just mean the record isn't there yet
+    return false
+  }
+
+  const expected = verificationRecordValue(token)
+  // Long TXT values may be split into several chunks
+  return records.some((chunks) => chunks.join('').trim() === expected)
+}
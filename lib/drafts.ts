@@ -0,0 +1,16 @@
+import { Profile, ProfileDraft } from './types'
+
+// The profile as it will look once published. Without a draft row nothing is
+// pending, so the published profile is also the draft.
+export function applyDraft<P extends Profile>(profile: P, draft: ProfileDraft | null): P {
+  if (!draft) return profile
+
+  return {
+    ...profile,
+    display_name: draft.display_name,
+    bio: draft.bio,
+    avatar_url: draft.avatar_url,
+    banner_url: draft.banner_url,
+    theme: draft.theme,
+  }
+}
@@ -0,0 +1,110 @@
+export type EmbedProvider = 'youtube' | 'vimeo' | 'soundcloud' | 'spotify'
+
+export interface EmbedInfo {
+  provider: EmbedProvider
+  src: string
+  // Fixed player height in pixels; video players omit it and keep 16:9
+  height?: number
+}
+
+export const EMBED_PROVIDER_NAMES: Record<EmbedProvider, string> = {
+  youtube: 'YouTube',
+  vimeo: 'Vimeo',
+  soundcloud: 'SoundCloud',
+  spotify: 'Spotify',
+}
+
+const YOUTUBE_ID = /^[\w-]{11}$/
+const SPOTIFY_KINDS = ['track', 'album', 'playlist', 'episode', 'show', 'artist']
+
+function parseSeconds(value: string | null): number | null {
+  if (!value) return null
+  const match = value.match(/^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s?)?$/)
+  if (!match) return null
+  const seconds = Number(match[1] || 0) * 3600 + Number(match[2] || 0) * 60 + Number(match[3] || 0)
+  return seconds > 0 ? seconds : null
+}
+
+function youtube(url: URL): EmbedInfo | null {
+  const host = url.hostname.replace(/^(www|m|music)\./, '')
+  const segments = url.pathname.split('/').filter(Boolean)
+  let id: string | null = null
+
+  if (host === 'youtu.be') {
+    id = segments[0] || null
+  } else if (host === 'youtube.com' || host === 'youtube-nocookie.com') {
+    if (segments[0] === 'watch') id = url.searchParams.get('v')
+    else if (['embed', 'shorts', 'live', 'v'].includes(segments[0])) id = segments[1] || null
+  }
+
+  if (!id || !YOUTUBE_ID.test(id)) return null
+
+  const start = parseSeconds(url.searchParams.get('t') || url.searchParams.get('start'))
+  return {
+    provider: 'youtube',
+    src: `https://www.youtube-nocookie.com/embed/${id}${start ? `?start=${start}` : ''}`,
+  }
+}
+
+function vimeo(url: URL): EmbedInfo | null {
+  const host = url.hostname.replace(/^www\./, '')
+  if (host !== 'vimeo.com' && host !== 'player.vimeo.com') return null
+
+  const id = url.pathname.split('/').filter(Boolean).find((segment) => /^\d+$/.test(segment))
+  if (!id) return null
+
+  return { provider: 'vimeo', src: `https://player.vimeo.com/video/${id}` }
+}
+
+function spotify(url: URL): EmbedInfo | null {
+  if (url.hostname !== 'open.spotify.com') return null
+
+  // Drop locale prefixes such as /intl-de/ and an existing /embed/
+  const segments = url.pathname
+    .split('/')
+    .filter((segment) => segment && segment !== 'embed' && !segment.startsWith('intl-'))
+  const [kind, id] = segments
+  if (!SPOTIFY_KINDS.includes(kind) || !id || !/^[A-Za-z0-9]+$/.test(id)) return null
+
+  return {
+    provider: 'spotify',
+    src: `https://open.spotify.com/embed/${kind}/${id}`,
+    height: kind === 'track' || kind === 'episode' ? 152 : 352,
+  }
+}
+
+function soundcloud(url: URL): EmbedInfo | null {
+  const host = url.hostname.replace(/^(www|m)\./, '')
+  if (host !== 'soundcloud.com') return null
+
+  const segments = url.pathname.split('/').filter(Boolean)
+  if (segments.length < 2 || !segments.every((s) => /^[\w-]+$/.test(s))) return null
+
+  const canonical = `https://soundcloud.com/${segments.join('/')}`
+  return {
+    provider: 'soundcloud',
+    src: `https://w.soundcloud.com/player/?url=${encodeURIComponent(canonical)}&visual=false`,
+    height: segments[1] === 'sets' ? 450 : 166,
+  }
+}
+
+const PARSERS = [youtube, vimeo, spotify, soundcloud]
+
+// Returns a normalized player URL for a known provider, or null for anything else.
+// The embed src is always rebuilt from parsed ids, never copied from the input.
+export function parseEmbedUrl(raw: string): EmbedInfo | null {
+  let url: URL
+  try {
+    url = new URL(raw.trim())
+  } catch {
+    return null
+  }
+
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') return null
+
+  for (const parse of PARSERS) {
+    const info = parse(url)
+    if (info) return info
+  }
+  return null
+}
@@ -0,0 +1,107 @@
+import sharp from 'sharp'
+import { ProfileImageKind } from './types'
+
+// Server-only image helpers. Types are decided from the file's leading bytes,
+// never from its name or the browser-supplied MIME type.
+
+export type ImageType = 'jpeg' | 'png' | 'webp' | 'gif'
+
+export const IMAGE_EXTENSIONS: Record<ImageType, string> = {
+  jpeg: 'jpg',
+  png: 'png',
+  webp: 'webp',
+  gif: 'gif',
+}
+
+export const IMAGE_CONTENT_TYPES: Record<ImageType, string> = {
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  gif: 'image/gif',
+}
+
+export const MAX_GALLERY_IMAGE_BYTES = 10 * 1024 * 1024
+export const MAX_PROFILE_IMAGE_BYTES = 10 * 1024 * 1024
+const THUMBNAIL_SIZE = 480
+// Decoded size cap, counted across every frame of an animation, so a small
+// file can't expand into gigabytes of pixels (about 40 megapixels in total)
+const MAX_INPUT_PIXELS = 40_000_000
+
+// Output size per kind: square avatars, 3:1 banners
+export const PROFILE_IMAGE_SIZES: Record<ProfileImageKind, { width: number; height: number }> = {
+  avatar: { width: 512, height: 512 },
+  banner: { width: 1500, height: 500 },
+}
+
+function startsWith(bytes: Uint8Array, signature: number[], offset = 0): boolean {
+  return signature.every((byte, idx) => bytes[offset + idx] === byte)
+}
+
+export function detectImageType(bytes: Uint8Array): ImageType | null {
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return 'jpeg'
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'png'
+  if (startsWith(bytes, [0x47, 0x49, 0x46, 0x38])) return 'gif'
+  // RIFF....WEBP
+  if (startsWith(bytes, [0x52, 0x49, 0x46, 0x46]) && startsWith(bytes, [0x57, 0x45, 0x42, 0x50], 8)) {
+    return 'webp'
+  }
+  return null
+}
+
+// Open an image for processing. The header is read first and inputs whose
+// decoded size would exceed MAX_INPUT_PIXELS are rejected before any frame is
+// decoded; the same limit is passed to sharp for the decode itself.
+async function loadImage(input: Buffer, animated = false): Promise<sharp.Sharp> {
+  const options = { animated, limitInputPixels: MAX_INPUT_PIXELS }
+  // With animated set, height spans every frame (pageHeight × pages)
+  const { width = 0, height = 0 } = await sharp(input, options).metadata()
+  if (width * height > MAX_INPUT_PIXELS) throw new Error('Image is too large')
+  return sharp(input, options)
+}
+
+// Re-encode an upload in its own format so the stored original carries no
+// metadata (location, camera, etc). EXIF orientation is applied first, except
+// for GIF and WebP, which are decoded with every frame so animations survive
+// and which sharp can't auto-rotate.
+export async function stripImageMetadata(input: Buffer, type: ImageType): Promise<Buffer> {
+  switch (type) {
+    case 'jpeg':
+      return (await loadImage(input)).rotate().jpeg({ quality: 90, mozjpeg: true }).toBuffer()
+    case 'png':
+      return (await loadImage(input)).rotate().png().toBuffer()
+    case 'webp':
+      return (await loadImage(input, true)).webp({ quality: 90 }).toBuffer()
+    case 'gif':
+      return (await loadImage(input, true)).gif().toBuffer()
+  }
+}
+
+// Square WebP thumbnail for gallery grids. Orientation from EXIF is applied
+// first; sharp drops all metadata from the output.
+export async function makeThumbnail(input: Buffer): Promise<Buffer> {
+  return (await loadImage(input))
+    .rotate()
+    .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'cover' })
+    .webp({ quality: 80 })
+    .toBuffer()
+}
+
+// Crop an avatar or banner to its fixed aspect ratio and encode it as WebP
+// plus a JPEG fallback. EXIF orientation is applied before cropping, and
+// neither output carries the source metadata (location, camera, etc).
+export async function processProfileImage(
+  input: Buffer,
+  kind: ProfileImageKind
+): Promise<{ webp: Buffer; jpeg: Buffer }> {
+  const { width, height } = PROFILE_IMAGE_SIZES[kind]
+  const cropped = (await loadImage(input))
+    .rotate()
+    .resize(width, height, { fit: 'cover', position: 'attention' })
+
+  const [webp, jpeg] = await Promise.all([
+    cropped.clone().webp({ quality: 82 }).toBuffer(),
+    cropped.clone().flatten({ background: '#ffffff' }).jpeg({ quality: 85, mozjpeg: true }).toBuffer(),
+  ])
+
+  return { webp, jpeg }
+}
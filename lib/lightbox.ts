@@ -0,0 +1,20 @@
+// Deep links into a gallery lightbox live in the URL hash as
+// #image=<section id>:<1-based index>, so they work on custom domains and
+// never reach the server.
+
+export interface LightboxTarget {
+  sectionId: string
+  index: number
+}
+
+export function parseLightboxHash(hash: string): LightboxTarget | null {
+  const match = hash.match(/^#image=([0-9a-f-]+):(\d+)$/i)
+  if (!match) return null
+
+  const index = Number(match[2]) - 1
+  return index >= 0 ? { sectionId: match[1], index } : null
+}
+
+export function lightboxHash(sectionId: string, index: number): string {
+  return `#image=${sectionId}:${index + 1}`
+}
@@ -0,0 +1,38 @@
+export interface EmailMessage {
+  to: string
+  subject: string
+  text: string
+}
+
+// Sends through Resend's HTTP API when RESEND_API_KEY and MAIL_FROM are set.
+// Without them the message is only logged, so local setups keep working and
+// callers should still surface any links to the user. Returns true if sent.
+export async function sendEmail(message: EmailMessage): Promise<boolean> {
+  const apiKey = process.env.RESEND_API_KEY
+  const from = process.env.MAIL_FROM
+
+  if (!apiKey || !from) {
+    console.info('Email not configured, skipping send:', message.to, message.subject)
+    return false
+  }
+
+  try {
+    const response = await fetch('https://api.resend.com/emails', {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ from, to: message.to, subject: message.subject, text: message.text }),
+    })
+
+    if (!response.ok) {
+      console.error('Email send failed:', response.status, await response.text())
+      return false
+    }
+    return true
+  } catch (error) {
+    console.error('Email send exception:', error)
+    return false
+  }
+}
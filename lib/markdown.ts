@@ -0,0 +1,166 @@
+// Minimal Markdown renderer for `markdown` sections.
+//
+// Everything is HTML-escaped before any markup is produced, and only a fixed
+// set of tags is ever emitted, so raw HTML in the source can never reach the
+// page. It has no DOM dependency and runs the same on the server and client.
+
+const ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (ch) => ESCAPES[ch])
+}
+
+// Only these schemes become links; anything else renders as plain text
+function safeHref(raw: string): string | null {
+  const href = raw.trim()
+  if (/^(https?:\/\/|mailto:)/i.test(href)) return href
+  if (href.startsWith('/') && !href.startsWith('//')) return href
+  if (href.startsWith('#')) return href
+  return null
+}
+
+function unescapeHtml(text: string): string {
+  return text.replace(/&(amp|lt|gt|quot|#39);/g, (entity) =>
+    Object.keys(ESCAPES).find((ch) => ESCAPES[ch] === entity) || entity
+  )
+}
+
+function renderEmphasis(text: string): string {
+  return text
+    .replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>')
+    .replace(/__(.+?)__/g, '<strong>$1</strong>')
+    .replace(/\*(.+?)\*/g, '<em>$1</em>')
+    .replace(/(^|[^\w])_(.+?)_(?!\w)/g, '$1<em>$2</em>')
+    .replace(/~~(.+?)~~/g, '<del>$1</del>')
+}
+
+function renderInline(text: string): string {
+  // Code spans and links become placeholders so emphasis never touches
+  // code contents or attribute values
+  const tokens: string[] = []
+  const stash = (html: string) => {
+    tokens.push(html)
+    return `\u0000${tokens.length - 1}\u0000`
+  }
+
+  let out = text.replace(/\u0000/g, '')
+  out = out.replace(/`([^`]+)`/g, (_, code: string) => stash(`<code>${escapeHtml(code)}</code>`))
+  out = escapeHtml(out)
+
+  out = out.replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, (_, label: string, href: string) => {
+    const url = safeHref(unescapeHtml(href))
+    if (!url) return label
+    return stash(
+      `<a href="${escapeHtml(url)}" target="_blank" rel="noopener noreferrer nofollow">${renderEmphasis(label)}</a>`
+    )
+  })
+
+  out = renderEmphasis(out)
+
+  // Restore innermost-first; link labels may themselves hold code spans
+  let previous
+  do {
+    previous = out
+    out = out.replace(/\u0000(\d+)\u0000/g, (_, idx: string) => tokens[Number(idx)])
+  } while (out !== previous)
+
+  return out
+}
+
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/
+const FENCE = /^```/
+const QUOTE = /^>\s?/
+const UNORDERED = /^\s*[-*+]\s+/
+const ORDERED = /^\s*\d+[.)]\s+/
+const RULE = /^\s*([-*_])(\s*\1){2,}\s*$/
+
+function renderBlocks(lines: string[]): string {
+  const html: string[] = []
+  let i = 0
+
+  while (i < lines.length) {
+    const line = lines[i]
+
+    if (line.trim() === '') {
+      i++
+      continue
+    }
+
+    if (FENCE.test(line)) {
+      const code: string[] = []
+      i++
+      while (i < lines.length && !FENCE.test(lines[i])) {
+        code.push(lines[i])
+        i++
+      }
+      i++ // closing fence
+      html.push(`<pre><code>${escapeHtml(code.join('\n'))}</code></pre>`)
+      continue
+    }
+
+    const heading = line.match(HEADING)
+    if (heading) {
+      const level = heading[1].length
+      html.push(`<h${level}>${renderInline(heading[2])}</h${level}>`)
+      i++
+      continue
+    }
+
+    if (RULE.test(line)) {
+      html.push('<hr />')
+      i++
+      continue
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = []
+      while (i < lines.length && QUOTE.test(lines[i])) {
+        quoted.push(lines[i].replace(QUOTE, ''))
+        i++
+      }
+      html.push(`<blockquote>${renderBlocks(quoted)}</blockquote>`)
+      continue
+    }
+
+    if (UNORDERED.test(line) || ORDERED.test(line)) {
+      const ordered = ORDERED.test(line)
+      const marker = ordered ? ORDERED : UNORDERED
+      const items: string[] = []
+      while (i < lines.length && marker.test(lines[i])) {
+        items.push(`<li>${renderInline(lines[i].replace(marker, ''))}</li>`)
+        i++
+      }
+      const tag = ordered ? 'ol' : 'ul'
+      html.push(`<${tag}>${items.join('')}</${tag}>`)
+      continue
+    }
+
+    // Paragraph: runs until a blank line or the start of another block
+    const paragraph: string[] = []
+    while (
+      i < lines.length &&
+      lines[i].trim() !== '' &&
+      !FENCE.test(lines[i]) &&
+      !HEADING.test(lines[i]) &&
+      !QUOTE.test(lines[i]) &&
+      !UNORDERED.test(lines[i]) &&
+      !ORDERED.test(lines[i])
+    ) {
+      paragraph.push(renderInline(lines[i].trim()))
+      i++
+    }
+    html.push(`<p>${paragraph.join('<br />')}</p>`)
+  }
+
+  return html.join('')
+}
+
+export function renderMarkdown(source: string): string {
+  return renderBlocks(source.replace(/\r\n?/g, '\n').split('\n'))
+}
@@ -0,0 +1,80 @@
+import type { FieldError, ValidationResult } from './sectionContent'
+import { ContactFieldType, ContactFormContent, MessageField } from './types'
+
+// Contact form sections and the inbox their submissions land in
+
+export const CONTACT_FIELD_TYPES: ContactFieldType[] = ['text', 'email', 'textarea']
+
+export const CONTACT_FIELD_TYPE_LABELS: Record<ContactFieldType, string> = {
+  text: 'Short text',
+  email: 'Email',
+  textarea: 'Long text',
+}
+
+export const MAX_CONTACT_FIELDS = 20
+
+// Hidden from people by the form; anything typed into it came from a bot
+export const HONEYPOT_FIELD = 'website'
+
+const MAX_SHORT_VALUE_LENGTH = 200
+const MAX_LONG_VALUE_LENGTH = 5000
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+export function isContactFieldType(value: unknown): value is ContactFieldType {
+  return typeof value === 'string' && (CONTACT_FIELD_TYPES as string[]).includes(value)
+}
+
+// Check submitted values, keyed by field ID, against the form. Returns the
+// fields to store, labelled as the form reads now, and the reply address.
+export function validateMessageValues(
+  form: ContactFormContent,
+  values: unknown
+): ValidationResult<{ fields: MessageField[]; replyTo: string | null }> {
+  const source =
+    typeof values === 'object' && values !== null && !Array.isArray(values) ? (values as Record<string, unknown>) : {}
+  const errors: FieldError[] = []
+  const fields: MessageField[] = []
+  let replyTo: string | null = null
+
+  for (const field of form.fields) {
+    const raw = source[field.id]
+    const value = typeof raw === 'string' ? raw.trim() : ''
+    const path = `values.${field.id}`
+    const max = field.type === 'textarea' ? MAX_LONG_VALUE_LENGTH : MAX_SHORT_VALUE_LENGTH
+
+    if (!value) {
+      if (field.required) errors.push({ path, message: 'Required' })
+      continue
+    }
+
+    if (value.length > max) {
+      errors.push({ path, message: `Must be at most ${max} characters` })
+    } else if (field.type === 'email' && !EMAIL_PATTERN.test(value)) {
+      errors.push({ path, message: 'Must be an email address' })
+    }
+
+    if (field.type === 'email' && !replyTo) replyTo = value
+    fields.push({ label: field.label, value })
+  }
+
+  if (errors.length === 0 && fields.length === 0) {
+    errors.push({ path: 'values', message: 'Fill in at least one field' })
+  }
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, value: { fields, replyTo } }
+}
+
+// Lets the Navbar badge refresh when the inbox marks messages read
+
+const INBOX_CHANGE_EVENT = 'selfbook:inbox'
+
+export function notifyInboxChanged() {
+  if (typeof window === 'undefined') return
+  window.dispatchEvent(new Event(INBOX_CHANGE_EVENT))
+}
+
+export function onInboxChange(callback: () => void): () => void {
+  window.addEventListener(INBOX_CHANGE_EVENT, callback)
+  return () => window.removeEventListener(INBOX_CHANGE_EVENT, callback)
+}
@@ -0,0 +1,53 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { ApiScope, ProfileRole } from './types'
+
+export const PROFILE_ROLES: ProfileRole[] = ['owner', 'editor', 'viewer']
+
+export function isProfileRole(value: unknown): value is ProfileRole {
+  return typeof value === 'string' && (PROFILE_ROLES as string[]).includes(value)
+}
+
+// What a personal access token may do on top of its user's role
+export const API_SCOPES: ApiScope[] = ['profile:read', 'profile:write', 'sections:read', 'sections:write', 'publish']
+
+export const API_SCOPE_LABELS: Record<ApiScope, string> = {
+  'profile:read': 'Read profile',
+  'profile:write': 'Edit profile details',
+  'sections:read': 'Read sections',
+  'sections:write': 'Create, edit and delete sections',
+  publish: 'Publish the draft',
+}
+
+export function isApiScope(value: unknown): value is ApiScope {
+  return typeof value === 'string' && (API_SCOPES as string[]).includes(value)
+}
+
+// Role of the signed-in user on a profile, resolved by the same SQL function
+// the RLS policies use so API checks and database checks never disagree
+export async function getProfileRole(
+  supabase: SupabaseClient,
+  profileId: string | null | undefined
+): Promise<ProfileRole | null> {
+  if (!profileId) return null
+
+  const { data, error } = await supabase.rpc('profile_role', { p_profile_id: profileId })
+
+  if (error) {
+    console.error('Failed to resolve profile role:', error)
+    return null
+  }
+
+  return isProfileRole(data) ? data : null
+}
+
+export function canViewProfile(role: ProfileRole | null): boolean {
+  return role !== null
+}
+
+export function canEditProfile(role: ProfileRole | null): boolean {
+  return role === 'owner' || role === 'editor'
+}
+
+export function canManageProfile(role: ProfileRole | null): boolean {
+  return role === 'owner'
+}
@@ -0,0 +1,36 @@
+import { FieldError, isHttpUrl } from './sectionContent'
+
+export const MAX_DISPLAY_NAME_LENGTH = 100
+export const MAX_BIO_LENGTH = 1000
+
+export interface ProfileDetails {
+  display_name?: unknown
+  bio?: unknown
+  avatar_url?: unknown
+  banner_url?: unknown
+}
+
+function checkText(value: unknown, path: string, max: number, errors: FieldError[]) {
+  if (value === undefined || value === null) return
+  if (typeof value !== 'string') {
+    errors.push({ path, message: 'Must be text' })
+  } else if (value.length > max) {
+    errors.push({ path, message: `Must be at most ${max} characters` })
+  }
+}
+
+function checkImageUrl(value: unknown, path: string, errors: FieldError[]) {
+  if (value === undefined || value === null || value === '') return
+  if (!isHttpUrl(value)) errors.push({ path, message: 'Must be a valid http(s) URL' })
+}
+
+// The editable profile details shared by the dashboard, the API and imports.
+// Fields left undefined are skipped so partial updates pass; null clears one.
+export function validateProfileDetails(details: ProfileDetails): FieldError[] {
+  const errors: FieldError[] = []
+  checkText(details.display_name, 'display_name', MAX_DISPLAY_NAME_LENGTH, errors)
+  checkText(details.bio, 'bio', MAX_BIO_LENGTH, errors)
+  checkImageUrl(details.avatar_url, 'avatar_url', errors)
+  checkImageUrl(details.banner_url, 'banner_url', errors)
+  return errors
+}
@@ -0,0 +1,121 @@
+import { cache } from 'react'
+import { getSupabaseClient } from './supabase'
+import { createVisitorClient } from './unlock'
+import { AccessMode, DirectoryProfile, FollowCounts, LockedSection, Profile, Section } from './types'
+
+export interface PublicProfile {
+  profile: Profile
+  sections: Section[]
+  // Live sections the visitor still has to unlock or sign in for
+  locked: LockedSection[]
+  follows: FollowCounts
+}
+
+// What the current visitor sees for a username: the published profile and
+// its sections that are visible right now, as far as the access modes let
+// them in. Cached per request so the page and its metadata share one lookup.
+export const getPublicProfile = cache(async (username: string): Promise<PublicProfile | null> => {
+  const supabase = createVisitorClient()
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('*')
+    .eq('username', username.toLowerCase())
+    .single<Profile>()
+
+  if (!profile) {
+    return null
+  }
+
+  // TypeScript now knows profile is Profile (not null)
+  const profileId: string = profile.id
+
+  // Only sections inside their publish window; RLS applies the same rule
+  const now = new Date().toISOString()
+  const { data: sections } = await supabase
+    .from('sections')
+    .select('*')
+    .eq('profile_id', profileId)
+    .eq('visible', true)
+    .or(`publish_at.is.null,publish_at.lte.${now}`)
+    .or(`unpublish_at.is.null,unpublish_at.gt.${now}`)
+    .order('position')
+
+  const [{ data: locked }, { data: counts }] = await Promise.all([
+    supabase.rpc('locked_sections', { p_profile_id: profileId }),
+    supabase.rpc('follow_counts', { p_profile_id: profileId }),
+  ])
+
+  return {
+    profile,
+    sections: (sections || []) as Section[],
+    locked: (locked || []) as LockedSection[],
+    follows: (counts as FollowCounts[] | null)?.[0] ?? { followers: 0, following: 0 },
+  }
+})
+
+// A profile as anyone without a session or unlocks sees it, for responses
+// that may be shared between visitors (such as the OG card)
+export async function getAnonymousProfile(username: string): Promise<Profile | null> {
+  const { data } = await getSupabaseClient()
+    .from('profiles')
+    .select('*')
+    .eq('username', username.toLowerCase())
+    .maybeSingle<Profile>()
+
+  return data
+}
+
+// How a profile the visitor can't see is gated, or null when there is no
+// such profile
+export const getProfileGate = cache(async (username: string): Promise<AccessMode | null> => {
+  const { data } = await getSupabaseClient()
+    // @ts-expect-error - Supabase RPC types are generated at runtime
+    .rpc('profile_gate', { p_username: username })
+
+  const gate = (data as { profile_id: string; access: AccessMode }[] | null)?.[0]
+  return gate?.access ?? null
+})
+
+// The current username of the profile that used to be called `username`, so
+// old links can be redirected
+export const getRenamedUsername = cache(async (username: string): Promise<string | null> => {
+  const supabase = getSupabaseClient()
+
+  const { data } = await supabase
+    .from('username_history')
+    .select('profiles(username)')
+    .eq('username', username.toLowerCase())
+    .maybeSingle<{ profiles: Pick<Profile, 'username'> | null }>()
+
+  return data?.profiles?.username ?? null
+})
+
+export const DIRECTORY_PAGE_SIZE = 24
+
+export interface DirectoryPage {
+  profiles: DirectoryProfile[]
+  total: number
+}
+
+// One page (counted from 1) of /explore, searched by username, display name
+// and bio. Only public profiles whose owners opted in are ever returned.
+export async function searchDirectory(query: string, page: number): Promise<DirectoryPage> {
+  const { data, error } = await getSupabaseClient()
+    // @ts-expect-error - Supabase RPC types are generated at runtime
+    .rpc('search_directory', {
+      p_query: query,
+      p_limit: DIRECTORY_PAGE_SIZE,
+      p_offset: (page - 1) * DIRECTORY_PAGE_SIZE,
+    })
+
+  if (error) {
+    console.error('Failed to search the directory:', error)
+  }
+
+  const rows = (data || []) as (DirectoryProfile & { total: number })[]
+  return {
+    profiles: rows.map(({ total, ...profile }) => profile),
+    total: rows[0]?.total ?? 0,
+  }
+}
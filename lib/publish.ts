@@ -0,0 +1,100 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { Profile, Section, WebhookEvent } from './types'
+import { cleanupGalleryUploads, cleanupProfileImages } from './storage'
+import { deliverProfileWebhooks, enqueueWebhookEvent } from './webhookDelivery'
+
+// Publishing is the only time visitors see draft edits change, so it is also
+// where webhook events come from. Draft saves stay silent.
+
+// What a webhook consumer sees of a section, apart from its position
+function sectionState(section: Section) {
+  const { title, type, content, visible, access, publish_at, unpublish_at } = section
+  return JSON.stringify({ title, type, content, visible, access, publish_at, unpublish_at })
+}
+
+function profileState(profile: Profile) {
+  const { display_name, bio, avatar_url, banner_url, theme } = profile
+  return JSON.stringify({ display_name, bio, avatar_url, banner_url, theme })
+}
+
+async function loadPublished(supabase: SupabaseClient, profileId: string) {
+  const [profile, sections] = await Promise.all([
+    supabase.from('profiles').select('*').eq('id', profileId).single<Profile>(),
+    supabase.from('sections').select('*').eq('profile_id', profileId).order('position').returns<Section[]>(),
+  ])
+
+  return { profile: profile.data, sections: sections.data || [], error: profile.error || sections.error }
+}
+
+// Promote the whole draft in one transaction, drop the images it no longer
+// uses and send an event for every change visitors can now see
+export async function publishProfile(supabase: SupabaseClient, profileId: string) {
+  const before = await loadPublished(supabase, profileId)
+
+  if (before.error) {
+    return { error: before.error }
+  }
+
+  const { error } = await supabase.rpc('publish_profile', { p_profile_id: profileId })
+
+  if (error) {
+    return { error }
+  }
+
+  // Images dropped from the draft were still live until now
+  await cleanupGalleryUploads(supabase, profileId)
+  await cleanupProfileImages(supabase, profileId)
+
+  const after = await loadPublished(supabase, profileId)
+
+  if (after.error) {
+    // The publish itself went through; only the notifications are lost
+    console.error('Failed to load the published profile for webhooks:', after.error)
+    return { error: null }
+  }
+
+  const events: [WebhookEvent, unknown][] = []
+
+  if (before.profile && after.profile && profileState(before.profile) !== profileState(after.profile)) {
+    events.push(['profile.updated', after.profile])
+  }
+
+  const previous = new Map(before.sections.map((section) => [section.id, section]))
+  const current = new Set(after.sections.map((section) => section.id))
+
+  for (const section of before.sections) {
+    if (!current.has(section.id)) {
+      events.push(['section.deleted', section])
+    }
+  }
+
+  for (const section of after.sections) {
+    const old = previous.get(section.id)
+    if (!old) {
+      events.push(['section.created', section])
+    } else if (sectionState(old) !== sectionState(section)) {
+      events.push(['section.updated', section])
+    }
+  }
+
+  // Only sections present both times can have moved relative to each other
+  const oldOrder = before.sections.filter((section) => current.has(section.id)).map((section) => section.id)
+  const newOrder = after.sections.filter((section) => previous.has(section.id)).map((section) => section.id)
+
+  if (oldOrder.join() !== newOrder.join()) {
+    events.push(['section.reordered', { section_ids: after.sections.map((section) => section.id) }])
+  }
+
+  let queued = 0
+  for (const [event, data] of events) {
+    queued += await enqueueWebhookEvent(supabase, profileId, event, data)
+  }
+
+  // Sending isn't awaited, so slow endpoints never hold up the publish;
+  // whatever this pass doesn't finish is retried by the cron worker
+  if (queued > 0) {
+    deliverProfileWebhooks(profileId).catch((err) => console.error('Failed to deliver webhooks:', err))
+  }
+
+  return { error: null }
+}
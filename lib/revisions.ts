@@ -0,0 +1,121 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { AccessMode, RevisionAction, SectionContent, SectionType } from './types'
+import { ACCESS_MODE_LABELS } from './access'
+
+// The parts of a section that a revision captures
+export interface SectionSnapshot {
+  id: string
+  profile_id: string
+  title: string
+  type: SectionType
+  content: SectionContent
+  position: number
+  visible: boolean | null
+  access: AccessMode
+  publish_at: string | null
+  unpublish_at: string | null
+}
+
+export interface DiffLine {
+  kind: 'same' | 'added' | 'removed'
+  text: string
+}
+
+// Store the section as it is right now, before the caller overwrites or
+// deletes it. Callers should abort the write if this returns an error.
+export async function recordRevision(
+  supabase: SupabaseClient,
+  section: SectionSnapshot,
+  action: RevisionAction,
+  userId: string
+) {
+  return supabase.from('section_revisions').insert({
+    section_id: section.id,
+    profile_id: section.profile_id,
+    action,
+    title: section.title,
+    type: section.type,
+    content: section.content,
+    position: section.position,
+    visible: section.visible ?? true,
+    access: section.access,
+    publish_at: section.publish_at,
+    unpublish_at: section.unpublish_at,
+    created_by: userId,
+  })
+}
+
+// Human-readable lines for a section state, so diffs read like the editor
+// rather than like raw JSON
+export function revisionLines(
+  state: Pick<SectionSnapshot, 'title' | 'type' | 'content' | 'visible' | 'access' | 'publish_at' | 'unpublish_at'>
+): string[] {
+  const lines = [`Title: ${state.title}`, `Visible: ${state.visible ?? true ? 'yes' : 'no'}`]
+  if (state.access && state.access !== 'public') lines.push(`Access: ${ACCESS_MODE_LABELS[state.access]}`)
+  if (state.publish_at) lines.push(`Publish at: ${new Date(state.publish_at).toLocaleString()}`)
+  if (state.unpublish_at) lines.push(`Unpublish at: ${new Date(state.unpublish_at).toLocaleString()}`)
+  const content = state.content as unknown as Record<string, unknown>
+
+  switch (state.type) {
+    case 'text_list':
+      return lines.concat(((content.items as string[]) || []).map((item) => `• ${item}`))
+    case 'links':
+      return lines.concat(
+        ((content.links as { title: string; url: string }[]) || []).map((link) => `${link.title} → ${link.url}`)
+      )
+    case 'gallery':
+      return lines.concat(
+        ((content.images as { url: string; caption?: string }[]) || []).map((image) =>
+          image.caption ? `${image.url} (${image.caption})` : image.url
+        )
+      )
+    case 'markdown':
+      return lines.concat(String(content.markdown || '').split('\n'))
+    case 'embed':
+      return lines.concat(
+        [String(content.url || ''), content.caption ? `Caption: ${content.caption}` : ''].filter(Boolean)
+      )
+    case 'contact_form':
+      return lines.concat(
+        content.intro ? [`Intro: ${content.intro}`] : [],
+        ((content.fields as { label: string; type: string; required: boolean }[]) || []).map(
+          (field) => `${field.label} (${field.type}${field.required ? ', required' : ''})`
+        )
+      )
+    default:
+      return lines.concat(JSON.stringify(content, null, 2).split('\n'))
+  }
+}
+
+// Line diff via longest common subsequence; sections are small enough that
+// the quadratic table is never a concern
+export function diffLines(before: string[], after: string[]): DiffLine[] {
+  const lcs: number[][] = Array.from({ length: before.length + 1 }, () => Array(after.length + 1).fill(0))
+
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lcs[i][j] = before[i] === after[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+
+  const diff: DiffLine[] = []
+  let i = 0
+  let j = 0
+
+  while (i < before.length && j < after.length) {
+    if (before[i] === after[j]) {
+      diff.push({ kind: 'same', text: before[i] })
+      i++
+      j++
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      diff.push({ kind: 'removed', text: before[i++] })
+    } else {
+      diff.push({ kind: 'added', text: after[j++] })
+    }
+  }
+
+  while (i < before.length) diff.push({ kind: 'removed', text: before[i++] })
+  while (j < after.length) diff.push({ kind: 'added', text: after[j++] })
+
+  return diff
+}
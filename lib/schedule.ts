@@ -0,0 +1,36 @@
+// Helpers for a section's optional publish_at/unpublish_at window. The
+// database enforces the same rule in the sections_select policy.
+
+interface Scheduled {
+  visible: boolean | null
+  publish_at: string | null
+  unpublish_at: string | null
+}
+
+export type ScheduleStatus = 'hidden' | 'scheduled' | 'live' | 'expired'
+
+export function scheduleStatus(section: Scheduled, now: Date = new Date()): ScheduleStatus {
+  if (section.visible === false) return 'hidden'
+  if (section.publish_at && new Date(section.publish_at) > now) return 'scheduled'
+  if (section.unpublish_at && new Date(section.unpublish_at) <= now) return 'expired'
+  return 'live'
+}
+
+export function isSectionLive(section: Scheduled, now: Date = new Date()): boolean {
+  return scheduleStatus(section, now) === 'live'
+}
+
+// <input type="datetime-local"> works in local time without a zone; the
+// database stores UTC timestamps
+export function toDateTimeLocal(iso: string | null): string {
+  if (!iso) return ''
+  const date = new Date(iso)
+  const offset = date.getTimezoneOffset() * 60000
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16)
+}
+
+export function fromDateTimeLocal(value: string): string | null {
+  if (!value) return null
+  const date = new Date(value)
+  return Number.isNaN(date.getTime()) ? null : date.toISOString()
+}
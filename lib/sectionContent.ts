@@ -0,0 +1,342 @@
+import { SectionContent, SectionContentMap, SectionType } from './types'
+import { EMBED_PROVIDER_NAMES, parseEmbedUrl } from './embeds'
+import { isAccessMode } from './access'
+import { MAX_CONTACT_FIELDS, isContactFieldType } from './messages'
+
+export interface FieldError {
+  path: string
+  message: string
+}
+
+export type ValidationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; errors: FieldError[] }
+
+export const MAX_TITLE_LENGTH = 100
+const MAX_ITEMS = 100
+const MAX_TEXT_LENGTH = 500
+const MAX_CAPTION_LENGTH = 300
+const MAX_MARKDOWN_LENGTH = 20000
+
+type ContentValidator<T> = (content: unknown, errors: FieldError[]) => T
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+export function isHttpUrl(value: unknown): value is string {
+  if (typeof value !== 'string') return false
+  try {
+    const url = new URL(value)
+    return url.protocol === 'http:' || url.protocol === 'https:'
+  } catch {
+    return false
+  }
+}
+
+function readArray(
+  content: unknown,
+  key: string,
+  errors: FieldError[]
+): unknown[] {
+  if (!isObject(content)) {
+    errors.push({ path: 'content', message: 'Content must be an object' })
+    return []
+  }
+
+  const value = content[key]
+  if (!Array.isArray(value)) {
+    errors.push({ path: `content.${key}`, message: 'Must be a list' })
+    return []
+  }
+
+  if (value.length > MAX_ITEMS) {
+    errors.push({ path: `content.${key}`, message: `At most ${MAX_ITEMS} entries allowed` })
+  }
+
+  return value
+}
+
+function readString(
+  value: unknown,
+  path: string,
+  errors: FieldError[],
+  { required, max }: { required: boolean; max: number }
+): string | undefined {
+  if (value === undefined || value === null || value === '') {
+    if (required) errors.push({ path, message: 'Required' })
+    return undefined
+  }
+
+  if (typeof value !== 'string') {
+    errors.push({ path, message: 'Must be text' })
+    return undefined
+  }
+
+  if (required && value.trim().length === 0) {
+    errors.push({ path, message: 'Required' })
+  } else if (value.length > max) {
+    errors.push({ path, message: `Must be at most ${max} characters` })
+  }
+
+  return value
+}
+
+function readUrl(value: unknown, path: string, errors: FieldError[]): string {
+  if (!isHttpUrl(value)) {
+    errors.push({ path, message: 'Must be a valid http(s) URL' })
+    return ''
+  }
+  return value
+}
+
+// One validator per section type. Each returns a copy that keeps only known
+// fields, so stray keys in a payload never reach the database.
+const contentValidators: { [T in SectionType]: ContentValidator<SectionContentMap[T]> } = {
+  text_list: (content, errors) => ({
+    items: readArray(content, 'items', errors).map(
+      (item, idx) =>
+        readString(item, `content.items[${idx}]`, errors, { required: true, max: MAX_TEXT_LENGTH }) || ''
+    ),
+  }),
+
+  links: (content, errors) => ({
+    links: readArray(content, 'links', errors).map((link, idx) => {
+      const path = `content.links[${idx}]`
+      if (!isObject(link)) {
+        errors.push({ path, message: 'Must be an object' })
+        return { title: '', url: '' }
+      }
+
+      const icon = readString(link.icon, `${path}.icon`, errors, { required: false, max: 50 })
+      return {
+        title: readString(link.title, `${path}.title`, errors, { required: true, max: MAX_TITLE_LENGTH }) || '',
+        url: readUrl(link.url, `${path}.url`, errors),
+        ...(icon ? { icon } : {}),
+      }
+    }),
+  }),
+
+  gallery: (content, errors) => ({
+    images: readArray(content, 'images', errors).map((image, idx) => {
+      const path = `content.images[${idx}]`
+      if (!isObject(image)) {
+        errors.push({ path, message: 'Must be an object' })
+        return { url: '' }
+      }
+
+      const caption = readString(image.caption, `${path}.caption`, errors, {
+        required: false,
+        max: MAX_CAPTION_LENGTH,
+      })
+      // Uploaded images carry a generated thumbnail; pasted URLs don't
+      const thumbnailUrl =
+        image.thumbnail_url === undefined || image.thumbnail_url === ''
+          ? undefined
+          : readUrl(image.thumbnail_url, `${path}.thumbnail_url`, errors)
+      return {
+        url: readUrl(image.url, `${path}.url`, errors),
+        ...(thumbnailUrl ? { thumbnail_url: thumbnailUrl } : {}),
+        ...(caption ? { caption } : {}),
+      }
+    }),
+  }),
+
+  markdown: (content, errors) => {
+    if (!isObject(content)) {
+      errors.push({ path: 'content', message: 'Content must be an object' })
+      return { markdown: '' }
+    }
+
+    return {
+      markdown:
+        readString(content.markdown, 'content.markdown', errors, {
+          required: true,
+          max: MAX_MARKDOWN_LENGTH,
+        }) || '',
+    }
+  },
+
+  embed: (content, errors) => {
+    if (!isObject(content)) {
+      errors.push({ path: 'content', message: 'Content must be an object' })
+      return { url: '' }
+    }
+
+    const url = readString(content.url, 'content.url', errors, { required: true, max: 2000 })
+    if (url && !parseEmbedUrl(url)) {
+      errors.push({
+        path: 'content.url',
+        message: `Must be a ${Object.values(EMBED_PROVIDER_NAMES).join(', ')} link`,
+      })
+    }
+
+    const caption = readString(content.caption, 'content.caption', errors, {
+      required: false,
+      max: MAX_CAPTION_LENGTH,
+    })
+    return {
+      url: url?.trim() || '',
+      ...(caption ? { caption } : {}),
+    }
+  },
+
+  contact_form: (content, errors) => {
+    const listErrors = errors.length
+    const fields = readArray(content, 'fields', errors)
+    if (fields.length > MAX_CONTACT_FIELDS) {
+      errors.push({ path: 'content.fields', message: `At most ${MAX_CONTACT_FIELDS} fields allowed` })
+    } else if (fields.length === 0 && errors.length === listErrors) {
+      errors.push({ path: 'content.fields', message: 'Add at least one field' })
+    }
+
+    const ids = new Set<string>()
+    const intro = isObject(content)
+      ? readString(content.intro, 'content.intro', errors, { required: false, max: MAX_TEXT_LENGTH })
+      : undefined
+
+    return {
+      ...(intro ? { intro } : {}),
+      fields: fields.map((field, idx) => {
+        const path = `content.fields[${idx}]`
+        if (!isObject(field)) {
+          errors.push({ path, message: 'Must be an object' })
+          return { id: '', label: '', type: 'text', required: false }
+        }
+
+        const id = readString(field.id, `${path}.id`, errors, { required: true, max: 40 }) || ''
+        if (id && ids.has(id)) {
+          errors.push({ path: `${path}.id`, message: 'Must be unique' })
+        }
+        ids.add(id)
+
+        if (!isContactFieldType(field.type)) {
+          errors.push({ path: `${path}.type`, message: 'Unknown field type' })
+        }
+
+        return {
+          id,
+          label: readString(field.label, `${path}.label`, errors, { required: true, max: MAX_TITLE_LENGTH }) || '',
+          type: isContactFieldType(field.type) ? field.type : 'text',
+          required: field.required === true,
+        }
+      }),
+    }
+  },
+}
+
+export const SECTION_TYPES = Object.keys(contentValidators) as SectionType[]
+
+export function isSectionType(value: unknown): value is SectionType {
+  return typeof value === 'string' && (SECTION_TYPES as string[]).includes(value)
+}
+
+export function validateSectionContent<T extends SectionType>(
+  type: T,
+  content: unknown
+): ValidationResult<SectionContentMap[T]> {
+  const errors: FieldError[] = []
+  const value = contentValidators[type](content, errors) as SectionContentMap[T]
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, value }
+}
+
+export function validateSectionTitle(title: unknown): FieldError[] {
+  const errors: FieldError[] = []
+  readString(title, 'title', errors, { required: true, max: MAX_TITLE_LENGTH })
+  return errors
+}
+
+// Last millisecond of year 9999; later dates have no plain ISO form
+const MAX_TIMESTAMP = Date.UTC(9999, 11, 31, 23, 59, 59, 999)
+
+function parseTimestamp(value: unknown): number {
+  const time = typeof value === 'string' ? Date.parse(value) : NaN
+  return time >= 0 && time <= MAX_TIMESTAMP ? time : NaN
+}
+
+function readTimestamp(value: unknown, path: string, errors: FieldError[]): number | null {
+  if (value === null || value === undefined || value === '') return null
+
+  const time = parseTimestamp(value)
+  if (Number.isNaN(time)) {
+    errors.push({ path, message: 'Must be a date and time' })
+    return null
+  }
+
+  return time
+}
+
+// publish_at/unpublish_at are optional; when both are set the window must
+// not be empty
+export function validateSectionSchedule(publishAt: unknown, unpublishAt: unknown): FieldError[] {
+  const errors: FieldError[] = []
+  const start = readTimestamp(publishAt, 'publish_at', errors)
+  const end = readTimestamp(unpublishAt, 'unpublish_at', errors)
+
+  if (start !== null && end !== null && end <= start) {
+    errors.push({ path: 'unpublish_at', message: 'Must be after the publish time' })
+  }
+
+  return errors
+}
+
+// A schedule timestamp as an ISO string, or null when it is unset or not a
+// date validateSectionSchedule would accept
+export function normalizeTimestamp(value: unknown): string | null {
+  const time = parseTimestamp(value)
+  return Number.isNaN(time) ? null : new Date(time).toISOString()
+}
+
+// access is optional and defaults to public
+export function validateSectionAccess(access: unknown): FieldError[] {
+  return access === undefined || isAccessMode(access) ? [] : [{ path: 'access', message: 'Unknown access mode' }]
+}
+
+// Best-effort coercion for editors: keeps whatever is usable from stored
+// content so older or malformed rows still open in the dashboard.
+export function normalizeSectionContent(type: SectionType, content: unknown): SectionContent {
+  const source = isObject(content) ? content : {}
+  const list = (key: string) => (Array.isArray(source[key]) ? (source[key] as unknown[]) : [])
+  const text = (value: unknown) => (typeof value === 'string' ? value : '')
+
+  switch (type) {
+    case 'text_list':
+      return { items: list('items').filter((item): item is string => typeof item === 'string') }
+    case 'links':
+      return {
+        links: list('links')
+          .filter(isObject)
+          .map((link) => ({
+            title: text(link.title),
+            url: text(link.url),
+            ...(typeof link.icon === 'string' ? { icon: link.icon } : {}),
+          })),
+      }
+    case 'gallery':
+      return {
+        images: list('images')
+          .filter(isObject)
+          .map((image) => ({
+            url: text(image.url),
+            ...(image.thumbnail_url ? { thumbnail_url: text(image.thumbnail_url) } : {}),
+            caption: text(image.caption),
+          })),
+      }
+    case 'markdown':
+      return { markdown: text(source.markdown) }
+    case 'embed':
+      return { url: text(source.url), caption: text(source.caption) }
+    case 'contact_form':
+      return {
+        intro: text(source.intro),
+        fields: list('fields')
+          .filter(isObject)
+          .map((field) => ({
+            id: text(field.id),
+            label: text(field.label),
+            type: isContactFieldType(field.type) ? field.type : 'text',
+            required: field.required === true,
+          })),
+      }
+  }
+}
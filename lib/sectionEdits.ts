@@ -0,0 +1,148 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { canEditProfile, getProfileRole } from './permissions'
+import { recordRevision } from './revisions'
+import { cleanupGalleryUploads } from './storage'
+import {
+  FieldError,
+  isSectionType,
+  validateSectionAccess,
+  validateSectionContent,
+  validateSectionSchedule,
+  validateSectionTitle,
+} from './sectionContent'
+
+// Editing and deleting a draft section, shared by the dashboard routes and
+// /api/v1 so both follow the same rules. Results are plain status and body
+// pairs; each caller wraps them in its own response type.
+
+export interface SectionEditResult {
+  status: number
+  body: unknown
+}
+
+function invalidSection(errors: FieldError[]): SectionEditResult {
+  return { status: 422, body: { error: 'Invalid section', errors } }
+}
+
+async function editableSection(supabase: SupabaseClient, id: unknown) {
+  const { data: section } = await supabase
+    .from('draft_sections')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle()
+
+  if (!section) {
+    return { error: { status: 404, body: { error: 'Section not found' } } }
+  }
+
+  // Verify the caller can edit the profile
+  const role = await getProfileRole(supabase, section.profile_id)
+
+  if (!canEditProfile(role)) {
+    return { error: { status: 403, body: { error: 'Unauthorized' } } }
+  }
+
+  return { section }
+}
+
+// Apply the fields present in `changes`. The type never changes, content is
+// validated against it, and the previous state is kept as a revision so the
+// save can be undone from the history drawer.
+export async function updateDraftSection(
+  supabase: SupabaseClient,
+  userId: string,
+  id: unknown,
+  changes: Record<string, unknown>
+): Promise<SectionEditResult> {
+  const { section, error: lookupError } = await editableSection(supabase, id)
+  if (lookupError) return lookupError
+
+  const { title, content, visible, access, publish_at, unpublish_at } = changes
+  const errors: FieldError[] = title !== undefined ? validateSectionTitle(title) : []
+
+  // Omitted schedule fields keep their stored value; null clears them
+  const nextPublishAt = publish_at === undefined ? section.publish_at : publish_at || null
+  const nextUnpublishAt = unpublish_at === undefined ? section.unpublish_at : unpublish_at || null
+  errors.push(...validateSectionSchedule(nextPublishAt, nextUnpublishAt))
+  errors.push(...validateSectionAccess(access))
+  let validatedContent
+
+  if (content !== undefined) {
+    if (!isSectionType(section.type)) {
+      return invalidSection([{ path: 'type', message: 'Unknown section type' }])
+    }
+
+    const contentResult = validateSectionContent(section.type, content)
+    if (contentResult.ok) {
+      validatedContent = contentResult.value
+    } else {
+      errors.push(...contentResult.errors)
+    }
+  }
+
+  if (errors.length > 0) {
+    return invalidSection(errors)
+  }
+
+  const { error: revisionError } = await recordRevision(supabase, section, 'update', userId)
+
+  if (revisionError) {
+    return { status: 500, body: { error: revisionError.message } }
+  }
+
+  const { data: updatedSection, error } = await supabase
+    .from('draft_sections')
+    .update({
+      title,
+      content: validatedContent,
+      visible,
+      access,
+      publish_at: nextPublishAt,
+      unpublish_at: nextUnpublishAt,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', section.id)
+    .select()
+    .single()
+
+  if (error) {
+    return { status: 500, body: { error: error.message } }
+  }
+
+  if (section.type === 'gallery' && validatedContent !== undefined) {
+    await cleanupGalleryUploads(supabase, section.profile_id)
+  }
+
+  return { status: 200, body: updatedSection }
+}
+
+// Delete a draft section. Its last revision is what undelete restores.
+export async function deleteDraftSection(
+  supabase: SupabaseClient,
+  userId: string,
+  id: unknown
+): Promise<SectionEditResult> {
+  const { section, error: lookupError } = await editableSection(supabase, id)
+  if (lookupError) return lookupError
+
+  const { error: revisionError } = await recordRevision(supabase, section, 'delete', userId)
+
+  if (revisionError) {
+    return { status: 500, body: { error: revisionError.message } }
+  }
+
+  const { error } = await supabase
+    .from('draft_sections')
+    .delete()
+    .eq('id', section.id)
+
+  if (error) {
+    return { status: 500, body: { error: error.message } }
+  }
+
+  if (section.type === 'gallery') {
+    await cleanupGalleryUploads(supabase, section.profile_id)
+  }
+
+  return { status: 200, body: { success: true } }
+}
@@ -0,0 +1,62 @@
+import { headers } from 'next/headers'
+import { Profile, Section } from './types'
+import { isHttpUrl } from './sectionContent'
+import { fallbackRenditionUrl } from './storage'
+import { normalizeHostname } from './domains'
+
+const MAX_DESCRIPTION_LENGTH = 200
+
+// Origin and hostname the current request came in on, which may be a custom
+// domain. Server-only.
+export function requestOrigin(): { origin: string; hostname: string } {
+  const requestHeaders = headers()
+  const host = requestHeaders.get('x-forwarded-host') || requestHeaders.get('host') || 'localhost'
+  const hostname = normalizeHostname(host)
+  const protocol =
+    requestHeaders.get('x-forwarded-proto') || (hostname === 'localhost' || hostname === '127.0.0.1' ? 'http' : 'https')
+
+  return { origin: `${protocol}://${host}`, hostname }
+}
+
+export function profileTitle(profile: Profile): string {
+  return profile.display_name ? `${profile.display_name} (@${profile.username})` : `@${profile.username}`
+}
+
+// Bio flattened to one line and cut at a word boundary for meta tags
+export function profileDescription(profile: Profile): string {
+  const bio = (profile.bio || '').replace(/\s+/g, ' ').trim()
+  if (!bio) return `${profile.display_name || profile.username} on Selfbook`
+  if (bio.length <= MAX_DESCRIPTION_LENGTH) return bio
+
+  const cut = bio.slice(0, MAX_DESCRIPTION_LENGTH - 1)
+  return `${cut.slice(0, cut.lastIndexOf(' ') > 0 ? cut.lastIndexOf(' ') : cut.length)}…`
+}
+
+// Every URL listed in the profile's links sections, in order, without repeats
+export function profileLinks(sections: Section[]): string[] {
+  const urls = sections.flatMap((section) =>
+    section.type === 'links' ? (section.content.links || []).map((link) => link.url) : []
+  )
+  return Array.from(new Set(urls.filter((url) => isHttpUrl(url))))
+}
+
+// schema.org/Person for search engines; links become sameAs
+export function personJsonLd(profile: Profile, sections: Section[], url: string) {
+  const sameAs = profileLinks(sections)
+
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'Person',
+    name: profile.display_name || profile.username,
+    alternateName: `@${profile.username}`,
+    url,
+    ...(profile.bio ? { description: profile.bio } : {}),
+    ...(profile.avatar_url ? { image: fallbackRenditionUrl(profile.avatar_url) || profile.avatar_url } : {}),
+    ...(sameAs.length > 0 ? { sameAs } : {}),
+  }
+}
+
+// JSON for a <script> tag; "<" is escaped so a bio can't close the tag early
+export function serializeJsonLd(data: object): string {
+  return JSON.stringify(data).replace(/</g, '\\u003c')
+}
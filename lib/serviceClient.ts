@@ -0,0 +1,16 @@
+import { createClient } from '@supabase/supabase-js'
+
+// A database client that bypasses RLS, for the writes no signed-in user may
+// make directly. Server-only. Null when SUPABASE_SERVICE_ROLE_KEY is not set,
+// so callers can answer 501 instead of failing halfway.
+export function createServiceClient() {
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+  if (!serviceKey) {
+    return null
+  }
+
+  return createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, serviceKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  })
+}
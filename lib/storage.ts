@@ -0,0 +1,158 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { GalleryContent } from './types'
+
+// Supabase Storage bucket holding every uploaded profile asset
+export const STORAGE_BUCKET = 'Profiles'
+
+// Files older than this are eligible for cleanup; younger ones may belong to
+// an edit that hasn't been saved yet
+const CLEANUP_GRACE_MS = 24 * 60 * 60 * 1000
+
+// How long section revisions keep their gallery images alive. Revisions are
+// never pruned, so protecting files for every one of them would mean no
+// gallery upload is ever deleted. Restoring an older revision may bring back
+// links to images that have since been removed.
+const REVISION_IMAGE_RETENTION_MS = 30 * 24 * 60 * 60 * 1000
+
+export function galleryFolder(profileId: string): string {
+  return `profiles/${profileId}/gallery`
+}
+
+// Processed avatar and banner renditions
+export function profileImageFolder(profileId: string): string {
+  return `profiles/${profileId}/images`
+}
+
+// Object path inside the bucket for one of our public URLs, or null for
+// images hosted anywhere else
+export function storagePathFromUrl(url: string | null | undefined): string | null {
+  if (!url) return null
+  const marker = `/storage/v1/object/public/${STORAGE_BUCKET}/`
+  const idx = url.indexOf(marker)
+  if (idx === -1) return null
+  return decodeURIComponent(url.slice(idx + marker.length).split('?')[0])
+}
+
+// Processed avatars and banners are stored as WebP with a JPEG next to it.
+// Returns the JPEG for one of those, or null for any other image.
+export function fallbackRenditionUrl(url: string | null | undefined): string | null {
+  const path = storagePathFromUrl(url)
+  if (!url || !path || !/^profiles\/[^/]+\/images\/.+\.webp$/.test(path)) return null
+  return url.replace(/\.webp(\?.*)?$/, '.jpg$1')
+}
+
+async function listFolder(supabase: SupabaseClient, folder: string) {
+  const { data: files, error } = await supabase.storage.from(STORAGE_BUCKET).list(folder, { limit: 1000 })
+  if (error) throw error
+  return files || []
+}
+
+// Delete files in a folder that aren't in `referenced` and are past the grace
+// period. Failures are logged and swallowed; a missed sweep is retried next time.
+async function sweepFolder(
+  supabase: SupabaseClient,
+  folder: string,
+  referenced: Set<string>
+) {
+  try {
+    const cutoff = Date.now() - CLEANUP_GRACE_MS
+    const stale = (await listFolder(supabase, folder))
+      .filter((file) => !file.created_at || new Date(file.created_at).getTime() < cutoff)
+      .map((file) => `${folder}/${file.name}`)
+      .filter((path) => !referenced.has(path))
+
+    if (stale.length > 0) {
+      const { error } = await supabase.storage.from(STORAGE_BUCKET).remove(stale)
+      if (error) throw error
+    }
+  } catch (err) {
+    console.error(`Failed to clean up ${folder}:`, err)
+  }
+}
+
+// Remove gallery uploads that neither the draft, the published sections, a
+// recent section revision nor a saved template reference any more, so undoing
+// a recent edit or adding a template doesn't bring back links to deleted
+// images. Nothing is removed unless every reference could be read.
+export async function cleanupGalleryUploads(supabase: SupabaseClient, profileId: string) {
+  const revisionCutoff = new Date(Date.now() - REVISION_IMAGE_RETENTION_MS).toISOString()
+  const results = await Promise.all([
+    supabase.from('draft_sections').select('content').eq('profile_id', profileId).eq('type', 'gallery'),
+    supabase.from('sections').select('content').eq('profile_id', profileId).eq('type', 'gallery'),
+    supabase
+      .from('section_revisions')
+      .select('content')
+      .eq('profile_id', profileId)
+      .eq('type', 'gallery')
+      .gte('created_at', revisionCutoff),
+    // Templates are private to their account, so other editors' are read
+    // through a function that only returns ones pointing into this profile
+    supabase.rpc('gallery_template_content', { p_profile_id: profileId }),
+  ])
+
+  const failed = results.find((result) => result.error)
+  if (failed) {
+    console.error(`Skipped cleaning up ${galleryFolder(profileId)}:`, failed.error)
+    return
+  }
+
+  const referenced = new Set<string>()
+  for (const row of results.flatMap((result) => (result.data || []) as { content: GalleryContent }[])) {
+    for (const image of row.content.images || []) {
+      for (const url of [image.url, image.thumbnail_url]) {
+        const path = storagePathFromUrl(url)
+        if (path) referenced.add(path)
+      }
+    }
+  }
+
+  await sweepFolder(supabase, galleryFolder(profileId), referenced)
+}
+
+// Remove avatar and banner renditions that neither the draft nor the
+// published profile points at any more. Like the gallery sweep, nothing is
+// removed unless both could be read.
+export async function cleanupProfileImages(supabase: SupabaseClient, profileId: string) {
+  const [
+    { data: profile, error: profileError },
+    { data: draft, error: draftError },
+  ] = await Promise.all([
+    supabase.from('profiles').select('avatar_url, banner_url').eq('id', profileId).maybeSingle(),
+    supabase.from('profile_drafts').select('avatar_url, banner_url').eq('profile_id', profileId).maybeSingle(),
+  ])
+
+  if (profileError || draftError || !profile) {
+    console.error(`Skipped cleaning up ${profileImageFolder(profileId)}:`, profileError || draftError)
+    return
+  }
+
+  const referenced = new Set<string>()
+  for (const row of [profile, draft]) {
+    for (const url of [row?.avatar_url, row?.banner_url]) {
+      for (const path of [storagePathFromUrl(url), storagePathFromUrl(fallbackRenditionUrl(url))]) {
+        if (path) referenced.add(path)
+      }
+    }
+  }
+
+  await sweepFolder(supabase, profileImageFolder(profileId), referenced)
+}
+
+// Remove every upload of a profile. Call before deleting the profile, while
+// the storage policies still recognise the caller as an editor.
+export async function removeProfileUploads(supabase: SupabaseClient, profileId: string) {
+  for (const folder of [galleryFolder(profileId), profileImageFolder(profileId)]) {
+    try {
+      const files = await listFolder(supabase, folder)
+
+      if (files.length > 0) {
+        const { error } = await supabase.storage
+          .from(STORAGE_BUCKET)
+          .remove(files.map((file) => `${folder}/${file.name}`))
+        if (error) throw error
+      }
+    } catch (err) {
+      console.error(`Failed to remove ${folder}:`, err)
+    }
+  }
+}
@@ -0,0 +1,139 @@
+import { SectionContentMap, SectionType } from './types'
+
+// Ready-made sections for the dashboard's Add Section menu, and the starter
+// layouts new accounts can pick at signup. Content here must pass
+// validateSectionContent, since it is saved through /api/sections.
+
+export type SectionPreset = {
+  [T in SectionType]: {
+    id: string
+    name: string
+    description: string
+    // Title the new section starts with
+    title: string
+    type: T
+    content: SectionContentMap[T]
+  }
+}[SectionType]
+
+// The simplest valid section of each type
+export const BLANK_PRESETS: SectionPreset[] = [
+  { id: 'text_list', name: 'Text List', description: 'A simple list', title: 'List', type: 'text_list', content: { items: [] } },
+  { id: 'links', name: 'Links', description: 'Buttons to other pages', title: 'Links', type: 'links', content: { links: [] } },
+  { id: 'gallery', name: 'Gallery', description: 'Images with captions', title: 'Gallery', type: 'gallery', content: { images: [] } },
+  {
+    id: 'markdown',
+    name: 'Markdown',
+    description: 'Formatted text',
+    title: 'Text',
+    type: 'markdown',
+    content: { markdown: 'Write something here.' },
+  },
+  {
+    id: 'embed',
+    name: 'Media Embed',
+    description: 'A video, song or playlist',
+    title: 'Media',
+    type: 'embed',
+    content: { url: 'https://vimeo.com/76979871' },
+  },
+  {
+    id: 'contact_form',
+    name: 'Contact Form',
+    description: 'Messages land in your inbox',
+    title: 'Contact',
+    type: 'contact_form',
+    content: {
+      fields: [
+        { id: 'name', label: 'Name', type: 'text', required: true },
+        { id: 'email', label: 'Email', type: 'email', required: true },
+        { id: 'message', label: 'Message', type: 'textarea', required: true },
+      ],
+    },
+  },
+]
+
+export const SECTION_PRESETS: SectionPreset[] = [
+  {
+    id: 'about',
+    name: 'About',
+    description: 'A short introduction',
+    title: 'About',
+    type: 'markdown',
+    content: { markdown: "## Hi, I'm …\n\nA sentence or two about who you are and what you care about." },
+  },
+  {
+    id: 'socials',
+    name: 'Socials',
+    description: 'Where else to find you',
+    title: 'Socials',
+    type: 'links',
+    content: {
+      links: [
+        { title: 'X', url: 'https://x.com/' },
+        { title: 'Instagram', url: 'https://www.instagram.com/' },
+        { title: 'GitHub', url: 'https://github.com/' },
+        { title: 'LinkedIn', url: 'https://www.linkedin.com/' },
+      ],
+    },
+  },
+  {
+    id: 'now',
+    name: 'Now',
+    description: "What you're focused on these days",
+    title: 'Now',
+    type: 'markdown',
+    content: {
+      markdown:
+        "## What I'm doing now\n\n- **Working on** …\n- **Reading** …\n- **Learning** …\n\n" +
+        '*A [now page](https://nownownow.com/about) — update it whenever life changes.*',
+    },
+  },
+  {
+    id: 'portfolio',
+    name: 'Portfolio',
+    description: 'A gallery of your work',
+    title: 'Portfolio',
+    type: 'gallery',
+    content: { images: [] },
+  },
+  {
+    id: 'projects',
+    name: 'Projects',
+    description: 'Links to things you made',
+    title: 'Projects',
+    type: 'links',
+    content: { links: [] },
+  },
+  {
+    id: 'favorites',
+    name: 'Favorites',
+    description: 'Books, albums, tools you love',
+    title: 'Favorites',
+    type: 'text_list',
+    content: { items: [] },
+  },
+]
+
+export interface StarterLayout {
+  id: string
+  name: string
+  description: string
+  // SECTION_PRESETS or BLANK_PRESETS IDs, in order
+  presets: string[]
+}
+
+export const STARTER_LAYOUTS: StarterLayout[] = [
+  { id: 'blank', name: 'Blank', description: 'Start from nothing', presets: [] },
+  { id: 'personal', name: 'Personal', description: 'About, socials and a now page', presets: ['about', 'socials', 'now'] },
+  { id: 'creative', name: 'Creative', description: 'Show your work and take enquiries', presets: ['about', 'portfolio', 'contact_form'] },
+  { id: 'developer', name: 'Developer', description: 'Projects, links and what you are hacking on', presets: ['about', 'projects', 'socials', 'now'] },
+]
+
+export function getPreset(id: string): SectionPreset | undefined {
+  return SECTION_PRESETS.find((p) => p.id === id) || BLANK_PRESETS.find((p) => p.id === id)
+}
+
+export function getStarterLayout(id: unknown): StarterLayout | undefined {
+  return STARTER_LAYOUTS.find((layout) => layout.id === id)
+}
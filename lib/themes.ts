@@ -0,0 +1,135 @@
+export interface Theme {
+  id: string
+  name: string
+  description: string
+  // Tailwind class strings, kept complete so the JIT compiler can find them
+  page: string
+  headingFont: string
+  bodyFont: string
+  border: string
+  borderHover: string
+  textMuted: string
+  textSubtle: string
+  accent: string
+  bannerFallback: string
+  avatar: string
+  tabActive: string
+  tabInactive: string
+  buttonShape: string
+  cardShape: string
+  swatch: string[]
+}
+
+export const DEFAULT_THEME_ID = 'default'
+
+export const THEMES: Theme[] = [
+  {
+    id: 'default',
+    name: 'Noir',
+    description: 'The classic black Selfbook look',
+    page: 'bg-black text-white',
+    headingFont: 'font-serif',
+    bodyFont: 'font-sans',
+    border: 'border-gray-800',
+    borderHover: 'hover:border-gray-700',
+    textMuted: 'text-gray-400',
+    textSubtle: 'text-gray-300',
+    accent: 'text-white',
+    bannerFallback: 'bg-gradient-to-r from-gray-900 via-gray-800 to-gray-900',
+    avatar: 'bg-black border-black',
+    tabActive: 'bg-white text-black',
+    tabInactive: 'border border-gray-800 text-gray-400 hover:border-gray-700 hover:text-white',
+    buttonShape: 'rounded-lg',
+    cardShape: 'rounded-none',
+    swatch: ['#000000', '#1f2937', '#ffffff'],
+  },
+  {
+    id: 'paper',
+    name: 'Paper',
+    description: 'Light, airy and bookish',
+    page: 'bg-stone-50 text-stone-900',
+    headingFont: 'font-serif',
+    bodyFont: 'font-serif',
+    border: 'border-stone-300',
+    borderHover: 'hover:border-stone-500',
+    textMuted: 'text-stone-500',
+    textSubtle: 'text-stone-700',
+    accent: 'text-stone-900',
+    bannerFallback: 'bg-gradient-to-r from-stone-200 via-stone-100 to-stone-200',
+    avatar: 'bg-stone-50 border-stone-50',
+    tabActive: 'bg-stone-900 text-stone-50',
+    tabInactive: 'border border-stone-300 text-stone-600 hover:border-stone-500 hover:text-stone-900',
+    buttonShape: 'rounded-md',
+    cardShape: 'rounded-md',
+    swatch: ['#fafaf9', '#d6d3d1', '#1c1917'],
+  },
+  {
+    id: 'midnight',
+    name: 'Midnight',
+    description: 'Deep blue with soft pill buttons',
+    page: 'bg-slate-950 text-slate-100',
+    headingFont: 'font-sans',
+    bodyFont: 'font-sans',
+    border: 'border-slate-800',
+    borderHover: 'hover:border-indigo-500',
+    textMuted: 'text-slate-400',
+    textSubtle: 'text-slate-300',
+    accent: 'text-indigo-400',
+    bannerFallback: 'bg-gradient-to-r from-indigo-950 via-slate-900 to-indigo-950',
+    avatar: 'bg-slate-950 border-slate-950',
+    tabActive: 'bg-indigo-500 text-white',
+    tabInactive: 'border border-slate-800 text-slate-400 hover:border-indigo-500 hover:text-slate-100',
+    buttonShape: 'rounded-full',
+    cardShape: 'rounded-xl',
+    swatch: ['#020617', '#1e293b', '#6366f1'],
+  },
+  {
+    id: 'sunset',
+    name: 'Sunset',
+    description: 'Warm tones and rounded cards',
+    page: 'bg-orange-50 text-rose-950',
+    headingFont: 'font-serif',
+    bodyFont: 'font-sans',
+    border: 'border-orange-200',
+    borderHover: 'hover:border-rose-400',
+    textMuted: 'text-rose-700',
+    textSubtle: 'text-rose-900',
+    accent: 'text-rose-600',
+    bannerFallback: 'bg-gradient-to-r from-amber-300 via-orange-400 to-rose-500',
+    avatar: 'bg-orange-50 border-orange-50',
+    tabActive: 'bg-rose-600 text-white',
+    tabInactive: 'border border-orange-200 text-rose-800 hover:border-rose-400 hover:text-rose-950',
+    buttonShape: 'rounded-full',
+    cardShape: 'rounded-2xl',
+    swatch: ['#fff7ed', '#fb923c', '#e11d48'],
+  },
+  {
+    id: 'terminal',
+    name: 'Terminal',
+    description: 'Monospace green-on-black with square edges',
+    page: 'bg-black text-green-400',
+    headingFont: 'font-mono',
+    bodyFont: 'font-mono',
+    border: 'border-green-900',
+    borderHover: 'hover:border-green-500',
+    textMuted: 'text-green-700',
+    textSubtle: 'text-green-500',
+    accent: 'text-green-300',
+    bannerFallback: 'bg-gradient-to-r from-black via-green-950 to-black',
+    avatar: 'bg-black border-green-900',
+    tabActive: 'bg-green-400 text-black',
+    tabInactive: 'border border-green-900 text-green-600 hover:border-green-500 hover:text-green-300',
+    buttonShape: 'rounded-none',
+    cardShape: 'rounded-none',
+    swatch: ['#000000', '#14532d', '#4ade80'],
+  },
+]
+
+export function isThemeId(id: unknown): id is string {
+  return typeof id === 'string' && THEMES.some((t) => t.id === id)
+}
+
+// Unknown or missing ids fall back to the default theme so old rows keep rendering
+export function getTheme(id: string | null | undefined): Theme {
+  return THEMES.find((t) => t.id === id) || THEMES[0]
+}
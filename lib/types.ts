@@ -7,20 +7,170 @@ export interface Profile {
   avatar_url: string | null
   banner_url: string | null
   theme: string
+  // Both apply immediately; neither is part of the draft
+  access: AccessMode
+  in_directory: boolean
+  published_at: string | null
   created_at: string
   updated_at: string
 }
 
-export interface Section {
-  id: string
+// Unpublished profile field edits; see publish_profile() in database_setup.sql
+export interface ProfileDraft {
+  profile_id: string
+  display_name: string | null
+  bio: string | null
+  avatar_url: string | null
+  banner_url: string | null
+  theme: string
+  updated_at: string
+}
+
+// A handle a profile gave up; it redirects to the profile's current username
+export interface UsernameHistoryEntry {
+  username: string
   profile_id: string
+  released_at: string
+}
+
+// Who may see a profile or section; see "Access modes" in database_setup.sql
+export type AccessMode = 'public' | 'unlisted' | 'password' | 'signed_in'
+
+// A live section the visitor can't open yet; only its title is revealed
+export interface LockedSection {
+  id: string
   title: string
-  type: 'text_list' | 'links' | 'gallery'
-  content: Record<string, any>
+  access: AccessMode
   position: number
-  visible: boolean
-  created_at: string
+}
+
+export interface FollowCounts {
+  followers: number
+  following: number
+}
+
+// A recently updated section from a followed profile
+export interface FeedItem {
+  section_id: string
+  title: string
+  type: SectionType
   updated_at: string
+  profile_id: string
+  username: string
+  display_name: string | null
+  avatar_url: string | null
+}
+
+// A profile as listed on /explore
+export type DirectoryProfile = Pick<Profile, 'id' | 'username' | 'display_name' | 'bio' | 'avatar_url'>
+
+export type ProfileImageKind = 'avatar' | 'banner'
+
+export type ProfileRole = 'owner' | 'editor' | 'viewer'
+
+// A profile as listed for the signed-in user, with their access level
+export interface MemberProfile extends Profile {
+  role: ProfileRole
+}
+
+export interface ProfileMember {
+  id: string
+  profile_id: string
+  user_id: string | null
+  email: string
+  role: ProfileRole
+  // Only listed for pending invitations, and only to owners
+  invite_token?: string
+  invited_by: string | null
+  accepted_at: string | null
+  created_at: string
+}
+
+export interface Domain {
+  id: string
+  profile_id: string
+  hostname: string
+  verification_token: string
+  verified_at: string | null
+  created_at: string
+}
+
+export type ApiScope = 'profile:read' | 'profile:write' | 'sections:read' | 'sections:write' | 'publish'
+
+// A personal access token as listed in the dashboard; the hash never leaves the server
+export interface ApiToken {
+  id: string
+  profile_id: string | null
+  name: string
+  token_prefix: string
+  scopes: ApiScope[]
+  expires_at: string | null
+  last_used_at: string | null
+  revoked_at: string | null
+  created_at: string
+}
+
+export type WebhookEvent =
+  | 'profile.updated'
+  | 'section.created'
+  | 'section.updated'
+  | 'section.deleted'
+  | 'section.reordered'
+
+export interface Webhook {
+  id: string
+  profile_id: string
+  url: string
+  secret: string
+  events: WebhookEvent[]
+  active: boolean
+  created_at: string
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed'
+
+export interface WebhookDelivery {
+  id: string
+  webhook_id: string
+  profile_id: string
+  // A WebhookEvent, or 'ping' for test deliveries
+  event: string
+  payload: Record<string, unknown>
+  status: WebhookDeliveryStatus
+  attempts: number
+  next_attempt_at: string
+  last_status_code: number | null
+  last_error: string | null
+  delivered_at: string | null
+  created_at: string
+}
+
+// A submitted field, labelled as the form read when the visitor sent it
+export interface MessageField {
+  label: string
+  value: string
+}
+
+// A contact form submission; see "Contact messages" in database_setup.sql
+export interface Message {
+  id: string
+  profile_id: string
+  section_id: string | null
+  fields: MessageField[]
+  // The first email field's value, for replying
+  reply_to: string | null
+  read_at: string | null
+  archived_at: string | null
+  created_at: string
+}
+
+export type AnalyticsEventType = 'page_view' | 'section_view' | 'link_click'
+
+export interface ProfileAnalytics {
+  daily_views: { day: string; views: number }[]
+  top_links: { url: string; clicks: number }[]
+  top_referrers: { referrer: string; views: number }[]
+  section_views: { section_id: string; title: string; views: number }[]
 }
 
 export interface TextListItem {
@@ -34,6 +184,111 @@ export interface LinkItem {
 }
 
 export interface GalleryImage {
+  url: string
+  thumbnail_url?: string
+  caption?: string
+}
+
+export interface TextListContent {
+  items: string[]
+}
+
+export interface LinksContent {
+  links: LinkItem[]
+}
+
+export interface GalleryContent {
+  images: GalleryImage[]
+}
+
+export interface MarkdownContent {
+  markdown: string
+}
+
+export interface EmbedContent {
   url: string
   caption?: string
 }
+
+export type ContactFieldType = 'text' | 'email' | 'textarea'
+
+export interface ContactFormField {
+  // Stable key that submitted values are sent under
+  id: string
+  label: string
+  type: ContactFieldType
+  required: boolean
+}
+
+export interface ContactFormContent {
+  intro?: string
+  fields: ContactFormField[]
+}
+
+// Maps each section type to the shape of its JSONB `content` column
+export interface SectionContentMap {
+  text_list: TextListContent
+  links: LinksContent
+  gallery: GalleryContent
+  markdown: MarkdownContent
+  embed: EmbedContent
+  contact_form: ContactFormContent
+}
+
+export type SectionType = keyof SectionContentMap
+
+export type SectionContent = SectionContentMap[SectionType]
+
+interface SectionBase {
+  id: string
+  profile_id: string
+  title: string
+  position: number
+  visible: boolean
+  access: AccessMode
+  // Optional window in which visitors see the section
+  publish_at: string | null
+  unpublish_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+export type SectionOf<T extends SectionType> = SectionBase & {
+  type: T
+  content: SectionContentMap[T]
+}
+
+export type Section = { [T in SectionType]: SectionOf<T> }[SectionType]
+
+export type RevisionAction = 'update' | 'delete' | 'restore'
+
+// Immutable snapshot of a section taken just before it was overwritten
+export interface SectionRevision {
+  id: number
+  section_id: string
+  profile_id: string
+  action: RevisionAction
+  title: string
+  type: SectionType
+  content: SectionContent
+  position: number
+  visible: boolean
+  access: AccessMode
+  publish_at: string | null
+  unpublish_at: string | null
+  created_by: string | null
+  created_at: string
+}
+
+// A section an account saved for reuse; see "Section templates" in database_setup.sql
+export type SectionTemplate = {
+  [T in SectionType]: {
+    id: string
+    user_id: string
+    name: string
+    title: string
+    type: T
+    content: SectionContentMap[T]
+    created_at: string
+  }
+}[SectionType]
@@ -0,0 +1,40 @@
+import { createServerComponentClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+
+// Server-only: the cookie that remembers which password-protected profiles
+// and sections a visitor has unlocked
+
+export const UNLOCK_COOKIE = 'selfbook_unlock'
+
+// Matches the token lifetime in unlock_access()
+export const UNLOCK_MAX_AGE = 30 * 24 * 60 * 60
+
+// Read by access_unlocked() in the database
+const UNLOCK_HEADER = 'x-selfbook-unlock'
+
+const MAX_UNLOCK_TOKENS = 20
+
+// Tokens are "<target_id>.<expiry>.<hmac>". Only the database can check the
+// signature; expired ones are dropped here to keep the cookie small.
+function liveTokens(value: string | undefined): string[] {
+  const now = Date.now() / 1000
+  return (value || '').split(',').filter((token) => Number(token.split('.')[1]) > now)
+}
+
+// The cookie value with `token` added, replacing any older token for the same target
+export function addUnlockToken(value: string | undefined, token: string): string {
+  const target = token.split('.')[0]
+  return [...liveTokens(value).filter((t) => t.split('.')[0] !== target), token].slice(-MAX_UNLOCK_TOKENS).join(',')
+}
+
+// Request headers that let row level security see the visitor's unlocks
+export function unlockHeaders(): Record<string, string> {
+  const tokens = liveTokens(cookies().get(UNLOCK_COOKIE)?.value)
+  return tokens.length > 0 ? { [UNLOCK_HEADER]: tokens.join(',') } : {}
+}
+
+// A client that reads as the current visitor: their session, for signed-in
+// only content, plus whatever they have unlocked
+export function createVisitorClient() {
+  return createServerComponentClient({ cookies }, { options: { global: { headers: unlockHeaders() } } })
+}
@@ -0,0 +1,56 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+export const USERNAME_MIN_LENGTH = 3
+export const USERNAME_MAX_LENGTH = 20
+
+// Top-level app routes; a profile with one of these names could never be reached
+const RESERVED_USERNAMES = ['api', 'auth', 'dashboard', 'explore', 'invite', 'login', 'signup']
+
+// Returns an error message, or null when the username is acceptable
+export function validateUsername(username: string): string | null {
+  if (username.length < USERNAME_MIN_LENGTH || username.length > USERNAME_MAX_LENGTH) {
+    return `Username must be ${USERNAME_MIN_LENGTH}-${USERNAME_MAX_LENGTH} characters`
+  }
+
+  if (!/^[a-zA-Z0-9_]+$/.test(username)) {
+    return 'Username can only contain letters, numbers, and underscores'
+  }
+
+  if (RESERVED_USERNAMES.includes(username.toLowerCase())) {
+    return 'That username is reserved'
+  }
+
+  return null
+}
+
+// A profile may change its username once per cooldown. The handle it gives up
+// keeps redirecting to the new one and stays reserved for it for the hold
+// period. database_setup.sql enforces the same intervals.
+export const USERNAME_CHANGE_COOLDOWN_DAYS = 30
+export const USERNAME_HOLD_DAYS = 90
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// When a profile whose last rename was at `lastChangedAt` may rename again;
+// null when it may do so now
+export function nextUsernameChange(lastChangedAt: string | null, now = new Date()): Date | null {
+  if (!lastChangedAt) return null
+
+  const next = new Date(new Date(lastChangedAt).getTime() + USERNAME_CHANGE_COOLDOWN_DAYS * DAY_MS)
+  return next > now ? next : null
+}
+
+// Whether a username is free for the given profile, or for a new profile when
+// profileId is omitted. Handles held for another profile count as taken.
+export async function isUsernameAvailable(
+  supabase: SupabaseClient,
+  username: string,
+  profileId?: string
+) {
+  const { data, error } = await supabase.rpc('username_available', {
+    p_username: username.toLowerCase(),
+    p_profile_id: profileId ?? null,
+  })
+
+  return { available: data === true, error }
+}
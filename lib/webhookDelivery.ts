@@ -0,0 +1,210 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { lookup } from 'dns'
+import { request as httpRequest } from 'http'
+import { request as httpsRequest } from 'https'
+import { BlockList, LookupFunction } from 'net'
+import { createServiceClient } from './serviceClient'
+import { WebhookEvent } from './types'
+import {
+  ALLOW_LOCAL_WEBHOOKS,
+  DELIVERY_HEADER,
+  EVENT_HEADER,
+  MAX_WEBHOOK_ATTEMPTS,
+  SIGNATURE_HEADER,
+  webhookUrlError,
+} from './webhooks'
+
+// Server-only: sending queued webhook deliveries
+
+const DELIVERY_TIMEOUT_MS = 5000
+
+// The only failure messages stored; system errors can name internal hosts
+const TIMED_OUT = 'Timed out'
+const NOT_PUBLIC = 'Not a public address'
+
+// Addresses a delivery may never connect to: loopback, private, link-local
+// (cloud metadata), carrier-grade NAT, multicast and reserved ranges
+const PRIVATE_ADDRESSES = new BlockList()
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 3],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv4')
+}
+for (const [network, prefix] of [
+  ['::', 127],
+  ['::ffff:0:0', 96],
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv6')
+}
+
+// DNS lookup for outgoing connections that fails unless every address the
+// hostname resolves to is public. The connection uses the checked address,
+// so the name can't be re-pointed at an internal host in between.
+const publicLookup = ((hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) return callback(err, '', 0)
+
+    const blocked = addresses.some((entry) =>
+      PRIVATE_ADDRESSES.check(entry.address, entry.family === 6 ? 'ipv6' : 'ipv4')
+    )
+    if (blocked || addresses.length === 0) {
+      return callback(new Error(NOT_PUBLIC), '', 0)
+    }
+
+    if (options.all) {
+      callback(null, addresses)
+    } else {
+      callback(null, addresses[0].address, addresses[0].family)
+    }
+  })
+}) as LookupFunction
+
+// One row from claim_webhook_deliveries(), already signed by the database
+interface ClaimedDelivery {
+  delivery_id: string
+  target_url: string
+  event_name: string
+  sent_at: string
+  body: string
+  signature: string
+}
+
+// POST the delivery and resolve with the response status. Redirects are never
+// followed, so a 3xx counts as a failure rather than resending the payload
+// elsewhere. Nothing the receiver sends back is kept.
+function post(delivery: ClaimedDelivery): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const url = new URL(delivery.target_url)
+    const request = (url.protocol === 'https:' ? httpsRequest : httpRequest)(
+      url,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Content-Length': Buffer.byteLength(delivery.body),
+          'User-Agent': 'Selfbook-Webhooks/1.0',
+          [EVENT_HEADER]: delivery.event_name,
+          [DELIVERY_HEADER]: delivery.delivery_id,
+          [SIGNATURE_HEADER]: `t=${delivery.sent_at},v1=${delivery.signature}`,
+        },
+        lookup: ALLOW_LOCAL_WEBHOOKS ? undefined : publicLookup,
+        timeout: DELIVERY_TIMEOUT_MS,
+      },
+      (response) => {
+        response.resume()
+        resolve(response.statusCode ?? 0)
+      }
+    )
+
+    request.on('timeout', () => request.destroy(new Error(TIMED_OUT)))
+    request.on('error', (err) => {
+      const known = err.message === TIMED_OUT || err.message === NOT_PUBLIC
+      reject(new Error(known ? err.message : 'Connection failed'))
+    })
+    request.end(delivery.body)
+  })
+}
+
+async function send(supabase: SupabaseClient, delivery: ClaimedDelivery) {
+  let statusCode: number | null = null
+  let error: string | null = null
+
+  // Rows written straight to the database were checked by a trigger, but
+  // that check may be looser (see check_webhook_url in database_setup.sql)
+  const urlError = webhookUrlError(delivery.target_url, ALLOW_LOCAL_WEBHOOKS)
+
+  if (urlError) {
+    error = urlError
+  } else {
+    try {
+      statusCode = await post(delivery)
+
+      if (statusCode < 200 || statusCode > 299) {
+        error = `Endpoint responded with ${statusCode}`
+      }
+    } catch (err) {
+      error = err instanceof Error ? err.message : 'Connection failed'
+    }
+  }
+
+  const { error: recordError } = await supabase.rpc('record_webhook_attempt', {
+    p_delivery_id: delivery.delivery_id,
+    p_status_code: statusCode,
+    p_error: error,
+    p_max_attempts: MAX_WEBHOOK_ATTEMPTS,
+  })
+
+  if (recordError) {
+    console.error(`Failed to record webhook delivery ${delivery.delivery_id}:`, recordError)
+  }
+}
+
+// Send the deliveries that are due, for one profile or, with a null profile,
+// for all of them. Claiming signs the payloads, so `supabase` must be a
+// service role client. Returns how many deliveries were attempted.
+export async function deliverDueWebhooks(
+  supabase: SupabaseClient,
+  profileId: string | null,
+  limit = 10
+): Promise<number> {
+  const { data, error } = await supabase.rpc('claim_webhook_deliveries', {
+    p_profile_id: profileId,
+    p_limit: limit,
+  })
+
+  if (error) {
+    console.error('Failed to claim webhook deliveries:', error)
+    return 0
+  }
+
+  const deliveries = (data || []) as ClaimedDelivery[]
+  await Promise.all(deliveries.map((delivery) => send(supabase, delivery)))
+  return deliveries.length
+}
+
+// One delivery pass for a profile on behalf of a signed-in editor. Without
+// SUPABASE_SERVICE_ROLE_KEY nothing is sent here and the queue waits for
+// the cron worker.
+export async function deliverProfileWebhooks(profileId: string): Promise<number> {
+  const service = createServiceClient()
+  return service ? deliverDueWebhooks(service, profileId) : 0
+}
+
+// Queue an event for the profile's subscribed endpoints as the caller, who
+// must be able to edit the profile. Returns how many deliveries were queued.
+// Never throws, so a broken endpoint can't fail the edit that triggered the
+// event.
+export async function enqueueWebhookEvent(
+  supabase: SupabaseClient,
+  profileId: string,
+  event: WebhookEvent | 'ping',
+  data: unknown,
+  webhookId?: string
+): Promise<number> {
+  const { data: queued, error } = await supabase.rpc('enqueue_webhook_event', {
+    p_profile_id: profileId,
+    p_event: event,
+    p_data: data,
+    p_webhook_id: webhookId ?? null,
+  })
+
+  if (error) {
+    console.error(`Failed to queue ${event} webhook:`, error)
+    return 0
+  }
+
+  return (queued as number) || 0
+}
@@ -0,0 +1,74 @@
+import { WebhookEvent } from './types'
+
+// Webhook events, URL rules and the signature format. Kept free of Node APIs
+// so the dashboard can import it; sending lives in webhookDelivery.ts. Events
+// describe what visitors see, so they fire on publish, never on draft saves.
+
+export const WEBHOOK_EVENTS: WebhookEvent[] = [
+  'profile.updated',
+  'section.created',
+  'section.updated',
+  'section.deleted',
+  'section.reordered',
+]
+
+export const WEBHOOK_EVENT_LABELS: Record<WebhookEvent, string> = {
+  'profile.updated': 'Profile details published',
+  'section.created': 'Section published',
+  'section.updated': 'Section change published',
+  'section.deleted': 'Section unpublished',
+  'section.reordered': 'New section order published',
+}
+
+// Sent as "t=<unix seconds>,v1=<hex HMAC-SHA256 of `${t}.${body}`>"
+export const SIGNATURE_HEADER = 'Selfbook-Signature'
+export const EVENT_HEADER = 'Selfbook-Event'
+export const DELIVERY_HEADER = 'Selfbook-Delivery'
+
+export const MAX_WEBHOOK_ATTEMPTS = 8
+
+// Local and plain http receivers are only allowed outside production, for
+// testing with `npm run webhooks:listen`
+export const ALLOW_LOCAL_WEBHOOKS = process.env.NODE_ENV !== 'production'
+
+export function isWebhookEvent(value: unknown): value is WebhookEvent {
+  return typeof value === 'string' && (WEBHOOK_EVENTS as string[]).includes(value)
+}
+
+function isPrivateHost(hostname: string): boolean {
+  return (
+    hostname === 'localhost' ||
+    hostname.endsWith('.localhost') ||
+    hostname.endsWith('.local') ||
+    hostname.endsWith('.internal') ||
+    hostname === '[::1]' ||
+    /^(127|10|0)\./.test(hostname) ||
+    /^192\.168\./.test(hostname) ||
+    /^169\.254\./.test(hostname) ||
+    /^172\.(1[6-9]|2\d|3[01])\./.test(hostname)
+  )
+}
+
+// Why a webhook URL is unacceptable, or null if it is fine
+export function webhookUrlError(value: string, allowLocal: boolean): string | null {
+  let url: URL
+  try {
+    url = new URL(value)
+  } catch {
+    return 'Must be a valid URL'
+  }
+
+  if (url.protocol !== 'https:' && !(allowLocal && url.protocol === 'http:')) {
+    return 'Must be an https:// URL'
+  }
+
+  if (url.username || url.password) {
+    return 'Must not contain credentials'
+  }
+
+  if (!allowLocal && isPrivateHost(url.hostname.toLowerCase())) {
+    return 'Must be a public address'
+  }
+
+  return null
+}
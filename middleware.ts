@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server'
+import type { NextRequest } from 'next/server'
+import { getSupabaseClient } from '@/lib/supabase'
+import { isAppHostname, normalizeHostname } from '@/lib/domains'
+
+// Short-lived per-instance cache so every request doesn't hit the database
+const CACHE_TTL_MS = 60_000
+const domainCache = new Map<string, { username: string | null; expires: number }>()
+
+async function resolveUsername(hostname: string): Promise<string | null> {
+  const cached = domainCache.get(hostname)
+  if (cached && cached.expires > Date.now()) {
+    return cached.username
+  }
+
+  const supabase = getSupabaseClient()
+  // @ts-expect-error - Supabase RPC types are generated at runtime
+  const { data, error } = await supabase.rpc('resolve_domain', { p_hostname: hostname })
+
+  if (error) {
+    console.error('Failed to resolve custom domain:', error)
+    return null
+  }
+
+  const username = typeof data === 'string' ? data : null
+  domainCache.set(hostname, { username, expires: Date.now() + CACHE_TTL_MS })
+  return username
+}
+
+export async function middleware(request: NextRequest) {
+  const hostname = normalizeHostname(request.headers.get('host') || '')
+
+  if (!hostname || isAppHostname(hostname)) {
+    return NextResponse.next()
+  }
+
+  const username = await resolveUsername(hostname)
+
+  if (!username) {
+    return NextResponse.next()
+  }
+
+  // Serve the profile at the root of the custom domain
+  const url = request.nextUrl.clone()
+  url.pathname = `/${username}`
+  return NextResponse.rewrite(url)
+}
+
+export const config = {
+  // Only the root path maps to a profile; assets and API routes pass through
+  matcher: '/',
+}
@@ -0,0 +1,49 @@
+// Local webhook receiver for trying out Selfbook webhooks while developing.
+//
+//   WEBHOOK_SECRET=whsec_... npm run webhooks:listen
+//
+// Then add http://localhost:4000/ as a webhook in the dashboard. Every
+// delivery is printed along with whether its signature checks out. Set
+// WEBHOOK_FAIL=1 to answer 500 and watch the retries back off.
+import { createServer } from 'node:http'
+import { createHmac, timingSafeEqual } from 'node:crypto'
+
+const port = Number(process.env.PORT || 4000)
+const secret = process.env.WEBHOOK_SECRET
+const fail = process.env.WEBHOOK_FAIL === '1'
+
+// Signatures older than this are treated as replays
+const TOLERANCE_SECONDS = 5 * 60
+
+function verify(header, body) {
+  const parts = Object.fromEntries(String(header || '').split(',').map((part) => part.split('=')))
+  if (!parts.t || !parts.v1) return 'missing signature'
+  if (Math.abs(Date.now() / 1000 - Number(parts.t)) > TOLERANCE_SECONDS) return 'timestamp too old'
+
+  const expected = createHmac('sha256', secret).update(`${parts.t}.${body}`).digest()
+  const given = Buffer.from(parts.v1, 'hex')
+  return given.length === expected.length && timingSafeEqual(given, expected) ? null : 'signature mismatch'
+}
+
+createServer((req, res) => {
+  let body = ''
+  req.setEncoding('utf8')
+  req.on('data', (chunk) => (body += chunk))
+  req.on('end', () => {
+    const event = req.headers['selfbook-event']
+    const delivery = req.headers['selfbook-delivery']
+    const problem = secret ? verify(req.headers['selfbook-signature'], body) : 'WEBHOOK_SECRET not set, not verified'
+
+    console.log(`\n${new Date().toISOString()} ${event} (${delivery}) ${problem ? `⚠ ${problem}` : '✓ signed'}`)
+    try {
+      console.log(JSON.stringify(JSON.parse(body), null, 2))
+    } catch {
+      console.log(body)
+    }
+
+    res.writeHead(fail ? 500 : 200, { 'Content-Type': 'text/plain' })
+    res.end(fail ? 'failing on purpose' : 'ok')
+  })
+}).listen(port, () => {
+  console.log(`Listening for webhooks on http://localhost:${port}/`)
+})